@@ -0,0 +1,44 @@
+CREATE TYPE "public"."metal" AS ENUM('gold', 'silver', 'platinum', 'palladium');--> statement-breakpoint
+CREATE TYPE "public"."product_form" AS ENUM('bar', 'coin', 'round');--> statement-breakpoint
+CREATE TABLE "metal" (
+	"id" "metal" PRIMARY KEY NOT NULL,
+	"name" text NOT NULL,
+	"symbol" text NOT NULL,
+	"created_at" timestamp NOT NULL,
+	"updated_at" timestamp NOT NULL,
+	CONSTRAINT "metal_symbol_unique" UNIQUE("symbol")
+);
+--> statement-breakpoint
+CREATE TABLE "product" (
+	"id" text PRIMARY KEY NOT NULL,
+	"slug" text NOT NULL,
+	"sku" text NOT NULL,
+	"name" text NOT NULL,
+	"description" text,
+	"metal" "metal" NOT NULL,
+	"form" "product_form" NOT NULL,
+	"mint" text NOT NULL,
+	"fine_weight_oz" numeric(12, 6) NOT NULL,
+	"purity" numeric(5, 4) NOT NULL,
+	"created_at" timestamp NOT NULL,
+	"updated_at" timestamp NOT NULL,
+	CONSTRAINT "product_slug_unique" UNIQUE("slug"),
+	CONSTRAINT "product_sku_unique" UNIQUE("sku")
+);
+--> statement-breakpoint
+CREATE TABLE "product_image" (
+	"id" text PRIMARY KEY NOT NULL,
+	"product_id" text NOT NULL,
+	"url" text NOT NULL,
+	"alt" text,
+	"position" integer DEFAULT 0 NOT NULL,
+	"created_at" timestamp NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "product" ADD CONSTRAINT "product_metal_metal_id_fk" FOREIGN KEY ("metal") REFERENCES "public"."metal"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "product_image" ADD CONSTRAINT "product_image_product_id_product_id_fk" FOREIGN KEY ("product_id") REFERENCES "public"."product"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+INSERT INTO "metal" ("id", "name", "symbol", "created_at", "updated_at") VALUES
+	('gold', 'Gold', 'XAU', now(), now()),
+	('silver', 'Silver', 'XAG', now(), now()),
+	('platinum', 'Platinum', 'XPT', now(), now()),
+	('palladium', 'Palladium', 'XPD', now(), now());
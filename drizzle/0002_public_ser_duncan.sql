@@ -0,0 +1 @@
+ALTER TABLE "product" ADD COLUMN "premium_percent" numeric(5, 2) DEFAULT 0 NOT NULL;
\ No newline at end of file
@@ -0,0 +1,12 @@
+CREATE TABLE "spot_price" (
+	"id" text PRIMARY KEY NOT NULL,
+	"metal" "metal" NOT NULL,
+	"currency" text NOT NULL,
+	"bid" integer NOT NULL,
+	"ask" integer NOT NULL,
+	"source" text NOT NULL,
+	"quoted_at" timestamp NOT NULL,
+	"fetched_at" timestamp NOT NULL
+);
+--> statement-breakpoint
+CREATE INDEX "spot_price_metal_currency_fetched_at_idx" ON "spot_price" USING btree ("metal","currency","fetched_at");
\ No newline at end of file
@@ -0,0 +1,37 @@
+CREATE TYPE "public"."payment_method" AS ENUM('card', 'bank_transfer');--> statement-breakpoint
+CREATE TYPE "public"."pricing_scope" AS ENUM('global', 'metal', 'product');--> statement-breakpoint
+CREATE TABLE "payment_surcharge" (
+	"method" "payment_method" PRIMARY KEY NOT NULL,
+	"surcharge_percent" numeric(5, 2) NOT NULL,
+	"updated_at" timestamp NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "pricing_rule" (
+	"id" text PRIMARY KEY NOT NULL,
+	"scope" "pricing_scope" NOT NULL,
+	"metal" "metal",
+	"product_id" text,
+	"premium_percent" numeric(5, 2) DEFAULT 0 NOT NULL,
+	"premium_flat" integer DEFAULT 0 NOT NULL,
+	"created_at" timestamp NOT NULL,
+	"updated_at" timestamp NOT NULL,
+	CONSTRAINT "pricing_rule_target_unique" UNIQUE NULLS NOT DISTINCT("scope","metal","product_id"),
+	CONSTRAINT "pricing_rule_scope_target_check" CHECK (("pricing_rule"."scope" = 'global' AND "pricing_rule"."metal" IS NULL AND "pricing_rule"."product_id" IS NULL)
+        OR ("pricing_rule"."scope" = 'metal' AND "pricing_rule"."metal" IS NOT NULL AND "pricing_rule"."product_id" IS NULL)
+        OR ("pricing_rule"."scope" = 'product' AND "pricing_rule"."product_id" IS NOT NULL))
+);
+--> statement-breakpoint
+CREATE TABLE "quantity_tier" (
+	"id" text PRIMARY KEY NOT NULL,
+	"metal" "metal",
+	"product_id" text,
+	"min_quantity" integer NOT NULL,
+	"premium_discount_percent" numeric(5, 2) NOT NULL,
+	"created_at" timestamp NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "pricing_rule" ADD CONSTRAINT "pricing_rule_product_id_product_id_fk" FOREIGN KEY ("product_id") REFERENCES "public"."product"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "quantity_tier" ADD CONSTRAINT "quantity_tier_product_id_product_id_fk" FOREIGN KEY ("product_id") REFERENCES "public"."product"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+INSERT INTO "pricing_rule" ("id", "scope", "product_id", "premium_percent", "created_at", "updated_at")
+SELECT gen_random_uuid()::text, 'product', "id", "premium_percent", now(), now() FROM "product" WHERE "premium_percent" <> 0;--> statement-breakpoint
+ALTER TABLE "product" DROP COLUMN "premium_percent";
\ No newline at end of file
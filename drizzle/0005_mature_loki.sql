@@ -0,0 +1,35 @@
+CREATE TYPE "public"."price_quote_status" AS ENUM('active', 'superseded', 'consumed');--> statement-breakpoint
+CREATE TABLE "price_quote" (
+	"id" text PRIMARY KEY NOT NULL,
+	"user_id" text NOT NULL,
+	"session_id" text NOT NULL,
+	"status" "price_quote_status" DEFAULT 'active' NOT NULL,
+	"currency" text NOT NULL,
+	"payment_method" "payment_method",
+	"subtotal" integer NOT NULL,
+	"expires_at" timestamp NOT NULL,
+	"superseded_by_id" text,
+	"consumed_at" timestamp,
+	"created_at" timestamp NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "price_quote_line" (
+	"id" text PRIMARY KEY NOT NULL,
+	"quote_id" text NOT NULL,
+	"product_id" text NOT NULL,
+	"product_name" text NOT NULL,
+	"sku" text NOT NULL,
+	"quantity" integer NOT NULL,
+	"spot_price_id" text,
+	"spot_per_oz" integer NOT NULL,
+	"melt_value" integer NOT NULL,
+	"premium" integer NOT NULL,
+	"surcharge" integer NOT NULL,
+	"unit_price" integer NOT NULL,
+	"line_total" integer NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "price_quote" ADD CONSTRAINT "price_quote_user_id_user_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."user"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "price_quote_line" ADD CONSTRAINT "price_quote_line_quote_id_price_quote_id_fk" FOREIGN KEY ("quote_id") REFERENCES "public"."price_quote"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "price_quote_line" ADD CONSTRAINT "price_quote_line_product_id_product_id_fk" FOREIGN KEY ("product_id") REFERENCES "public"."product"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "price_quote_line" ADD CONSTRAINT "price_quote_line_spot_price_id_spot_price_id_fk" FOREIGN KEY ("spot_price_id") REFERENCES "public"."spot_price"("id") ON DELETE no action ON UPDATE no action;
\ No newline at end of file
@@ -0,0 +1,22 @@
+CREATE TABLE "cart" (
+	"id" text PRIMARY KEY NOT NULL,
+	"user_id" text,
+	"anonymous_id" text,
+	"created_at" timestamp NOT NULL,
+	"updated_at" timestamp NOT NULL,
+	CONSTRAINT "cart_user_id_unique" UNIQUE("user_id"),
+	CONSTRAINT "cart_anonymous_id_unique" UNIQUE("anonymous_id")
+);
+--> statement-breakpoint
+CREATE TABLE "cart_item" (
+	"id" text PRIMARY KEY NOT NULL,
+	"cart_id" text NOT NULL,
+	"product_id" text NOT NULL,
+	"quantity" integer NOT NULL,
+	"created_at" timestamp NOT NULL,
+	CONSTRAINT "cart_item_cart_id_product_id_unique" UNIQUE("cart_id","product_id")
+);
+--> statement-breakpoint
+ALTER TABLE "cart" ADD CONSTRAINT "cart_user_id_user_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."user"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "cart_item" ADD CONSTRAINT "cart_item_cart_id_cart_id_fk" FOREIGN KEY ("cart_id") REFERENCES "public"."cart"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "cart_item" ADD CONSTRAINT "cart_item_product_id_product_id_fk" FOREIGN KEY ("product_id") REFERENCES "public"."product"("id") ON DELETE cascade ON UPDATE no action;
\ No newline at end of file
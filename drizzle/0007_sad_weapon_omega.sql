@@ -0,0 +1,36 @@
+CREATE TYPE "public"."order_status" AS ENUM('pending_payment', 'paid', 'cancelled');--> statement-breakpoint
+CREATE TYPE "public"."payment_status" AS ENUM('pending', 'succeeded', 'failed');--> statement-breakpoint
+CREATE TABLE "order" (
+	"id" text PRIMARY KEY NOT NULL,
+	"number" serial NOT NULL,
+	"user_id" text NOT NULL,
+	"quote_id" text NOT NULL,
+	"status" "order_status" DEFAULT 'pending_payment' NOT NULL,
+	"currency" text NOT NULL,
+	"subtotal" integer NOT NULL,
+	"total" integer NOT NULL,
+	"created_at" timestamp NOT NULL,
+	"updated_at" timestamp NOT NULL,
+	CONSTRAINT "order_number_unique" UNIQUE("number"),
+	CONSTRAINT "order_quote_id_unique" UNIQUE("quote_id")
+);
+--> statement-breakpoint
+CREATE TABLE "payment" (
+	"id" text PRIMARY KEY NOT NULL,
+	"order_id" text NOT NULL,
+	"provider" text NOT NULL,
+	"checkout_session_id" text NOT NULL,
+	"payment_intent_id" text,
+	"status" "payment_status" DEFAULT 'pending' NOT NULL,
+	"amount" integer NOT NULL,
+	"currency" text NOT NULL,
+	"failure_message" text,
+	"created_at" timestamp NOT NULL,
+	"updated_at" timestamp NOT NULL,
+	CONSTRAINT "payment_checkout_session_id_unique" UNIQUE("checkout_session_id"),
+	CONSTRAINT "payment_payment_intent_id_unique" UNIQUE("payment_intent_id")
+);
+--> statement-breakpoint
+ALTER TABLE "order" ADD CONSTRAINT "order_user_id_user_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."user"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "order" ADD CONSTRAINT "order_quote_id_price_quote_id_fk" FOREIGN KEY ("quote_id") REFERENCES "public"."price_quote"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "payment" ADD CONSTRAINT "payment_order_id_order_id_fk" FOREIGN KEY ("order_id") REFERENCES "public"."order"("id") ON DELETE cascade ON UPDATE no action;
\ No newline at end of file
@@ -0,0 +1,41 @@
+CREATE TYPE "public"."order_actor_type" AS ENUM('customer', 'staff', 'system');--> statement-breakpoint
+ALTER TYPE "public"."order_status" ADD VALUE 'allocated' BEFORE 'cancelled';--> statement-breakpoint
+ALTER TYPE "public"."order_status" ADD VALUE 'shipped' BEFORE 'cancelled';--> statement-breakpoint
+ALTER TYPE "public"."order_status" ADD VALUE 'ready_for_pickup' BEFORE 'cancelled';--> statement-breakpoint
+ALTER TYPE "public"."order_status" ADD VALUE 'delivered' BEFORE 'cancelled';--> statement-breakpoint
+ALTER TYPE "public"."order_status" ADD VALUE 'collected' BEFORE 'cancelled';--> statement-breakpoint
+ALTER TYPE "public"."order_status" ADD VALUE 'refunded';--> statement-breakpoint
+CREATE TABLE "order_line" (
+	"id" text PRIMARY KEY NOT NULL,
+	"order_id" text NOT NULL,
+	"product_id" text NOT NULL,
+	"product_name" text NOT NULL,
+	"sku" text NOT NULL,
+	"metal" "metal" NOT NULL,
+	"quantity" integer NOT NULL,
+	"spot_per_oz" integer NOT NULL,
+	"unit_price" integer NOT NULL,
+	"line_total" integer NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "order_status_history" (
+	"id" text PRIMARY KEY NOT NULL,
+	"order_id" text NOT NULL,
+	"from_status" "order_status",
+	"to_status" "order_status" NOT NULL,
+	"actor_type" "order_actor_type" NOT NULL,
+	"actor_id" text,
+	"reason" text NOT NULL,
+	"created_at" timestamp NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "order_line" ADD CONSTRAINT "order_line_order_id_order_id_fk" FOREIGN KEY ("order_id") REFERENCES "public"."order"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "order_line" ADD CONSTRAINT "order_line_product_id_product_id_fk" FOREIGN KEY ("product_id") REFERENCES "public"."product"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "order_status_history" ADD CONSTRAINT "order_status_history_order_id_order_id_fk" FOREIGN KEY ("order_id") REFERENCES "public"."order"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "order_status_history" ADD CONSTRAINT "order_status_history_actor_id_user_id_fk" FOREIGN KEY ("actor_id") REFERENCES "public"."user"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "order_status_history_order_idx" ON "order_status_history" USING btree ("order_id");--> statement-breakpoint
+INSERT INTO "order_line" ("id", "order_id", "product_id", "product_name", "sku", "metal", "quantity", "spot_per_oz", "unit_price", "line_total")
+SELECT gen_random_uuid()::text, o."id", l."product_id", l."product_name", l."sku", p."metal", l."quantity", l."spot_per_oz", l."unit_price", l."line_total"
+FROM "order" o JOIN "price_quote_line" l ON l."quote_id" = o."quote_id" JOIN "product" p ON p."id" = l."product_id";--> statement-breakpoint
+INSERT INTO "order_status_history" ("id", "order_id", "from_status", "to_status", "actor_type", "actor_id", "reason", "created_at")
+SELECT gen_random_uuid()::text, "id", NULL, "status", 'system', NULL, 'Backfilled from existing order', "updated_at" FROM "order";
\ No newline at end of file
@@ -0,0 +1,55 @@
+CREATE TYPE "public"."fulfillment_method" AS ENUM('delivery', 'pickup');--> statement-breakpoint
+CREATE TABLE "pickup_location" (
+	"id" text PRIMARY KEY NOT NULL,
+	"name" text NOT NULL,
+	"line1" text NOT NULL,
+	"line2" text,
+	"city" text NOT NULL,
+	"region" text,
+	"postal_code" text NOT NULL,
+	"country" text NOT NULL,
+	"time_zone" text NOT NULL,
+	"active" boolean DEFAULT true NOT NULL,
+	"created_at" timestamp NOT NULL,
+	"updated_at" timestamp NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "shipping_rate" (
+	"id" text PRIMARY KEY NOT NULL,
+	"zone_id" text NOT NULL,
+	"max_weight_oz" numeric(10, 2),
+	"rate" integer NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "shipping_zone" (
+	"id" text PRIMARY KEY NOT NULL,
+	"code" text NOT NULL,
+	"name" text NOT NULL,
+	"countries" text[] NOT NULL,
+	"insurance_percent" numeric(5, 2) DEFAULT 0 NOT NULL,
+	"created_at" timestamp NOT NULL,
+	"updated_at" timestamp NOT NULL,
+	CONSTRAINT "shipping_zone_code_unique" UNIQUE("code")
+);
+--> statement-breakpoint
+ALTER TABLE "order" ADD COLUMN "fulfillment_method" "fulfillment_method" DEFAULT 'delivery' NOT NULL;--> statement-breakpoint
+ALTER TABLE "order" ADD COLUMN "shipping_address" jsonb;--> statement-breakpoint
+ALTER TABLE "order" ADD COLUMN "shipping_zone_id" text;--> statement-breakpoint
+ALTER TABLE "order" ADD COLUMN "pickup_location_id" text;--> statement-breakpoint
+ALTER TABLE "order" ADD COLUMN "pickup_slot_at" timestamp;--> statement-breakpoint
+ALTER TABLE "order" ADD COLUMN "shipping" integer DEFAULT 0 NOT NULL;--> statement-breakpoint
+ALTER TABLE "shipping_rate" ADD CONSTRAINT "shipping_rate_zone_id_shipping_zone_id_fk" FOREIGN KEY ("zone_id") REFERENCES "public"."shipping_zone"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "order" ADD CONSTRAINT "order_shipping_zone_id_shipping_zone_id_fk" FOREIGN KEY ("shipping_zone_id") REFERENCES "public"."shipping_zone"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "order" ADD CONSTRAINT "order_pickup_location_id_pickup_location_id_fk" FOREIGN KEY ("pickup_location_id") REFERENCES "public"."pickup_location"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+INSERT INTO "shipping_zone" ("id", "code", "name", "countries", "insurance_percent", "created_at", "updated_at") VALUES
+	('zone_domestic', 'domestic', 'United States', '{US}', 0.50, now(), now()),
+	('zone_international', 'international', 'International', '{CA,GB,IE,DE,FR,NL,CH,AU,NZ,SG}', 1.00, now(), now());--> statement-breakpoint
+INSERT INTO "shipping_rate" ("id", "zone_id", "max_weight_oz", "rate") VALUES
+	(gen_random_uuid()::text, 'zone_domestic', 10, 1500),
+	(gen_random_uuid()::text, 'zone_domestic', 50, 3000),
+	(gen_random_uuid()::text, 'zone_domestic', 200, 6000),
+	(gen_random_uuid()::text, 'zone_domestic', NULL, 12000),
+	(gen_random_uuid()::text, 'zone_international', 10, 4500),
+	(gen_random_uuid()::text, 'zone_international', 50, 9000),
+	(gen_random_uuid()::text, 'zone_international', 200, 18000),
+	(gen_random_uuid()::text, 'zone_international', NULL, 36000);
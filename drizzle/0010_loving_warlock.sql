@@ -0,0 +1,24 @@
+CREATE TABLE "pickup_location_closure" (
+	"id" text PRIMARY KEY NOT NULL,
+	"location_id" text NOT NULL,
+	"date" date NOT NULL,
+	"reason" text,
+	CONSTRAINT "pickup_location_closure_location_id_date_unique" UNIQUE("location_id","date")
+);
+--> statement-breakpoint
+CREATE TABLE "pickup_location_hours" (
+	"id" text PRIMARY KEY NOT NULL,
+	"location_id" text NOT NULL,
+	"weekday" integer NOT NULL,
+	"opens_at" time NOT NULL,
+	"closes_at" time NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "pickup_location" ADD COLUMN "slot_minutes" integer DEFAULT 60 NOT NULL;--> statement-breakpoint
+ALTER TABLE "pickup_location" ADD COLUMN "slot_capacity" integer DEFAULT 4 NOT NULL;--> statement-breakpoint
+ALTER TABLE "pickup_location_closure" ADD CONSTRAINT "pickup_location_closure_location_id_pickup_location_id_fk" FOREIGN KEY ("location_id") REFERENCES "public"."pickup_location"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "pickup_location_hours" ADD CONSTRAINT "pickup_location_hours_location_id_pickup_location_id_fk" FOREIGN KEY ("location_id") REFERENCES "public"."pickup_location"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "order_pickup_slot_idx" ON "order" USING btree ("pickup_location_id","pickup_slot_at");--> statement-breakpoint
+INSERT INTO "pickup_location_hours" ("id", "location_id", "weekday", "opens_at", "closes_at")
+SELECT gen_random_uuid()::text, l."id", d.weekday, '10:00', '16:00'
+FROM "pickup_location" l CROSS JOIN generate_series(1, 5) AS d(weekday);
@@ -0,0 +1,3 @@
+CREATE TYPE "public"."product_status" AS ENUM('draft', 'published', 'archived');--> statement-breakpoint
+ALTER TABLE "product" ADD COLUMN "status" "product_status" DEFAULT 'draft' NOT NULL;--> statement-breakpoint
+UPDATE "product" SET "status" = 'published';
@@ -0,0 +1,2 @@
+CREATE INDEX "order_created_at_idx" ON "order" USING btree ("created_at");--> statement-breakpoint
+CREATE INDEX "order_line_order_metal_idx" ON "order_line" USING btree ("order_id","metal");
\ No newline at end of file
@@ -0,0 +1,19 @@
+CREATE TYPE "public"."outbox_event_status" AS ENUM('pending', 'dispatched', 'failed');--> statement-breakpoint
+CREATE TABLE "outbox_event" (
+	"id" text PRIMARY KEY NOT NULL,
+	"type" text NOT NULL,
+	"aggregate_id" text NOT NULL,
+	"payload" jsonb NOT NULL,
+	"status" "outbox_event_status" DEFAULT 'pending' NOT NULL,
+	"completed_handlers" text[] DEFAULT '{}' NOT NULL,
+	"attempts" integer DEFAULT 0 NOT NULL,
+	"next_attempt_at" timestamp,
+	"last_error" text,
+	"created_at" timestamp NOT NULL,
+	"dispatched_at" timestamp
+);
+--> statement-breakpoint
+ALTER TABLE "webhook_delivery" ADD COLUMN "replay_of_id" text;--> statement-breakpoint
+CREATE INDEX "outbox_event_due_idx" ON "outbox_event" USING btree ("status","next_attempt_at");--> statement-breakpoint
+ALTER TABLE "webhook_delivery" ADD CONSTRAINT "webhook_delivery_replay_of_id_webhook_delivery_id_fk" FOREIGN KEY ("replay_of_id") REFERENCES "public"."webhook_delivery"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+CREATE UNIQUE INDEX "webhook_delivery_event_idx" ON "webhook_delivery" USING btree ("subscription_id","event_id") WHERE "webhook_delivery"."replay_of_id" is null;
\ No newline at end of file
@@ -0,0 +1,2 @@
+ALTER TABLE "order" ADD COLUMN "tracking_carrier" text;--> statement-breakpoint
+ALTER TABLE "order" ADD COLUMN "tracking_number" text;
\ No newline at end of file
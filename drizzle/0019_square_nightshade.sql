@@ -0,0 +1,2 @@
+ALTER TABLE "session" ADD COLUMN "city" text;--> statement-breakpoint
+ALTER TABLE "session" ADD COLUMN "country" text;
\ No newline at end of file
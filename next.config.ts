@@ -1,7 +1,24 @@
 import type { NextConfig } from "next";
 
+// Product images uploaded to S3-compatible storage are served from here
+const storagePublicUrl =
+  process.env.STORAGE_DRIVER === "s3"
+    ? new URL(
+        process.env.S3_PUBLIC_URL ??
+          `${process.env.S3_ENDPOINT}/${process.env.S3_BUCKET}`,
+      )
+    : null;
+
 const nextConfig: NextConfig = {
   /* config options here */
+  experimental: {
+    // Enables forbidden() so /admin can answer non-admins with a 403
+    authInterrupts: true,
+    serverActions: {
+      // Product image uploads go through server actions
+      bodySizeLimit: "10mb",
+    },
+  },
   images: {
     remotePatterns: [
       {
@@ -16,6 +33,18 @@ const nextConfig: NextConfig = {
         port: "",
         pathname: "/**",
       },
+      ...(storagePublicUrl
+        ? [
+            {
+              protocol: storagePublicUrl.protocol.replace(":", "") as
+                | "http"
+                | "https",
+              hostname: storagePublicUrl.hostname,
+              port: storagePublicUrl.port,
+              pathname: `${storagePublicUrl.pathname.replace(/\/$/, "")}/**`,
+            },
+          ]
+        : []),
       // Add any other image domains you want to use
     ],
   },
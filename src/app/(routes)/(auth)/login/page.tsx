@@ -1,6 +1,8 @@
 import type { Metadata } from "next";
 
 import { LoginForm } from "@/components/auth/login-form";
+import { ENABLED_SOCIAL_PROVIDERS } from "@/lib/auth";
+import { describeSocialError } from "@/lib/social-providers";
 
 export const metadata: Metadata = {
   title: "Login",
@@ -19,11 +21,18 @@ export const metadata: Metadata = {
   ],
 };
 
+interface LoginPageProps {
+  /** Set by Better Auth when a social sign-in fails */
+  searchParams: Promise<{ error?: string }>;
+}
+
 /**
  * Login page component
  * Displays the complete login flow with success state
  */
-export default function LoginPage() {
+export default async function LoginPage({ searchParams }: LoginPageProps) {
+  const { error } = await searchParams;
+
   return (
     <div className="from-background via-muted/20 to-background flex min-h-screen items-center justify-center bg-gradient-to-br p-4">
       {/* Background decoration */}
@@ -34,7 +43,10 @@ export default function LoginPage() {
 
       {/* Main content */}
       <div className="relative z-10 w-full max-w-md">
-        <LoginForm />
+        <LoginForm
+          socialProviders={ENABLED_SOCIAL_PROVIDERS}
+          socialError={error ? describeSocialError(error) : undefined}
+        />
       </div>
     </div>
   );
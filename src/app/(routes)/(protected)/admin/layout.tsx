@@ -0,0 +1,38 @@
+import type { Metadata } from "next";
+import React from "react";
+
+import { AdminSidebar } from "@/components/admin";
+import { SiteHeader } from "@/components/home/site-header";
+import { requireAdmin } from "@/lib/session";
+
+export const metadata: Metadata = {
+  title: {
+    template: "%s | Admin",
+    default: "Admin",
+  },
+};
+
+interface AdminLayoutProps {
+  children: React.ReactNode;
+}
+
+/**
+ * Back office shell; every page below requires the admin role
+ * Pages and actions check again since layouts don't guard them directly
+ */
+export default async function AdminLayout({ children }: AdminLayoutProps) {
+  await requireAdmin("/admin");
+
+  return (
+    <div className="bg-background min-h-screen">
+      <SiteHeader />
+
+      <div className="container mx-auto flex flex-col gap-6 px-4 py-6 lg:flex-row lg:gap-10 lg:py-10">
+        <aside className="lg:w-56 lg:shrink-0">
+          <AdminSidebar />
+        </aside>
+        <main className="min-w-0 flex-1">{children}</main>
+      </div>
+    </div>
+  );
+}
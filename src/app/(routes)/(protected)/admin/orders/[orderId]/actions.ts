@@ -0,0 +1,123 @@
+"use server";
+
+import { revalidatePath } from "next/cache";
+
+import { insertOrderNote } from "@/database/queries";
+import { OrderTransitionError, transitionOrder } from "@/lib/orders";
+import { RefundError, refundOrder, retryRefund } from "@/lib/payments";
+import { requireAdmin } from "@/lib/session";
+import {
+  type OrderNoteFormData,
+  type OrderTransitionFormData,
+  type RefundFormData,
+  orderNoteSchema,
+  orderTransitionSchema,
+  refundSchema,
+} from "@/lib/validation/order-management-schema";
+
+/**
+ * Refresh the order's detail page and the order list
+ */
+function revalidateOrder(orderId: string) {
+  revalidatePath(`/admin/orders/${orderId}`);
+  revalidatePath("/admin/orders");
+}
+
+/**
+ * Move an order to the next status on behalf of a staff member
+ */
+export async function transitionOrderAction(
+  orderId: string,
+  data: OrderTransitionFormData,
+): Promise<{ error?: string }> {
+  const { user } = await requireAdmin();
+  const { status, reason, trackingCarrier, trackingNumber } =
+    orderTransitionSchema.parse(data);
+
+  // Refunds move money, so they only happen through the refund form
+  if (status === "refunded") {
+    return { error: "Issue a full refund to mark this order refunded" };
+  }
+
+  try {
+    await transitionOrder(
+      orderId,
+      status,
+      { type: "staff", userId: user.id },
+      reason,
+      status === "shipped"
+        ? { trackingCarrier: trackingCarrier || null, trackingNumber }
+        : undefined,
+    );
+  } catch (error) {
+    if (error instanceof OrderTransitionError) return { error: error.message };
+    throw error;
+  }
+
+  revalidateOrder(orderId);
+  return {};
+}
+
+/**
+ * Add an internal note to an order
+ */
+export async function addOrderNoteAction(
+  orderId: string,
+  data: OrderNoteFormData,
+): Promise<{ error?: string }> {
+  const { user } = await requireAdmin();
+  const { body } = orderNoteSchema.parse(data);
+
+  await insertOrderNote({ orderId, authorId: user.id, body });
+
+  revalidateOrder(orderId);
+  return {};
+}
+
+/**
+ * Refund all or part of an order's payment
+ */
+export async function refundOrderAction(
+  orderId: string,
+  data: RefundFormData,
+): Promise<{ error?: string }> {
+  const { user } = await requireAdmin();
+  const { amount, reason } = refundSchema.parse(data);
+
+  try {
+    await refundOrder(orderId, Math.round(amount * 100), user.id, reason);
+  } catch (error) {
+    if (error instanceof RefundError || error instanceof OrderTransitionError) {
+      // Failed and unconfirmed refunds still show in the payment history
+      revalidateOrder(orderId);
+      return { error: error.message };
+    }
+    throw error;
+  }
+
+  revalidateOrder(orderId);
+  return {};
+}
+
+/**
+ * Resend a refund the payment provider never confirmed
+ */
+export async function retryRefundAction(
+  orderId: string,
+  refundId: string,
+): Promise<{ error?: string }> {
+  const { user } = await requireAdmin();
+
+  try {
+    await retryRefund(orderId, refundId, user.id);
+  } catch (error) {
+    if (error instanceof RefundError || error instanceof OrderTransitionError) {
+      revalidateOrder(orderId);
+      return { error: error.message };
+    }
+    throw error;
+  }
+
+  revalidateOrder(orderId);
+  return {};
+}
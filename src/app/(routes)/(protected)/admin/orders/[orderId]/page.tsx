@@ -0,0 +1,368 @@
+import type { Metadata } from "next";
+import Link from "next/link";
+import { notFound } from "next/navigation";
+import React from "react";
+
+import { ChevronLeft } from "lucide-react";
+
+import {
+  OrderNoteForm,
+  OrderRefundForm,
+  OrderStatusForm,
+  RefundRetryButton,
+} from "@/components/admin";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { getAdminOrderById } from "@/database/queries";
+import { METAL_LABELS } from "@/lib/catalog";
+import { formatAddress, formatCurrency, formatDateTime } from "@/lib/format";
+import {
+  ORDER_STATUS_LABELS,
+  canTransitionOrder,
+  getNextOrderStatuses,
+} from "@/lib/orders";
+import { requireAdmin } from "@/lib/session";
+
+import {
+  addOrderNoteAction,
+  refundOrderAction,
+  retryRefundAction,
+  transitionOrderAction,
+} from "./actions";
+
+export const metadata: Metadata = {
+  title: "Order",
+};
+
+const ACTOR_LABELS = {
+  customer: "Customer",
+  staff: "Staff",
+  system: "System",
+};
+
+interface AdminOrderPageProps {
+  params: Promise<{ orderId: string }>;
+}
+
+/**
+ * Back office order detail with status changes, refunds and notes
+ */
+export default async function AdminOrderPage({ params }: AdminOrderPageProps) {
+  const { orderId } = await params;
+  await requireAdmin(`/admin/orders/${orderId}`);
+
+  const order = await getAdminOrderById(orderId);
+  if (!order) {
+    notFound();
+  }
+
+  const paid = order.payments.find((attempt) => attempt.status === "succeeded");
+  const refunded = (paid?.refunds ?? [])
+    .filter((refund) => refund.status !== "failed")
+    .reduce((sum, refund) => sum + refund.amount, 0);
+  const refundable =
+    paid &&
+    canTransitionOrder(order.status, "refunded", order.fulfillmentMethod)
+      ? paid.amount - refunded
+      : 0;
+
+  const nextStatuses = getNextOrderStatuses(
+    order.status,
+    order.fulfillmentMethod,
+  )
+    .filter((status) => status !== "refunded")
+    .map((status) => ({ value: status, label: ORDER_STATUS_LABELS[status] }));
+
+  return (
+    <div className="max-w-5xl space-y-6">
+      <div className="space-y-2">
+        <Link
+          href="/admin/orders"
+          className="text-muted-foreground inline-flex items-center text-sm hover:underline"
+        >
+          <ChevronLeft className="mr-1 h-4 w-4" />
+          Orders
+        </Link>
+        <div className="flex flex-wrap items-center gap-3">
+          <h1 className="text-3xl font-bold tracking-tight">
+            Order #{order.number}
+          </h1>
+          <Badge variant="secondary">{ORDER_STATUS_LABELS[order.status]}</Badge>
+        </div>
+        <p className="text-muted-foreground text-sm">
+          Placed {formatDateTime(order.createdAt)} by {order.user.name} (
+          {order.user.email})
+        </p>
+      </div>
+
+      <div className="grid gap-6 lg:grid-cols-[1fr_20rem]">
+        <div className="space-y-6">
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-lg">Items</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="overflow-x-auto">
+                <table className="w-full text-sm">
+                  <thead className="text-muted-foreground text-left">
+                    <tr>
+                      <th className="py-2 font-medium">Product</th>
+                      <th className="py-2 text-right font-medium">Qty</th>
+                      <th className="py-2 text-right font-medium">Spot / oz</th>
+                      <th className="py-2 text-right font-medium">Unit</th>
+                      <th className="py-2 text-right font-medium">Total</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y">
+                    {order.lines.map((line) => (
+                      <tr key={line.id}>
+                        <td className="py-2">
+                          <p className="font-medium">{line.productName}</p>
+                          <p className="text-muted-foreground">
+                            {line.sku} · {METAL_LABELS[line.metal]}
+                          </p>
+                        </td>
+                        <td className="py-2 text-right tabular-nums">
+                          {line.quantity}
+                        </td>
+                        <td className="py-2 text-right tabular-nums">
+                          {formatCurrency(line.spotPerOz)}
+                        </td>
+                        <td className="py-2 text-right tabular-nums">
+                          {formatCurrency(line.unitPrice)}
+                        </td>
+                        <td className="py-2 text-right tabular-nums">
+                          {formatCurrency(line.lineTotal)}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+              <div className="space-y-1 border-t pt-4 text-sm">
+                <div className="flex justify-between">
+                  <span className="text-muted-foreground">Subtotal</span>
+                  <span className="tabular-nums">
+                    {formatCurrency(order.subtotal)}
+                  </span>
+                </div>
+                <div className="flex justify-between">
+                  <span className="text-muted-foreground">Shipping</span>
+                  <span className="tabular-nums">
+                    {formatCurrency(order.shipping)}
+                  </span>
+                </div>
+                <div className="flex justify-between font-semibold">
+                  <span>Total</span>
+                  <span className="tabular-nums">
+                    {formatCurrency(order.total)}
+                  </span>
+                </div>
+              </div>
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-lg">Payment</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-4 text-sm">
+              {order.payments.length === 0 ? (
+                <p className="text-muted-foreground">No payment attempts.</p>
+              ) : (
+                order.payments.map((attempt) => (
+                  <div key={attempt.id} className="space-y-2">
+                    <div className="flex flex-wrap items-center justify-between gap-2">
+                      <div>
+                        <p className="font-medium">
+                          {formatCurrency(attempt.amount)} via{" "}
+                          {attempt.provider}
+                        </p>
+                        <p className="text-muted-foreground font-mono text-xs">
+                          {attempt.paymentIntentId ?? attempt.checkoutSessionId}
+                        </p>
+                      </div>
+                      <Badge
+                        variant={
+                          attempt.status === "failed"
+                            ? "destructive"
+                            : "secondary"
+                        }
+                      >
+                        {attempt.status}
+                      </Badge>
+                    </div>
+                    {attempt.failureMessage && (
+                      <p className="text-destructive">
+                        {attempt.failureMessage}
+                      </p>
+                    )}
+                    {attempt.refunds.map((refund) => (
+                      <div
+                        key={refund.id}
+                        className="bg-muted/50 flex items-center justify-between rounded-md px-3 py-2"
+                      >
+                        <div>
+                          <p>
+                            Refund of {formatCurrency(refund.amount)} ·{" "}
+                            {refund.reason}
+                          </p>
+                          <p className="text-muted-foreground">
+                            {formatDateTime(refund.createdAt)}
+                            {refund.failureMessage &&
+                              ` · ${refund.failureMessage}`}
+                          </p>
+                        </div>
+                        <div className="flex items-center gap-2">
+                          {/* Sent without a response, so it may not exist at the provider */}
+                          {refund.status === "pending" &&
+                            !refund.providerRefundId && (
+                              <RefundRetryButton
+                                onRetry={retryRefundAction.bind(
+                                  null,
+                                  order.id,
+                                  refund.id,
+                                )}
+                              />
+                            )}
+                          <Badge
+                            variant={
+                              refund.status === "failed"
+                                ? "destructive"
+                                : "outline"
+                            }
+                          >
+                            {refund.status}
+                          </Badge>
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                ))
+              )}
+
+              {refundable > 0 && (
+                <div className="border-t pt-4">
+                  <OrderRefundForm
+                    refundable={refundable}
+                    onSubmit={refundOrderAction.bind(null, order.id)}
+                  />
+                </div>
+              )}
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-lg">History</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <ol className="space-y-3 text-sm">
+                {order.statusHistory.map((entry) => (
+                  <li key={entry.id} className="border-l-2 pl-3">
+                    <p className="font-medium">
+                      {entry.fromStatus
+                        ? `${ORDER_STATUS_LABELS[entry.fromStatus]} → `
+                        : ""}
+                      {ORDER_STATUS_LABELS[entry.toStatus]}
+                    </p>
+                    <p className="text-muted-foreground">
+                      {formatDateTime(entry.createdAt)} ·{" "}
+                      {entry.actor?.name ?? ACTOR_LABELS[entry.actorType]} ·{" "}
+                      {entry.reason}
+                    </p>
+                  </li>
+                ))}
+              </ol>
+            </CardContent>
+          </Card>
+        </div>
+
+        <div className="space-y-6">
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-lg">Status</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <OrderStatusForm
+                statuses={nextStatuses}
+                onSubmit={transitionOrderAction.bind(null, order.id)}
+              />
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-lg">Fulfillment</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-1 text-sm">
+              {order.fulfillmentMethod === "pickup" ? (
+                <>
+                  <p className="font-medium">
+                    Pickup at {order.pickupLocation?.name ?? "unknown location"}
+                  </p>
+                  {order.pickupLocation && (
+                    <p className="text-muted-foreground">
+                      {formatAddress(order.pickupLocation)}
+                    </p>
+                  )}
+                  {order.pickupSlotAt && (
+                    <p>
+                      {formatDateTime(
+                        order.pickupSlotAt,
+                        order.pickupLocation?.timeZone,
+                      )}
+                    </p>
+                  )}
+                </>
+              ) : (
+                <>
+                  <p className="font-medium">
+                    Insured delivery
+                    {order.shippingZone && ` · ${order.shippingZone.name}`}
+                  </p>
+                  {order.shippingAddress && (
+                    <>
+                      <p>{order.shippingAddress.name}</p>
+                      <p className="text-muted-foreground">
+                        {formatAddress(order.shippingAddress)}
+                      </p>
+                    </>
+                  )}
+                  {order.trackingNumber && (
+                    <p>
+                      Tracking:{" "}
+                      {[order.trackingCarrier, order.trackingNumber]
+                        .filter(Boolean)
+                        .join(" ")}
+                    </p>
+                  )}
+                </>
+              )}
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-lg">Internal notes</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <OrderNoteForm
+                onSubmit={addOrderNoteAction.bind(null, order.id)}
+              />
+              {order.notes.map((note) => (
+                <div key={note.id} className="space-y-1 text-sm">
+                  <p className="whitespace-pre-line">{note.body}</p>
+                  <p className="text-muted-foreground">
+                    {note.author?.name ?? "Former staff member"} ·{" "}
+                    {formatDateTime(note.createdAt)}
+                  </p>
+                </div>
+              ))}
+            </CardContent>
+          </Card>
+        </div>
+      </div>
+    </div>
+  );
+}
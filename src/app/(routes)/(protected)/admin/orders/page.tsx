@@ -0,0 +1,162 @@
+import type { Metadata } from "next";
+import Link from "next/link";
+import React from "react";
+
+import { ChevronLeft, ChevronRight } from "lucide-react";
+
+import { OrderListFilters } from "@/components/admin";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { listAdminOrders } from "@/database/queries";
+import { orderStatuses } from "@/database/schema";
+import { METAL_LABELS } from "@/lib/catalog";
+import { formatCurrency } from "@/lib/format";
+import { ORDER_STATUS_LABELS } from "@/lib/orders";
+import { requireAdmin } from "@/lib/session";
+import { cn } from "@/lib/utils";
+import { orderFiltersSchema } from "@/lib/validation/order-filters-schema";
+
+export const metadata: Metadata = {
+  title: "Orders",
+};
+
+const PAGE_SIZE = 50;
+
+interface AdminOrdersPageProps {
+  searchParams: Promise<Record<string, string | string[] | undefined>>;
+}
+
+/**
+ * Back office order list with filters, pagination and CSV export
+ */
+export default async function AdminOrdersPage({
+  searchParams,
+}: AdminOrdersPageProps) {
+  await requireAdmin("/admin/orders");
+  const rawParams = await searchParams;
+
+  const { page, ...filters } = orderFiltersSchema.parse(rawParams);
+  const { orders, total } = await listAdminOrders(filters, {
+    page,
+    pageSize: PAGE_SIZE,
+  });
+  const pageCount = Math.max(1, Math.ceil(total / PAGE_SIZE));
+
+  /**
+   * Link to another page keeping the current filters
+   */
+  const pageHref = (target: number) => {
+    const query = new URLSearchParams();
+    for (const [key, value] of Object.entries(rawParams)) {
+      if (typeof value === "string" && key !== "page") query.set(key, value);
+    }
+    if (target > 1) query.set("page", String(target));
+
+    const value = query.toString();
+    return value ? `/admin/orders?${value}` : "/admin/orders";
+  };
+
+  return (
+    <div className="space-y-6">
+      <h1 className="text-3xl font-bold tracking-tight">Orders</h1>
+
+      <OrderListFilters
+        statuses={orderStatuses.enumValues.map((status) => ({
+          value: status,
+          label: ORDER_STATUS_LABELS[status],
+        }))}
+      />
+
+      {orders.length === 0 ? (
+        <p className="text-muted-foreground">No orders found.</p>
+      ) : (
+        <div className="overflow-x-auto rounded-md border">
+          <table className="w-full text-sm">
+            <thead className="bg-muted/50 text-muted-foreground text-left">
+              <tr>
+                <th className="px-3 py-2 font-medium">Order</th>
+                <th className="px-3 py-2 font-medium">Placed</th>
+                <th className="px-3 py-2 font-medium">Customer</th>
+                <th className="px-3 py-2 font-medium">Items</th>
+                <th className="px-3 py-2 font-medium">Fulfillment</th>
+                <th className="px-3 py-2 font-medium">Status</th>
+                <th className="px-3 py-2 text-right font-medium">Total</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y">
+              {orders.map((order) => (
+                <tr key={order.id}>
+                  <td className="px-3 py-2">
+                    <Link
+                      href={`/admin/orders/${order.id}`}
+                      className="font-medium hover:underline"
+                    >
+                      #{order.number}
+                    </Link>
+                  </td>
+                  <td className="text-muted-foreground px-3 py-2">
+                    {order.createdAt.toLocaleDateString("en-US")}
+                  </td>
+                  <td className="px-3 py-2">
+                    <p className="font-medium">{order.user.name}</p>
+                    <p className="text-muted-foreground">{order.user.email}</p>
+                  </td>
+                  <td className="text-muted-foreground px-3 py-2">
+                    {order.lines.reduce((sum, line) => sum + line.quantity, 0)}{" "}
+                    ·{" "}
+                    {[...new Set(order.lines.map((line) => line.metal))]
+                      .map((metal) => METAL_LABELS[metal])
+                      .join(", ")}
+                  </td>
+                  <td className="px-3 py-2">
+                    {order.fulfillmentMethod === "pickup"
+                      ? "Pickup"
+                      : "Delivery"}
+                  </td>
+                  <td className="px-3 py-2">
+                    <Badge variant="secondary">
+                      {ORDER_STATUS_LABELS[order.status]}
+                    </Badge>
+                  </td>
+                  <td className="px-3 py-2 text-right tabular-nums">
+                    {formatCurrency(order.total)}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      <div className="text-muted-foreground flex items-center justify-between text-sm">
+        <span>
+          {total} order{total === 1 ? "" : "s"} · page {page} of {pageCount}
+        </span>
+        <div className="flex gap-2">
+          <Button variant="outline" size="sm" asChild>
+            <Link
+              href={pageHref(page - 1)}
+              aria-disabled={page <= 1}
+              className={cn(page <= 1 && "pointer-events-none opacity-50")}
+            >
+              <ChevronLeft className="mr-1 h-4 w-4" />
+              Previous
+            </Link>
+          </Button>
+          <Button variant="outline" size="sm" asChild>
+            <Link
+              href={pageHref(page + 1)}
+              aria-disabled={page >= pageCount}
+              className={cn(
+                page >= pageCount && "pointer-events-none opacity-50",
+              )}
+            >
+              Next
+              <ChevronRight className="ml-1 h-4 w-4" />
+            </Link>
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,44 @@
+import type { Metadata } from "next";
+import Link from "next/link";
+import React from "react";
+
+import { Card, CardContent } from "@/components/ui/card";
+import { countOrdersByStatus } from "@/database/queries";
+import { orderStatuses } from "@/database/schema";
+import { ORDER_STATUS_LABELS } from "@/lib/orders";
+import { requireAdmin } from "@/lib/session";
+
+export const metadata: Metadata = {
+  title: "Overview",
+};
+
+/**
+ * Back office landing page with order counts by status
+ */
+export default async function AdminOverviewPage() {
+  await requireAdmin("/admin");
+  const counts = await countOrdersByStatus();
+
+  return (
+    <div className="space-y-6">
+      <h1 className="text-3xl font-bold tracking-tight">Overview</h1>
+
+      <div className="grid gap-4 sm:grid-cols-2 xl:grid-cols-3">
+        {orderStatuses.enumValues.map((status) => (
+          <Link key={status} href={`/admin/orders?status=${status}`}>
+            <Card className="hover:bg-accent/50 transition-colors">
+              <CardContent className="space-y-1">
+                <p className="text-muted-foreground text-sm">
+                  {ORDER_STATUS_LABELS[status]}
+                </p>
+                <p className="text-2xl font-semibold tabular-nums">
+                  {counts[status] ?? 0}
+                </p>
+              </CardContent>
+            </Card>
+          </Link>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,63 @@
+import type { Metadata } from "next";
+import { notFound } from "next/navigation";
+import React from "react";
+
+import { PickupLocationForm } from "@/components/admin";
+import { getPickupLocationById } from "@/database/queries";
+import { requireAdmin } from "@/lib/session";
+
+import { savePickupLocationAction } from "../actions";
+
+export const metadata: Metadata = {
+  title: "Edit pickup location",
+};
+
+interface EditPickupLocationPageProps {
+  params: Promise<{ locationId: string }>;
+}
+
+/**
+ * Back office page for editing a pickup location
+ */
+export default async function EditPickupLocationPage({
+  params,
+}: EditPickupLocationPageProps) {
+  const { locationId } = await params;
+  await requireAdmin(`/admin/pickup-locations/${locationId}`);
+
+  const location = await getPickupLocationById(locationId);
+  if (!location) {
+    notFound();
+  }
+
+  return (
+    <div className="max-w-2xl space-y-6">
+      <h1 className="text-3xl font-bold tracking-tight">{location.name}</h1>
+      <PickupLocationForm
+        defaultValues={{
+          name: location.name,
+          line1: location.line1,
+          line2: location.line2 ?? undefined,
+          city: location.city,
+          region: location.region ?? undefined,
+          postalCode: location.postalCode,
+          country: location.country,
+          timeZone: location.timeZone,
+          slotMinutes: location.slotMinutes,
+          slotCapacity: location.slotCapacity,
+          active: location.active,
+          hours: location.hours.map((hours) => ({
+            weekday: hours.weekday,
+            opensAt: hours.opensAt.slice(0, 5),
+            closesAt: hours.closesAt.slice(0, 5),
+          })),
+          closures: location.closures.map((closure) => ({
+            date: closure.date,
+            reason: closure.reason ?? undefined,
+          })),
+        }}
+        onSubmit={savePickupLocationAction.bind(null, location.id)}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,43 @@
+"use server";
+
+import { revalidatePath } from "next/cache";
+import { redirect } from "next/navigation";
+
+import { savePickupLocation } from "@/database/queries";
+import { requireAdmin } from "@/lib/session";
+import {
+  type PickupLocationFormData,
+  pickupLocationSchema,
+} from "@/lib/validation/pickup-location-schema";
+
+/**
+ * Create a pickup location, or update it when `locationId` is given
+ */
+export async function savePickupLocationAction(
+  locationId: string | undefined,
+  data: PickupLocationFormData,
+): Promise<{ error: string }> {
+  await requireAdmin();
+  const { hours, closures, ...values } = pickupLocationSchema.parse(data);
+
+  const saved = await savePickupLocation(
+    locationId,
+    {
+      ...values,
+      line2: values.line2 || null,
+      region: values.region || null,
+    },
+    hours,
+    closures.map((closure) => ({
+      date: closure.date,
+      reason: closure.reason || null,
+    })),
+  );
+
+  if (!saved) {
+    return { error: "This location no longer exists" };
+  }
+
+  revalidatePath("/admin/pickup-locations");
+  redirect("/admin/pickup-locations");
+}
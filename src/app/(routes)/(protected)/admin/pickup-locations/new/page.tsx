@@ -0,0 +1,27 @@
+import type { Metadata } from "next";
+import React from "react";
+
+import { PickupLocationForm } from "@/components/admin";
+import { requireAdmin } from "@/lib/session";
+
+import { savePickupLocationAction } from "../actions";
+
+export const metadata: Metadata = {
+  title: "New pickup location",
+};
+
+/**
+ * Back office page for adding a pickup location
+ */
+export default async function NewPickupLocationPage() {
+  await requireAdmin("/admin/pickup-locations/new");
+
+  return (
+    <div className="max-w-2xl space-y-6">
+      <h1 className="text-3xl font-bold tracking-tight">New pickup location</h1>
+      <PickupLocationForm
+        onSubmit={savePickupLocationAction.bind(null, undefined)}
+      />
+    </div>
+  );
+}
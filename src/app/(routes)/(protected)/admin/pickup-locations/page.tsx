@@ -0,0 +1,87 @@
+import type { Metadata } from "next";
+import Link from "next/link";
+import React from "react";
+
+import { MapPin, Plus } from "lucide-react";
+
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { listPickupLocations } from "@/database/queries";
+import { formatAddress } from "@/lib/format";
+import { requireAdmin } from "@/lib/session";
+
+export const metadata: Metadata = {
+  title: "Pickup locations",
+};
+
+const WEEKDAY_NAMES = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+
+/**
+ * Back office list of pickup locations
+ */
+export default async function PickupLocationsPage() {
+  await requireAdmin("/admin/pickup-locations");
+  const locations = await listPickupLocations();
+
+  return (
+    <div className="max-w-4xl space-y-6">
+      <div className="flex items-center justify-between">
+        <h1 className="text-3xl font-bold tracking-tight">Pickup locations</h1>
+        <Button asChild>
+          <Link href="/admin/pickup-locations/new">
+            <Plus className="mr-2 h-4 w-4" />
+            New location
+          </Link>
+        </Button>
+      </div>
+
+      {locations.length === 0 ? (
+        <p className="text-muted-foreground">
+          No pickup locations yet. Customers can only choose insured delivery
+          until one is added.
+        </p>
+      ) : (
+        <div className="space-y-4">
+          {locations.map((location) => (
+            <Card key={location.id}>
+              <CardContent className="flex items-start justify-between gap-4">
+                <div className="space-y-1">
+                  <div className="flex items-center gap-2">
+                    <MapPin className="text-muted-foreground h-4 w-4" />
+                    <Link
+                      href={`/admin/pickup-locations/${location.id}`}
+                      className="font-medium hover:underline"
+                    >
+                      {location.name}
+                    </Link>
+                    {!location.active && (
+                      <Badge variant="secondary">Inactive</Badge>
+                    )}
+                  </div>
+                  <p className="text-muted-foreground text-sm">
+                    {formatAddress(location)}
+                  </p>
+                  <p className="text-muted-foreground text-sm">
+                    {location.hours
+                      .map(
+                        (hours) =>
+                          `${WEEKDAY_NAMES[hours.weekday]} ${hours.opensAt.slice(0, 5)}–${hours.closesAt.slice(0, 5)}`,
+                      )
+                      .join(", ") || "No opening hours"}
+                  </p>
+                </div>
+                <div className="text-muted-foreground shrink-0 text-right text-sm">
+                  <p>
+                    {location.slotCapacity} per {location.slotMinutes} min
+                  </p>
+                  <p>{location.timeZone}</p>
+                </div>
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,130 @@
+import type { Metadata } from "next";
+import React from "react";
+
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { getPricingRules, getProductsByIds } from "@/database/queries";
+import type { MetalType } from "@/database/schema";
+import { METAL_LABELS } from "@/lib/catalog";
+import { formatCurrency, formatPercent } from "@/lib/format";
+import { requireAdmin } from "@/lib/session";
+
+export const metadata: Metadata = {
+  title: "Pricing",
+};
+
+const PAYMENT_METHOD_LABELS = {
+  card: "Card",
+  bank_transfer: "Bank transfer",
+};
+
+/**
+ * Back office view of premiums, quantity tiers and payment surcharges
+ */
+export default async function AdminPricingPage() {
+  await requireAdmin("/admin/pricing");
+  const { rules, tiers, surcharges } = await getPricingRules();
+
+  const products = await getProductsByIds(
+    [...rules, ...tiers].flatMap((row) =>
+      row.productId ? [row.productId] : [],
+    ),
+  );
+
+  /**
+   * Describe which products a rule or tier applies to
+   */
+  const describeTarget = (row: {
+    metal: MetalType | null;
+    productId: string | null;
+  }) => {
+    if (row.productId) {
+      return (
+        products.find((product) => product.id === row.productId)?.name ??
+        "Unknown product"
+      );
+    }
+    return row.metal ? `All ${METAL_LABELS[row.metal]}` : "All products";
+  };
+
+  return (
+    <div className="space-y-6">
+      <h1 className="text-3xl font-bold tracking-tight">Pricing</h1>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-lg">Premiums</CardTitle>
+          <CardDescription>
+            The most specific rule wins: product, then metal, then global.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="divide-y">
+          {rules.map((rule) => (
+            <div key={rule.id} className="flex justify-between py-2 text-sm">
+              <span>{describeTarget(rule)}</span>
+              <span className="tabular-nums">
+                {formatPercent(rule.premiumPercent)}
+                {rule.premiumFlat > 0 &&
+                  ` + ${formatCurrency(rule.premiumFlat)}`}
+              </span>
+            </div>
+          ))}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-lg">Quantity tiers</CardTitle>
+          <CardDescription>
+            Discount on the premium from a minimum quantity.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="divide-y">
+          {tiers.length === 0 ? (
+            <p className="text-muted-foreground py-2 text-sm">No tiers.</p>
+          ) : (
+            tiers
+              .sort((a, b) => a.minQuantity - b.minQuantity)
+              .map((tier) => (
+                <div
+                  key={tier.id}
+                  className="flex justify-between py-2 text-sm"
+                >
+                  <span>
+                    {describeTarget(tier)} · {tier.minQuantity}+
+                  </span>
+                  <span className="tabular-nums">
+                    −{formatPercent(tier.premiumDiscountPercent)}
+                  </span>
+                </div>
+              ))
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-lg">Payment surcharges</CardTitle>
+        </CardHeader>
+        <CardContent className="divide-y">
+          {surcharges.map((surcharge) => (
+            <div
+              key={surcharge.method}
+              className="flex justify-between py-2 text-sm"
+            >
+              <span>{PAYMENT_METHOD_LABELS[surcharge.method]}</span>
+              <span className="tabular-nums">
+                {formatPercent(surcharge.surchargePercent)}
+              </span>
+            </div>
+          ))}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
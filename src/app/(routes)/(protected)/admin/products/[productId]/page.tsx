@@ -0,0 +1,74 @@
+import type { Metadata } from "next";
+import { notFound } from "next/navigation";
+import React from "react";
+
+import { ProductForm, ProductImageManager } from "@/components/admin";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { getProductById } from "@/database/queries";
+import { requireAdmin } from "@/lib/session";
+
+import {
+  deleteProductImageAction,
+  saveProductAction,
+  setPrimaryProductImageAction,
+  uploadProductImagesAction,
+} from "../actions";
+
+export const metadata: Metadata = {
+  title: "Edit product",
+};
+
+interface EditProductPageProps {
+  params: Promise<{ productId: string }>;
+}
+
+/**
+ * Back office page for editing a product and its images
+ */
+export default async function EditProductPage({
+  params,
+}: EditProductPageProps) {
+  const { productId } = await params;
+  await requireAdmin(`/admin/products/${productId}`);
+
+  const product = await getProductById(productId);
+  if (!product) {
+    notFound();
+  }
+
+  return (
+    <div className="max-w-2xl space-y-6">
+      <h1 className="text-3xl font-bold tracking-tight">{product.name}</h1>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-lg">Images</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <ProductImageManager
+            images={product.images}
+            onUpload={uploadProductImagesAction.bind(null, product.id)}
+            onDelete={deleteProductImageAction.bind(null, product.id)}
+            onMakePrimary={setPrimaryProductImageAction.bind(null, product.id)}
+          />
+        </CardContent>
+      </Card>
+
+      <ProductForm
+        defaultValues={{
+          name: product.name,
+          slug: product.slug,
+          sku: product.sku,
+          description: product.description ?? undefined,
+          metal: product.metal,
+          form: product.form,
+          mint: product.mint,
+          fineWeightOz: product.fineWeightOz,
+          purity: product.purity,
+          status: product.status,
+        }}
+        onSubmit={saveProductAction.bind(null, product.id)}
+      />
+    </div>
+  );
+}
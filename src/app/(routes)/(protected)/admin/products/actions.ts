@@ -0,0 +1,200 @@
+"use server";
+
+import { revalidatePath } from "next/cache";
+import { redirect } from "next/navigation";
+
+import {
+  deleteProductImage,
+  getProductById,
+  insertProduct,
+  insertProductImages,
+  setPrimaryProductImage,
+  updateProduct,
+  updateProductsStatus,
+} from "@/database/queries";
+import type { ProductStatus } from "@/database/schema";
+import { requireAdmin } from "@/lib/session";
+import { StorageError, getStorage } from "@/lib/storage";
+import {
+  type ProductFormData,
+  productImageFileSchema,
+  productSchema,
+  productStatusChangeSchema,
+} from "@/lib/validation/product-schema";
+
+const IMAGE_EXTENSIONS: Record<string, string> = {
+  "image/jpeg": "jpg",
+  "image/png": "png",
+  "image/webp": "webp",
+  "image/avif": "avif",
+};
+
+/**
+ * Whether a database error is a unique constraint violation
+ */
+function isUniqueViolation(error: unknown) {
+  const code = (candidate: unknown) =>
+    typeof candidate === "object" && candidate !== null && "code" in candidate
+      ? candidate.code
+      : undefined;
+
+  return (
+    code(error) === "23505" ||
+    (error instanceof Error && code(error.cause) === "23505")
+  );
+}
+
+/**
+ * Refresh every page that shows products
+ */
+function revalidateProducts(productId?: string) {
+  revalidatePath("/admin/products");
+  if (productId) revalidatePath(`/admin/products/${productId}`);
+  revalidatePath("/products", "layout");
+}
+
+/**
+ * Create a product, or update it when `productId` is given
+ */
+export async function saveProductAction(
+  productId: string | undefined,
+  data: ProductFormData,
+): Promise<{ error: string }> {
+  await requireAdmin();
+  const values = productSchema.parse(data);
+
+  let savedId: string;
+  try {
+    const saved = productId
+      ? await updateProduct(productId, {
+          ...values,
+          description: values.description || null,
+        })
+      : await insertProduct({
+          ...values,
+          description: values.description || null,
+        });
+
+    if (!saved) {
+      return { error: "This product no longer exists" };
+    }
+    savedId = saved.id;
+  } catch (error) {
+    if (isUniqueViolation(error)) {
+      return { error: "Another product already uses this slug or SKU" };
+    }
+    throw error;
+  }
+
+  revalidateProducts(savedId);
+  // New products continue to their edit page so images can be added
+  redirect(productId ? "/admin/products" : `/admin/products/${savedId}`);
+}
+
+/**
+ * Move the selected products to a status
+ */
+export async function updateProductsStatusAction(
+  productIds: string[],
+  status: ProductStatus,
+) {
+  await requireAdmin();
+  const change = productStatusChangeSchema.parse({ productIds, status });
+
+  await updateProductsStatus(change.productIds, change.status);
+  revalidateProducts();
+}
+
+/**
+ * Upload images and append them to a product's gallery
+ */
+export async function uploadProductImagesAction(
+  productId: string,
+  formData: FormData,
+): Promise<{ error?: string }> {
+  await requireAdmin();
+
+  const existing = await getProductById(productId);
+  if (!existing) {
+    return { error: "This product no longer exists" };
+  }
+
+  const files = formData.getAll("images");
+  const parsed = files.map((file) => productImageFileSchema.safeParse(file));
+  const invalid = parsed.find((result) => !result.success);
+  if (!files.length || invalid) {
+    return {
+      error: invalid?.error?.issues[0]?.message ?? "Choose an image to upload",
+    };
+  }
+
+  const storage = getStorage();
+  const uploaded = [];
+  try {
+    for (const result of parsed) {
+      const file = result.data!;
+      const key = `products/${productId}/${crypto.randomUUID()}.${IMAGE_EXTENSIONS[file.type]}`;
+
+      uploaded.push(
+        await storage.put(
+          key,
+          new Uint8Array(await file.arrayBuffer()),
+          file.type,
+        ),
+      );
+    }
+  } catch (error) {
+    // Don't leave orphaned files behind a partial upload
+    await Promise.all(
+      uploaded.map((object) => storage.delete(object.key).catch(() => {})),
+    );
+    if (error instanceof StorageError) {
+      return { error: "Upload failed, please try again" };
+    }
+    throw error;
+  }
+
+  await insertProductImages(
+    productId,
+    uploaded.map((object) => ({ url: object.url, alt: existing.name })),
+  );
+
+  revalidateProducts(productId);
+  return {};
+}
+
+/**
+ * Remove an image from a product and delete the stored file
+ */
+export async function deleteProductImageAction(
+  productId: string,
+  imageId: string,
+) {
+  await requireAdmin();
+
+  const deleted = await deleteProductImage(productId, imageId);
+  const storage = getStorage();
+  const key = deleted && storage.keyFromUrl(deleted.url);
+
+  // Images seeded from external URLs have no stored file
+  if (key) {
+    await storage.delete(key).catch((error) => {
+      console.error("Failed to delete product image file:", error);
+    });
+  }
+
+  revalidateProducts(productId);
+}
+
+/**
+ * Make an image the one shown first in the catalog
+ */
+export async function setPrimaryProductImageAction(
+  productId: string,
+  imageId: string,
+) {
+  await requireAdmin();
+
+  await setPrimaryProductImage(productId, imageId);
+  revalidateProducts(productId);
+}
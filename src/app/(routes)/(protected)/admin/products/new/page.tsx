@@ -0,0 +1,28 @@
+import type { Metadata } from "next";
+import React from "react";
+
+import { ProductForm } from "@/components/admin";
+import { requireAdmin } from "@/lib/session";
+
+import { saveProductAction } from "../actions";
+
+export const metadata: Metadata = {
+  title: "New product",
+};
+
+/**
+ * Back office page for adding a product
+ */
+export default async function NewProductPage() {
+  await requireAdmin("/admin/products/new");
+
+  return (
+    <div className="max-w-2xl space-y-6">
+      <h1 className="text-3xl font-bold tracking-tight">New product</h1>
+      <p className="text-muted-foreground">
+        Images can be added once the product is saved.
+      </p>
+      <ProductForm onSubmit={saveProductAction.bind(null, undefined)} />
+    </div>
+  );
+}
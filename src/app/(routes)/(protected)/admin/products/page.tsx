@@ -0,0 +1,156 @@
+import type { Metadata } from "next";
+import Link from "next/link";
+import React from "react";
+
+import { ChevronLeft, ChevronRight, Plus } from "lucide-react";
+
+import { ProductTable } from "@/components/admin";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { listAdminProducts } from "@/database/queries";
+import type { ProductStatus } from "@/database/schema";
+import { PRODUCT_STATUS_OPTIONS } from "@/lib/catalog";
+import { requireAdmin } from "@/lib/session";
+import { cn } from "@/lib/utils";
+
+import { updateProductsStatusAction } from "./actions";
+
+export const metadata: Metadata = {
+  title: "Products",
+};
+
+const PAGE_SIZE = 25;
+
+interface AdminProductsPageProps {
+  searchParams: Promise<{ q?: string; status?: string; page?: string }>;
+}
+
+/**
+ * Back office product list with search, status filter and bulk actions
+ */
+export default async function AdminProductsPage({
+  searchParams,
+}: AdminProductsPageProps) {
+  await requireAdmin("/admin/products");
+  const params = await searchParams;
+
+  const search = params.q?.trim() || undefined;
+  const status = PRODUCT_STATUS_OPTIONS.find(
+    (option) => option.value === params.status,
+  )?.value;
+  const page = Math.max(1, Number.parseInt(params.page ?? "", 10) || 1);
+
+  const { products, total } = await listAdminProducts({
+    search,
+    status,
+    page,
+    pageSize: PAGE_SIZE,
+  });
+  const pageCount = Math.max(1, Math.ceil(total / PAGE_SIZE));
+
+  /**
+   * Link to the list keeping the current filters
+   */
+  const href = (changes: { status?: ProductStatus | null; page?: number }) => {
+    const query = new URLSearchParams();
+    const nextStatus = changes.status === undefined ? status : changes.status;
+    if (search) query.set("q", search);
+    if (nextStatus) query.set("status", nextStatus);
+    if (changes.page && changes.page > 1)
+      query.set("page", String(changes.page));
+
+    const value = query.toString();
+    return value ? `/admin/products?${value}` : "/admin/products";
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap items-center justify-between gap-4">
+        <h1 className="text-3xl font-bold tracking-tight">Products</h1>
+        <div className="flex w-full gap-2 sm:w-auto">
+          <form className="flex-1 sm:w-72">
+            {status && <input type="hidden" name="status" value={status} />}
+            <Input
+              name="q"
+              defaultValue={search}
+              placeholder="Search name, SKU or slug"
+              aria-label="Search products"
+            />
+          </form>
+          <Button asChild>
+            <Link href="/admin/products/new">
+              <Plus className="mr-2 h-4 w-4" />
+              New product
+            </Link>
+          </Button>
+        </div>
+      </div>
+
+      <nav className="flex flex-wrap gap-2 text-sm">
+        {[{ value: null, label: "All" }, ...PRODUCT_STATUS_OPTIONS].map(
+          (option) => (
+            <Link
+              key={option.label}
+              href={href({ status: option.value })}
+              className={cn(
+                "rounded-full border px-3 py-1",
+                (option.value ?? undefined) === status
+                  ? "bg-primary text-primary-foreground border-primary"
+                  : "hover:bg-accent",
+              )}
+            >
+              {option.label}
+            </Link>
+          ),
+        )}
+      </nav>
+
+      {products.length === 0 ? (
+        <p className="text-muted-foreground">No products found.</p>
+      ) : (
+        <ProductTable
+          key={`${search}-${status}-${page}`}
+          products={products.map((product) => ({
+            id: product.id,
+            name: product.name,
+            sku: product.sku,
+            metal: product.metal,
+            status: product.status,
+            imageUrl: product.images[0]?.url ?? null,
+          }))}
+          onUpdateStatus={updateProductsStatusAction}
+        />
+      )}
+
+      <div className="text-muted-foreground flex items-center justify-between text-sm">
+        <span>
+          {total} product{total === 1 ? "" : "s"} · page {page} of {pageCount}
+        </span>
+        <div className="flex gap-2">
+          <Button variant="outline" size="sm" asChild>
+            <Link
+              href={href({ page: page - 1 })}
+              aria-disabled={page <= 1}
+              className={cn(page <= 1 && "pointer-events-none opacity-50")}
+            >
+              <ChevronLeft className="mr-1 h-4 w-4" />
+              Previous
+            </Link>
+          </Button>
+          <Button variant="outline" size="sm" asChild>
+            <Link
+              href={href({ page: page + 1 })}
+              aria-disabled={page >= pageCount}
+              className={cn(
+                page >= pageCount && "pointer-events-none opacity-50",
+              )}
+            >
+              Next
+              <ChevronRight className="ml-1 h-4 w-4" />
+            </Link>
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+}
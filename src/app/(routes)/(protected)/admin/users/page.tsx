@@ -0,0 +1,83 @@
+import type { Metadata } from "next";
+import React from "react";
+
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { listUsers } from "@/database/queries";
+import { requireAdmin } from "@/lib/session";
+
+export const metadata: Metadata = {
+  title: "Users",
+};
+
+interface AdminUsersPageProps {
+  searchParams: Promise<{ q?: string }>;
+}
+
+/**
+ * Back office list of customer and staff accounts
+ */
+export default async function AdminUsersPage({
+  searchParams,
+}: AdminUsersPageProps) {
+  await requireAdmin("/admin/users");
+  const { q } = await searchParams;
+  const users = await listUsers(q?.trim() || undefined);
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap items-center justify-between gap-4">
+        <h1 className="text-3xl font-bold tracking-tight">Users</h1>
+        <form className="w-full sm:w-72">
+          <Input
+            name="q"
+            defaultValue={q}
+            placeholder="Search name or email"
+            aria-label="Search users"
+          />
+        </form>
+      </div>
+
+      <Card>
+        <CardContent className="divide-y">
+          {users.length === 0 ? (
+            <p className="text-muted-foreground py-3 text-sm">
+              No users found.
+            </p>
+          ) : (
+            users.map((account) => (
+              <div
+                key={account.id}
+                className="flex items-center justify-between gap-4 py-3 text-sm"
+              >
+                <div className="min-w-0">
+                  <p className="truncate font-medium">{account.name}</p>
+                  <p className="text-muted-foreground truncate">
+                    {account.email}
+                  </p>
+                </div>
+                <div className="flex shrink-0 items-center gap-2">
+                  {account.banned && (
+                    <Badge variant="destructive">Banned</Badge>
+                  )}
+                  {!account.emailVerified && (
+                    <Badge variant="outline">Unverified</Badge>
+                  )}
+                  <Badge
+                    variant={account.role === "admin" ? "default" : "secondary"}
+                  >
+                    {account.role}
+                  </Badge>
+                  <span className="text-muted-foreground hidden sm:inline">
+                    {account.createdAt.toLocaleDateString("en-US")}
+                  </span>
+                </div>
+              </div>
+            ))
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,198 @@
+import type { Metadata } from "next";
+import { notFound } from "next/navigation";
+import React from "react";
+
+import { Trash2 } from "lucide-react";
+
+import {
+  WebhookReplayButton,
+  WebhookSecretField,
+  WebhookSubscriptionForm,
+} from "@/components/admin";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  getWebhookSubscriptionById,
+  listWebhookDeliveries,
+} from "@/database/queries";
+import { webhookEventTypes } from "@/database/schema";
+import { formatDateTime } from "@/lib/format";
+import { requireAdmin } from "@/lib/session";
+import {
+  WEBHOOK_EVENT_LABELS,
+  WEBHOOK_MAX_ATTEMPTS,
+  WEBHOOK_SIGNATURE_HEADER,
+} from "@/lib/webhooks";
+
+import {
+  deleteWebhookSubscriptionAction,
+  replayWebhookDeliveryAction,
+  rotateWebhookSecretAction,
+  saveWebhookSubscriptionAction,
+} from "../actions";
+
+export const metadata: Metadata = {
+  title: "Webhook endpoint",
+};
+
+const STATUS_VARIANTS = {
+  pending: "secondary",
+  succeeded: "outline",
+  failed: "destructive",
+} as const;
+
+interface WebhookPageProps {
+  params: Promise<{ subscriptionId: string }>;
+}
+
+/**
+ * Back office page for a webhook endpoint and its delivery log
+ */
+export default async function WebhookPage({ params }: WebhookPageProps) {
+  const { subscriptionId } = await params;
+  await requireAdmin(`/admin/webhooks/${subscriptionId}`);
+
+  const subscription = await getWebhookSubscriptionById(subscriptionId);
+  if (!subscription) {
+    notFound();
+  }
+  const deliveries = await listWebhookDeliveries(subscription.id);
+
+  return (
+    <div className="max-w-4xl space-y-6">
+      <h1 className="truncate text-3xl font-bold tracking-tight">
+        {subscription.description || subscription.url}
+      </h1>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-lg">Signing secret</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-2">
+          <WebhookSecretField
+            secret={subscription.secret}
+            onRotate={rotateWebhookSecretAction.bind(null, subscription.id)}
+          />
+          <p className="text-muted-foreground text-sm">
+            Each request carries a{" "}
+            <code className="font-mono">{WEBHOOK_SIGNATURE_HEADER}</code> header
+            of the form <code className="font-mono">t=…,v1=…</code>, where{" "}
+            <code className="font-mono">v1</code> is the hex HMAC-SHA256 of{" "}
+            <code className="font-mono">t + &quot;.&quot; + body</code> keyed
+            with this secret. Deduplicate on the{" "}
+            <code className="font-mono">X-Webhook-Id</code> header.
+          </p>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-lg">Endpoint</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          <WebhookSubscriptionForm
+            events={webhookEventTypes.enumValues.map((value) => ({
+              value,
+              label: WEBHOOK_EVENT_LABELS[value],
+            }))}
+            defaultValues={{
+              url: subscription.url,
+              description: subscription.description ?? undefined,
+              eventTypes: subscription.eventTypes,
+              active: subscription.active,
+            }}
+            onSubmit={saveWebhookSubscriptionAction.bind(null, subscription.id)}
+          />
+          <form
+            action={deleteWebhookSubscriptionAction.bind(null, subscription.id)}
+            className="border-t pt-6"
+          >
+            <Button type="submit" variant="destructive">
+              <Trash2 className="mr-2 h-4 w-4" />
+              Delete endpoint
+            </Button>
+          </form>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-lg">Recent deliveries</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {deliveries.length === 0 ? (
+            <p className="text-muted-foreground text-sm">
+              Nothing has been sent to this endpoint yet.
+            </p>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead className="text-muted-foreground text-left">
+                  <tr>
+                    <th className="py-2 font-medium">Event</th>
+                    <th className="py-2 font-medium">Created</th>
+                    <th className="py-2 font-medium">Status</th>
+                    <th className="py-2 font-medium">Attempts</th>
+                    <th className="py-2 font-medium">Response</th>
+                    <th className="py-2" />
+                  </tr>
+                </thead>
+                <tbody className="divide-y">
+                  {deliveries.map((delivery) => (
+                    <tr key={delivery.id} className="align-top">
+                      <td className="py-2">
+                        <p className="font-mono">{delivery.eventType}</p>
+                        <p className="text-muted-foreground font-mono text-xs">
+                          {delivery.eventId}
+                        </p>
+                      </td>
+                      <td className="text-muted-foreground py-2">
+                        {formatDateTime(delivery.createdAt)}
+                      </td>
+                      <td className="py-2">
+                        <Badge variant={STATUS_VARIANTS[delivery.status]}>
+                          {delivery.status}
+                        </Badge>
+                        {delivery.status === "pending" &&
+                          delivery.nextAttemptAt && (
+                            <p className="text-muted-foreground text-xs">
+                              Next {formatDateTime(delivery.nextAttemptAt)}
+                            </p>
+                          )}
+                      </td>
+                      <td className="py-2 tabular-nums">
+                        {delivery.attempts} / {WEBHOOK_MAX_ATTEMPTS}
+                      </td>
+                      <td className="max-w-64 py-2">
+                        {delivery.responseStatus && (
+                          <p className="font-mono">{delivery.responseStatus}</p>
+                        )}
+                        {delivery.responseBody && (
+                          <p className="text-muted-foreground truncate text-xs">
+                            {delivery.responseBody}
+                          </p>
+                        )}
+                      </td>
+                      <td className="py-2 text-right">
+                        {delivery.status !== "pending" && (
+                          <WebhookReplayButton
+                            onReplay={replayWebhookDeliveryAction.bind(
+                              null,
+                              subscription.id,
+                              delivery.id,
+                            )}
+                          />
+                        )}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,89 @@
+"use server";
+
+import { revalidatePath } from "next/cache";
+import { redirect } from "next/navigation";
+
+import {
+  deleteWebhookSubscription,
+  getWebhookDeliveryById,
+  insertWebhookSubscription,
+  updateWebhookSubscription,
+} from "@/database/queries";
+import { requireAdmin } from "@/lib/session";
+import {
+  type WebhookSubscriptionFormData,
+  webhookSubscriptionSchema,
+} from "@/lib/validation/webhook-subscription-schema";
+import { createWebhookSecret, replayWebhookDelivery } from "@/lib/webhooks";
+
+/**
+ * Register a webhook endpoint, or update it when `subscriptionId` is given
+ */
+export async function saveWebhookSubscriptionAction(
+  subscriptionId: string | undefined,
+  data: WebhookSubscriptionFormData,
+): Promise<{ error: string }> {
+  await requireAdmin();
+  const values = webhookSubscriptionSchema.parse(data);
+
+  const saved = subscriptionId
+    ? await updateWebhookSubscription(subscriptionId, {
+        ...values,
+        description: values.description || null,
+      })
+    : await insertWebhookSubscription({
+        ...values,
+        description: values.description || null,
+        secret: createWebhookSecret(),
+      });
+
+  if (!saved) {
+    return { error: "This endpoint no longer exists" };
+  }
+
+  revalidatePath("/admin/webhooks");
+  // New endpoints continue to their page so the secret can be copied
+  redirect(`/admin/webhooks/${saved.id}`);
+}
+
+/**
+ * Replace an endpoint's signing secret
+ */
+export async function rotateWebhookSecretAction(subscriptionId: string) {
+  await requireAdmin();
+
+  await updateWebhookSubscription(subscriptionId, {
+    secret: createWebhookSecret(),
+  });
+  revalidatePath(`/admin/webhooks/${subscriptionId}`);
+}
+
+/**
+ * Remove an endpoint and its delivery log
+ */
+export async function deleteWebhookSubscriptionAction(subscriptionId: string) {
+  await requireAdmin();
+
+  await deleteWebhookSubscription(subscriptionId);
+  revalidatePath("/admin/webhooks");
+  redirect("/admin/webhooks");
+}
+
+/**
+ * Queue a past delivery to be sent again
+ */
+export async function replayWebhookDeliveryAction(
+  subscriptionId: string,
+  deliveryId: string,
+): Promise<{ error?: string }> {
+  await requireAdmin();
+
+  const delivery = await getWebhookDeliveryById(deliveryId);
+  if (delivery?.subscriptionId !== subscriptionId) {
+    return { error: "This delivery no longer exists" };
+  }
+
+  await replayWebhookDelivery(deliveryId);
+  revalidatePath(`/admin/webhooks/${subscriptionId}`);
+  return {};
+}
@@ -0,0 +1,33 @@
+import type { Metadata } from "next";
+import React from "react";
+
+import { WebhookSubscriptionForm } from "@/components/admin";
+import { webhookEventTypes } from "@/database/schema";
+import { requireAdmin } from "@/lib/session";
+import { WEBHOOK_EVENT_LABELS } from "@/lib/webhooks";
+
+import { saveWebhookSubscriptionAction } from "../actions";
+
+export const metadata: Metadata = {
+  title: "New webhook endpoint",
+};
+
+/**
+ * Back office page for registering a webhook endpoint
+ */
+export default async function NewWebhookPage() {
+  await requireAdmin("/admin/webhooks/new");
+
+  return (
+    <div className="max-w-2xl space-y-6">
+      <h1 className="text-3xl font-bold tracking-tight">New endpoint</h1>
+      <WebhookSubscriptionForm
+        events={webhookEventTypes.enumValues.map((value) => ({
+          value,
+          label: WEBHOOK_EVENT_LABELS[value],
+        }))}
+        onSubmit={saveWebhookSubscriptionAction.bind(null, undefined)}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,91 @@
+import type { Metadata } from "next";
+import Link from "next/link";
+import React from "react";
+
+import { Plus, Webhook } from "lucide-react";
+
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { listWebhookSubscriptions } from "@/database/queries";
+import { requireAdmin } from "@/lib/session";
+
+export const metadata: Metadata = {
+  title: "Webhooks",
+};
+
+/**
+ * Back office list of webhook endpoints
+ */
+export default async function WebhooksPage() {
+  await requireAdmin("/admin/webhooks");
+  const subscriptions = await listWebhookSubscriptions();
+
+  return (
+    <div className="max-w-4xl space-y-6">
+      <div className="flex items-center justify-between">
+        <h1 className="text-3xl font-bold tracking-tight">Webhooks</h1>
+        <Button asChild>
+          <Link href="/admin/webhooks/new">
+            <Plus className="mr-2 h-4 w-4" />
+            New endpoint
+          </Link>
+        </Button>
+      </div>
+
+      <p className="text-muted-foreground">
+        Send order, price and account events to automation tools such as Make or
+        Zapier. Every payload is signed with the endpoint&apos;s secret and
+        retried with backoff until the endpoint answers with a 2xx status.
+      </p>
+
+      {subscriptions.length === 0 ? (
+        <p className="text-muted-foreground">No endpoints yet.</p>
+      ) : (
+        <div className="space-y-4">
+          {subscriptions.map((subscription) => (
+            <Card key={subscription.id}>
+              <CardContent className="flex items-start justify-between gap-4">
+                <div className="min-w-0 space-y-1">
+                  <div className="flex items-center gap-2">
+                    <Webhook className="text-muted-foreground h-4 w-4 shrink-0" />
+                    <Link
+                      href={`/admin/webhooks/${subscription.id}`}
+                      className="truncate font-medium hover:underline"
+                    >
+                      {subscription.url}
+                    </Link>
+                    {!subscription.active && (
+                      <Badge variant="secondary">Paused</Badge>
+                    )}
+                  </div>
+                  {subscription.description && (
+                    <p className="text-muted-foreground text-sm">
+                      {subscription.description}
+                    </p>
+                  )}
+                  <div className="flex flex-wrap gap-1">
+                    {subscription.eventTypes.map((eventType) => (
+                      <Badge
+                        key={eventType}
+                        variant="outline"
+                        className="font-mono"
+                      >
+                        {eventType}
+                      </Badge>
+                    ))}
+                  </div>
+                </div>
+                {subscription.failedDeliveries > 0 && (
+                  <Badge variant="destructive" className="shrink-0">
+                    {subscription.failedDeliveries} failed
+                  </Badge>
+                )}
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,146 @@
+import type { Metadata } from "next";
+import { notFound, redirect } from "next/navigation";
+import React from "react";
+
+import { Lock } from "lucide-react";
+
+import {
+  FulfillmentForm,
+  QuoteCountdown,
+  QuoteDiff,
+  QuoteSummary,
+} from "@/components/checkout";
+import { SiteHeader } from "@/components/home/site-header";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardFooter,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { listShippingCountries } from "@/database/queries";
+import { formatAddress, formatDateTime } from "@/lib/format";
+import { getPickupOptions } from "@/lib/fulfillment";
+import {
+  PriceQuoteError,
+  type PriceQuoteWithLines,
+  diffQuotes,
+  getPriceQuote,
+  isQuoteExpired,
+} from "@/lib/price-quotes";
+import { requireSession } from "@/lib/session";
+
+import {
+  estimateShippingAction,
+  payQuoteAction,
+  repriceQuoteAction,
+} from "../actions";
+
+const countryNames = new Intl.DisplayNames(["en"], { type: "region" });
+
+export const metadata: Metadata = {
+  title: "Checkout",
+};
+
+interface CheckoutPageProps {
+  params: Promise<{ quoteId: string }>;
+  searchParams: Promise<{ from?: string }>;
+}
+
+/**
+ * Checkout review page for a locked price quote
+ */
+export default async function CheckoutPage({
+  params,
+  searchParams,
+}: CheckoutPageProps) {
+  const { quoteId } = await params;
+  const { from } = await searchParams;
+  const { user, session } = await requireSession(`/checkout/${quoteId}`);
+  const owner = { userId: user.id, sessionId: session.id };
+
+  let quote: PriceQuoteWithLines;
+  try {
+    quote = await getPriceQuote(quoteId, owner);
+  } catch (error) {
+    if (error instanceof PriceQuoteError) notFound();
+    throw error;
+  }
+
+  // A superseded quote always forwards to its replacement
+  if (quote.status === "superseded" && quote.supersededById) {
+    redirect(`/checkout/${quote.supersededById}?from=${quote.id}`);
+  }
+
+  const previous = from
+    ? await getPriceQuote(from, owner).catch(() => null)
+    : null;
+  const diff =
+    previous && previous.supersededById === quote.id
+      ? diffQuotes(previous, quote)
+      : null;
+
+  const isPayable = quote.status === "active" && !isQuoteExpired(quote);
+  const [shippingCountries, pickupOptions] = isPayable
+    ? await Promise.all([listShippingCountries(), getPickupOptions()])
+    : [[], []];
+
+  return (
+    <div className="bg-background min-h-screen">
+      <SiteHeader />
+
+      <div className="container mx-auto max-w-2xl space-y-6 px-4 py-8 lg:py-12">
+        <h1 className="text-3xl font-bold tracking-tight">Checkout</h1>
+
+        {diff && <QuoteDiff diff={diff} />}
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center text-lg">
+              <Lock className="mr-2 h-4 w-4" />
+              Your locked prices
+            </CardTitle>
+            <CardDescription>
+              You will be charged exactly these prices if you complete payment
+              before the lock expires.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-6">
+            <QuoteSummary lines={quote.lines} subtotal={quote.subtotal} />
+            {quote.status === "active" && (
+              <QuoteCountdown
+                expiresAt={quote.expiresAt}
+                onReprice={repriceQuoteAction.bind(null, quote.id)}
+              />
+            )}
+          </CardContent>
+          {isPayable && (
+            <CardFooter>
+              <FulfillmentForm
+                subtotal={quote.subtotal}
+                countries={shippingCountries
+                  .map((code) => ({
+                    code,
+                    name: countryNames.of(code) ?? code,
+                  }))
+                  .sort((a, b) => a.name.localeCompare(b.name))}
+                pickupLocations={pickupOptions.map(({ location, slots }) => ({
+                  id: location.id,
+                  name: location.name,
+                  address: formatAddress(location),
+                  slots: slots.map((slot) => ({
+                    value: slot.startsAt.toISOString(),
+                    label: formatDateTime(slot.startsAt, location.timeZone),
+                  })),
+                }))}
+                onEstimate={estimateShippingAction.bind(null, quote.id)}
+                onSubmit={payQuoteAction.bind(null, quote.id)}
+              />
+            </CardFooter>
+          )}
+        </Card>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,145 @@
+"use server";
+
+import { notFound, redirect } from "next/navigation";
+
+import { getOrderById, getProductsByIds } from "@/database/queries";
+import {
+  FulfillmentError,
+  type ShippingQuote,
+  estimateParcelWeightOz,
+  getShippingQuote,
+} from "@/lib/fulfillment";
+import {
+  isFakePayments,
+  simulateFakeCheckout,
+  startCheckout,
+} from "@/lib/payments";
+import {
+  PriceQuoteError,
+  getPriceQuote,
+  repriceQuote,
+} from "@/lib/price-quotes";
+import { requireSession } from "@/lib/session";
+import {
+  STEP_UP_ORDER_MINIMUM,
+  StepUpError,
+  type StepUpMethods,
+  requireStepUp,
+} from "@/lib/step-up";
+import {
+  type FulfillmentFormData,
+  fulfillmentSchema,
+} from "@/lib/validation/fulfillment-schema";
+
+/**
+ * Re-price an expired quote and show the replacement with a price diff
+ */
+export async function repriceQuoteAction(quoteId: string) {
+  const { user, session } = await requireSession();
+
+  const next = await repriceQuote(quoteId, {
+    userId: user.id,
+    sessionId: session.id,
+  });
+
+  redirect(
+    next.id === quoteId
+      ? `/checkout/${quoteId}`
+      : `/checkout/${next.id}?from=${quoteId}`,
+  );
+}
+
+/**
+ * Insured delivery cost for a quote to a destination country
+ */
+export async function estimateShippingAction(
+  quoteId: string,
+  country: string,
+): Promise<{ shipping?: ShippingQuote; error?: string }> {
+  const { user, session } = await requireSession();
+
+  try {
+    const quote = await getPriceQuote(quoteId, {
+      userId: user.id,
+      sessionId: session.id,
+    });
+    const products = await getProductsByIds(
+      quote.lines.map((line) => line.productId),
+    );
+
+    const weightOz = estimateParcelWeightOz(
+      quote.lines.flatMap((line) => {
+        const product = products.find((item) => item.id === line.productId);
+        return product ? [{ ...product, quantity: line.quantity }] : [];
+      }),
+    );
+
+    return {
+      shipping: await getShippingQuote(country, weightOz, quote.subtotal),
+    };
+  } catch (error) {
+    if (error instanceof FulfillmentError) return { error: error.message };
+    if (error instanceof PriceQuoteError) return { error: error.message };
+    throw error;
+  }
+}
+
+/**
+ * Charge a locked quote through Stripe Checkout with the chosen
+ * delivery or pickup option
+ * High-value orders, shipping included, need a recent passkey or
+ * two-factor check first
+ */
+export async function payQuoteAction(
+  quoteId: string,
+  data: FulfillmentFormData,
+): Promise<{ error: string; stepUp?: StepUpMethods }> {
+  const { user, session } = await requireSession();
+  const fulfillment = fulfillmentSchema.parse(data);
+
+  let checkoutUrl: string;
+  try {
+    checkoutUrl = await startCheckout(
+      quoteId,
+      { userId: user.id, sessionId: session.id, email: user.email },
+      fulfillment,
+      async (total) => {
+        if (total > STEP_UP_ORDER_MINIMUM) {
+          await requireStepUp(session, user);
+        }
+      },
+    );
+  } catch (error) {
+    if (error instanceof FulfillmentError) return { error: error.message };
+    if (error instanceof PriceQuoteError) return { error: error.message };
+    if (error instanceof StepUpError) {
+      return { error: error.message, stepUp: error.methods };
+    }
+    throw error;
+  }
+
+  redirect(checkoutUrl);
+}
+
+/**
+ * Complete or decline a fake Checkout Session (PAYMENTS_MODE=fake only)
+ */
+export async function simulateCheckoutAction(
+  checkoutSessionId: string,
+  orderId: string,
+  outcome: "succeeded" | "failed",
+) {
+  const { user } = await requireSession();
+  const existing = await getOrderById(orderId);
+
+  if (
+    !isFakePayments() ||
+    existing?.userId !== user.id ||
+    existing.payments[0]?.checkoutSessionId !== checkoutSessionId
+  ) {
+    notFound();
+  }
+
+  await simulateFakeCheckout(checkoutSessionId, orderId, outcome);
+  redirect(`/checkout/success?order=${orderId}`);
+}
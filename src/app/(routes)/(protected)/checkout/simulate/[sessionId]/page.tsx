@@ -0,0 +1,98 @@
+import type { Metadata } from "next";
+import { notFound } from "next/navigation";
+import React from "react";
+
+import { FlaskConical } from "lucide-react";
+
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { getOrderById } from "@/database/queries";
+import { formatCurrency } from "@/lib/format";
+import { isFakePayments } from "@/lib/payments";
+import { requireSession } from "@/lib/session";
+
+import { simulateCheckoutAction } from "../../actions";
+
+export const metadata: Metadata = {
+  title: "Simulated checkout",
+};
+
+interface SimulateCheckoutPageProps {
+  params: Promise<{ sessionId: string }>;
+  searchParams: Promise<{ order?: string }>;
+}
+
+/**
+ * Offline stand-in for the Stripe-hosted Checkout page
+ * Only reachable when PAYMENTS_MODE=fake
+ */
+export default async function SimulateCheckoutPage({
+  params,
+  searchParams,
+}: SimulateCheckoutPageProps) {
+  const { sessionId } = await params;
+  const { order: orderId } = await searchParams;
+  const { user } = await requireSession();
+  const order = orderId ? await getOrderById(orderId) : undefined;
+
+  if (
+    !isFakePayments() ||
+    !order ||
+    order.userId !== user.id ||
+    order.payments[0]?.checkoutSessionId !== sessionId
+  ) {
+    notFound();
+  }
+
+  return (
+    <div className="from-background via-muted/20 to-background flex min-h-screen items-center justify-center bg-gradient-to-br p-4">
+      <Card className="w-full max-w-md">
+        <CardHeader className="text-center">
+          <div className="bg-primary/10 mx-auto mb-2 flex h-12 w-12 items-center justify-center rounded-full">
+            <FlaskConical className="text-primary h-6 w-6" />
+          </div>
+          <CardTitle className="text-2xl">Simulated payment</CardTitle>
+          <CardDescription>
+            Development mode: no card is charged. Choose how Stripe should
+            respond.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <p className="text-center text-3xl font-semibold tabular-nums">
+            {formatCurrency(order.total)}
+          </p>
+          <form
+            action={simulateCheckoutAction.bind(
+              null,
+              sessionId,
+              order.id,
+              "succeeded",
+            )}
+          >
+            <Button type="submit" className="h-11 w-full">
+              Pay successfully
+            </Button>
+          </form>
+          <form
+            action={simulateCheckoutAction.bind(
+              null,
+              sessionId,
+              order.id,
+              "failed",
+            )}
+          >
+            <Button type="submit" variant="outline" className="h-11 w-full">
+              Decline card
+            </Button>
+          </form>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,101 @@
+import type { Metadata } from "next";
+import Link from "next/link";
+import { notFound } from "next/navigation";
+import React from "react";
+
+import { CheckCircle2, Clock, XCircle } from "lucide-react";
+
+import { SiteHeader } from "@/components/home/site-header";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { getOrderById } from "@/database/queries";
+import { formatCurrency } from "@/lib/format";
+import { requireSession } from "@/lib/session";
+
+export const metadata: Metadata = {
+  title: "Order confirmation",
+};
+
+interface CheckoutSuccessPageProps {
+  searchParams: Promise<{ order?: string }>;
+}
+
+/**
+ * Landing page after Stripe Checkout
+ * Payment is confirmed by webhook, so the order may still be pending here
+ */
+export default async function CheckoutSuccessPage({
+  searchParams,
+}: CheckoutSuccessPageProps) {
+  const { order: orderId } = await searchParams;
+  const { user } = await requireSession();
+  const order = orderId ? await getOrderById(orderId) : undefined;
+
+  if (!order || order.userId !== user.id) {
+    notFound();
+  }
+
+  const content = {
+    paid: {
+      icon: CheckCircle2,
+      color: "text-green-600 dark:text-green-400",
+      title: "Payment received",
+      description: "Thank you! Your order is confirmed at the locked prices.",
+    },
+    pending_payment: {
+      icon: Clock,
+      color: "text-amber-600 dark:text-amber-400",
+      title: "Confirming your payment",
+      description:
+        "We're waiting for confirmation from our payment provider. Refresh this page in a moment.",
+    },
+    cancelled: {
+      icon: XCircle,
+      color: "text-destructive",
+      title: "Payment not completed",
+      description:
+        order.payments[0]?.failureMessage ??
+        "Your payment did not go through. Your cart is still saved.",
+    },
+  }[
+    order.status === "pending_payment" || order.status === "cancelled"
+      ? order.status
+      : "paid"
+  ];
+  const Icon = content.icon;
+
+  return (
+    <div className="bg-background min-h-screen">
+      <SiteHeader />
+
+      <div className="container mx-auto max-w-lg px-4 py-16">
+        <Card>
+          <CardContent className="space-y-6 text-center">
+            <Icon className={`mx-auto h-12 w-12 ${content.color}`} />
+            <div className="space-y-2">
+              <h1 className="text-2xl font-semibold tracking-tight">
+                {content.title}
+              </h1>
+              <p className="text-muted-foreground text-sm">
+                {content.description}
+              </p>
+            </div>
+            <p className="text-sm">
+              Order <span className="font-medium">#{order.number}</span> ·{" "}
+              {formatCurrency(order.total)}
+            </p>
+            <Button asChild className="w-full">
+              <Link
+                href={order.status === "cancelled" ? "/cart" : "/dashboard"}
+              >
+                {order.status === "cancelled"
+                  ? "Back to cart"
+                  : "Go to Dashboard"}
+              </Link>
+            </Button>
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
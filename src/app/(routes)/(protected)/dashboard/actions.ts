@@ -0,0 +1,61 @@
+"use server";
+
+import { revalidatePath } from "next/cache";
+
+import {
+  FulfillmentError,
+  changeShippingAddress,
+  reschedulePickup,
+} from "@/lib/fulfillment";
+import { requireSession } from "@/lib/session";
+import { StepUpError, type StepUpMethods, requireStepUp } from "@/lib/step-up";
+import {
+  type ShippingAddressFormData,
+  shippingAddressSchema,
+} from "@/lib/validation/fulfillment-schema";
+
+/**
+ * Move one of the customer's pickup orders to another appointment
+ */
+export async function reschedulePickupAction(
+  orderId: string,
+  slotAt: string,
+): Promise<{ error?: string }> {
+  const { user } = await requireSession();
+
+  try {
+    await reschedulePickup(orderId, user.id, new Date(slotAt));
+  } catch (error) {
+    if (error instanceof FulfillmentError) return { error: error.message };
+    throw error;
+  }
+
+  revalidatePath("/dashboard");
+  return {};
+}
+
+/**
+ * Send one of the customer's unshipped orders to another address
+ * Needs a recent passkey or two-factor check
+ */
+export async function changeShippingAddressAction(
+  orderId: string,
+  data: ShippingAddressFormData,
+): Promise<{ error?: string; stepUp?: StepUpMethods }> {
+  const { user, session } = await requireSession();
+  const address = shippingAddressSchema.parse(data);
+
+  try {
+    await requireStepUp(session, user);
+    await changeShippingAddress(orderId, user.id, address);
+  } catch (error) {
+    if (error instanceof StepUpError) {
+      return { error: error.message, stepUp: error.methods };
+    }
+    if (error instanceof FulfillmentError) return { error: error.message };
+    throw error;
+  }
+
+  revalidatePath("/dashboard");
+  return {};
+}
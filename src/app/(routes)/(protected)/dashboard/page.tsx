@@ -1,18 +1,186 @@
-import { headers } from "next/headers";
+import type { Metadata } from "next";
+import Link from "next/link";
+import React from "react";
 
-import { auth } from "@/lib/auth";
+import { MapPin, Package, Truck } from "lucide-react";
 
-// your auth instance
+import {
+  PickupRescheduleForm,
+  ShippingAddressForm,
+} from "@/components/dashboard";
+import { SiteHeader } from "@/components/home/site-header";
+import { Badge } from "@/components/ui/badge";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { getPickupLocationById, listOrdersForUser } from "@/database/queries";
+import { formatAddress, formatCurrency, formatDateTime } from "@/lib/format";
+import {
+  canChangeShippingAddress,
+  canReschedulePickup,
+  getAvailablePickupSlots,
+} from "@/lib/fulfillment";
+import { ORDER_STATUS_LABELS } from "@/lib/orders";
+import { requireSession } from "@/lib/session";
 
-export default async function TestPage() {
-  const session = await auth.api.getSession({
-    headers: await headers(),
-  });
+import { changeShippingAddressAction, reschedulePickupAction } from "./actions";
+
+const countryNames = new Intl.DisplayNames(["en"], { type: "region" });
+
+export const metadata: Metadata = {
+  title: "Dashboard",
+};
+
+/**
+ * Customer dashboard with upcoming pickups and recent orders
+ */
+export default async function DashboardPage() {
+  const { user } = await requireSession("/dashboard");
+  const orders = await listOrdersForUser(user.id);
+
+  const pickups = await Promise.all(
+    orders
+      .filter((order) => canReschedulePickup(order))
+      .map(async (order) => {
+        const location = await getPickupLocationById(order.pickupLocationId!);
+        const slots = location?.active
+          ? await getAvailablePickupSlots(location)
+          : [];
+
+        return {
+          order,
+          location: order.pickupLocation!,
+          slots: slots
+            .filter(
+              (slot) =>
+                slot.startsAt.getTime() !== order.pickupSlotAt!.getTime(),
+            )
+            .map((slot) => ({
+              value: slot.startsAt.toISOString(),
+              label: formatDateTime(slot.startsAt, location!.timeZone),
+            })),
+        };
+      }),
+  );
+
+  const deliveries = orders.filter((order) => canChangeShippingAddress(order));
 
   return (
-    <div>
-      <h1>Session Test</h1>
-      <pre>{JSON.stringify(session, null, 2)}</pre>
+    <div className="bg-background min-h-screen">
+      <SiteHeader />
+
+      <div className="container mx-auto max-w-3xl space-y-8 px-4 py-8 lg:py-12">
+        <h1 className="text-3xl font-bold tracking-tight">
+          Welcome back{user.name ? `, ${user.name}` : ""}
+        </h1>
+
+        {pickups.length > 0 && (
+          <section className="space-y-4">
+            <h2 className="text-xl font-semibold">Pickup appointments</h2>
+            {pickups.map(({ order, location, slots }) => (
+              <Card key={order.id}>
+                <CardHeader>
+                  <CardTitle className="flex items-center text-lg">
+                    <MapPin className="mr-2 h-4 w-4" />
+                    {location.name}
+                  </CardTitle>
+                  <CardDescription>{formatAddress(location)}</CardDescription>
+                </CardHeader>
+                <CardContent className="space-y-4">
+                  <p className="text-sm">
+                    Order <span className="font-medium">#{order.number}</span> ·{" "}
+                    <span className="font-medium">
+                      {formatDateTime(order.pickupSlotAt!, location.timeZone)}
+                    </span>
+                  </p>
+                  <PickupRescheduleForm
+                    slots={slots}
+                    onReschedule={reschedulePickupAction.bind(null, order.id)}
+                  />
+                </CardContent>
+              </Card>
+            ))}
+          </section>
+        )}
+
+        {deliveries.length > 0 && (
+          <section className="space-y-4">
+            <h2 className="text-xl font-semibold">Upcoming deliveries</h2>
+            {deliveries.map((order) => (
+              <Card key={order.id}>
+                <CardHeader>
+                  <CardTitle className="flex items-center text-lg">
+                    <Truck className="mr-2 h-4 w-4" />
+                    Order #{order.number}
+                  </CardTitle>
+                  <CardDescription>
+                    {order.shippingAddress!.name} ·{" "}
+                    {formatAddress(order.shippingAddress!)}
+                  </CardDescription>
+                </CardHeader>
+                <CardContent>
+                  <ShippingAddressForm
+                    defaultValues={order.shippingAddress!}
+                    countryName={
+                      countryNames.of(order.shippingAddress!.country) ??
+                      order.shippingAddress!.country
+                    }
+                    onSave={changeShippingAddressAction.bind(null, order.id)}
+                  />
+                </CardContent>
+              </Card>
+            ))}
+          </section>
+        )}
+
+        <section className="space-y-4">
+          <h2 className="text-xl font-semibold">Recent orders</h2>
+          {orders.length === 0 ? (
+            <p className="text-muted-foreground">
+              You haven&apos;t placed any orders yet.{" "}
+              <Link href="/products" className="underline">
+                Browse products
+              </Link>
+            </p>
+          ) : (
+            <Card>
+              <CardContent className="divide-y">
+                {orders.map((order) => (
+                  <div
+                    key={order.id}
+                    className="flex items-center justify-between py-3 text-sm"
+                  >
+                    <div className="flex items-center gap-3">
+                      <Package className="text-muted-foreground h-4 w-4" />
+                      <div>
+                        <p className="font-medium">#{order.number}</p>
+                        <p className="text-muted-foreground">
+                          {order.createdAt.toLocaleDateString("en-US")} ·{" "}
+                          {order.fulfillmentMethod === "pickup"
+                            ? "Pickup"
+                            : "Delivery"}
+                        </p>
+                      </div>
+                    </div>
+                    <div className="flex items-center gap-3">
+                      <Badge variant="secondary">
+                        {ORDER_STATUS_LABELS[order.status]}
+                      </Badge>
+                      <span className="tabular-nums">
+                        {formatCurrency(order.total)}
+                      </span>
+                    </div>
+                  </div>
+                ))}
+              </CardContent>
+            </Card>
+          )}
+        </section>
+      </div>
     </div>
   );
 }
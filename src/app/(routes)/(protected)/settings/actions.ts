@@ -0,0 +1,31 @@
+"use server";
+
+import { auth } from "@/lib/auth";
+import { requireSession, verifyPassword } from "@/lib/session";
+import {
+  type PasswordConfirmationFormData,
+  passwordConfirmationSchema,
+} from "@/lib/validation/two-factor-schema";
+
+/**
+ * Unused two-factor backup codes, after confirming the password
+ */
+export async function viewBackupCodesAction(
+  data: PasswordConfirmationFormData,
+): Promise<{ codes?: string[]; error?: string }> {
+  const { user } = await requireSession();
+
+  const parsed = passwordConfirmationSchema.safeParse(data);
+  if (!parsed.success) return { error: "Password is required" };
+
+  if (!(await verifyPassword(user.id, parsed.data.password))) {
+    return { error: "Incorrect password" };
+  }
+
+  const { backupCodes } = await auth.api.viewBackupCodes({
+    body: { userId: user.id },
+  });
+
+  // Returned as the stored JSON list once decrypted
+  return { codes: JSON.parse(backupCodes) as string[] };
+}
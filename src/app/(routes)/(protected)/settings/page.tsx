@@ -0,0 +1,172 @@
+import type { Metadata } from "next";
+import Link from "next/link";
+import React from "react";
+
+import {
+  ChevronRight,
+  Fingerprint,
+  Link2,
+  MonitorSmartphone,
+  ShieldCheck,
+} from "lucide-react";
+
+import { SiteHeader } from "@/components/home/site-header";
+import {
+  ConnectedAccounts,
+  PasskeySettings,
+  TwoFactorSettings,
+} from "@/components/settings";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { listAccountsForUser, listPasskeysForUser } from "@/database/queries";
+import { ENABLED_SOCIAL_PROVIDERS } from "@/lib/auth";
+import { requireSession } from "@/lib/session";
+import {
+  SOCIAL_PROVIDERS,
+  type SocialProvider,
+  describeSocialError,
+} from "@/lib/social-providers";
+
+import { viewBackupCodesAction } from "./actions";
+
+export const metadata: Metadata = {
+  title: "Settings",
+};
+
+interface SettingsPageProps {
+  /** Set by Better Auth when connecting a provider fails */
+  searchParams: Promise<{ error?: string }>;
+}
+
+/**
+ * Account settings: sign-in security, connected accounts and devices
+ */
+export default async function SettingsPage({
+  searchParams,
+}: SettingsPageProps) {
+  const { error } = await searchParams;
+  const { user } = await requireSession("/settings");
+  const twoFactorEnabled = user.twoFactorEnabled === true;
+  const [passkeys, accounts] = await Promise.all([
+    listPasskeysForUser(user.id),
+    listAccountsForUser(user.id),
+  ]);
+
+  return (
+    <div className="bg-background min-h-screen">
+      <SiteHeader />
+
+      <div className="container mx-auto max-w-3xl space-y-8 px-4 py-8 lg:py-12">
+        <h1 className="text-3xl font-bold tracking-tight">Settings</h1>
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center text-lg">
+              <ShieldCheck className="mr-2 h-4 w-4" />
+              Two-factor authentication
+              <Badge
+                variant={twoFactorEnabled ? "default" : "secondary"}
+                className="ml-auto"
+              >
+                {twoFactorEnabled ? "On" : "Off"}
+              </Badge>
+            </CardTitle>
+            <CardDescription>
+              Authenticator app codes for signing in with your password
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <TwoFactorSettings
+              enabled={twoFactorEnabled}
+              onViewBackupCodes={viewBackupCodesAction}
+            />
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center text-lg">
+              <Fingerprint className="mr-2 h-4 w-4" />
+              Passkeys
+            </CardTitle>
+            <CardDescription>
+              Passwordless sign-in with your device
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <PasskeySettings
+              passkeys={passkeys.map((passkey) => ({
+                id: passkey.id,
+                name: passkey.name,
+                backedUp: passkey.backedUp,
+                createdAt:
+                  passkey.createdAt?.toLocaleDateString("en-US") ?? null,
+              }))}
+            />
+          </CardContent>
+        </Card>
+
+        {ENABLED_SOCIAL_PROVIDERS.length > 0 && (
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center text-lg">
+                <Link2 className="mr-2 h-4 w-4" />
+                Connected accounts
+              </CardTitle>
+              <CardDescription>
+                Sign in with an account you already have
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <ConnectedAccounts
+                providers={ENABLED_SOCIAL_PROVIDERS}
+                accounts={accounts.flatMap((account) =>
+                  SOCIAL_PROVIDERS.includes(
+                    account.providerId as SocialProvider,
+                  )
+                    ? [
+                        {
+                          providerId: account.providerId as SocialProvider,
+                          accountId: account.accountId,
+                          connectedAt:
+                            account.createdAt.toLocaleDateString("en-US"),
+                        },
+                      ]
+                    : [],
+                )}
+                initialError={error ? describeSocialError(error) : undefined}
+              />
+            </CardContent>
+          </Card>
+        )}
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center text-lg">
+              <MonitorSmartphone className="mr-2 h-4 w-4" />
+              Devices
+            </CardTitle>
+            <CardDescription>
+              See where you&apos;re signed in and sign out other devices
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <Button asChild variant="outline">
+              <Link href="/settings/security">
+                Manage active sessions
+                <ChevronRight className="ml-2 h-4 w-4" />
+              </Link>
+            </Button>
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,47 @@
+"use server";
+
+import { revalidatePath } from "next/cache";
+import { headers } from "next/headers";
+
+import { getSessionForUser } from "@/database/queries";
+import { auth } from "@/lib/auth";
+import { requireSession } from "@/lib/session";
+
+/**
+ * Sign one of the user's other devices out
+ */
+export async function revokeSessionAction(
+  sessionId: string,
+): Promise<{ error?: string }> {
+  const current = await requireSession();
+
+  if (sessionId === current.session.id) {
+    return { error: "Sign out to end the session on this device" };
+  }
+
+  // Looked up by id so tokens never reach the browser
+  const target = await getSessionForUser(sessionId, current.user.id);
+  if (!target) return { error: "That session has already ended" };
+
+  await auth.api.revokeSession({
+    body: { token: target.token },
+    headers: await headers(),
+  });
+
+  revalidatePath("/settings/security");
+  return {};
+}
+
+/**
+ * Sign every device out except this one
+ */
+export async function revokeOtherSessionsAction(): Promise<{
+  error?: string;
+}> {
+  await requireSession();
+
+  await auth.api.revokeOtherSessions({ headers: await headers() });
+
+  revalidatePath("/settings/security");
+  return {};
+}
@@ -0,0 +1,86 @@
+import type { Metadata } from "next";
+import Link from "next/link";
+import React from "react";
+
+import { ArrowLeft, MonitorSmartphone } from "lucide-react";
+
+import { SiteHeader } from "@/components/home/site-header";
+import { ActiveSessions } from "@/components/settings";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { listActiveSessionsForUser } from "@/database/queries";
+import { describeDevice, formatLocation, parseUserAgent } from "@/lib/devices";
+import { formatDateTime } from "@/lib/format";
+import { requireSession } from "@/lib/session";
+
+import { revokeOtherSessionsAction, revokeSessionAction } from "./actions";
+
+export const metadata: Metadata = {
+  title: "Security",
+};
+
+/**
+ * Devices signed into the account, with the option to sign them out
+ */
+export default async function SecurityPage() {
+  const { user, session: current } = await requireSession("/settings/security");
+  const sessions = await listActiveSessionsForUser(user.id);
+
+  return (
+    <div className="bg-background min-h-screen">
+      <SiteHeader />
+
+      <div className="container mx-auto max-w-3xl space-y-8 px-4 py-8 lg:py-12">
+        <div className="space-y-2">
+          <Button asChild variant="ghost" size="sm" className="-ml-3">
+            <Link href="/settings">
+              <ArrowLeft className="mr-2 h-4 w-4" />
+              Settings
+            </Link>
+          </Button>
+          <h1 className="text-3xl font-bold tracking-tight">Security</h1>
+        </div>
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center text-lg">
+              <MonitorSmartphone className="mr-2 h-4 w-4" />
+              Active sessions
+            </CardTitle>
+            <CardDescription>
+              Devices signed into your account. We email you when a new one
+              signs in; sign out any you don&apos;t recognize.
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <ActiveSessions
+              sessions={sessions.map((session) => {
+                const device = parseUserAgent(session.userAgent);
+
+                return {
+                  id: session.id,
+                  device: describeDevice(device),
+                  deviceType: device.type,
+                  location: formatLocation(session),
+                  ipAddress: session.ipAddress,
+                  createdAt: formatDateTime(session.createdAt),
+                  // Sessions are refreshed at most daily, so this is rough
+                  lastActiveAt: formatDateTime(session.updatedAt),
+                  current: session.id === current.id,
+                };
+              })}
+              onRevoke={revokeSessionAction}
+              onRevokeOthers={revokeOtherSessionsAction}
+            />
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,28 @@
+import type { Metadata } from "next";
+import React from "react";
+
+import { CartView } from "@/components/cart";
+import { SiteHeader } from "@/components/home/site-header";
+import { priceCart, resolveCart } from "@/lib/cart";
+
+export const metadata: Metadata = {
+  title: "Cart",
+};
+
+/**
+ * Shopping cart page, priced live on every render
+ */
+export default async function CartPage() {
+  const cart = await priceCart(await resolveCart());
+
+  return (
+    <div className="bg-background min-h-screen">
+      <SiteHeader />
+
+      <div className="container mx-auto px-4 py-8 lg:py-12">
+        <h1 className="mb-8 text-3xl font-bold tracking-tight">Your cart</h1>
+        <CartView initialCart={cart} />
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,222 @@
+import type { Metadata } from "next";
+import Link from "next/link";
+import { notFound } from "next/navigation";
+import React from "react";
+
+import { ArrowLeft } from "lucide-react";
+
+import { AddToCartForm } from "@/components/cart";
+import { SiteHeader } from "@/components/home/site-header";
+import {
+  PriceBreakdown,
+  PriceChart,
+  ProductGallery,
+} from "@/components/products";
+import { Badge } from "@/components/ui/badge";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { getProductBySlug } from "@/database/queries";
+import { FORM_OPTIONS, METAL_LABELS } from "@/lib/catalog";
+import { formatCurrency, formatWeight } from "@/lib/format";
+import {
+  CHECKOUT_PAYMENT_METHOD,
+  computePrice,
+  getPricingContext,
+} from "@/lib/pricing";
+import { getSpotPriceHistory, getSpotPrices } from "@/lib/spot-prices";
+
+interface ProductPageProps {
+  params: Promise<{ slug: string }>;
+}
+
+export async function generateMetadata({
+  params,
+}: ProductPageProps): Promise<Metadata> {
+  const { slug } = await params;
+  const product = await getProductBySlug(slug);
+
+  if (!product) {
+    return { title: "Product not found" };
+  }
+
+  return {
+    title: product.name,
+    description:
+      product.description ??
+      `${formatWeight(product.fineWeightOz)} ${METAL_LABELS[product.metal].toLowerCase()} ${product.form} from ${product.mint}`,
+  };
+}
+
+/**
+ * Product detail page
+ * Explains the live price as spot × fine weight + premium
+ */
+export default async function ProductPage({ params }: ProductPageProps) {
+  const { slug } = await params;
+  const product = await getProductBySlug(slug);
+
+  if (!product) {
+    notFound();
+  }
+
+  const [{ prices: spotPrices, stale }, spotHistory, pricingContext] =
+    await Promise.all([
+      getSpotPrices(),
+      getSpotPriceHistory(product.metal, 30),
+      getPricingContext(CHECKOUT_PAYMENT_METHOD),
+    ]);
+
+  const spot = spotPrices[product.metal];
+  const price = computePrice(product, spot, 1, pricingContext);
+  const priceHistory = spotHistory.map((point) => ({
+    timestamp: point.timestamp,
+    price: computePrice(product, point.price, 1, pricingContext).unitPrice,
+  }));
+
+  // Unit price at each volume threshold that changes this product's price
+  const volumePrices = [
+    ...new Set(pricingContext.rules.tiers.map((tier) => tier.minQuantity)),
+  ]
+    .filter((quantity) => quantity > 1)
+    .sort((a, b) => a - b)
+    .map((quantity) => ({
+      quantity,
+      unitPrice: computePrice(product, spot, quantity, pricingContext)
+        .unitPrice,
+    }))
+    .filter((tier) => tier.unitPrice < price.unitPrice);
+
+  const specs = [
+    { label: "Metal", value: METAL_LABELS[product.metal] },
+    {
+      label: "Form",
+      value: FORM_OPTIONS.find((option) => option.value === product.form)
+        ?.label,
+    },
+    { label: "Fine weight", value: formatWeight(product.fineWeightOz) },
+    { label: "Purity", value: product.purity.toFixed(4) },
+    { label: "Mint", value: product.mint },
+    { label: "SKU", value: product.sku },
+  ];
+
+  return (
+    <div className="bg-background min-h-screen">
+      <SiteHeader />
+
+      <div className="container mx-auto px-4 py-8 lg:py-12">
+        <Link
+          href="/products"
+          className="text-muted-foreground hover:text-foreground mb-6 inline-flex items-center text-sm font-medium transition-colors"
+        >
+          <ArrowLeft className="mr-2 h-4 w-4" />
+          Back to products
+        </Link>
+
+        <div className="grid gap-10 lg:grid-cols-2">
+          <ProductGallery
+            images={product.images}
+            name={product.name}
+            metal={product.metal}
+          />
+
+          <div className="space-y-6">
+            <div className="space-y-3">
+              <div className="flex flex-wrap gap-1.5">
+                <Badge variant="secondary">{METAL_LABELS[product.metal]}</Badge>
+                <Badge variant="outline">{product.mint}</Badge>
+              </div>
+              <h1 className="text-3xl font-bold tracking-tight">
+                {product.name}
+              </h1>
+              <p className="text-3xl font-semibold tabular-nums">
+                {formatCurrency(price.unitPrice)}
+              </p>
+              {stale && (
+                <p className="text-muted-foreground text-sm">
+                  Live spot prices are delayed, this price uses the last
+                  recorded market price.
+                </p>
+              )}
+              <AddToCartForm productId={product.id} />
+              {product.description && (
+                <p className="text-muted-foreground leading-relaxed">
+                  {product.description}
+                </p>
+              )}
+            </div>
+
+            {/* Price Breakdown */}
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-lg">How this price is set</CardTitle>
+                <CardDescription>
+                  Prices track the live spot market. You pay the metal value
+                  plus a fixed premium covering minting, insurance and handling.
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                <PriceBreakdown
+                  price={price}
+                  fineWeightOz={product.fineWeightOz}
+                />
+                {volumePrices.length > 0 && (
+                  <div className="mt-6 space-y-2">
+                    <p className="text-sm font-medium">Volume pricing</p>
+                    <dl className="space-y-1 text-sm">
+                      {volumePrices.map((tier) => (
+                        <div
+                          key={tier.quantity}
+                          className="flex items-center justify-between"
+                        >
+                          <dt className="text-muted-foreground">
+                            {tier.quantity}+ units
+                          </dt>
+                          <dd className="font-medium tabular-nums">
+                            {formatCurrency(tier.unitPrice)} each
+                          </dd>
+                        </div>
+                      ))}
+                    </dl>
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+
+            {/* Specifications */}
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-lg">Specifications</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <dl className="grid grid-cols-2 gap-x-6 gap-y-3 text-sm">
+                  {specs.map((spec) => (
+                    <div key={spec.label}>
+                      <dt className="text-muted-foreground">{spec.label}</dt>
+                      <dd className="font-medium">{spec.value}</dd>
+                    </div>
+                  ))}
+                </dl>
+              </CardContent>
+            </Card>
+
+            {/* Price History */}
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-lg">Price history</CardTitle>
+                <CardDescription>Last 30 days</CardDescription>
+              </CardHeader>
+              <CardContent>
+                <PriceChart points={priceHistory} />
+              </CardContent>
+            </Card>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
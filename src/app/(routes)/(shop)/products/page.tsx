@@ -0,0 +1,126 @@
+import type { Metadata } from "next";
+import React from "react";
+
+import { PackageSearch } from "lucide-react";
+
+import { SiteHeader } from "@/components/home/site-header";
+import { CatalogFilters, ProductCard } from "@/components/products";
+import { getWeightBounds, listMints, listProducts } from "@/database/queries";
+import {
+  CHECKOUT_PAYMENT_METHOD,
+  computePrice,
+  getPricingContext,
+} from "@/lib/pricing";
+import { getSpotPrices } from "@/lib/spot-prices";
+import { catalogSearchParamsSchema } from "@/lib/validation/catalog-schema";
+
+export const metadata: Metadata = {
+  title: "Products",
+  description:
+    "Browse gold, silver, platinum, and palladium bars and coins priced live from the spot market",
+  keywords: [
+    "bullion",
+    "gold bars",
+    "silver coins",
+    "platinum",
+    "palladium",
+    "emetals",
+  ],
+};
+
+interface ProductsPageProps {
+  searchParams: Promise<Record<string, string | string[] | undefined>>;
+}
+
+/**
+ * Product catalog page
+ * Filters and sort order are read from the URL and applied server-side
+ */
+export default async function ProductsPage({
+  searchParams,
+}: ProductsPageProps) {
+  const rawParams = await searchParams;
+  const params = catalogSearchParamsSchema.parse(
+    Object.fromEntries(
+      Object.entries(rawParams).map(([key, value]) => [
+        key,
+        Array.isArray(value) ? value.join(",") : value,
+      ]),
+    ),
+  );
+
+  const [products, mints, weightBounds, spot, pricingContext] =
+    await Promise.all([
+      listProducts({
+        metals: params.metal,
+        forms: params.form,
+        mints: params.mint,
+        minWeightOz: params.minOz,
+        maxWeightOz: params.maxOz,
+      }),
+      listMints(),
+      getWeightBounds(),
+      getSpotPrices(),
+      getPricingContext(CHECKOUT_PAYMENT_METHOD),
+    ]);
+
+  const [sortKey, direction] = params.sort.split("-") as [
+    "price" | "premium",
+    "asc" | "desc",
+  ];
+
+  const pricedProducts = products
+    .map((product) => ({
+      product,
+      price: computePrice(
+        product,
+        spot.prices[product.metal],
+        1,
+        pricingContext,
+      ),
+    }))
+    .sort((a, b) => {
+      const difference =
+        sortKey === "price"
+          ? a.price.unitPrice - b.price.unitPrice
+          : a.price.premiumPercent - b.price.premiumPercent;
+      return direction === "asc" ? difference : -difference;
+    });
+
+  return (
+    <div className="bg-background min-h-screen">
+      <SiteHeader />
+
+      <section id="products" className="container mx-auto px-4 py-8 lg:py-12">
+        <div className="mb-8 space-y-2">
+          <h1 className="text-3xl font-bold tracking-tight">Products</h1>
+          <p className="text-muted-foreground">
+            {spot.stale
+              ? "Live spot prices are delayed, showing the last recorded market prices."
+              : "Prices update with the live spot market."}
+          </p>
+        </div>
+
+        <div className="grid gap-8 lg:grid-cols-[260px_1fr]">
+          <CatalogFilters mints={mints} weightBounds={weightBounds} />
+
+          {pricedProducts.length > 0 ? (
+            <div className="grid gap-6 sm:grid-cols-2 xl:grid-cols-3">
+              {pricedProducts.map(({ product, price }) => (
+                <ProductCard key={product.id} product={product} price={price} />
+              ))}
+            </div>
+          ) : (
+            <div className="flex flex-col items-center justify-center rounded-lg border border-dashed py-16 text-center">
+              <PackageSearch className="text-muted-foreground mb-4 h-10 w-10" />
+              <p className="font-medium">No products match these filters</p>
+              <p className="text-muted-foreground text-sm">
+                Try widening the weight range or clearing a filter.
+              </p>
+            </div>
+          )}
+        </div>
+      </section>
+    </div>
+  );
+}
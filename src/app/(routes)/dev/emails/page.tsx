@@ -0,0 +1,73 @@
+import type { Metadata } from "next";
+import { notFound } from "next/navigation";
+import React from "react";
+
+import { Mail } from "lucide-react";
+
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { EMAIL_PREVIEWS } from "@/lib/emails";
+
+export const metadata: Metadata = {
+  title: "Email previews",
+};
+
+/**
+ * Every transactional email rendered with sample data
+ * Only reachable in development
+ */
+export default function EmailPreviewsPage() {
+  if (process.env.NODE_ENV !== "development") notFound();
+
+  return (
+    <div className="container mx-auto max-w-5xl space-y-8 px-4 py-8 lg:py-12">
+      <div>
+        <h1 className="text-3xl font-bold tracking-tight">Email previews</h1>
+        <p className="text-muted-foreground">
+          Templates rendered with sample data. Nothing is sent.
+        </p>
+      </div>
+
+      {Object.entries(EMAIL_PREVIEWS).map(([name, preview]) => {
+        const { subject } = preview.render();
+        const url = `/api/dev/emails/${name}`;
+
+        return (
+          <Card key={name}>
+            <CardHeader>
+              <CardTitle className="flex items-center text-lg">
+                <Mail className="mr-2 h-4 w-4" />
+                {preview.label}
+              </CardTitle>
+              <CardDescription className="flex flex-wrap gap-x-4">
+                <span>{subject}</span>
+                <a href={url} className="underline" target="_blank">
+                  HTML
+                </a>
+                <a
+                  href={`${url}?format=text`}
+                  className="underline"
+                  target="_blank"
+                >
+                  Plain text
+                </a>
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <iframe
+                src={url}
+                title={preview.label}
+                className="h-[720px] w-full rounded-md border"
+              />
+            </CardContent>
+          </Card>
+        );
+      })}
+    </div>
+  );
+}
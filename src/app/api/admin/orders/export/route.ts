@@ -0,0 +1,35 @@
+import { NextRequest, NextResponse } from "next/server";
+
+import { streamOrdersCsv } from "@/lib/orders";
+import { getServerSession } from "@/lib/session";
+import { orderFiltersSchema } from "@/lib/validation/order-filters-schema";
+
+export const dynamic = "force-dynamic";
+
+/**
+ * CSV export of orders matching the back office list filters
+ * Streamed so large exports never sit in memory
+ */
+export async function GET(request: NextRequest) {
+  const session = await getServerSession();
+
+  if (!session) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+  if (session.user.role !== "admin") {
+    return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+  }
+
+  const filters = orderFiltersSchema
+    .omit({ page: true })
+    .parse(Object.fromEntries(request.nextUrl.searchParams));
+  const date = new Date().toISOString().slice(0, 10);
+
+  return new Response(streamOrdersCsv(filters), {
+    headers: {
+      "Content-Type": "text/csv; charset=utf-8",
+      "Content-Disposition": `attachment; filename="orders-${date}.csv"`,
+      "Cache-Control": "no-store",
+    },
+  });
+}
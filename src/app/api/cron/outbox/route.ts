@@ -0,0 +1,28 @@
+import { NextRequest, NextResponse } from "next/server";
+
+import { dispatchOutboxEvents } from "@/lib/outbox";
+
+export const dynamic = "force-dynamic";
+
+/**
+ * Domain event dispatch endpoint for external schedulers
+ * Requires `Authorization: Bearer $CRON_SECRET`
+ */
+export async function GET(request: NextRequest) {
+  const secret = process.env.CRON_SECRET;
+
+  if (!secret || request.headers.get("authorization") !== `Bearer ${secret}`) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const dispatched = await dispatchOutboxEvents();
+    return NextResponse.json({ dispatched });
+  } catch (error) {
+    console.error("Outbox dispatch failed:", error);
+    return NextResponse.json(
+      { error: "Outbox dispatch failed" },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,31 @@
+import { NextRequest, NextResponse } from "next/server";
+
+import { DEFAULT_CURRENCY, ingestSpotPrices } from "@/lib/spot-prices";
+
+export const dynamic = "force-dynamic";
+
+/**
+ * Spot price ingestion endpoint for external schedulers
+ * Requires `Authorization: Bearer $CRON_SECRET`
+ */
+export async function GET(request: NextRequest) {
+  const secret = process.env.CRON_SECRET;
+
+  if (!secret || request.headers.get("authorization") !== `Bearer ${secret}`) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const rows = await ingestSpotPrices(DEFAULT_CURRENCY);
+    return NextResponse.json({
+      recorded: rows.length,
+      fetchedAt: rows[0]?.fetchedAt ?? null,
+    });
+  } catch (error) {
+    console.error("Spot price ingestion failed:", error);
+    return NextResponse.json(
+      { error: "Spot price ingestion failed" },
+      { status: 502 },
+    );
+  }
+}
@@ -0,0 +1,28 @@
+import { NextRequest, NextResponse } from "next/server";
+
+import { processDueWebhookDeliveries } from "@/lib/webhooks";
+
+export const dynamic = "force-dynamic";
+
+/**
+ * Webhook delivery endpoint for external schedulers
+ * Requires `Authorization: Bearer $CRON_SECRET`
+ */
+export async function GET(request: NextRequest) {
+  const secret = process.env.CRON_SECRET;
+
+  if (!secret || request.headers.get("authorization") !== `Bearer ${secret}`) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const delivered = await processDueWebhookDeliveries();
+    return NextResponse.json({ delivered });
+  } catch (error) {
+    console.error("Webhook delivery failed:", error);
+    return NextResponse.json(
+      { error: "Webhook delivery failed" },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,37 @@
+import { NextRequest, NextResponse } from "next/server";
+
+import { EMAIL_PREVIEWS } from "@/lib/emails";
+
+export const dynamic = "force-dynamic";
+
+/**
+ * Render an email template with sample data, without sending it
+ * Development only; `?format=text` returns the plain-text variant
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ template: string }> },
+) {
+  const { template } = await params;
+  const preview = Object.hasOwn(EMAIL_PREVIEWS, template)
+    ? EMAIL_PREVIEWS[template]
+    : undefined;
+
+  if (process.env.NODE_ENV !== "development" || !preview) {
+    return NextResponse.json({ error: "Not found" }, { status: 404 });
+  }
+
+  const email = preview.render();
+  const isText = request.nextUrl.searchParams.get("format") === "text";
+
+  return new NextResponse(
+    isText ? `Subject: ${email.subject}\n\n${email.text}` : email.html,
+    {
+      headers: {
+        "Content-Type": isText
+          ? "text/plain; charset=utf-8"
+          : "text/html; charset=utf-8",
+      },
+    },
+  );
+}
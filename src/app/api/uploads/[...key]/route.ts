@@ -0,0 +1,37 @@
+import { NextResponse } from "next/server";
+
+import { StorageError, getStorage } from "@/lib/storage";
+
+export const dynamic = "force-dynamic";
+
+/**
+ * Serve a file written by the local storage driver
+ * Keys are random per upload, so responses are cached as immutable
+ */
+export async function GET(
+  _request: Request,
+  { params }: { params: Promise<{ key: string[] }> },
+) {
+  const { key } = await params;
+  const storage = getStorage();
+
+  let file = null;
+  try {
+    file = (await storage.read?.(key.join("/"))) ?? null;
+  } catch (error) {
+    // Traversal attempts are rejected as invalid keys
+    if (!(error instanceof StorageError)) throw error;
+  }
+
+  if (!file) {
+    return NextResponse.json({ error: "Not found" }, { status: 404 });
+  }
+
+  return new NextResponse(file.body, {
+    headers: {
+      "Content-Type": file.contentType,
+      "Cache-Control": "public, max-age=31536000, immutable",
+      "X-Content-Type-Options": "nosniff",
+    },
+  });
+}
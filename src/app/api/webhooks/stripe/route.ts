@@ -0,0 +1,43 @@
+import { NextRequest, NextResponse } from "next/server";
+
+import { getStripe, getWebhookSecret, handleStripeEvent } from "@/lib/payments";
+
+export const dynamic = "force-dynamic";
+
+/**
+ * Stripe webhook endpoint
+ * Verifies the signature against the raw body before acting on the event
+ */
+export async function POST(request: NextRequest) {
+  const signature = request.headers.get("stripe-signature");
+  if (!signature) {
+    return NextResponse.json({ error: "Missing signature" }, { status: 400 });
+  }
+
+  const body = await request.text();
+
+  let event;
+  try {
+    event = getStripe().webhooks.constructEvent(
+      body,
+      signature,
+      getWebhookSecret(),
+    );
+  } catch (error) {
+    console.error("Stripe webhook signature verification failed:", error);
+    return NextResponse.json({ error: "Invalid signature" }, { status: 400 });
+  }
+
+  try {
+    await handleStripeEvent(event);
+  } catch (error) {
+    // A non-2xx response makes Stripe retry the delivery
+    console.error(`Stripe webhook ${event.type} failed:`, error);
+    return NextResponse.json(
+      { error: "Webhook handler failed" },
+      { status: 500 },
+    );
+  }
+
+  return NextResponse.json({ received: true });
+}
@@ -0,0 +1,32 @@
+import Link from "next/link";
+import React from "react";
+
+import { ShieldAlert } from "lucide-react";
+
+import { Button } from "@/components/ui/button";
+
+/**
+ * Rendered with a 403 status when forbidden() is called
+ */
+export default function Forbidden() {
+  return (
+    <div className="from-background via-muted/20 to-background flex min-h-screen items-center justify-center bg-gradient-to-br p-4">
+      <div className="max-w-md space-y-6 text-center">
+        <div className="bg-destructive/10 mx-auto flex h-12 w-12 items-center justify-center rounded-full">
+          <ShieldAlert className="text-destructive h-6 w-6" />
+        </div>
+        <div className="space-y-2">
+          <h1 className="text-2xl font-semibold tracking-tight">
+            Access denied
+          </h1>
+          <p className="text-muted-foreground text-sm">
+            You don&apos;t have permission to view this page.
+          </p>
+        </div>
+        <Button asChild>
+          <Link href="/dashboard">Go to Dashboard</Link>
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -121,10 +121,7 @@ export default function Home() {
               <Button
                 size="lg"
                 className="gap-2"
-                onClick={() => {
-                  const element = document.getElementById("products");
-                  element?.scrollIntoView({ behavior: "smooth" });
-                }}
+                onClick={() => router.push("/products")}
               >
                 Browse Products
                 <ArrowRight className="h-4 w-4" />
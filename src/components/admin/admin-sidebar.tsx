@@ -0,0 +1,67 @@
+"use client";
+
+import Link from "next/link";
+import { usePathname } from "next/navigation";
+import React from "react";
+
+import {
+  LayoutDashboard,
+  MapPin,
+  Package,
+  Percent,
+  ShoppingBag,
+  Users,
+  Webhook,
+} from "lucide-react";
+
+import { cn } from "@/lib/utils";
+import type { NavItem } from "@/types/ui";
+
+const ADMIN_NAV: NavItem[] = [
+  { label: "Overview", href: "/admin", icon: LayoutDashboard },
+  { label: "Products", href: "/admin/products", icon: Package },
+  { label: "Orders", href: "/admin/orders", icon: ShoppingBag },
+  { label: "Pricing", href: "/admin/pricing", icon: Percent },
+  { label: "Pickup locations", href: "/admin/pickup-locations", icon: MapPin },
+  { label: "Users", href: "/admin/users", icon: Users },
+  { label: "Webhooks", href: "/admin/webhooks", icon: Webhook },
+];
+
+/**
+ * Back office navigation
+ */
+export function AdminSidebar() {
+  const pathname = usePathname();
+
+  /**
+   * Whether a nav item is the current section
+   */
+  const isActive = (href: string) =>
+    href === "/admin"
+      ? pathname === href
+      : pathname === href || pathname.startsWith(`${href}/`);
+
+  return (
+    <nav className="flex gap-1 overflow-x-auto lg:flex-col">
+      {ADMIN_NAV.map((item) => {
+        const Icon = item.icon;
+
+        return (
+          <Link
+            key={item.href}
+            href={item.href}
+            className={cn(
+              "flex shrink-0 items-center rounded-md px-3 py-2 text-sm font-medium transition-colors",
+              isActive(item.href)
+                ? "bg-accent text-accent-foreground"
+                : "text-muted-foreground hover:bg-accent/50 hover:text-foreground",
+            )}
+          >
+            {Icon && <Icon className="mr-2 h-4 w-4" />}
+            {item.label}
+          </Link>
+        );
+      })}
+    </nav>
+  );
+}
@@ -0,0 +1,16 @@
+/**
+ * Barrel export for admin components
+ */
+export { AdminSidebar } from "./admin-sidebar";
+export { OrderListFilters } from "./order-list-filters";
+export { OrderNoteForm } from "./order-note-form";
+export { OrderRefundForm } from "./order-refund-form";
+export { OrderStatusForm } from "./order-status-form";
+export { PickupLocationForm } from "./pickup-location-form";
+export { ProductForm } from "./product-form";
+export { ProductImageManager } from "./product-image-manager";
+export { ProductTable } from "./product-table";
+export { RefundRetryButton } from "./refund-retry-button";
+export { WebhookReplayButton } from "./webhook-replay-button";
+export { WebhookSecretField } from "./webhook-secret-field";
+export { WebhookSubscriptionForm } from "./webhook-subscription-form";
@@ -0,0 +1,158 @@
+"use client";
+
+import { usePathname, useRouter, useSearchParams } from "next/navigation";
+import React from "react";
+
+import { Download, RotateCcw } from "lucide-react";
+
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { METAL_OPTIONS } from "@/lib/catalog";
+
+// Radix Select can't hold an empty value, so "any" stands in for no filter
+const ANY = "any";
+
+const FULFILLMENT_OPTIONS = [
+  { value: "delivery", label: "Delivery" },
+  { value: "pickup", label: "Pickup" },
+];
+
+interface OrderListFiltersProps {
+  /** Order statuses with their labels */
+  statuses: { value: string; label: string }[];
+}
+
+/**
+ * Back office order filters and CSV export
+ * Every change is written to the URL so the server re-renders the results
+ */
+export function OrderListFilters({ statuses }: OrderListFiltersProps) {
+  const router = useRouter();
+  const pathname = usePathname();
+  const searchParams = useSearchParams();
+
+  /**
+   * Merge updates into the current search params and return to page one
+   */
+  const updateParams = (updates: Record<string, string | null>) => {
+    const params = new URLSearchParams(searchParams.toString());
+    params.delete("page");
+
+    for (const [key, value] of Object.entries(updates)) {
+      if (value && value !== ANY) {
+        params.set(key, value);
+      } else {
+        params.delete(key);
+      }
+    }
+
+    const query = params.toString();
+    router.replace(query ? `${pathname}?${query}` : pathname, {
+      scroll: false,
+    });
+  };
+
+  const exportParams = new URLSearchParams(searchParams.toString());
+  exportParams.delete("page");
+  const exportQuery = exportParams.toString();
+
+  const selects = [
+    { key: "status", label: "Status", options: statuses },
+    { key: "metal", label: "Metal", options: METAL_OPTIONS },
+    { key: "fulfillment", label: "Fulfillment", options: FULFILLMENT_OPTIONS },
+  ];
+
+  return (
+    <div className="space-y-4">
+      <div className="grid gap-4 sm:grid-cols-3">
+        {selects.map((select) => (
+          <div key={select.key} className="space-y-2">
+            <Label>{select.label}</Label>
+            <Select
+              value={searchParams.get(select.key) ?? ANY}
+              onValueChange={(value) => updateParams({ [select.key]: value })}
+            >
+              <SelectTrigger className="w-full">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ANY}>Any</SelectItem>
+                {select.options.map((option) => (
+                  <SelectItem key={option.value} value={option.value}>
+                    {option.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        ))}
+      </div>
+
+      <div className="grid gap-4 sm:grid-cols-3">
+        <div className="space-y-2">
+          <Label htmlFor="from">Placed from</Label>
+          <Input
+            id="from"
+            type="date"
+            value={searchParams.get("from") ?? ""}
+            onChange={(event) => updateParams({ from: event.target.value })}
+          />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="to">Placed to</Label>
+          <Input
+            id="to"
+            type="date"
+            value={searchParams.get("to") ?? ""}
+            onChange={(event) => updateParams({ to: event.target.value })}
+          />
+        </div>
+        <form
+          className="space-y-2"
+          onSubmit={(event) => {
+            event.preventDefault();
+            const data = new FormData(event.currentTarget);
+            updateParams({ customer: String(data.get("customer")).trim() });
+          }}
+        >
+          <Label htmlFor="customer">Customer</Label>
+          <Input
+            key={searchParams.get("customer")}
+            id="customer"
+            name="customer"
+            defaultValue={searchParams.get("customer") ?? ""}
+            placeholder="Name or email, press Enter"
+          />
+        </form>
+      </div>
+
+      <div className="flex gap-2">
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => router.replace(pathname)}
+        >
+          <RotateCcw className="mr-2 h-4 w-4" />
+          Reset filters
+        </Button>
+        <Button variant="outline" size="sm" asChild>
+          <a
+            href={`/api/admin/orders/export${exportQuery ? `?${exportQuery}` : ""}`}
+            download
+          >
+            <Download className="mr-2 h-4 w-4" />
+            Export CSV
+          </a>
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,72 @@
+"use client";
+
+import React, { useState } from "react";
+
+import { zodResolver } from "@hookform/resolvers/zod";
+import { MessageSquarePlus, RefreshCw } from "lucide-react";
+import { useForm } from "react-hook-form";
+
+import { FormErrorMessage } from "@/components/auth/form-error-message";
+import { Button } from "@/components/ui/button";
+import {
+  type OrderNoteFormData,
+  orderNoteSchema,
+} from "@/lib/validation/order-management-schema";
+
+interface OrderNoteFormProps {
+  /** Server action saving the note */
+  onSubmit: (data: OrderNoteFormData) => Promise<{ error?: string }>;
+}
+
+/**
+ * Back office form for adding an internal order note
+ */
+export function OrderNoteForm({ onSubmit }: OrderNoteFormProps) {
+  const [formError, setFormError] = useState<string | null>(null);
+
+  const {
+    register,
+    handleSubmit,
+    reset,
+    formState: { errors, isSubmitting },
+  } = useForm<OrderNoteFormData>({
+    resolver: zodResolver(orderNoteSchema),
+  });
+
+  /**
+   * Save the note, clearing the box once it is added
+   */
+  const submit = async (data: OrderNoteFormData) => {
+    setFormError(null);
+    const result = await onSubmit(data);
+    if (result.error) {
+      setFormError(result.error);
+    } else {
+      reset({ body: "" });
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit(submit)} className="space-y-2">
+      <textarea
+        rows={3}
+        aria-label="Note"
+        placeholder="Visible to staff only"
+        className="border-input focus-visible:border-ring focus-visible:ring-ring/50 w-full rounded-md border bg-transparent px-3 py-2 text-sm shadow-xs outline-none focus-visible:ring-[3px]"
+        {...register("body")}
+      />
+      <FormErrorMessage message={errors.body?.message} />
+
+      {formError && <p className="text-destructive text-sm">{formError}</p>}
+
+      <Button type="submit" variant="outline" size="sm" disabled={isSubmitting}>
+        {isSubmitting ? (
+          <RefreshCw className="mr-2 h-4 w-4 animate-spin" />
+        ) : (
+          <MessageSquarePlus className="mr-2 h-4 w-4" />
+        )}
+        Add note
+      </Button>
+    </form>
+  );
+}
@@ -0,0 +1,105 @@
+"use client";
+
+import React, { useState } from "react";
+
+import { zodResolver } from "@hookform/resolvers/zod";
+import { RefreshCw, Undo2 } from "lucide-react";
+import { useForm } from "react-hook-form";
+
+import { FormErrorMessage } from "@/components/auth/form-error-message";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { formatCurrency } from "@/lib/format";
+import {
+  type RefundFormData,
+  refundSchema,
+} from "@/lib/validation/order-management-schema";
+
+interface OrderRefundFormProps {
+  /** Amount still refundable in cents */
+  refundable: number;
+  /** Server action issuing the refund */
+  onSubmit: (data: RefundFormData) => Promise<{ error?: string }>;
+}
+
+/**
+ * Back office form for a full or partial refund
+ */
+export function OrderRefundForm({
+  refundable,
+  onSubmit,
+}: OrderRefundFormProps) {
+  const [formError, setFormError] = useState<string | null>(null);
+
+  const {
+    register,
+    handleSubmit,
+    reset,
+    formState: { errors, isSubmitting },
+  } = useForm<RefundFormData>({
+    resolver: zodResolver(refundSchema),
+    defaultValues: { amount: refundable / 100 },
+  });
+
+  /**
+   * Issue the refund, surfacing provider errors
+   */
+  const submit = async (data: RefundFormData) => {
+    setFormError(null);
+
+    if (Math.round(data.amount * 100) > refundable) {
+      setFormError(`At most ${formatCurrency(refundable)} can be refunded`);
+      return;
+    }
+
+    const result = await onSubmit(data);
+    if (result.error) {
+      setFormError(result.error);
+    } else {
+      reset({ amount: undefined, reason: "" });
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit(submit)} className="space-y-4">
+      <div className="grid gap-4 sm:grid-cols-[10rem_1fr]">
+        <div className="space-y-2">
+          <Label htmlFor="refund-amount">Amount ($)</Label>
+          <Input
+            id="refund-amount"
+            type="number"
+            step="0.01"
+            min="0.01"
+            {...register("amount", { valueAsNumber: true })}
+          />
+          <FormErrorMessage message={errors.amount?.message} />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="refund-reason">Reason</Label>
+          <Input
+            id="refund-reason"
+            placeholder="e.g. Customer cancelled before shipping"
+            {...register("reason")}
+          />
+          <FormErrorMessage message={errors.reason?.message} />
+        </div>
+      </div>
+      <p className="text-muted-foreground text-sm">
+        Up to {formatCurrency(refundable)} can be refunded. Refunding the full
+        balance marks the order refunded.
+      </p>
+
+      {formError && <p className="text-destructive text-sm">{formError}</p>}
+
+      <Button type="submit" variant="destructive" disabled={isSubmitting}>
+        {isSubmitting ? (
+          <RefreshCw className="mr-2 h-4 w-4 animate-spin" />
+        ) : (
+          <Undo2 className="mr-2 h-4 w-4" />
+        )}
+        Issue refund
+      </Button>
+    </form>
+  );
+}
@@ -0,0 +1,136 @@
+"use client";
+
+import React, { useState } from "react";
+
+import { zodResolver } from "@hookform/resolvers/zod";
+import { ArrowRight, RefreshCw } from "lucide-react";
+import { useForm } from "react-hook-form";
+
+import { FormErrorMessage } from "@/components/auth/form-error-message";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  type OrderTransitionFormData,
+  orderTransitionSchema,
+} from "@/lib/validation/order-management-schema";
+
+interface OrderStatusFormProps {
+  /** Statuses the order may move to next, with labels */
+  statuses: { value: OrderTransitionFormData["status"]; label: string }[];
+  /** Server action applying the transition */
+  onSubmit: (data: OrderTransitionFormData) => Promise<{ error?: string }>;
+}
+
+/**
+ * Back office control for moving an order along its state machine
+ */
+export function OrderStatusForm({ statuses, onSubmit }: OrderStatusFormProps) {
+  const [formError, setFormError] = useState<string | null>(null);
+
+  const {
+    register,
+    handleSubmit,
+    setValue,
+    watch,
+    reset,
+    formState: { errors, isSubmitting },
+  } = useForm<OrderTransitionFormData>({
+    resolver: zodResolver(orderTransitionSchema),
+  });
+
+  /**
+   * Apply the transition, clearing the form once it is recorded
+   */
+  const submit = async (data: OrderTransitionFormData) => {
+    setFormError(null);
+    const result = await onSubmit(data);
+    if (result.error) {
+      setFormError(result.error);
+    } else {
+      reset({ reason: "", trackingCarrier: "", trackingNumber: "" });
+    }
+  };
+
+  if (!statuses.length) {
+    return (
+      <p className="text-muted-foreground text-sm">
+        This order has no further status changes.
+      </p>
+    );
+  }
+
+  return (
+    <form onSubmit={handleSubmit(submit)} className="space-y-4">
+      <div className="space-y-2">
+        <Label>Move to</Label>
+        <Select
+          key={statuses.map((status) => status.value).join()}
+          value={watch("status") ?? ""}
+          onValueChange={(value) =>
+            setValue("status", value as OrderTransitionFormData["status"], {
+              shouldValidate: true,
+            })
+          }
+        >
+          <SelectTrigger className="w-full">
+            <SelectValue placeholder="Choose a status" />
+          </SelectTrigger>
+          <SelectContent>
+            {statuses.map((status) => (
+              <SelectItem key={status.value} value={status.value}>
+                {status.label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <FormErrorMessage message={errors.status?.message} />
+      </div>
+      {watch("status") === "shipped" && (
+        <div className="grid gap-4 sm:grid-cols-2">
+          <div className="space-y-2">
+            <Label htmlFor="tracking-carrier">Carrier</Label>
+            <Input
+              id="tracking-carrier"
+              placeholder="e.g. UPS"
+              {...register("trackingCarrier")}
+            />
+            <FormErrorMessage message={errors.trackingCarrier?.message} />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="tracking-number">Tracking number</Label>
+            <Input id="tracking-number" {...register("trackingNumber")} />
+            <FormErrorMessage message={errors.trackingNumber?.message} />
+          </div>
+        </div>
+      )}
+      <div className="space-y-2">
+        <Label htmlFor="transition-reason">Reason</Label>
+        <Input
+          id="transition-reason"
+          placeholder="e.g. Allocated from vault stock"
+          {...register("reason")}
+        />
+        <FormErrorMessage message={errors.reason?.message} />
+      </div>
+
+      {formError && <p className="text-destructive text-sm">{formError}</p>}
+
+      <Button type="submit" variant="outline" disabled={isSubmitting}>
+        {isSubmitting ? (
+          <RefreshCw className="mr-2 h-4 w-4 animate-spin" />
+        ) : (
+          <ArrowRight className="mr-2 h-4 w-4" />
+        )}
+        Update status
+      </Button>
+    </form>
+  );
+}
@@ -0,0 +1,310 @@
+"use client";
+
+import React, { useState } from "react";
+
+import { zodResolver } from "@hookform/resolvers/zod";
+import { Plus, RefreshCw, Save, Trash2 } from "lucide-react";
+import { useFieldArray, useForm } from "react-hook-form";
+
+import { FormErrorMessage } from "@/components/auth/form-error-message";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  type PickupLocationFormData,
+  pickupLocationSchema,
+} from "@/lib/validation/pickup-location-schema";
+
+const WEEKDAYS = [
+  "Sunday",
+  "Monday",
+  "Tuesday",
+  "Wednesday",
+  "Thursday",
+  "Friday",
+  "Saturday",
+];
+
+interface PickupLocationFormProps {
+  /** Values of the location being edited, omitted when creating */
+  defaultValues?: PickupLocationFormData;
+  /** Server action saving the location; only returns on failure */
+  onSubmit: (data: PickupLocationFormData) => Promise<{ error: string }>;
+}
+
+/**
+ * Back office form for a pickup location, its hours and closures
+ */
+export function PickupLocationForm({
+  defaultValues,
+  onSubmit,
+}: PickupLocationFormProps) {
+  const [formError, setFormError] = useState<string | null>(null);
+
+  const {
+    register,
+    control,
+    handleSubmit,
+    setValue,
+    watch,
+    formState: { errors, isSubmitting },
+  } = useForm<PickupLocationFormData>({
+    resolver: zodResolver(pickupLocationSchema),
+    defaultValues: defaultValues ?? {
+      country: "US",
+      timeZone: "America/New_York",
+      slotMinutes: 60,
+      slotCapacity: 4,
+      active: true,
+      hours: [1, 2, 3, 4, 5].map((weekday) => ({
+        weekday,
+        opensAt: "10:00",
+        closesAt: "16:00",
+      })),
+      closures: [],
+    },
+  });
+
+  const hours = useFieldArray({ control, name: "hours" });
+  const closures = useFieldArray({ control, name: "closures" });
+
+  /**
+   * Save the location, surfacing errors that keep the admin on the page
+   */
+  const submit = async (data: PickupLocationFormData) => {
+    setFormError(null);
+    const result = await onSubmit(data);
+    if (result?.error) setFormError(result.error);
+  };
+
+  return (
+    <form onSubmit={handleSubmit(submit)} className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-lg">Location</CardTitle>
+        </CardHeader>
+        <CardContent className="grid gap-4 sm:grid-cols-2">
+          <div className="space-y-2 sm:col-span-2">
+            <Label htmlFor="name">Name</Label>
+            <Input id="name" {...register("name")} />
+            <FormErrorMessage message={errors.name?.message} />
+          </div>
+          <div className="space-y-2 sm:col-span-2">
+            <Label htmlFor="line1">Street address</Label>
+            <Input id="line1" {...register("line1")} />
+            <FormErrorMessage message={errors.line1?.message} />
+          </div>
+          <div className="space-y-2 sm:col-span-2">
+            <Label htmlFor="line2">Suite, floor (optional)</Label>
+            <Input id="line2" {...register("line2")} />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="city">City</Label>
+            <Input id="city" {...register("city")} />
+            <FormErrorMessage message={errors.city?.message} />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="region">State / region</Label>
+            <Input id="region" {...register("region")} />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="postalCode">Postal code</Label>
+            <Input id="postalCode" {...register("postalCode")} />
+            <FormErrorMessage message={errors.postalCode?.message} />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="country">Country code</Label>
+            <Input id="country" maxLength={2} {...register("country")} />
+            <FormErrorMessage message={errors.country?.message} />
+          </div>
+          <div className="space-y-2 sm:col-span-2">
+            <Label htmlFor="timeZone">Time zone</Label>
+            <Input id="timeZone" {...register("timeZone")} />
+            <FormErrorMessage message={errors.timeZone?.message} />
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-lg">Appointments</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          <div className="grid gap-4 sm:grid-cols-2">
+            <div className="space-y-2">
+              <Label htmlFor="slotMinutes">Length (minutes)</Label>
+              <Input
+                id="slotMinutes"
+                type="number"
+                {...register("slotMinutes", { valueAsNumber: true })}
+              />
+              <FormErrorMessage message={errors.slotMinutes?.message} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="slotCapacity">Customers per appointment</Label>
+              <Input
+                id="slotCapacity"
+                type="number"
+                {...register("slotCapacity", { valueAsNumber: true })}
+              />
+              <FormErrorMessage message={errors.slotCapacity?.message} />
+            </div>
+          </div>
+
+          <div className="flex items-center space-x-2">
+            <Checkbox
+              id="active"
+              checked={watch("active")}
+              onCheckedChange={(checked) =>
+                setValue("active", checked === true)
+              }
+            />
+            <Label htmlFor="active" className="font-normal">
+              Offer this location at checkout
+            </Label>
+          </div>
+
+          <div className="space-y-3">
+            <Label>Opening hours</Label>
+            {hours.fields.map((field, index) => (
+              <div key={field.id} className="space-y-1">
+                <div className="flex items-center gap-2">
+                  <Select
+                    value={String(watch(`hours.${index}.weekday`))}
+                    onValueChange={(value) =>
+                      setValue(`hours.${index}.weekday`, Number(value))
+                    }
+                  >
+                    <SelectTrigger className="w-36">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {WEEKDAYS.map((day, weekday) => (
+                        <SelectItem key={day} value={String(weekday)}>
+                          {day}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <Input
+                    type="time"
+                    className="w-32"
+                    aria-label="Opens at"
+                    {...register(`hours.${index}.opensAt`)}
+                  />
+                  <span className="text-muted-foreground">–</span>
+                  <Input
+                    type="time"
+                    className="w-32"
+                    aria-label="Closes at"
+                    {...register(`hours.${index}.closesAt`)}
+                  />
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => hours.remove(index)}
+                    aria-label="Remove opening hours"
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+                <FormErrorMessage
+                  message={
+                    errors.hours?.[index]?.closesAt?.message ??
+                    errors.hours?.[index]?.opensAt?.message
+                  }
+                />
+              </div>
+            ))}
+            <Button
+              type="button"
+              variant="outline"
+              size="sm"
+              onClick={() =>
+                hours.append({
+                  weekday: 1,
+                  opensAt: "10:00",
+                  closesAt: "16:00",
+                })
+              }
+            >
+              <Plus className="mr-2 h-4 w-4" />
+              Add hours
+            </Button>
+          </div>
+
+          <div className="space-y-3">
+            <Label>Closures</Label>
+            {closures.fields.map((field, index) => (
+              <div key={field.id} className="space-y-1">
+                <div className="flex items-center gap-2">
+                  <Input
+                    type="date"
+                    className="w-44"
+                    aria-label="Closed on"
+                    {...register(`closures.${index}.date`)}
+                  />
+                  <Input
+                    placeholder="Reason, e.g. Thanksgiving"
+                    {...register(`closures.${index}.reason`)}
+                  />
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => closures.remove(index)}
+                    aria-label="Remove closure"
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+                <FormErrorMessage
+                  message={errors.closures?.[index]?.date?.message}
+                />
+              </div>
+            ))}
+            <Button
+              type="button"
+              variant="outline"
+              size="sm"
+              onClick={() => closures.append({ date: "", reason: "" })}
+            >
+              <Plus className="mr-2 h-4 w-4" />
+              Add closure
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+
+      {formError && <p className="text-destructive text-sm">{formError}</p>}
+
+      <Button
+        type="submit"
+        className="h-11 font-medium"
+        disabled={isSubmitting}
+      >
+        {isSubmitting ? (
+          <>
+            <RefreshCw className="mr-2 h-4 w-4 animate-spin" />
+            Saving...
+          </>
+        ) : (
+          <>
+            <Save className="mr-2 h-4 w-4" />
+            Save location
+          </>
+        )}
+      </Button>
+    </form>
+  );
+}
@@ -0,0 +1,226 @@
+"use client";
+
+import React, { useState } from "react";
+
+import { zodResolver } from "@hookform/resolvers/zod";
+import { RefreshCw, Save } from "lucide-react";
+import { useForm } from "react-hook-form";
+
+import { FormErrorMessage } from "@/components/auth/form-error-message";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  FORM_OPTIONS,
+  METAL_OPTIONS,
+  PRODUCT_STATUS_OPTIONS,
+} from "@/lib/catalog";
+import {
+  type ProductFormData,
+  productSchema,
+} from "@/lib/validation/product-schema";
+
+interface ProductFormProps {
+  /** Values of the product being edited, omitted when creating */
+  defaultValues?: ProductFormData;
+  /** Server action saving the product; only returns on failure */
+  onSubmit: (data: ProductFormData) => Promise<{ error: string }>;
+}
+
+/**
+ * Back office form for a product's catalog details
+ */
+export function ProductForm({ defaultValues, onSubmit }: ProductFormProps) {
+  const [formError, setFormError] = useState<string | null>(null);
+
+  const {
+    register,
+    handleSubmit,
+    setValue,
+    watch,
+    formState: { errors, isSubmitting },
+  } = useForm<ProductFormData>({
+    resolver: zodResolver(productSchema),
+    defaultValues: defaultValues ?? {
+      metal: "gold",
+      form: "coin",
+      status: "draft",
+    },
+  });
+
+  /**
+   * Save the product, surfacing errors that keep the admin on the page
+   */
+  const submit = async (data: ProductFormData) => {
+    setFormError(null);
+    const result = await onSubmit(data);
+    if (result?.error) setFormError(result.error);
+  };
+
+  return (
+    <form onSubmit={handleSubmit(submit)} className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-lg">Details</CardTitle>
+        </CardHeader>
+        <CardContent className="grid gap-4 sm:grid-cols-2">
+          <div className="space-y-2 sm:col-span-2">
+            <Label htmlFor="name">Name</Label>
+            <Input id="name" {...register("name")} />
+            <FormErrorMessage message={errors.name?.message} />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="slug">Slug</Label>
+            <Input id="slug" {...register("slug")} />
+            <FormErrorMessage message={errors.slug?.message} />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="sku">SKU</Label>
+            <Input id="sku" {...register("sku")} />
+            <FormErrorMessage message={errors.sku?.message} />
+          </div>
+          <div className="space-y-2 sm:col-span-2">
+            <Label htmlFor="description">Description (optional)</Label>
+            <textarea
+              id="description"
+              rows={4}
+              className="border-input focus-visible:border-ring focus-visible:ring-ring/50 w-full rounded-md border bg-transparent px-3 py-2 text-sm shadow-xs outline-none focus-visible:ring-[3px]"
+              {...register("description")}
+            />
+            <FormErrorMessage message={errors.description?.message} />
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-lg">Specification</CardTitle>
+        </CardHeader>
+        <CardContent className="grid gap-4 sm:grid-cols-2">
+          <div className="space-y-2">
+            <Label>Metal</Label>
+            <Select
+              value={watch("metal")}
+              onValueChange={(value) =>
+                setValue("metal", value as ProductFormData["metal"])
+              }
+            >
+              <SelectTrigger className="w-full">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {METAL_OPTIONS.map((option) => (
+                  <SelectItem key={option.value} value={option.value}>
+                    {option.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label>Form</Label>
+            <Select
+              value={watch("form")}
+              onValueChange={(value) =>
+                setValue("form", value as ProductFormData["form"])
+              }
+            >
+              <SelectTrigger className="w-full">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {FORM_OPTIONS.map((option) => (
+                  <SelectItem key={option.value} value={option.value}>
+                    {option.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2 sm:col-span-2">
+            <Label htmlFor="mint">Mint</Label>
+            <Input id="mint" {...register("mint")} />
+            <FormErrorMessage message={errors.mint?.message} />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="fineWeightOz">Fine weight (troy oz)</Label>
+            <Input
+              id="fineWeightOz"
+              type="number"
+              step="any"
+              {...register("fineWeightOz", { valueAsNumber: true })}
+            />
+            <FormErrorMessage message={errors.fineWeightOz?.message} />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="purity">Purity</Label>
+            <Input
+              id="purity"
+              type="number"
+              step="any"
+              placeholder="0.9999"
+              {...register("purity", { valueAsNumber: true })}
+            />
+            <FormErrorMessage message={errors.purity?.message} />
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-lg">Visibility</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-2">
+          <Select
+            value={watch("status")}
+            onValueChange={(value) =>
+              setValue("status", value as ProductFormData["status"])
+            }
+          >
+            <SelectTrigger className="w-48">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {PRODUCT_STATUS_OPTIONS.map((option) => (
+                <SelectItem key={option.value} value={option.value}>
+                  {option.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <p className="text-muted-foreground text-sm">
+            Only published products are listed in the catalog and can be quoted.
+          </p>
+        </CardContent>
+      </Card>
+
+      {formError && <p className="text-destructive text-sm">{formError}</p>}
+
+      <Button
+        type="submit"
+        className="h-11 font-medium"
+        disabled={isSubmitting}
+      >
+        {isSubmitting ? (
+          <>
+            <RefreshCw className="mr-2 h-4 w-4 animate-spin" />
+            Saving...
+          </>
+        ) : (
+          <>
+            <Save className="mr-2 h-4 w-4" />
+            Save product
+          </>
+        )}
+      </Button>
+    </form>
+  );
+}
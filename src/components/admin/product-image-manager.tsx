@@ -0,0 +1,129 @@
+"use client";
+
+import Image from "next/image";
+import React, { useRef, useState, useTransition } from "react";
+
+import { RefreshCw, Star, Trash2, Upload } from "lucide-react";
+
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+
+interface ProductImageManagerProps {
+  /** Product images in display order, the first being primary */
+  images: { id: string; url: string; alt: string | null }[];
+  /** Server action storing the files in the form's `images` field */
+  onUpload: (formData: FormData) => Promise<{ error?: string }>;
+  /** Server action removing an image */
+  onDelete: (imageId: string) => Promise<void>;
+  /** Server action moving an image to the front */
+  onMakePrimary: (imageId: string) => Promise<void>;
+}
+
+/**
+ * Upload, remove and reorder a product's gallery images
+ */
+export function ProductImageManager({
+  images,
+  onUpload,
+  onDelete,
+  onMakePrimary,
+}: ProductImageManagerProps) {
+  const formRef = useRef<HTMLFormElement>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isUploading, setIsUploading] = useState(false);
+  const [isPending, startTransition] = useTransition();
+
+  /**
+   * Upload the chosen files, clearing the input once they are stored
+   */
+  const upload = async (event: React.FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    setError(null);
+    setIsUploading(true);
+
+    const result = await onUpload(new FormData(event.currentTarget));
+    setIsUploading(false);
+
+    if (result.error) {
+      setError(result.error);
+    } else {
+      formRef.current?.reset();
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      {images.length === 0 ? (
+        <p className="text-muted-foreground text-sm">
+          No images yet. The catalog shows a placeholder until one is added.
+        </p>
+      ) : (
+        <ul className="grid grid-cols-2 gap-4 sm:grid-cols-3">
+          {images.map((image, index) => (
+            <li key={image.id} className="space-y-2">
+              <div className="bg-muted relative aspect-square overflow-hidden rounded-md border">
+                <Image
+                  src={image.url}
+                  alt={image.alt ?? ""}
+                  fill
+                  sizes="200px"
+                  className="object-cover"
+                />
+                {index === 0 && (
+                  <Badge className="absolute top-2 left-2">Primary</Badge>
+                )}
+              </div>
+              <div className="flex gap-1">
+                {index > 0 && (
+                  <Button
+                    type="button"
+                    size="sm"
+                    variant="ghost"
+                    disabled={isPending}
+                    onClick={() =>
+                      startTransition(() => onMakePrimary(image.id))
+                    }
+                  >
+                    <Star className="mr-1 h-4 w-4" />
+                    Make primary
+                  </Button>
+                )}
+                <Button
+                  type="button"
+                  size="icon"
+                  variant="ghost"
+                  className="ml-auto"
+                  disabled={isPending}
+                  onClick={() => startTransition(() => onDelete(image.id))}
+                  aria-label="Remove image"
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <form ref={formRef} onSubmit={upload} className="flex items-center gap-2">
+        <Input
+          name="images"
+          type="file"
+          accept="image/jpeg,image/png,image/webp,image/avif"
+          multiple
+          required
+        />
+        <Button type="submit" variant="outline" disabled={isUploading}>
+          {isUploading ? (
+            <RefreshCw className="mr-2 h-4 w-4 animate-spin" />
+          ) : (
+            <Upload className="mr-2 h-4 w-4" />
+          )}
+          Upload
+        </Button>
+      </form>
+      {error && <p className="text-destructive text-sm">{error}</p>}
+    </div>
+  );
+}
@@ -0,0 +1,180 @@
+"use client";
+
+import Image from "next/image";
+import Link from "next/link";
+import React, { useState, useTransition } from "react";
+
+import { Archive, EyeOff, Package, Send } from "lucide-react";
+
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import type { MetalType, ProductStatus } from "@/database/schema";
+import { METAL_LABELS, PRODUCT_STATUS_OPTIONS } from "@/lib/catalog";
+
+const STATUS_LABELS = Object.fromEntries(
+  PRODUCT_STATUS_OPTIONS.map((option) => [option.value, option.label]),
+) as Record<ProductStatus, string>;
+
+export interface ProductTableRow {
+  id: string;
+  name: string;
+  sku: string;
+  metal: MetalType;
+  status: ProductStatus;
+  imageUrl: string | null;
+}
+
+interface ProductTableProps {
+  /** Products on the current page */
+  products: ProductTableRow[];
+  /** Server action moving the selected products to a status */
+  onUpdateStatus: (ids: string[], status: ProductStatus) => Promise<void>;
+}
+
+/**
+ * Back office product list with selection for bulk status changes
+ */
+export function ProductTable({ products, onUpdateStatus }: ProductTableProps) {
+  const [selected, setSelected] = useState<string[]>([]);
+  const [isPending, startTransition] = useTransition();
+
+  const allSelected =
+    products.length > 0 && selected.length === products.length;
+
+  /**
+   * Apply a status to every selected product, then clear the selection
+   */
+  const updateStatus = (status: ProductStatus) => {
+    startTransition(async () => {
+      await onUpdateStatus(selected, status);
+      setSelected([]);
+    });
+  };
+
+  const toggle = (id: string, checked: boolean) => {
+    setSelected((current) =>
+      checked ? [...current, id] : current.filter((value) => value !== id),
+    );
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex min-h-9 flex-wrap items-center gap-2">
+        {selected.length > 0 ? (
+          <>
+            <span className="text-muted-foreground text-sm">
+              {selected.length} selected
+            </span>
+            <Button
+              size="sm"
+              variant="outline"
+              disabled={isPending}
+              onClick={() => updateStatus("published")}
+            >
+              <Send className="mr-2 h-4 w-4" />
+              Publish
+            </Button>
+            <Button
+              size="sm"
+              variant="outline"
+              disabled={isPending}
+              onClick={() => updateStatus("draft")}
+            >
+              <EyeOff className="mr-2 h-4 w-4" />
+              Unpublish
+            </Button>
+            <Button
+              size="sm"
+              variant="outline"
+              disabled={isPending}
+              onClick={() => updateStatus("archived")}
+            >
+              <Archive className="mr-2 h-4 w-4" />
+              Archive
+            </Button>
+          </>
+        ) : (
+          <span className="text-muted-foreground text-sm">
+            Select products to change their status
+          </span>
+        )}
+      </div>
+
+      <div className="overflow-x-auto rounded-md border">
+        <table className="w-full text-sm">
+          <thead className="bg-muted/50 text-muted-foreground text-left">
+            <tr>
+              <th className="w-10 px-3 py-2">
+                <Checkbox
+                  aria-label="Select all products"
+                  checked={allSelected}
+                  onCheckedChange={(checked) =>
+                    setSelected(
+                      checked === true ? products.map((row) => row.id) : [],
+                    )
+                  }
+                />
+              </th>
+              <th className="px-3 py-2 font-medium">Product</th>
+              <th className="px-3 py-2 font-medium">SKU</th>
+              <th className="px-3 py-2 font-medium">Metal</th>
+              <th className="px-3 py-2 font-medium">Status</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y">
+            {products.map((row) => (
+              <tr key={row.id}>
+                <td className="px-3 py-2">
+                  <Checkbox
+                    aria-label={`Select ${row.name}`}
+                    checked={selected.includes(row.id)}
+                    onCheckedChange={(checked) =>
+                      toggle(row.id, checked === true)
+                    }
+                  />
+                </td>
+                <td className="px-3 py-2">
+                  <div className="flex items-center gap-3">
+                    <div className="bg-muted relative flex h-10 w-10 shrink-0 items-center justify-center overflow-hidden rounded">
+                      {row.imageUrl ? (
+                        <Image
+                          src={row.imageUrl}
+                          alt=""
+                          fill
+                          sizes="40px"
+                          className="object-cover"
+                        />
+                      ) : (
+                        <Package className="text-muted-foreground h-4 w-4" />
+                      )}
+                    </div>
+                    <Link
+                      href={`/admin/products/${row.id}`}
+                      className="font-medium hover:underline"
+                    >
+                      {row.name}
+                    </Link>
+                  </div>
+                </td>
+                <td className="text-muted-foreground px-3 py-2 font-mono">
+                  {row.sku}
+                </td>
+                <td className="px-3 py-2">{METAL_LABELS[row.metal]}</td>
+                <td className="px-3 py-2">
+                  <Badge
+                    variant={
+                      row.status === "published" ? "default" : "secondary"
+                    }
+                  >
+                    {STATUS_LABELS[row.status]}
+                  </Badge>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
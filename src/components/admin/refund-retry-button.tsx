@@ -0,0 +1,51 @@
+"use client";
+
+import React, { useState, useTransition } from "react";
+
+import { RefreshCw, RotateCw } from "lucide-react";
+
+import { Button } from "@/components/ui/button";
+
+interface RefundRetryButtonProps {
+  /** Server action sending the refund to the provider again */
+  onRetry: () => Promise<{ error?: string }>;
+}
+
+/**
+ * Button resending a refund the payment provider never confirmed
+ */
+export function RefundRetryButton({ onRetry }: RefundRetryButtonProps) {
+  const [error, setError] = useState<string | null>(null);
+  const [isPending, startTransition] = useTransition();
+
+  /**
+   * Handle retry
+   */
+  const handleRetry = () => {
+    setError(null);
+    startTransition(async () => {
+      const result = await onRetry();
+      if (result.error) setError(result.error);
+    });
+  };
+
+  return (
+    <div className="flex items-center gap-2">
+      {error && <span className="text-destructive text-xs">{error}</span>}
+      <Button
+        type="button"
+        size="sm"
+        variant="ghost"
+        onClick={handleRetry}
+        disabled={isPending}
+      >
+        {isPending ? (
+          <RefreshCw className="mr-1 h-4 w-4 animate-spin" />
+        ) : (
+          <RotateCw className="mr-1 h-4 w-4" />
+        )}
+        Retry
+      </Button>
+    </div>
+  );
+}
@@ -0,0 +1,51 @@
+"use client";
+
+import React, { useState, useTransition } from "react";
+
+import { RefreshCw, Send } from "lucide-react";
+
+import { Button } from "@/components/ui/button";
+
+interface WebhookReplayButtonProps {
+  /** Server action queuing the delivery again */
+  onReplay: () => Promise<{ error?: string }>;
+}
+
+/**
+ * Button queuing a copy of a logged webhook delivery
+ */
+export function WebhookReplayButton({ onReplay }: WebhookReplayButtonProps) {
+  const [error, setError] = useState<string | null>(null);
+  const [isPending, startTransition] = useTransition();
+
+  /**
+   * Handle replay
+   */
+  const handleReplay = () => {
+    setError(null);
+    startTransition(async () => {
+      const result = await onReplay();
+      if (result.error) setError(result.error);
+    });
+  };
+
+  return (
+    <div className="flex items-center gap-2">
+      <Button
+        type="button"
+        size="sm"
+        variant="ghost"
+        onClick={handleReplay}
+        disabled={isPending}
+      >
+        {isPending ? (
+          <RefreshCw className="mr-1 h-4 w-4 animate-spin" />
+        ) : (
+          <Send className="mr-1 h-4 w-4" />
+        )}
+        Replay
+      </Button>
+      {error && <span className="text-destructive text-xs">{error}</span>}
+    </div>
+  );
+}
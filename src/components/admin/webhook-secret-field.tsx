@@ -0,0 +1,77 @@
+"use client";
+
+import React, { useState, useTransition } from "react";
+
+import { Copy, Eye, EyeOff, RotateCw } from "lucide-react";
+
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+
+interface WebhookSecretFieldProps {
+  /** Current signing secret */
+  secret: string;
+  /** Server action replacing the secret */
+  onRotate: () => Promise<void>;
+}
+
+/**
+ * Hidden-by-default signing secret with copy and rotate controls
+ */
+export function WebhookSecretField({
+  secret,
+  onRotate,
+}: WebhookSecretFieldProps) {
+  const [isVisible, setIsVisible] = useState(false);
+  const [isPending, startTransition] = useTransition();
+
+  return (
+    <div className="flex gap-2">
+      <Input
+        readOnly
+        aria-label="Signing secret"
+        className="font-mono"
+        type={isVisible ? "text" : "password"}
+        value={secret}
+      />
+      <Button
+        type="button"
+        variant="outline"
+        size="icon"
+        onClick={() => setIsVisible((visible) => !visible)}
+        aria-label={isVisible ? "Hide secret" : "Show secret"}
+      >
+        {isVisible ? (
+          <EyeOff className="h-4 w-4" />
+        ) : (
+          <Eye className="h-4 w-4" />
+        )}
+      </Button>
+      <Button
+        type="button"
+        variant="outline"
+        size="icon"
+        onClick={() => navigator.clipboard.writeText(secret)}
+        aria-label="Copy secret"
+      >
+        <Copy className="h-4 w-4" />
+      </Button>
+      <Button
+        type="button"
+        variant="outline"
+        disabled={isPending}
+        onClick={() => {
+          if (
+            confirm(
+              "Rotate the secret? The endpoint must be updated before it can verify new deliveries.",
+            )
+          ) {
+            startTransition(onRotate);
+          }
+        }}
+      >
+        <RotateCw className="mr-2 h-4 w-4" />
+        Rotate
+      </Button>
+    </div>
+  );
+}
@@ -0,0 +1,142 @@
+"use client";
+
+import React, { useState } from "react";
+
+import { zodResolver } from "@hookform/resolvers/zod";
+import { RefreshCw, Save } from "lucide-react";
+import { useForm } from "react-hook-form";
+
+import { FormErrorMessage } from "@/components/auth/form-error-message";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  type WebhookSubscriptionFormData,
+  webhookSubscriptionSchema,
+} from "@/lib/validation/webhook-subscription-schema";
+
+type WebhookEventType = WebhookSubscriptionFormData["eventTypes"][number];
+
+interface WebhookSubscriptionFormProps {
+  /** Event types subscribers can choose, with labels */
+  events: { value: WebhookEventType; label: string }[];
+  /** Values of the endpoint being edited, omitted when creating */
+  defaultValues?: WebhookSubscriptionFormData;
+  /** Server action saving the endpoint; only returns on failure */
+  onSubmit: (data: WebhookSubscriptionFormData) => Promise<{ error: string }>;
+}
+
+/**
+ * Back office form for a webhook endpoint and the events it receives
+ */
+export function WebhookSubscriptionForm({
+  events,
+  defaultValues,
+  onSubmit,
+}: WebhookSubscriptionFormProps) {
+  const [formError, setFormError] = useState<string | null>(null);
+
+  const {
+    register,
+    handleSubmit,
+    setValue,
+    watch,
+    formState: { errors, isSubmitting },
+  } = useForm<WebhookSubscriptionFormData>({
+    resolver: zodResolver(webhookSubscriptionSchema),
+    defaultValues: defaultValues ?? { eventTypes: [], active: true },
+  });
+
+  const eventTypes = watch("eventTypes");
+
+  /**
+   * Save the endpoint, surfacing errors that keep the admin on the page
+   */
+  const submit = async (data: WebhookSubscriptionFormData) => {
+    setFormError(null);
+    const result = await onSubmit(data);
+    if (result?.error) setFormError(result.error);
+  };
+
+  return (
+    <form onSubmit={handleSubmit(submit)} className="space-y-6">
+      <div className="space-y-2">
+        <Label htmlFor="url">Endpoint URL</Label>
+        <Input
+          id="url"
+          placeholder="https://hook.eu1.make.com/..."
+          {...register("url")}
+        />
+        <FormErrorMessage message={errors.url?.message} />
+      </div>
+      <div className="space-y-2">
+        <Label htmlFor="description">Description (optional)</Label>
+        <Input
+          id="description"
+          placeholder="e.g. Zapier: paid orders to Google Sheets"
+          {...register("description")}
+        />
+      </div>
+
+      <div className="space-y-3">
+        <Label>Events</Label>
+        {events.map((event) => (
+          <div key={event.value} className="flex items-center space-x-2">
+            <Checkbox
+              id={`event-${event.value}`}
+              checked={eventTypes.includes(event.value)}
+              onCheckedChange={(checked) =>
+                setValue(
+                  "eventTypes",
+                  checked === true
+                    ? [...eventTypes, event.value]
+                    : eventTypes.filter((value) => value !== event.value),
+                  { shouldValidate: true },
+                )
+              }
+            />
+            <Label htmlFor={`event-${event.value}`} className="font-normal">
+              {event.label}{" "}
+              <span className="text-muted-foreground font-mono text-xs">
+                {event.value}
+              </span>
+            </Label>
+          </div>
+        ))}
+        <FormErrorMessage message={errors.eventTypes?.message} />
+      </div>
+
+      <div className="flex items-center space-x-2">
+        <Checkbox
+          id="active"
+          checked={watch("active")}
+          onCheckedChange={(checked) => setValue("active", checked === true)}
+        />
+        <Label htmlFor="active" className="font-normal">
+          Send events to this endpoint
+        </Label>
+      </div>
+
+      {formError && <p className="text-destructive text-sm">{formError}</p>}
+
+      <Button
+        type="submit"
+        className="h-11 font-medium"
+        disabled={isSubmitting}
+      >
+        {isSubmitting ? (
+          <>
+            <RefreshCw className="mr-2 h-4 w-4 animate-spin" />
+            Saving...
+          </>
+        ) : (
+          <>
+            <Save className="mr-2 h-4 w-4" />
+            Save endpoint
+          </>
+        )}
+      </Button>
+    </form>
+  );
+}
@@ -9,6 +9,8 @@ export { RegisterFields } from "./register-fields";
 
 // Login components
 export { LoginForm } from "./login-form";
+export { SocialSignInButtons } from "./social-sign-in-buttons";
+export { TwoFactorVerificationForm } from "./two-factor-verification-form";
 
 // Password reset components
 export { ForgotPasswordForm } from "./forgot-password-form";
@@ -17,6 +19,8 @@ export { ResetPasswordForm } from "./reset-password-form";
 
 // Shared components
 export { OtpVerificationForm } from "./otp-verification-form";
+export { StepUpPrompt } from "./step-up-prompt";
 export { FormErrorMessage } from "./form-error-message";
 export { GlobalAlert } from "./global-alert";
+export { SocialIcon } from "./social-icon";
 export { default as PasswordStrengthBar } from "./password-strength-bar";
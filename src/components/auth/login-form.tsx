@@ -6,7 +6,16 @@ import React, { useState } from "react";
 
 import { zodResolver } from "@hookform/resolvers/zod";
 import { AnimatePresence, motion } from "framer-motion";
-import { Eye, EyeOff, Lock, LogIn, Mail, RefreshCw } from "lucide-react";
+import {
+  Eye,
+  EyeOff,
+  Fingerprint,
+  KeyRound,
+  Lock,
+  LogIn,
+  Mail,
+  RefreshCw,
+} from "lucide-react";
 import { useForm } from "react-hook-form";
 import { z } from "zod";
 
@@ -15,12 +24,18 @@ import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { authClient } from "@/lib/auth-client";
+import { mergeCartAction } from "@/lib/cart/actions";
+import type { SocialProvider } from "@/lib/social-providers";
 import { cn } from "@/lib/utils";
+import { useCartStore } from "@/stores/cart-store";
 
 import { ForgotPasswordForm } from "./forgot-password-form";
 import { FormErrorMessage } from "./form-error-message";
 import { GlobalAlert } from "./global-alert";
 import { LoginSuccess } from "./login-success";
+import { OtpVerificationForm } from "./otp-verification-form";
+import { SocialSignInButtons } from "./social-sign-in-buttons";
+import { TwoFactorVerificationForm } from "./two-factor-verification-form";
 
 /**
  * Login form validation schema
@@ -41,21 +56,38 @@ type LoginFormData = z.infer<typeof loginSchema>;
 enum LoginView {
   LOGIN = "login",
   FORGOT_PASSWORD = "forgot_password",
+  OTP_VERIFICATION = "otp_verification",
+  TWO_FACTOR = "two_factor",
   SUCCESS = "success",
 }
 
+interface LoginFormProps {
+  /** OAuth providers to offer, when configured */
+  socialProviders?: SocialProvider[];
+  /** Why the last social sign-in failed, shown on arrival */
+  socialError?: string;
+}
+
 /**
  * Login form component with forgot password flow integration
- * Handles user authentication and password reset
+ * Handles password, passkey, social and emailed one-time code sign-in, the
+ * two-factor step and password reset
  */
-export function LoginForm() {
+export function LoginForm({
+  socialProviders = [],
+  socialError,
+}: LoginFormProps) {
   const router = useRouter();
   const [currentView, setCurrentView] = useState<LoginView>(LoginView.LOGIN);
   const [showPassword, setShowPassword] = useState(false);
   const [isLoading, setIsLoading] = useState(false);
-  const [globalError, setGlobalError] = useState<string | null>(null);
+  const [globalError, setGlobalError] = useState<string | null>(
+    socialError ?? null,
+  );
   const [globalSuccess, setGlobalSuccess] = useState<string | null>(null);
   const [userName, setUserName] = useState<string>("");
+  const [useEmailCode, setUseEmailCode] = useState(false);
+  const [codeEmail, setCodeEmail] = useState("");
 
   // React Hook Form setup
   const {
@@ -63,6 +95,8 @@ export function LoginForm() {
     handleSubmit,
     formState: { errors },
     setError,
+    trigger,
+    getValues,
   } = useForm<LoginFormData>({
     resolver: zodResolver(loginSchema),
     mode: "onBlur",
@@ -76,6 +110,31 @@ export function LoginForm() {
     setGlobalSuccess(null);
   };
 
+  /**
+   * Finish signing in: carry the cart over and show the success state
+   */
+  const completeSignIn = async (user?: { name?: string | null }) => {
+    // Carry the anonymous cart over to the signed-in account
+    try {
+      useCartStore.getState().setCart(await mergeCartAction());
+    } catch (mergeError) {
+      console.error("Cart merge error:", mergeError);
+    }
+
+    if (user) {
+      setUserName(user.name || "");
+    }
+
+    // Success - show success state
+    setCurrentView(LoginView.SUCCESS);
+    setIsLoading(false);
+
+    // Auto-redirect after 3 seconds
+    setTimeout(() => {
+      router.push("/dashboard");
+    }, 3000);
+  };
+
   /**
    * Handle login form submission
    */
@@ -95,19 +154,17 @@ export function LoginForm() {
         throw new Error(response.error.message || "Invalid credentials");
       }
 
-      // Get user data from response if available
-      if (response.data?.user) {
-        setUserName(response.data.user.name || "");
+      // Password accepted, the account still needs its second factor
+      if (
+        "twoFactorRedirect" in response.data &&
+        response.data.twoFactorRedirect
+      ) {
+        setIsLoading(false);
+        setCurrentView(LoginView.TWO_FACTOR);
+        return;
       }
 
-      // Success - show success state
-      setCurrentView(LoginView.SUCCESS);
-      setIsLoading(false);
-
-      // Auto-redirect after 3 seconds
-      setTimeout(() => {
-        router.push("/dashboard");
-      }, 3000);
+      await completeSignIn(response.data?.user);
     } catch (error) {
       const errorMessage =
         error instanceof Error ? error.message : "An unexpected error occurred";
@@ -132,6 +189,101 @@ export function LoginForm() {
     }
   };
 
+  /**
+   * Email a one-time sign-in code to an address
+   */
+  const sendSignInCode = async (email: string) => {
+    const response = await authClient.emailOtp.sendVerificationOtp({
+      email,
+      type: "sign-in",
+    });
+
+    if (response.error) {
+      throw new Error(response.error.message || "Failed to send sign-in code");
+    }
+  };
+
+  /**
+   * Handle "Email me a code" submission
+   * Validates only the email and moves on to code entry
+   */
+  const handleRequestCode = async () => {
+    clearAlerts();
+    if (!(await trigger("email"))) return;
+
+    const email = getValues("email");
+    setIsLoading(true);
+
+    try {
+      await sendSignInCode(email);
+      setCodeEmail(email);
+      setCurrentView(LoginView.OTP_VERIFICATION);
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error ? error.message : "Failed to send sign-in code";
+
+      if (
+        errorMessage.includes("not found") ||
+        errorMessage.includes("exist")
+      ) {
+        setError("email", {
+          type: "manual",
+          message: "No account found with this email address",
+        });
+      } else {
+        setGlobalError(errorMessage);
+      }
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  /**
+   * Sign in with the emailed code
+   * Throws on failure so the code form can show the error
+   */
+  const handleCodeSignIn = async (otp: string) => {
+    setIsLoading(true);
+
+    const response = await authClient.signIn.emailOtp({
+      email: codeEmail,
+      otp,
+    });
+
+    if (response.error) {
+      setIsLoading(false);
+      throw new Error(response.error.message || "Invalid code");
+    }
+
+    await completeSignIn(response.data?.user);
+  };
+
+  /**
+   * Sign in with a passkey from this device or a password manager
+   */
+  const handlePasskeySignIn = async () => {
+    clearAlerts();
+    setIsLoading(true);
+
+    const response = await authClient.signIn.passkey();
+    if (response?.error) {
+      setGlobalError("Passkey sign-in didn't complete. Please try again.");
+      setIsLoading(false);
+      return;
+    }
+
+    const { data } = await authClient.getSession();
+    await completeSignIn(data?.user);
+  };
+
+  /**
+   * Switch between password and emailed code sign-in
+   */
+  const toggleEmailCode = () => {
+    clearAlerts();
+    setUseEmailCode(!useEmailCode);
+  };
+
   /**
    * Handle navigation to forgot password
    */
@@ -194,7 +346,17 @@ export function LoginForm() {
                   exit={{ opacity: 0, x: -100 }}
                   transition={{ duration: 0.3, ease: "easeOut" }}
                 >
-                  <form onSubmit={handleSubmit(onSubmit)} className="space-y-6">
+                  <form
+                    onSubmit={
+                      useEmailCode
+                        ? (event) => {
+                            event.preventDefault();
+                            handleRequestCode();
+                          }
+                        : handleSubmit(onSubmit)
+                    }
+                    className="space-y-6"
+                  >
                     {/* Email Field */}
                     <div className="space-y-2">
                       <Label htmlFor="email" className="text-sm font-medium">
@@ -223,62 +385,64 @@ export function LoginForm() {
                     </div>
 
                     {/* Password Field */}
-                    <div className="space-y-2">
-                      <div className="flex items-center justify-between">
-                        <Label
-                          htmlFor="password"
-                          className="text-sm font-medium"
-                        >
-                          <Lock className="mr-2 inline h-4 w-4" />
-                          Password
-                        </Label>
-                        <button
-                          type="button"
-                          onClick={handleForgotPassword}
-                          className="text-primary text-sm font-medium hover:underline focus:underline focus:outline-none"
-                          disabled={isLoading}
-                        >
-                          Forgot Password?
-                        </button>
-                      </div>
-                      <div className="relative">
-                        <Input
-                          id="password"
-                          type={showPassword ? "text" : "password"}
-                          placeholder="Enter your password"
-                          disabled={isLoading}
-                          className={cn(
-                            "pr-10 transition-colors",
-                            errors.password &&
-                              "border-destructive focus-visible:ring-destructive/20",
-                          )}
-                          {...register("password")}
-                          aria-invalid={!!errors.password}
-                          aria-describedby={
-                            errors.password ? "password-error" : undefined
-                          }
-                          autoComplete="current-password"
-                        />
-                        <Button
-                          type="button"
-                          variant="ghost"
-                          size="icon"
-                          className="absolute top-1 right-1 h-7 w-7 hover:bg-transparent"
-                          onClick={() => setShowPassword(!showPassword)}
-                          disabled={isLoading}
-                          aria-label={
-                            showPassword ? "Hide password" : "Show password"
-                          }
-                        >
-                          {showPassword ? (
-                            <EyeOff className="text-muted-foreground h-4 w-4" />
-                          ) : (
-                            <Eye className="text-muted-foreground h-4 w-4" />
-                          )}
-                        </Button>
+                    {!useEmailCode && (
+                      <div className="space-y-2">
+                        <div className="flex items-center justify-between">
+                          <Label
+                            htmlFor="password"
+                            className="text-sm font-medium"
+                          >
+                            <Lock className="mr-2 inline h-4 w-4" />
+                            Password
+                          </Label>
+                          <button
+                            type="button"
+                            onClick={handleForgotPassword}
+                            className="text-primary text-sm font-medium hover:underline focus:underline focus:outline-none"
+                            disabled={isLoading}
+                          >
+                            Forgot Password?
+                          </button>
+                        </div>
+                        <div className="relative">
+                          <Input
+                            id="password"
+                            type={showPassword ? "text" : "password"}
+                            placeholder="Enter your password"
+                            disabled={isLoading}
+                            className={cn(
+                              "pr-10 transition-colors",
+                              errors.password &&
+                                "border-destructive focus-visible:ring-destructive/20",
+                            )}
+                            {...register("password")}
+                            aria-invalid={!!errors.password}
+                            aria-describedby={
+                              errors.password ? "password-error" : undefined
+                            }
+                            autoComplete="current-password"
+                          />
+                          <Button
+                            type="button"
+                            variant="ghost"
+                            size="icon"
+                            className="absolute top-1 right-1 h-7 w-7 hover:bg-transparent"
+                            onClick={() => setShowPassword(!showPassword)}
+                            disabled={isLoading}
+                            aria-label={
+                              showPassword ? "Hide password" : "Show password"
+                            }
+                          >
+                            {showPassword ? (
+                              <EyeOff className="text-muted-foreground h-4 w-4" />
+                            ) : (
+                              <Eye className="text-muted-foreground h-4 w-4" />
+                            )}
+                          </Button>
+                        </div>
+                        <FormErrorMessage message={errors.password?.message} />
                       </div>
-                      <FormErrorMessage message={errors.password?.message} />
-                    </div>
+                    )}
 
                     {/* Global Alerts */}
                     {globalError && (
@@ -310,13 +474,51 @@ export function LoginForm() {
                       {isLoading ? (
                         <>
                           <RefreshCw className="mr-2 h-4 w-4 animate-spin" />
-                          Signing In...
+                          {useEmailCode ? "Sending Code..." : "Signing In..."}
                         </>
+                      ) : useEmailCode ? (
+                        "Email Me a Code"
                       ) : (
                         "Sign In"
                       )}
                     </Button>
 
+                    <Button
+                      type="button"
+                      variant="outline"
+                      className="h-11 w-full font-medium"
+                      onClick={toggleEmailCode}
+                      disabled={isLoading}
+                    >
+                      {useEmailCode ? (
+                        <>
+                          <Lock className="mr-2 h-4 w-4" />
+                          Sign In with Password
+                        </>
+                      ) : (
+                        <>
+                          <KeyRound className="mr-2 h-4 w-4" />
+                          Email Me a Code Instead
+                        </>
+                      )}
+                    </Button>
+
+                    <Button
+                      type="button"
+                      variant="outline"
+                      className="h-11 w-full font-medium"
+                      onClick={handlePasskeySignIn}
+                      disabled={isLoading}
+                    >
+                      <Fingerprint className="mr-2 h-4 w-4" />
+                      Sign In with a Passkey
+                    </Button>
+
+                    <SocialSignInButtons
+                      providers={socialProviders}
+                      disabled={isLoading}
+                    />
+
                     {/* Terms */}
                     <p className="text-muted-foreground text-center text-xs leading-relaxed">
                       By signing in, you agree to our{" "}
@@ -349,6 +551,24 @@ export function LoginForm() {
                     </p>
                   </div>
                 </motion.div>
+              ) : currentView === LoginView.OTP_VERIFICATION ? (
+                <motion.div key="sign-in-code">
+                  <OtpVerificationForm
+                    email={codeEmail}
+                    type="sign-in"
+                    onBack={handleBackToLogin}
+                    onVerify={handleCodeSignIn}
+                    onResendOtp={() => sendSignInCode(codeEmail)}
+                    isLoading={isLoading}
+                  />
+                </motion.div>
+              ) : currentView === LoginView.TWO_FACTOR ? (
+                <motion.div key="two-factor">
+                  <TwoFactorVerificationForm
+                    onBack={handleBackToLogin}
+                    onVerified={completeSignIn}
+                  />
+                </motion.div>
               ) : currentView === LoginView.FORGOT_PASSWORD ? (
                 <motion.div
                   key="forgot-password"
@@ -2,7 +2,7 @@ import React, { useEffect, useState } from "react";
 
 import { zodResolver } from "@hookform/resolvers/zod";
 import { motion } from "framer-motion";
-import { ArrowLeft, KeyRound, Mail, RefreshCw } from "lucide-react";
+import { ArrowLeft, KeyRound, LogIn, Mail, RefreshCw } from "lucide-react";
 import { useForm } from "react-hook-form";
 
 import { Button } from "@/components/ui/button";
@@ -20,7 +20,10 @@ import { FormErrorMessage } from "./form-error-message";
 /**
  * OTP verification types
  */
-export type OtpVerificationType = "email-verification" | "password-reset";
+export type OtpVerificationType =
+  | "email-verification"
+  | "password-reset"
+  | "sign-in";
 
 interface OtpVerificationFormProps {
   /** Email address where OTP was sent */
@@ -40,7 +43,7 @@ interface OtpVerificationFormProps {
 /**
  * OTP verification form component
  * Handles 6-digit OTP input with resend functionality and timer
- * Supports both email verification and password reset flows
+ * Supports email verification, password reset and sign-in flows
  */
 export function OtpVerificationForm({
   email,
@@ -143,6 +146,15 @@ export function OtpVerificationForm({
         verifyingText: "Verifying...",
         backButtonText: "Back to Registration",
       };
+    } else if (type === "sign-in") {
+      return {
+        icon: LogIn,
+        title: "Check Your Email",
+        description: `We've sent a 6-digit sign-in code to`,
+        buttonText: "Sign In",
+        verifyingText: "Signing In...",
+        backButtonText: "Back to Sign In",
+      };
     } else {
       return {
         icon: KeyRound,
@@ -0,0 +1,77 @@
+"use client";
+
+import React, { useState } from "react";
+
+import { RefreshCw } from "lucide-react";
+
+import { Button } from "@/components/ui/button";
+import { authClient } from "@/lib/auth-client";
+import {
+  SOCIAL_PROVIDER_LABELS,
+  type SocialProvider,
+} from "@/lib/social-providers";
+
+import { SocialIcon } from "./social-icon";
+
+interface SocialSignInButtonsProps {
+  /** Providers with credentials configured */
+  providers: SocialProvider[];
+  /** Disable while another sign-in is in progress */
+  disabled?: boolean;
+}
+
+/**
+ * "Continue with" buttons that hand off to each OAuth provider
+ * New customers get an account, existing ones with the same verified
+ * email are signed in to theirs
+ */
+export function SocialSignInButtons({
+  providers,
+  disabled,
+}: SocialSignInButtonsProps) {
+  const [pending, setPending] = useState<SocialProvider | null>(null);
+
+  /**
+   * Redirect to the provider; it returns to the dashboard, or to the
+   * login page with an error
+   */
+  const handleSignIn = async (provider: SocialProvider) => {
+    setPending(provider);
+
+    const response = await authClient.signIn.social({
+      provider,
+      callbackURL: "/dashboard",
+      errorCallbackURL: "/login",
+    });
+    if (response.error) setPending(null);
+  };
+
+  if (!providers.length) return null;
+
+  return (
+    <div className="space-y-3">
+      <div className="text-muted-foreground flex items-center gap-3 text-xs uppercase">
+        <span className="bg-border h-px flex-1" />
+        or
+        <span className="bg-border h-px flex-1" />
+      </div>
+      {providers.map((provider) => (
+        <Button
+          key={provider}
+          type="button"
+          variant="outline"
+          className="h-11 w-full font-medium"
+          onClick={() => handleSignIn(provider)}
+          disabled={disabled || !!pending}
+        >
+          {pending === provider ? (
+            <RefreshCw className="mr-2 h-4 w-4 animate-spin" />
+          ) : (
+            <SocialIcon provider={provider} className="mr-2 h-4 w-4" />
+          )}
+          Continue with {SOCIAL_PROVIDER_LABELS[provider]}
+        </Button>
+      ))}
+    </div>
+  );
+}
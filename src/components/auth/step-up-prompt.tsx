@@ -0,0 +1,123 @@
+"use client";
+
+import Link from "next/link";
+import React, { useState } from "react";
+
+import { Fingerprint, RefreshCw, ShieldAlert } from "lucide-react";
+
+import { Button } from "@/components/ui/button";
+import {
+  InputOTP,
+  InputOTPGroup,
+  InputOTPSlot,
+} from "@/components/ui/input-otp";
+import { authClient } from "@/lib/auth-client";
+import type { StepUpMethods } from "@/lib/step-up";
+
+import { FormErrorMessage } from "./form-error-message";
+
+interface StepUpPromptProps {
+  /** Why the check is needed */
+  message: string;
+  /** Passkey and authenticator availability for this user */
+  methods: StepUpMethods;
+  /** Callback once the session has stepped up, to retry the action */
+  onVerified: () => void;
+}
+
+/**
+ * Inline re-verification with a passkey or authenticator code before a
+ * high-risk action
+ */
+export function StepUpPrompt({
+  message,
+  methods,
+  onVerified,
+}: StepUpPromptProps) {
+  const [code, setCode] = useState("");
+  const [error, setError] = useState<string | null>(null);
+  const [isVerifying, setIsVerifying] = useState(false);
+
+  /**
+   * Run a check, then hand back to the caller
+   */
+  const verify = async (check: () => Promise<{ error: unknown } | void>) => {
+    setError(null);
+    setIsVerifying(true);
+
+    // Passkey sign-in resolves with nothing once it succeeds
+    const response = await check();
+    setIsVerifying(false);
+
+    if (response?.error) {
+      setError("We couldn't confirm it's you. Please try again.");
+      return;
+    }
+
+    setCode("");
+    onVerified();
+  };
+
+  return (
+    <div className="border-primary/30 bg-primary/5 space-y-4 rounded-lg border p-4">
+      <div className="flex items-start gap-3">
+        <ShieldAlert className="text-primary mt-0.5 h-5 w-5 shrink-0" />
+        <p className="text-sm">{message}</p>
+      </div>
+
+      {!methods.passkey && !methods.totp ? (
+        <Button asChild variant="outline" className="w-full">
+          <Link href="/settings">Go to Settings</Link>
+        </Button>
+      ) : (
+        <>
+          {methods.passkey && (
+            <Button
+              type="button"
+              variant="outline"
+              className="w-full"
+              onClick={() => verify(() => authClient.signIn.passkey())}
+              disabled={isVerifying}
+            >
+              {isVerifying ? (
+                <RefreshCw className="mr-2 h-4 w-4 animate-spin" />
+              ) : (
+                <Fingerprint className="mr-2 h-4 w-4" />
+              )}
+              Confirm with passkey
+            </Button>
+          )}
+
+          {methods.totp && (
+            <div className="flex flex-wrap items-center gap-2">
+              <InputOTP
+                maxLength={6}
+                value={code}
+                onChange={setCode}
+                disabled={isVerifying}
+                aria-label="Authenticator code"
+              >
+                <InputOTPGroup>
+                  {Array.from({ length: 6 }).map((_, index) => (
+                    <InputOTPSlot key={index} index={index} />
+                  ))}
+                </InputOTPGroup>
+              </InputOTP>
+              <Button
+                type="button"
+                onClick={() =>
+                  verify(() => authClient.twoFactor.verifyTotp({ code }))
+                }
+                disabled={isVerifying || code.length !== 6}
+              >
+                Confirm
+              </Button>
+            </div>
+          )}
+        </>
+      )}
+
+      <FormErrorMessage message={error ?? undefined} />
+    </div>
+  );
+}
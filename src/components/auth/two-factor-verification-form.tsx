@@ -0,0 +1,214 @@
+import React, { useState } from "react";
+
+import { zodResolver } from "@hookform/resolvers/zod";
+import { motion } from "framer-motion";
+import { ArrowLeft, RefreshCw, ShieldCheck } from "lucide-react";
+import { useForm } from "react-hook-form";
+
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import {
+  InputOTP,
+  InputOTPGroup,
+  InputOTPSlot,
+} from "@/components/ui/input-otp";
+import { Label } from "@/components/ui/label";
+import { authClient } from "@/lib/auth-client";
+import { cn } from "@/lib/utils";
+import {
+  type TwoFactorChallengeFormData,
+  twoFactorChallengeSchema,
+} from "@/lib/validation/two-factor-schema";
+
+import { FormErrorMessage } from "./form-error-message";
+
+interface TwoFactorVerificationFormProps {
+  /** Callback when back button is clicked */
+  onBack: () => void;
+  /** Callback once the second factor is accepted and the session exists */
+  onVerified: (user?: { name?: string | null }) => Promise<void>;
+}
+
+/**
+ * Second sign-in step for accounts with two-factor authentication
+ * Takes a 6-digit authenticator code, or a backup code as a fallback
+ */
+export function TwoFactorVerificationForm({
+  onBack,
+  onVerified,
+}: TwoFactorVerificationFormProps) {
+  const [useBackupCode, setUseBackupCode] = useState(false);
+
+  const {
+    register,
+    handleSubmit,
+    setValue,
+    watch,
+    setError,
+    clearErrors,
+    reset,
+    formState: { errors, isSubmitting },
+  } = useForm<TwoFactorChallengeFormData>({
+    resolver: zodResolver(twoFactorChallengeSchema),
+    defaultValues: { code: "", trustDevice: false },
+  });
+
+  const code = watch("code");
+
+  /**
+   * Check the code and finish signing in
+   */
+  const onSubmit = async (data: TwoFactorChallengeFormData) => {
+    const response = useBackupCode
+      ? await authClient.twoFactor.verifyBackupCode(data)
+      : await authClient.twoFactor.verifyTotp(data);
+
+    if (response.error) {
+      setError("code", {
+        type: "manual",
+        message: "Invalid code. Please check and try again.",
+      });
+      return;
+    }
+
+    await onVerified(response.data?.user);
+  };
+
+  /**
+   * Switch between authenticator and backup codes
+   */
+  const toggleBackupCode = () => {
+    reset({ code: "", trustDevice: watch("trustDevice") });
+    setUseBackupCode(!useBackupCode);
+  };
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, x: 100 }}
+      animate={{ opacity: 1, x: 0 }}
+      exit={{ opacity: 0, x: -100 }}
+      transition={{ duration: 0.3, ease: "easeOut" }}
+      className="space-y-6"
+    >
+      {/* Header */}
+      <div className="space-y-2 text-center">
+        <div className="bg-primary/10 mx-auto flex h-12 w-12 items-center justify-center rounded-full">
+          <ShieldCheck className="text-primary h-6 w-6" />
+        </div>
+        <h2 className="text-2xl font-semibold tracking-tight">
+          Two-Factor Authentication
+        </h2>
+        <p className="text-muted-foreground text-sm leading-relaxed">
+          {useBackupCode
+            ? "Enter one of the backup codes you saved when setting up two-factor authentication."
+            : "Enter the 6-digit code from your authenticator app."}
+        </p>
+      </div>
+
+      <form onSubmit={handleSubmit(onSubmit)} className="space-y-6">
+        {useBackupCode ? (
+          <div className="space-y-2">
+            <Label htmlFor="backup-code" className="text-sm font-medium">
+              Backup Code
+            </Label>
+            <Input
+              id="backup-code"
+              placeholder="xxxxx-xxxxx"
+              autoComplete="one-time-code"
+              disabled={isSubmitting}
+              {...register("code")}
+              autoFocus
+            />
+          </div>
+        ) : (
+          <div className="flex justify-center">
+            <InputOTP
+              id="totp"
+              maxLength={6}
+              value={code}
+              onChange={(value) => {
+                setValue("code", value);
+                clearErrors("code");
+              }}
+              disabled={isSubmitting}
+              autoFocus
+            >
+              <InputOTPGroup>
+                {Array.from({ length: 6 }).map((_, index) => (
+                  <InputOTPSlot
+                    key={index}
+                    index={index}
+                    className={cn(
+                      "h-12 w-12 text-lg font-semibold",
+                      errors.code && "border-destructive",
+                    )}
+                  />
+                ))}
+              </InputOTPGroup>
+            </InputOTP>
+          </div>
+        )}
+
+        <FormErrorMessage
+          message={errors.code?.message}
+          className="justify-center text-center"
+        />
+
+        <div className="flex items-center justify-center space-x-2">
+          <Checkbox
+            id="trust-device"
+            checked={watch("trustDevice")}
+            onCheckedChange={(checked) =>
+              setValue("trustDevice", checked === true)
+            }
+            disabled={isSubmitting}
+          />
+          <Label htmlFor="trust-device" className="text-sm font-normal">
+            Trust this device for 30 days
+          </Label>
+        </div>
+
+        <Button
+          type="submit"
+          className="h-11 w-full font-medium"
+          disabled={isSubmitting || (!useBackupCode && code.length !== 6)}
+        >
+          {isSubmitting ? (
+            <>
+              <RefreshCw className="mr-2 h-4 w-4 animate-spin" />
+              Verifying...
+            </>
+          ) : (
+            "Verify"
+          )}
+        </Button>
+
+        <button
+          type="button"
+          onClick={toggleBackupCode}
+          className="text-primary block w-full text-center text-sm font-medium hover:underline focus:underline focus:outline-none"
+          disabled={isSubmitting}
+        >
+          {useBackupCode
+            ? "Use your authenticator app instead"
+            : "Lost your device? Use a backup code"}
+        </button>
+      </form>
+
+      {/* Back Button */}
+      <div className="border-t pt-4">
+        <Button
+          type="button"
+          variant="ghost"
+          onClick={onBack}
+          disabled={isSubmitting}
+          className="h-10 w-full"
+        >
+          <ArrowLeft className="mr-2 h-4 w-4" />
+          Back to Sign In
+        </Button>
+      </div>
+    </motion.div>
+  );
+}
@@ -0,0 +1,103 @@
+"use client";
+
+import React, { useState } from "react";
+
+import { Check, Minus, Plus, RefreshCw, ShoppingCart } from "lucide-react";
+
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { useCartStore } from "@/stores/cart-store";
+
+interface AddToCartFormProps {
+  /** Product to add */
+  productId: string;
+}
+
+/**
+ * Quantity picker and add-to-cart button for the product page
+ */
+export function AddToCartForm({ productId }: AddToCartFormProps) {
+  const [quantity, setQuantity] = useState(1);
+  const [isAdded, setIsAdded] = useState(false);
+  const addItem = useCartStore((state) => state.addItem);
+  const isLoading = useCartStore((state) => state.isLoading);
+  const error = useCartStore((state) => state.error);
+
+  /**
+   * Handle add to cart
+   */
+  const handleAdd = async () => {
+    await addItem(productId, quantity);
+    if (!useCartStore.getState().error) {
+      setIsAdded(true);
+      setTimeout(() => setIsAdded(false), 2000);
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex gap-3">
+        <div className="flex items-center rounded-md border">
+          <Button
+            type="button"
+            variant="ghost"
+            size="icon"
+            onClick={() => setQuantity((prev) => Math.max(1, prev - 1))}
+            disabled={quantity <= 1 || isLoading}
+            aria-label="Decrease quantity"
+          >
+            <Minus className="h-4 w-4" />
+          </Button>
+          <Input
+            type="number"
+            min={1}
+            max={999}
+            value={quantity}
+            onChange={(event) =>
+              setQuantity(
+                Math.min(999, Math.max(1, Number(event.target.value) || 1)),
+              )
+            }
+            className="h-9 w-14 border-0 text-center shadow-none focus-visible:ring-0"
+            aria-label="Quantity"
+          />
+          <Button
+            type="button"
+            variant="ghost"
+            size="icon"
+            onClick={() => setQuantity((prev) => Math.min(999, prev + 1))}
+            disabled={isLoading}
+            aria-label="Increase quantity"
+          >
+            <Plus className="h-4 w-4" />
+          </Button>
+        </div>
+
+        <Button
+          type="button"
+          className="h-10 flex-1 font-medium"
+          onClick={handleAdd}
+          disabled={isLoading}
+        >
+          {isLoading ? (
+            <>
+              <RefreshCw className="mr-2 h-4 w-4 animate-spin" />
+              Adding...
+            </>
+          ) : isAdded ? (
+            <>
+              <Check className="mr-2 h-4 w-4" />
+              Added to cart
+            </>
+          ) : (
+            <>
+              <ShoppingCart className="mr-2 h-4 w-4" />
+              Add to cart
+            </>
+          )}
+        </Button>
+      </div>
+      {error && <p className="text-destructive text-sm">{error}</p>}
+    </div>
+  );
+}
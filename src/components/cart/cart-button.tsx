@@ -0,0 +1,36 @@
+"use client";
+
+import Link from "next/link";
+import React, { useEffect } from "react";
+
+import { ShoppingCart } from "lucide-react";
+
+import { Button } from "@/components/ui/button";
+import { useCartStore } from "@/stores/cart-store";
+
+/**
+ * Header cart link with item count
+ */
+export function CartButton() {
+  const itemCount = useCartStore((state) => state.cart?.itemCount ?? 0);
+  const hasCart = useCartStore((state) => state.cart !== null);
+  const refresh = useCartStore((state) => state.refresh);
+
+  // Load the cart once per page load if nothing hydrated it yet
+  useEffect(() => {
+    if (!hasCart) refresh();
+  }, [hasCart, refresh]);
+
+  return (
+    <Button variant="ghost" size="icon" className="relative" asChild>
+      <Link href="/cart" aria-label={`Cart, ${itemCount} items`}>
+        <ShoppingCart className="h-5 w-5" />
+        {itemCount > 0 && (
+          <span className="bg-primary text-primary-foreground absolute -top-1 -right-1 flex h-5 min-w-5 items-center justify-center rounded-full px-1 text-[10px] font-semibold">
+            {itemCount > 99 ? "99+" : itemCount}
+          </span>
+        )}
+      </Link>
+    </Button>
+  );
+}
@@ -0,0 +1,219 @@
+"use client";
+
+import Image from "next/image";
+import Link from "next/link";
+import React, { useEffect, useState, useTransition } from "react";
+
+import {
+  Coins,
+  Minus,
+  Plus,
+  RefreshCw,
+  ShoppingCart,
+  Trash2,
+} from "lucide-react";
+
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardFooter,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Separator } from "@/components/ui/separator";
+import { checkoutCartAction } from "@/lib/cart/actions";
+import type { PricedCart } from "@/lib/cart/types";
+import { METAL_GRADIENTS } from "@/lib/catalog";
+import { formatCurrency } from "@/lib/format";
+import { cn } from "@/lib/utils";
+import { useCartStore } from "@/stores/cart-store";
+
+interface CartViewProps {
+  /** Cart priced during the server render */
+  initialCart: PricedCart;
+}
+
+/**
+ * Full cart with quantity controls and checkout button
+ */
+export function CartView({ initialCart }: CartViewProps) {
+  const storedCart = useCartStore((state) => state.cart);
+  const setCart = useCartStore((state) => state.setCart);
+  const updateQuantity = useCartStore((state) => state.updateQuantity);
+  const removeItem = useCartStore((state) => state.removeItem);
+  const isLoading = useCartStore((state) => state.isLoading);
+  const error = useCartStore((state) => state.error);
+  const [checkoutError, setCheckoutError] = useState<string | null>(null);
+  const [isCheckingOut, startCheckout] = useTransition();
+
+  // Seed the store with the server-priced cart
+  useEffect(() => {
+    setCart(initialCart);
+  }, [initialCart, setCart]);
+
+  const cart = storedCart ?? initialCart;
+
+  /**
+   * Lock prices and go to checkout; stays here if a line can't be sold
+   */
+  const handleCheckout = () => {
+    setCheckoutError(null);
+    startCheckout(async () => {
+      const result = await checkoutCartAction();
+      if (result.error) setCheckoutError(result.error);
+    });
+  };
+
+  if (!cart.items.length) {
+    return (
+      <div className="flex flex-col items-center justify-center rounded-lg border border-dashed py-16 text-center">
+        <ShoppingCart className="text-muted-foreground mb-4 h-10 w-10" />
+        <p className="font-medium">Your cart is empty</p>
+        <p className="text-muted-foreground mb-6 text-sm">
+          Browse our bars and coins to get started.
+        </p>
+        <Button asChild>
+          <Link href="/products">Browse products</Link>
+        </Button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="grid gap-8 lg:grid-cols-[1fr_340px]">
+      <ul className="divide-y rounded-lg border">
+        {cart.items.map((item) => (
+          <li key={item.productId} className="flex gap-4 p-4">
+            <Link
+              href={`/products/${item.slug}`}
+              className="bg-muted relative h-20 w-20 shrink-0 overflow-hidden rounded-md"
+            >
+              {item.imageUrl ? (
+                <Image
+                  src={item.imageUrl}
+                  alt={item.name}
+                  fill
+                  sizes="80px"
+                  className="object-cover"
+                />
+              ) : (
+                <div
+                  className={cn(
+                    "flex h-full items-center justify-center bg-gradient-to-br",
+                    METAL_GRADIENTS[item.metal],
+                  )}
+                >
+                  <Coins className="h-6 w-6 text-white" />
+                </div>
+              )}
+            </Link>
+
+            <div className="flex flex-1 flex-col justify-between gap-2">
+              <div className="flex justify-between gap-4">
+                <Link
+                  href={`/products/${item.slug}`}
+                  className="font-medium hover:underline"
+                >
+                  {item.name}
+                </Link>
+                <span className="font-medium tabular-nums">
+                  {formatCurrency(item.lineTotal)}
+                </span>
+              </div>
+
+              <div className="flex items-center justify-between">
+                <div className="flex items-center gap-1">
+                  <Button
+                    type="button"
+                    variant="outline"
+                    size="icon"
+                    className="h-8 w-8"
+                    onClick={() =>
+                      updateQuantity(item.productId, item.quantity - 1)
+                    }
+                    disabled={isLoading || item.quantity <= 1}
+                    aria-label="Decrease quantity"
+                  >
+                    <Minus className="h-3 w-3" />
+                  </Button>
+                  <span className="w-10 text-center text-sm tabular-nums">
+                    {item.quantity}
+                  </span>
+                  <Button
+                    type="button"
+                    variant="outline"
+                    size="icon"
+                    className="h-8 w-8"
+                    onClick={() =>
+                      updateQuantity(item.productId, item.quantity + 1)
+                    }
+                    disabled={isLoading || item.quantity >= 999}
+                    aria-label="Increase quantity"
+                  >
+                    <Plus className="h-3 w-3" />
+                  </Button>
+                  <span className="text-muted-foreground ml-2 text-xs">
+                    {formatCurrency(item.unitPrice)} each
+                  </span>
+                </div>
+
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="icon"
+                  className="text-muted-foreground hover:text-destructive h-8 w-8"
+                  onClick={() => removeItem(item.productId)}
+                  disabled={isLoading}
+                  aria-label={`Remove ${item.name}`}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            </div>
+          </li>
+        ))}
+      </ul>
+
+      <Card className="h-fit">
+        <CardHeader>
+          <CardTitle className="text-lg">Order summary</CardTitle>
+          <CardDescription>
+            Prices follow the live spot market until you check out, when they
+            are locked for a limited time.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-3 text-sm">
+          <div className="flex justify-between">
+            <span className="text-muted-foreground">Items</span>
+            <span className="tabular-nums">{cart.itemCount}</span>
+          </div>
+          <Separator />
+          <div className="flex justify-between text-base font-semibold">
+            <span>Subtotal</span>
+            <span className="tabular-nums">
+              {formatCurrency(cart.subtotal)}
+            </span>
+          </div>
+          {(error || checkoutError) && (
+            <p className="text-destructive">{error ?? checkoutError}</p>
+          )}
+        </CardContent>
+        <CardFooter>
+          <Button
+            type="button"
+            className="h-11 w-full font-medium"
+            onClick={handleCheckout}
+            disabled={isLoading || isCheckingOut}
+          >
+            {isCheckingOut && (
+              <RefreshCw className="mr-2 h-4 w-4 animate-spin" />
+            )}
+            Proceed to checkout
+          </Button>
+        </CardFooter>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,6 @@
+/**
+ * Barrel export for cart components
+ */
+export { AddToCartForm } from "./add-to-cart-form";
+export { CartButton } from "./cart-button";
+export { CartView } from "./cart-view";
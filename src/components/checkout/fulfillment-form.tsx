@@ -0,0 +1,335 @@
+"use client";
+
+import React, { useEffect, useState } from "react";
+
+import { zodResolver } from "@hookform/resolvers/zod";
+import { CreditCard, RefreshCw, Store, Truck } from "lucide-react";
+import { useForm } from "react-hook-form";
+
+import { FormErrorMessage } from "@/components/auth/form-error-message";
+import { StepUpPrompt } from "@/components/auth/step-up-prompt";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import { formatCurrency } from "@/lib/format";
+import type { ShippingQuote } from "@/lib/fulfillment";
+import type { StepUpMethods } from "@/lib/step-up";
+import {
+  type FulfillmentFormData,
+  fulfillmentSchema,
+} from "@/lib/validation/fulfillment-schema";
+
+export interface PickupLocationOption {
+  id: string;
+  name: string;
+  address: string;
+  /** ISO start times with labels in the location's time zone */
+  slots: { value: string; label: string }[];
+}
+
+interface FulfillmentFormProps {
+  /** Quote subtotal in cents */
+  subtotal: number;
+  /** Countries insured delivery is available to */
+  countries: { code: string; name: string }[];
+  /** Pickup locations with bookable slots */
+  pickupLocations: PickupLocationOption[];
+  /** Server action pricing delivery to a country */
+  onEstimate: (
+    country: string,
+  ) => Promise<{ shipping?: ShippingQuote; error?: string }>;
+  /**
+   * Server action starting payment; only returns on failure, with the
+   * step-up methods when the order needs the customer to confirm it's them
+   */
+  onSubmit: (
+    data: FulfillmentFormData,
+  ) => Promise<{ error: string; stepUp?: StepUpMethods }>;
+}
+
+/**
+ * Delivery or pickup choice and the pay button for checkout
+ */
+export function FulfillmentForm({
+  subtotal,
+  countries,
+  pickupLocations,
+  onEstimate,
+  onSubmit,
+}: FulfillmentFormProps) {
+  const [shipping, setShipping] = useState<ShippingQuote | null>(null);
+  const [isEstimating, setIsEstimating] = useState(false);
+  const [formError, setFormError] = useState<string | null>(null);
+  const [stepUp, setStepUp] = useState<{
+    message: string;
+    methods: StepUpMethods;
+  } | null>(null);
+
+  const {
+    register,
+    handleSubmit,
+    setValue,
+    watch,
+    formState: { errors, isSubmitting },
+  } = useForm<FulfillmentFormData>({
+    resolver: zodResolver(fulfillmentSchema),
+    defaultValues: { method: "delivery" },
+  });
+
+  const method = watch("method");
+  const country = watch("country");
+  const locationId = watch("locationId");
+  const location = pickupLocations.find((option) => option.id === locationId);
+
+  useEffect(() => {
+    if (method !== "delivery" || !country) return;
+
+    let cancelled = false;
+    setIsEstimating(true);
+    setFormError(null);
+
+    onEstimate(country)
+      .then((result) => {
+        if (cancelled) return;
+        setShipping(result.shipping ?? null);
+        setFormError(result.error ?? null);
+      })
+      .finally(() => {
+        if (!cancelled) setIsEstimating(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [method, country, onEstimate]);
+
+  /**
+   * Start payment, surfacing errors that keep the customer on the page
+   */
+  const submit = async (data: FulfillmentFormData) => {
+    setFormError(null);
+    setStepUp(null);
+    const result = await onSubmit(data);
+    if (result?.stepUp) {
+      setStepUp({ message: result.error, methods: result.stepUp });
+    } else if (result?.error) {
+      setFormError(result.error);
+    }
+  };
+
+  const shippingTotal = method === "delivery" ? (shipping?.total ?? 0) : 0;
+
+  return (
+    <form onSubmit={handleSubmit(submit)} className="w-full space-y-6">
+      <ToggleGroup
+        type="single"
+        variant="outline"
+        className="w-full"
+        value={method}
+        onValueChange={(value) =>
+          value && setValue("method", value as FulfillmentFormData["method"])
+        }
+      >
+        <ToggleGroupItem value="delivery">
+          <Truck className="mr-2 h-4 w-4" />
+          Insured delivery
+        </ToggleGroupItem>
+        <ToggleGroupItem value="pickup" disabled={!pickupLocations.length}>
+          <Store className="mr-2 h-4 w-4" />
+          Local pickup
+        </ToggleGroupItem>
+      </ToggleGroup>
+
+      {method === "delivery" ? (
+        <div className="grid gap-4 sm:grid-cols-2">
+          <div className="space-y-2 sm:col-span-2">
+            <Label htmlFor="name">Full name</Label>
+            <Input id="name" autoComplete="name" {...register("name")} />
+            <FormErrorMessage message={errors.name?.message} />
+          </div>
+          <div className="space-y-2 sm:col-span-2">
+            <Label htmlFor="line1">Street address</Label>
+            <Input
+              id="line1"
+              autoComplete="address-line1"
+              {...register("line1")}
+            />
+            <FormErrorMessage message={errors.line1?.message} />
+          </div>
+          <div className="space-y-2 sm:col-span-2">
+            <Label htmlFor="line2">Apartment, suite (optional)</Label>
+            <Input
+              id="line2"
+              autoComplete="address-line2"
+              {...register("line2")}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="city">City</Label>
+            <Input
+              id="city"
+              autoComplete="address-level2"
+              {...register("city")}
+            />
+            <FormErrorMessage message={errors.city?.message} />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="region">State / region</Label>
+            <Input
+              id="region"
+              autoComplete="address-level1"
+              {...register("region")}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="postalCode">Postal code</Label>
+            <Input
+              id="postalCode"
+              autoComplete="postal-code"
+              {...register("postalCode")}
+            />
+            <FormErrorMessage message={errors.postalCode?.message} />
+          </div>
+          <div className="space-y-2">
+            <Label>Country</Label>
+            <Select
+              value={country}
+              onValueChange={(value) =>
+                setValue("country", value, { shouldValidate: true })
+              }
+            >
+              <SelectTrigger className="w-full">
+                <SelectValue placeholder="Select a country" />
+              </SelectTrigger>
+              <SelectContent>
+                {countries.map((option) => (
+                  <SelectItem key={option.code} value={option.code}>
+                    {option.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <FormErrorMessage message={errors.country?.message} />
+          </div>
+        </div>
+      ) : (
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label>Pickup location</Label>
+            <Select
+              value={locationId}
+              onValueChange={(value) => {
+                setValue("locationId", value, { shouldValidate: true });
+                setValue("slotAt", undefined);
+              }}
+            >
+              <SelectTrigger className="w-full">
+                <SelectValue placeholder="Select a location" />
+              </SelectTrigger>
+              <SelectContent>
+                {pickupLocations.map((option) => (
+                  <SelectItem key={option.id} value={option.id}>
+                    {option.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            {location && (
+              <p className="text-muted-foreground text-sm">
+                {location.address}
+              </p>
+            )}
+            <FormErrorMessage message={errors.locationId?.message} />
+          </div>
+          <div className="space-y-2">
+            <Label>Pickup time</Label>
+            <Select
+              key={locationId}
+              value={watch("slotAt")}
+              onValueChange={(value) =>
+                setValue("slotAt", value, { shouldValidate: true })
+              }
+              disabled={!location}
+            >
+              <SelectTrigger className="w-full">
+                <SelectValue placeholder="Select a time" />
+              </SelectTrigger>
+              <SelectContent>
+                {location?.slots.map((slot) => (
+                  <SelectItem key={slot.value} value={slot.value}>
+                    {slot.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <FormErrorMessage message={errors.slotAt?.message} />
+          </div>
+        </div>
+      )}
+
+      <div className="space-y-1 border-t pt-4 text-sm">
+        <div className="flex justify-between">
+          <span className="text-muted-foreground">Subtotal</span>
+          <span className="tabular-nums">{formatCurrency(subtotal)}</span>
+        </div>
+        {method === "delivery" && (
+          <div className="flex justify-between">
+            <span className="text-muted-foreground">
+              Insured shipping
+              {shipping && ` (${shipping.zoneName})`}
+            </span>
+            <span className="tabular-nums">
+              {isEstimating
+                ? "Calculating..."
+                : shipping
+                  ? formatCurrency(shipping.total)
+                  : "Select a country"}
+            </span>
+          </div>
+        )}
+        <div className="flex justify-between pt-2 text-base font-semibold">
+          <span>Total</span>
+          <span className="tabular-nums">
+            {formatCurrency(subtotal + shippingTotal)}
+          </span>
+        </div>
+      </div>
+
+      {formError && <p className="text-destructive text-sm">{formError}</p>}
+
+      {stepUp && (
+        <StepUpPrompt
+          message={stepUp.message}
+          methods={stepUp.methods}
+          onVerified={handleSubmit(submit)}
+        />
+      )}
+
+      <Button
+        type="submit"
+        className="h-11 w-full font-medium"
+        disabled={isSubmitting || isEstimating}
+      >
+        {isSubmitting ? (
+          <>
+            <RefreshCw className="mr-2 h-4 w-4 animate-spin" />
+            Redirecting to payment...
+          </>
+        ) : (
+          <>
+            <CreditCard className="mr-2 h-4 w-4" />
+            Pay securely with Stripe
+          </>
+        )}
+      </Button>
+    </form>
+  );
+}
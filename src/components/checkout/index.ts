@@ -0,0 +1,8 @@
+/**
+ * Barrel export for checkout components
+ */
+export { FulfillmentForm } from "./fulfillment-form";
+export type { PickupLocationOption } from "./fulfillment-form";
+export { QuoteCountdown } from "./quote-countdown";
+export { QuoteDiff } from "./quote-diff";
+export { QuoteSummary } from "./quote-summary";
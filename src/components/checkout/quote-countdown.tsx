@@ -0,0 +1,71 @@
+"use client";
+
+import React, { useEffect, useState, useTransition } from "react";
+
+import { Clock, RefreshCw } from "lucide-react";
+
+import { Button } from "@/components/ui/button";
+import { cn } from "@/lib/utils";
+
+interface QuoteCountdownProps {
+  /** When the price lock lapses */
+  expiresAt: Date;
+  /** Server action that re-prices the quote */
+  onReprice: () => Promise<void>;
+}
+
+/**
+ * Countdown for a price lock, offering to re-price once it lapses
+ */
+export function QuoteCountdown({ expiresAt, onReprice }: QuoteCountdownProps) {
+  const [remainingMs, setRemainingMs] = useState(
+    () => expiresAt.getTime() - Date.now(),
+  );
+  const [isRepricing, startRepricing] = useTransition();
+
+  // Tick once per second until the lock expires
+  useEffect(() => {
+    const interval = setInterval(() => {
+      const remaining = expiresAt.getTime() - Date.now();
+      setRemainingMs(remaining);
+      if (remaining <= 0) clearInterval(interval);
+    }, 1000);
+
+    return () => clearInterval(interval);
+  }, [expiresAt]);
+
+  if (remainingMs <= 0) {
+    return (
+      <div className="flex flex-col items-start gap-3 rounded-lg border border-amber-300 bg-amber-50 p-4 text-sm dark:border-amber-900 dark:bg-amber-950/20">
+        <p className="font-medium">Your price lock has expired</p>
+        <p className="text-muted-foreground">
+          Metal prices move constantly. Refresh to lock in current prices.
+        </p>
+        <Button
+          type="button"
+          size="sm"
+          onClick={() => startRepricing(onReprice)}
+          disabled={isRepricing}
+        >
+          <RefreshCw
+            className={cn("mr-2 h-4 w-4", isRepricing && "animate-spin")}
+          />
+          {isRepricing ? "Refreshing prices..." : "Refresh prices"}
+        </Button>
+      </div>
+    );
+  }
+
+  const minutes = Math.floor(remainingMs / 60000);
+  const seconds = Math.floor((remainingMs % 60000) / 1000);
+
+  return (
+    <p className="text-muted-foreground flex items-center text-sm">
+      <Clock className="mr-2 h-4 w-4" />
+      Prices locked for{" "}
+      <span className="text-foreground ml-1 font-medium tabular-nums">
+        {minutes}:{seconds.toString().padStart(2, "0")}
+      </span>
+    </p>
+  );
+}
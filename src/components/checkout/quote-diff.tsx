@@ -0,0 +1,58 @@
+import React from "react";
+
+import { ArrowDownRight, ArrowUpRight } from "lucide-react";
+
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { formatCurrency } from "@/lib/format";
+import type { QuoteDiff as QuoteDiffData } from "@/lib/price-quotes";
+import { cn } from "@/lib/utils";
+
+interface QuoteDiffProps {
+  /** Changes between the expired quote and its replacement */
+  diff: QuoteDiffData;
+}
+
+/**
+ * Explains how prices moved when an expired quote was re-priced
+ */
+export function QuoteDiff({ diff }: QuoteDiffProps) {
+  const Icon = diff.change > 0 ? ArrowUpRight : ArrowDownRight;
+
+  return (
+    <Alert>
+      <Icon
+        className={cn(
+          "h-4 w-4",
+          diff.change > 0
+            ? "text-red-600 dark:text-red-400"
+            : "text-green-600 dark:text-green-400",
+        )}
+      />
+      <AlertTitle>Prices were updated</AlertTitle>
+      <AlertDescription>
+        <p>
+          Your previous price lock expired. Your total changed from{" "}
+          {formatCurrency(diff.previousSubtotal)} to{" "}
+          <span className="text-foreground font-medium">
+            {formatCurrency(diff.subtotal)}
+          </span>{" "}
+          ({diff.change >= 0 ? "+" : "−"}
+          {formatCurrency(Math.abs(diff.change))}).
+        </p>
+        <ul className="mt-2 space-y-1">
+          {diff.lines
+            .filter((line) => line.change !== 0)
+            .map((line) => (
+              <li key={line.productId} className="flex justify-between gap-4">
+                <span>{line.productName}</span>
+                <span className="tabular-nums">
+                  {formatCurrency(line.previousUnitPrice)} →{" "}
+                  {formatCurrency(line.unitPrice)}
+                </span>
+              </li>
+            ))}
+        </ul>
+      </AlertDescription>
+    </Alert>
+  );
+}
@@ -0,0 +1,43 @@
+import React from "react";
+
+import { Separator } from "@/components/ui/separator";
+import type { PriceQuoteLine } from "@/database/schema";
+import { formatCurrency } from "@/lib/format";
+
+interface QuoteSummaryProps {
+  /** Locked quote lines */
+  lines: PriceQuoteLine[];
+  /** Quote subtotal in cents */
+  subtotal: number;
+}
+
+/**
+ * Line items of a price quote with the spot each line was priced from
+ */
+export function QuoteSummary({ lines, subtotal }: QuoteSummaryProps) {
+  return (
+    <div className="space-y-4">
+      <ul className="space-y-4">
+        {lines.map((line) => (
+          <li key={line.id} className="flex items-start justify-between gap-4">
+            <div className="space-y-1">
+              <p className="font-medium">{line.productName}</p>
+              <p className="text-muted-foreground text-xs">
+                {line.quantity} × {formatCurrency(line.unitPrice)} · spot{" "}
+                {formatCurrency(line.spotPerOz)}/oz
+              </p>
+            </div>
+            <span className="font-medium tabular-nums">
+              {formatCurrency(line.lineTotal)}
+            </span>
+          </li>
+        ))}
+      </ul>
+      <Separator />
+      <div className="flex items-center justify-between text-base font-semibold">
+        <span>Subtotal</span>
+        <span className="tabular-nums">{formatCurrency(subtotal)}</span>
+      </div>
+    </div>
+  );
+}
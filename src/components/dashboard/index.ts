@@ -0,0 +1,5 @@
+/**
+ * Barrel export for dashboard components
+ */
+export { PickupRescheduleForm } from "./pickup-reschedule-form";
+export { ShippingAddressForm } from "./shipping-address-form";
@@ -0,0 +1,91 @@
+"use client";
+
+import React, { useState, useTransition } from "react";
+
+import { CalendarClock, RefreshCw } from "lucide-react";
+
+import { Button } from "@/components/ui/button";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+
+interface PickupRescheduleFormProps {
+  /** Open appointments as ISO start times with display labels */
+  slots: { value: string; label: string }[];
+  /** Server action moving the booking to the chosen slot */
+  onReschedule: (slotAt: string) => Promise<{ error?: string }>;
+}
+
+/**
+ * Slot picker for moving a pickup appointment
+ */
+export function PickupRescheduleForm({
+  slots,
+  onReschedule,
+}: PickupRescheduleFormProps) {
+  const [slotAt, setSlotAt] = useState<string>();
+  const [error, setError] = useState<string | null>(null);
+  const [isPending, startTransition] = useTransition();
+
+  /**
+   * Handle reschedule
+   */
+  const handleReschedule = () => {
+    if (!slotAt) return;
+
+    setError(null);
+    startTransition(async () => {
+      const result = await onReschedule(slotAt);
+      if (result.error) {
+        setError(result.error);
+      } else {
+        setSlotAt(undefined);
+      }
+    });
+  };
+
+  if (!slots.length) {
+    return (
+      <p className="text-muted-foreground text-sm">
+        No other appointments are available right now.
+      </p>
+    );
+  }
+
+  return (
+    <div className="space-y-2">
+      <div className="flex gap-2">
+        <Select value={slotAt ?? ""} onValueChange={setSlotAt}>
+          <SelectTrigger className="flex-1">
+            <SelectValue placeholder="Choose a new time" />
+          </SelectTrigger>
+          <SelectContent>
+            {slots.map((slot) => (
+              <SelectItem key={slot.value} value={slot.value}>
+                {slot.label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Button
+          type="button"
+          variant="outline"
+          onClick={handleReschedule}
+          disabled={!slotAt || isPending}
+        >
+          {isPending ? (
+            <RefreshCw className="mr-2 h-4 w-4 animate-spin" />
+          ) : (
+            <CalendarClock className="mr-2 h-4 w-4" />
+          )}
+          Reschedule
+        </Button>
+      </div>
+      {error && <p className="text-destructive text-sm">{error}</p>}
+    </div>
+  );
+}
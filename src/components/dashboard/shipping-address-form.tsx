@@ -0,0 +1,176 @@
+"use client";
+
+import React, { useId, useState } from "react";
+
+import { zodResolver } from "@hookform/resolvers/zod";
+import { MapPinned, RefreshCw } from "lucide-react";
+import { useForm } from "react-hook-form";
+
+import { FormErrorMessage } from "@/components/auth/form-error-message";
+import { StepUpPrompt } from "@/components/auth/step-up-prompt";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import type { StepUpMethods } from "@/lib/step-up";
+import {
+  type ShippingAddressFormData,
+  shippingAddressSchema,
+} from "@/lib/validation/fulfillment-schema";
+
+interface ShippingAddressFormProps {
+  /** Current delivery address */
+  defaultValues: ShippingAddressFormData;
+  /** Display name of the country the order ships to */
+  countryName: string;
+  /** Server action saving the address; asks for a step-up when needed */
+  onSave: (
+    data: ShippingAddressFormData,
+  ) => Promise<{ error?: string; stepUp?: StepUpMethods }>;
+}
+
+/**
+ * Collapsible form for redirecting an unshipped delivery order
+ */
+export function ShippingAddressForm({
+  defaultValues,
+  countryName,
+  onSave,
+}: ShippingAddressFormProps) {
+  const id = useId();
+  const [isEditing, setIsEditing] = useState(false);
+  const [formError, setFormError] = useState<string | null>(null);
+  const [stepUp, setStepUp] = useState<{
+    message: string;
+    methods: StepUpMethods;
+  } | null>(null);
+
+  const {
+    register,
+    handleSubmit,
+    reset,
+    formState: { errors, isSubmitting },
+  } = useForm<ShippingAddressFormData>({
+    resolver: zodResolver(shippingAddressSchema),
+    defaultValues,
+  });
+
+  /**
+   * Save the address, asking the customer to confirm it's them if needed
+   */
+  const submit = async (data: ShippingAddressFormData) => {
+    setFormError(null);
+    setStepUp(null);
+    const result = await onSave(data);
+    if (result.stepUp) {
+      setStepUp({ message: result.error!, methods: result.stepUp });
+    } else if (result.error) {
+      setFormError(result.error);
+    } else {
+      setIsEditing(false);
+    }
+  };
+
+  if (!isEditing) {
+    return (
+      <Button
+        type="button"
+        variant="outline"
+        onClick={() => setIsEditing(true)}
+      >
+        <MapPinned className="mr-2 h-4 w-4" />
+        Change delivery address
+      </Button>
+    );
+  }
+
+  return (
+    <form onSubmit={handleSubmit(submit)} className="space-y-4">
+      <div className="grid gap-4 sm:grid-cols-2">
+        <div className="space-y-2 sm:col-span-2">
+          <Label htmlFor={`${id}-name`}>Full name</Label>
+          <Input id={`${id}-name`} autoComplete="name" {...register("name")} />
+          <FormErrorMessage message={errors.name?.message} />
+        </div>
+        <div className="space-y-2 sm:col-span-2">
+          <Label htmlFor={`${id}-line1`}>Street address</Label>
+          <Input
+            id={`${id}-line1`}
+            autoComplete="address-line1"
+            {...register("line1")}
+          />
+          <FormErrorMessage message={errors.line1?.message} />
+        </div>
+        <div className="space-y-2 sm:col-span-2">
+          <Label htmlFor={`${id}-line2`}>Apartment, suite (optional)</Label>
+          <Input
+            id={`${id}-line2`}
+            autoComplete="address-line2"
+            {...register("line2")}
+          />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor={`${id}-city`}>City</Label>
+          <Input
+            id={`${id}-city`}
+            autoComplete="address-level2"
+            {...register("city")}
+          />
+          <FormErrorMessage message={errors.city?.message} />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor={`${id}-region`}>State / region</Label>
+          <Input
+            id={`${id}-region`}
+            autoComplete="address-level1"
+            {...register("region")}
+          />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor={`${id}-postalCode`}>Postal code</Label>
+          <Input
+            id={`${id}-postalCode`}
+            autoComplete="postal-code"
+            {...register("postalCode")}
+          />
+          <FormErrorMessage message={errors.postalCode?.message} />
+        </div>
+        <div className="space-y-2">
+          <Label>Country</Label>
+          <p className="text-muted-foreground flex h-9 items-center text-sm">
+            {countryName}
+          </p>
+        </div>
+      </div>
+
+      {formError && <p className="text-destructive text-sm">{formError}</p>}
+
+      {stepUp && (
+        <StepUpPrompt
+          message={stepUp.message}
+          methods={stepUp.methods}
+          onVerified={handleSubmit(submit)}
+        />
+      )}
+
+      <div className="flex gap-2">
+        <Button type="submit" disabled={isSubmitting}>
+          {isSubmitting && <RefreshCw className="mr-2 h-4 w-4 animate-spin" />}
+          Save address
+        </Button>
+        <Button
+          type="button"
+          variant="ghost"
+          onClick={() => {
+            reset(defaultValues);
+            setFormError(null);
+            setStepUp(null);
+            setIsEditing(false);
+          }}
+          disabled={isSubmitting}
+        >
+          Cancel
+        </Button>
+      </div>
+    </form>
+  );
+}
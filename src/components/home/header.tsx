@@ -13,6 +13,7 @@ import {
   User,
 } from "lucide-react";
 
+import { CartButton } from "@/components/cart/cart-button";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
@@ -143,6 +144,7 @@ export function Header({ user, isLoading = false, onRoleUpdate }: HeaderProps) {
 
           {/* User Profile Section */}
           <div className="flex items-center space-x-4">
+            <CartButton />
             {isLoading ? (
               <div className="bg-muted h-9 w-9 animate-pulse rounded-full" />
             ) : user ? (
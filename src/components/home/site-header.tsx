@@ -0,0 +1,28 @@
+import React from "react";
+
+import { getServerSession } from "@/lib/session";
+import type { UserProfile } from "@/types/ui";
+
+import { Header } from "./header";
+
+/**
+ * Server-rendered header for pages that fetch data on the server
+ * Resolves the session up front instead of on the client
+ */
+export async function SiteHeader() {
+  const session = await getServerSession();
+
+  const user: UserProfile | null = session
+    ? {
+        id: session.user.id,
+        name: session.user.name,
+        email: session.user.email,
+        role: (session.user.role || "user") as UserProfile["role"],
+        image: session.user.image || undefined,
+        createdAt: new Date(session.user.createdAt),
+        emailVerified: session.user.emailVerified,
+      }
+    : null;
+
+  return <Header user={user} />;
+}
@@ -0,0 +1,210 @@
+"use client";
+
+import { usePathname, useRouter, useSearchParams } from "next/navigation";
+import React, { useState } from "react";
+
+import { RotateCcw } from "lucide-react";
+
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Slider } from "@/components/ui/slider";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import { FORM_OPTIONS, METAL_OPTIONS, SORT_OPTIONS } from "@/lib/catalog";
+import { formatWeight } from "@/lib/format";
+
+interface CatalogFiltersProps {
+  /** Mints available in the catalog */
+  mints: string[];
+  /** Lightest and heaviest fine weight in troy ounces */
+  weightBounds: { min: number; max: number };
+}
+
+/**
+ * Catalog filter sidebar
+ * Every change is written to the URL so the server re-renders the results
+ */
+export function CatalogFilters({ mints, weightBounds }: CatalogFiltersProps) {
+  const router = useRouter();
+  const pathname = usePathname();
+  const searchParams = useSearchParams();
+
+  const getList = (key: string) =>
+    searchParams.get(key)?.split(",").filter(Boolean) ?? [];
+
+  const [weightRange, setWeightRange] = useState<number[]>([
+    Number(searchParams.get("minOz")) || weightBounds.min,
+    Number(searchParams.get("maxOz")) || weightBounds.max,
+  ]);
+
+  /**
+   * Merge updates into the current search params and navigate
+   */
+  const updateParams = (updates: Record<string, string | null>) => {
+    const params = new URLSearchParams(searchParams.toString());
+
+    for (const [key, value] of Object.entries(updates)) {
+      if (value) {
+        params.set(key, value);
+      } else {
+        params.delete(key);
+      }
+    }
+
+    const query = params.toString();
+    router.replace(query ? `${pathname}?${query}` : pathname, {
+      scroll: false,
+    });
+  };
+
+  /**
+   * Handle weight slider release
+   * Bounds matching the catalog extremes are dropped from the URL
+   */
+  const handleWeightCommit = ([minOz, maxOz]: number[]) => {
+    updateParams({
+      minOz: minOz > weightBounds.min ? String(minOz) : null,
+      maxOz: maxOz < weightBounds.max ? String(maxOz) : null,
+    });
+  };
+
+  /**
+   * Clear all filters, keeping the selected sort order
+   */
+  const handleReset = () => {
+    setWeightRange([weightBounds.min, weightBounds.max]);
+    updateParams({
+      metal: null,
+      form: null,
+      mint: null,
+      minOz: null,
+      maxOz: null,
+    });
+  };
+
+  return (
+    <aside className="space-y-6">
+      {/* Sort */}
+      <div className="space-y-2">
+        <Label className="text-sm font-medium">Sort by</Label>
+        <Select
+          value={searchParams.get("sort") ?? "price-asc"}
+          onValueChange={(value) => updateParams({ sort: value })}
+        >
+          <SelectTrigger className="w-full">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {SORT_OPTIONS.map((option) => (
+              <SelectItem key={option.value} value={option.value}>
+                {option.label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      {/* Metal */}
+      <div className="space-y-2">
+        <Label className="text-sm font-medium">Metal</Label>
+        <ToggleGroup
+          type="multiple"
+          variant="outline"
+          className="w-full"
+          value={getList("metal")}
+          onValueChange={(value) =>
+            updateParams({ metal: value.join(",") || null })
+          }
+        >
+          {METAL_OPTIONS.map((option) => (
+            <ToggleGroupItem key={option.value} value={option.value}>
+              {option.label}
+            </ToggleGroupItem>
+          ))}
+        </ToggleGroup>
+      </div>
+
+      {/* Fine weight */}
+      {weightBounds.max > weightBounds.min && (
+        <div className="space-y-3">
+          <div className="flex items-center justify-between">
+            <Label className="text-sm font-medium">Fine weight</Label>
+            <span className="text-muted-foreground text-xs">
+              {formatWeight(weightRange[0])} – {formatWeight(weightRange[1])}
+            </span>
+          </div>
+          <Slider
+            min={weightBounds.min}
+            max={weightBounds.max}
+            step={0.01}
+            value={weightRange}
+            onValueChange={setWeightRange}
+            onValueCommit={handleWeightCommit}
+          />
+        </div>
+      )}
+
+      {/* Form factor */}
+      <div className="space-y-2">
+        <Label className="text-sm font-medium">Form</Label>
+        <ToggleGroup
+          type="multiple"
+          variant="outline"
+          className="w-full"
+          value={getList("form")}
+          onValueChange={(value) =>
+            updateParams({ form: value.join(",") || null })
+          }
+        >
+          {FORM_OPTIONS.map((option) => (
+            <ToggleGroupItem key={option.value} value={option.value}>
+              {option.label}
+            </ToggleGroupItem>
+          ))}
+        </ToggleGroup>
+      </div>
+
+      {/* Mint */}
+      {mints.length > 0 && (
+        <div className="space-y-2">
+          <Label className="text-sm font-medium">Mint</Label>
+          <ToggleGroup
+            type="multiple"
+            variant="outline"
+            className="w-full flex-col items-stretch gap-1"
+            value={getList("mint")}
+            onValueChange={(value) =>
+              updateParams({ mint: value.join(",") || null })
+            }
+          >
+            {mints.map((mint) => (
+              <ToggleGroupItem
+                key={mint}
+                value={mint}
+                className="justify-start rounded-md data-[variant=outline]:border-l"
+              >
+                {mint}
+              </ToggleGroupItem>
+            ))}
+          </ToggleGroup>
+        </div>
+      )}
+
+      <Button
+        type="button"
+        variant="ghost"
+        className="w-full"
+        onClick={handleReset}
+      >
+        <RotateCcw className="mr-2 h-4 w-4" />
+        Reset filters
+      </Button>
+    </aside>
+  );
+}
@@ -0,0 +1,8 @@
+/**
+ * Barrel export for product catalog components
+ */
+export { CatalogFilters } from "./catalog-filters";
+export { PriceBreakdown } from "./price-breakdown";
+export { PriceChart } from "./price-chart";
+export { ProductCard } from "./product-card";
+export { ProductGallery } from "./product-gallery";
@@ -0,0 +1,56 @@
+import React from "react";
+
+import { Separator } from "@/components/ui/separator";
+import { formatCurrency, formatPercent, formatWeight } from "@/lib/format";
+import type { PriceBreakdown as PriceBreakdownData } from "@/lib/pricing";
+
+interface PriceBreakdownProps {
+  /** Computed price to explain */
+  price: PriceBreakdownData;
+  /** Fine weight in troy ounces */
+  fineWeightOz: number;
+}
+
+/**
+ * Shows how a unit price is derived: spot × fine weight + premium
+ */
+export function PriceBreakdown({ price, fineWeightOz }: PriceBreakdownProps) {
+  const rows = [
+    { label: "Spot price per oz", value: formatCurrency(price.spotPerOz) },
+    {
+      label: `× Fine weight (${formatWeight(fineWeightOz)})`,
+      value: `${Number(fineWeightOz.toFixed(4))} oz`,
+    },
+    { label: "= Melt value", value: formatCurrency(price.meltValue) },
+    {
+      label: `+ Premium (${formatPercent(price.premiumPercent)})`,
+      value: formatCurrency(price.premium),
+    },
+    ...(price.surcharge > 0
+      ? [
+          {
+            label: "+ Payment surcharge",
+            value: formatCurrency(price.surcharge),
+          },
+        ]
+      : []),
+  ];
+
+  return (
+    <dl className="space-y-2 text-sm">
+      {rows.map((row) => (
+        <div key={row.label} className="flex items-center justify-between">
+          <dt className="text-muted-foreground">{row.label}</dt>
+          <dd className="font-medium tabular-nums">{row.value}</dd>
+        </div>
+      ))}
+      <Separator className="my-3" />
+      <div className="flex items-center justify-between text-base">
+        <dt className="font-semibold">Your price</dt>
+        <dd className="font-semibold tabular-nums">
+          {formatCurrency(price.unitPrice)}
+        </dd>
+      </div>
+    </dl>
+  );
+}
@@ -0,0 +1,75 @@
+import React from "react";
+
+import { LineChart } from "lucide-react";
+
+import { formatCurrency } from "@/lib/format";
+
+interface PriceChartProps {
+  /** Price points in chronological order, amounts in cents */
+  points: { price: number; timestamp: Date }[];
+  /** Chart height in pixels */
+  height?: number;
+}
+
+const WIDTH = 600;
+const PADDING = 8;
+
+/**
+ * Lightweight SVG line chart for product price history
+ */
+export function PriceChart({ points, height = 160 }: PriceChartProps) {
+  if (points.length < 2) {
+    return (
+      <div
+        className="text-muted-foreground flex flex-col items-center justify-center rounded-lg border border-dashed text-center text-sm"
+        style={{ height }}
+      >
+        <LineChart className="mb-2 h-6 w-6" />
+        Not enough price history yet
+      </div>
+    );
+  }
+
+  const prices = points.map((point) => point.price);
+  const low = Math.min(...prices);
+  const high = Math.max(...prices);
+  const range = high - low || 1;
+  const start = points[0].timestamp.getTime();
+  const span = points[points.length - 1].timestamp.getTime() - start || 1;
+
+  const coordinates = points.map((point) => {
+    const x =
+      PADDING +
+      ((point.timestamp.getTime() - start) / span) * (WIDTH - 2 * PADDING);
+    const y =
+      PADDING + (1 - (point.price - low) / range) * (height - 2 * PADDING);
+    return `${x.toFixed(1)},${y.toFixed(1)}`;
+  });
+
+  const trendUp = prices[prices.length - 1] >= prices[0];
+
+  return (
+    <div className="space-y-2">
+      <svg
+        viewBox={`0 0 ${WIDTH} ${height}`}
+        preserveAspectRatio="none"
+        className="w-full"
+        style={{ height }}
+        role="img"
+        aria-label="Price history chart"
+      >
+        <polyline
+          points={coordinates.join(" ")}
+          fill="none"
+          strokeWidth={2}
+          vectorEffect="non-scaling-stroke"
+          className={trendUp ? "stroke-green-600" : "stroke-red-600"}
+        />
+      </svg>
+      <div className="text-muted-foreground flex justify-between text-xs">
+        <span>Low {formatCurrency(low)}</span>
+        <span>High {formatCurrency(high)}</span>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,87 @@
+import Image from "next/image";
+import Link from "next/link";
+import React from "react";
+
+import { Coins } from "lucide-react";
+
+import { Badge } from "@/components/ui/badge";
+import {
+  Card,
+  CardContent,
+  CardFooter,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import type { ProductWithImages } from "@/database/queries";
+import { METAL_GRADIENTS, METAL_LABELS } from "@/lib/catalog";
+import { formatCurrency, formatPercent, formatWeight } from "@/lib/format";
+import type { PriceBreakdown } from "@/lib/pricing";
+import { cn } from "@/lib/utils";
+
+interface ProductCardProps {
+  /** Product with its images */
+  product: ProductWithImages;
+  /** Current computed price */
+  price: PriceBreakdown;
+}
+
+/**
+ * Catalog tile with primary image, key specs and live price
+ */
+export function ProductCard({ product, price }: ProductCardProps) {
+  const image = product.images[0];
+
+  return (
+    <Link href={`/products/${product.slug}`} className="group">
+      <Card className="h-full gap-4 overflow-hidden pt-0 transition-shadow group-hover:shadow-md">
+        <div className="bg-muted relative aspect-square">
+          {image ? (
+            <Image
+              src={image.url}
+              alt={image.alt || product.name}
+              fill
+              sizes="(min-width: 1024px) 25vw, (min-width: 640px) 50vw, 100vw"
+              className="object-cover"
+            />
+          ) : (
+            <div className="flex h-full items-center justify-center">
+              <div
+                className={cn(
+                  "flex h-16 w-16 items-center justify-center rounded-2xl bg-gradient-to-br shadow-sm",
+                  METAL_GRADIENTS[product.metal],
+                )}
+              >
+                <Coins className="h-8 w-8 text-white" />
+              </div>
+            </div>
+          )}
+        </div>
+
+        <CardHeader className="gap-2">
+          <div className="flex flex-wrap gap-1.5">
+            <Badge variant="secondary">{METAL_LABELS[product.metal]}</Badge>
+            <Badge variant="outline">
+              {formatWeight(product.fineWeightOz)}
+            </Badge>
+          </div>
+          <CardTitle className="line-clamp-2 leading-snug">
+            {product.name}
+          </CardTitle>
+        </CardHeader>
+
+        <CardContent className="text-muted-foreground text-sm">
+          {product.mint}
+        </CardContent>
+
+        <CardFooter className="mt-auto flex items-end justify-between">
+          <span className="text-lg font-semibold">
+            {formatCurrency(price.unitPrice)}
+          </span>
+          <span className="text-muted-foreground text-xs">
+            {formatPercent(price.premiumPercent)} over spot
+          </span>
+        </CardFooter>
+      </Card>
+    </Link>
+  );
+}
@@ -0,0 +1,82 @@
+"use client";
+
+import Image from "next/image";
+import React, { useState } from "react";
+
+import { Coins } from "lucide-react";
+
+import type { MetalType, ProductImage } from "@/database/schema";
+import { METAL_GRADIENTS } from "@/lib/catalog";
+import { cn } from "@/lib/utils";
+
+interface ProductGalleryProps {
+  /** Product images ordered by position */
+  images: ProductImage[];
+  /** Product name, used as fallback alt text */
+  name: string;
+  /** Metal, used for the placeholder swatch */
+  metal: MetalType;
+}
+
+/**
+ * Product photo gallery with thumbnail selection
+ */
+export function ProductGallery({ images, name, metal }: ProductGalleryProps) {
+  const [activeIndex, setActiveIndex] = useState(0);
+  const activeImage = images[activeIndex];
+
+  return (
+    <div className="space-y-4">
+      <div className="bg-muted relative aspect-square overflow-hidden rounded-xl">
+        {activeImage ? (
+          <Image
+            src={activeImage.url}
+            alt={activeImage.alt || name}
+            fill
+            priority
+            sizes="(min-width: 1024px) 50vw, 100vw"
+            className="object-cover"
+          />
+        ) : (
+          <div className="flex h-full items-center justify-center">
+            <div
+              className={cn(
+                "flex h-24 w-24 items-center justify-center rounded-3xl bg-gradient-to-br shadow-sm",
+                METAL_GRADIENTS[metal],
+              )}
+            >
+              <Coins className="h-12 w-12 text-white" />
+            </div>
+          </div>
+        )}
+      </div>
+
+      {images.length > 1 && (
+        <div className="grid grid-cols-5 gap-2">
+          {images.map((image, index) => (
+            <button
+              key={image.id}
+              type="button"
+              onClick={() => setActiveIndex(index)}
+              className={cn(
+                "bg-muted relative aspect-square overflow-hidden rounded-md border-2 transition-colors",
+                index === activeIndex
+                  ? "border-primary"
+                  : "hover:border-muted-foreground/40 border-transparent",
+              )}
+              aria-label={`Show image ${index + 1}`}
+            >
+              <Image
+                src={image.url}
+                alt={image.alt || name}
+                fill
+                sizes="96px"
+                className="object-cover"
+              />
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,141 @@
+"use client";
+
+import React, { useState } from "react";
+
+import { LogOut, Monitor, RefreshCw, Smartphone, Tablet } from "lucide-react";
+
+import { FormErrorMessage } from "@/components/auth/form-error-message";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import type { DeviceType } from "@/lib/devices";
+
+export interface ActiveSessionItem {
+  id: string;
+  /** e.g. "Chrome on macOS" */
+  device: string;
+  deviceType: DeviceType;
+  /** Approximate location, null when unknown */
+  location: string | null;
+  ipAddress: string | null;
+  /** Formatted sign-in time */
+  createdAt: string;
+  /** Formatted time the session was last refreshed */
+  lastActiveAt: string;
+  /** The session viewing the page */
+  current: boolean;
+}
+
+interface ActiveSessionsProps {
+  sessions: ActiveSessionItem[];
+  /** Server action signing one other device out */
+  onRevoke: (sessionId: string) => Promise<{ error?: string }>;
+  /** Server action signing every other device out */
+  onRevokeOthers: () => Promise<{ error?: string }>;
+}
+
+const DEVICE_ICONS = {
+  desktop: Monitor,
+  mobile: Smartphone,
+  tablet: Tablet,
+} as const;
+
+/**
+ * Devices signed into the account, with sign-out controls
+ */
+export function ActiveSessions({
+  sessions,
+  onRevoke,
+  onRevokeOthers,
+}: ActiveSessionsProps) {
+  const [error, setError] = useState<string | null>(null);
+  const [pendingId, setPendingId] = useState<string | null>(null);
+  const hasOthers = sessions.some((session) => !session.current);
+
+  /**
+   * Run a sign-out action; the page refreshes with the remaining sessions
+   */
+  const revoke = async (
+    id: string,
+    action: () => Promise<{ error?: string }>,
+  ) => {
+    setError(null);
+    setPendingId(id);
+
+    const result = await action();
+    setPendingId(null);
+
+    if (result.error) setError(result.error);
+  };
+
+  return (
+    <div className="space-y-4">
+      <ul className="divide-y rounded-md border">
+        {sessions.map((session) => {
+          const Icon = DEVICE_ICONS[session.deviceType];
+
+          return (
+            <li
+              key={session.id}
+              className="flex items-center justify-between gap-3 p-3 text-sm"
+            >
+              <div className="flex items-center gap-3">
+                <Icon className="text-muted-foreground h-5 w-5 shrink-0" />
+                <div>
+                  <p className="flex items-center gap-2 font-medium">
+                    {session.device}
+                    {session.current && (
+                      <Badge variant="secondary">This device</Badge>
+                    )}
+                  </p>
+                  <p className="text-muted-foreground">
+                    {[session.location, session.ipAddress]
+                      .filter(Boolean)
+                      .join(" · ") || "Location unknown"}
+                  </p>
+                  <p className="text-muted-foreground">
+                    Signed in {session.createdAt} · Last active{" "}
+                    {session.lastActiveAt}
+                  </p>
+                </div>
+              </div>
+              {!session.current && (
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="icon"
+                  onClick={() => revoke(session.id, () => onRevoke(session.id))}
+                  disabled={!!pendingId}
+                  aria-label={`Sign out ${session.device}`}
+                >
+                  {pendingId === session.id ? (
+                    <RefreshCw className="h-4 w-4 animate-spin" />
+                  ) : (
+                    <LogOut className="h-4 w-4" />
+                  )}
+                </Button>
+              )}
+            </li>
+          );
+        })}
+      </ul>
+
+      {hasOthers && (
+        <Button
+          type="button"
+          variant="outline"
+          onClick={() => revoke("others", onRevokeOthers)}
+          disabled={!!pendingId}
+        >
+          {pendingId === "others" ? (
+            <RefreshCw className="mr-2 h-4 w-4 animate-spin" />
+          ) : (
+            <LogOut className="mr-2 h-4 w-4" />
+          )}
+          Sign out all other devices
+        </Button>
+      )}
+
+      <FormErrorMessage message={error ?? undefined} />
+    </div>
+  );
+}
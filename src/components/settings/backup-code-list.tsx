@@ -0,0 +1,40 @@
+"use client";
+
+import React from "react";
+
+import { Copy } from "lucide-react";
+
+import { Button } from "@/components/ui/button";
+
+interface BackupCodeListProps {
+  /** Unused backup codes */
+  codes: string[];
+}
+
+/**
+ * Grid of backup codes with a copy-all control
+ */
+export function BackupCodeList({ codes }: BackupCodeListProps) {
+  return (
+    <div className="space-y-3">
+      <p className="text-muted-foreground text-sm">
+        Each code signs you in once if you lose your authenticator. Keep them
+        somewhere safe.
+      </p>
+      <ul className="bg-muted grid grid-cols-2 gap-2 rounded-md p-4 font-mono text-sm">
+        {codes.map((code) => (
+          <li key={code}>{code}</li>
+        ))}
+      </ul>
+      <Button
+        type="button"
+        variant="outline"
+        size="sm"
+        onClick={() => navigator.clipboard.writeText(codes.join("\n"))}
+      >
+        <Copy className="mr-2 h-4 w-4" />
+        Copy codes
+      </Button>
+    </div>
+  );
+}
@@ -0,0 +1,139 @@
+"use client";
+
+import { useRouter } from "next/navigation";
+import React, { useState } from "react";
+
+import { Link2, RefreshCw, Unlink } from "lucide-react";
+
+import { FormErrorMessage } from "@/components/auth/form-error-message";
+import { SocialIcon } from "@/components/auth/social-icon";
+import { Button } from "@/components/ui/button";
+import { authClient } from "@/lib/auth-client";
+import {
+  SOCIAL_PROVIDER_LABELS,
+  type SocialProvider,
+} from "@/lib/social-providers";
+
+export interface ConnectedAccount {
+  providerId: SocialProvider;
+  /** The user's id at the provider */
+  accountId: string;
+  /** Formatted date the account was connected */
+  connectedAt: string;
+}
+
+interface ConnectedAccountsProps {
+  /** Providers with credentials configured */
+  providers: SocialProvider[];
+  /** Provider accounts already linked to the user */
+  accounts: ConnectedAccount[];
+  /** Why the last connect attempt failed, from the OAuth redirect */
+  initialError?: string;
+}
+
+/**
+ * Connect and disconnect social sign-in providers
+ */
+export function ConnectedAccounts({
+  providers,
+  accounts,
+  initialError,
+}: ConnectedAccountsProps) {
+  const router = useRouter();
+  const [error, setError] = useState<string | null>(initialError ?? null);
+  const [pending, setPending] = useState<SocialProvider | null>(null);
+
+  /**
+   * Redirect to the provider, which returns here once connected
+   */
+  const handleLink = async (provider: SocialProvider) => {
+    setError(null);
+    setPending(provider);
+
+    const response = await authClient.linkSocial({
+      provider,
+      callbackURL: "/settings",
+      errorCallbackURL: "/settings",
+    });
+    if (response.error) {
+      setError(response.error.message || "That account couldn't be connected.");
+      setPending(null);
+    }
+  };
+
+  /**
+   * Remove a provider; the last way to sign in can't be removed
+   */
+  const handleUnlink = async (connected: ConnectedAccount) => {
+    setError(null);
+    setPending(connected.providerId);
+
+    const response = await authClient.unlinkAccount({
+      providerId: connected.providerId,
+      accountId: connected.accountId,
+    });
+    setPending(null);
+
+    if (response.error) {
+      setError(
+        response.error.message || "That account couldn't be disconnected.",
+      );
+      return;
+    }
+
+    router.refresh();
+  };
+
+  return (
+    <div className="space-y-4">
+      <ul className="divide-y rounded-md border">
+        {providers.map((provider) => {
+          const connected = accounts.find(
+            (item) => item.providerId === provider,
+          );
+
+          return (
+            <li
+              key={provider}
+              className="flex items-center justify-between gap-3 p-3 text-sm"
+            >
+              <div className="flex items-center gap-3">
+                <SocialIcon provider={provider} className="h-5 w-5" />
+                <div>
+                  <p className="font-medium">
+                    {SOCIAL_PROVIDER_LABELS[provider]}
+                  </p>
+                  <p className="text-muted-foreground">
+                    {connected
+                      ? `Connected ${connected.connectedAt}`
+                      : "Not connected"}
+                  </p>
+                </div>
+              </div>
+              <Button
+                type="button"
+                variant="outline"
+                size="sm"
+                onClick={() =>
+                  connected ? handleUnlink(connected) : handleLink(provider)
+                }
+                disabled={!!pending}
+              >
+                {pending === provider ? (
+                  <RefreshCw className="mr-2 h-4 w-4 animate-spin" />
+                ) : connected ? (
+                  <Unlink className="mr-2 h-4 w-4" />
+                ) : (
+                  <Link2 className="mr-2 h-4 w-4" />
+                )}
+                {connected ? "Disconnect" : "Connect"}
+              </Button>
+            </li>
+          );
+        })}
+      </ul>
+
+      <FormErrorMessage message={error ?? undefined} />
+    </div>
+  );
+}
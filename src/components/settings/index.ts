@@ -0,0 +1,9 @@
+/**
+ * Barrel export for account settings components
+ */
+export { ActiveSessions } from "./active-sessions";
+export { BackupCodeList } from "./backup-code-list";
+export { ConnectedAccounts } from "./connected-accounts";
+export { PasskeySettings } from "./passkey-settings";
+export { QrCode } from "./qr-code";
+export { TwoFactorSettings } from "./two-factor-settings";
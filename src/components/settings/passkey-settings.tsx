@@ -0,0 +1,146 @@
+"use client";
+
+import { useRouter } from "next/navigation";
+import React, { useState } from "react";
+
+import { Fingerprint, KeyRound, RefreshCw, Trash2 } from "lucide-react";
+
+import { FormErrorMessage } from "@/components/auth/form-error-message";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { authClient } from "@/lib/auth-client";
+
+export interface PasskeyItem {
+  id: string;
+  name: string | null;
+  /** Synced across the user's devices rather than bound to one */
+  backedUp: boolean;
+  /** Formatted registration date */
+  createdAt: string | null;
+}
+
+interface PasskeySettingsProps {
+  /** Passkeys registered to the account */
+  passkeys: PasskeyItem[];
+}
+
+/**
+ * Register, list and remove passkeys
+ */
+export function PasskeySettings({ passkeys }: PasskeySettingsProps) {
+  const router = useRouter();
+  const [name, setName] = useState("");
+  const [error, setError] = useState<string | null>(null);
+  const [pendingId, setPendingId] = useState<string | null>(null);
+
+  /**
+   * Create a passkey with the browser or password manager
+   */
+  const handleAdd = async () => {
+    setError(null);
+    setPendingId("new");
+
+    const response = await authClient.passkey.addPasskey({
+      name: name.trim() || undefined,
+    });
+    setPendingId(null);
+
+    if (response?.error) {
+      setError(
+        response.error.message || "The passkey wasn't saved. Please try again.",
+      );
+      return;
+    }
+
+    setName("");
+    router.refresh();
+  };
+
+  /**
+   * Remove a passkey so it can no longer sign in
+   */
+  const handleDelete = async (id: string) => {
+    setError(null);
+    setPendingId(id);
+
+    const response = await authClient.passkey.deletePasskey({ id });
+    setPendingId(null);
+
+    if (response.error) {
+      setError(response.error.message || "The passkey wasn't removed.");
+      return;
+    }
+
+    router.refresh();
+  };
+
+  return (
+    <div className="space-y-6">
+      <p className="text-muted-foreground text-sm">
+        Sign in with your fingerprint, face or device PIN instead of a password.
+        Passkeys also confirm large orders and address changes.
+      </p>
+
+      {passkeys.length > 0 && (
+        <ul className="divide-y rounded-md border">
+          {passkeys.map((passkey) => (
+            <li
+              key={passkey.id}
+              className="flex items-center justify-between gap-3 p-3 text-sm"
+            >
+              <div className="flex items-center gap-3">
+                <KeyRound className="text-muted-foreground h-4 w-4" />
+                <div>
+                  <p className="font-medium">{passkey.name || "Passkey"}</p>
+                  <p className="text-muted-foreground">
+                    {passkey.backedUp ? "Synced" : "This device only"}
+                    {passkey.createdAt && ` · Added ${passkey.createdAt}`}
+                  </p>
+                </div>
+              </div>
+              <Button
+                type="button"
+                variant="ghost"
+                size="icon"
+                onClick={() => handleDelete(passkey.id)}
+                disabled={!!pendingId}
+                aria-label={`Remove ${passkey.name || "passkey"}`}
+              >
+                {pendingId === passkey.id ? (
+                  <RefreshCw className="h-4 w-4 animate-spin" />
+                ) : (
+                  <Trash2 className="h-4 w-4" />
+                )}
+              </Button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <div className="space-y-2">
+        <Label htmlFor="passkey-name">Name (optional)</Label>
+        <div className="flex gap-2">
+          <Input
+            id="passkey-name"
+            placeholder="e.g. MacBook, iPhone"
+            value={name}
+            onChange={(event) => setName(event.target.value)}
+            disabled={!!pendingId}
+            maxLength={50}
+          />
+          <Button type="button" onClick={handleAdd} disabled={!!pendingId}>
+            {pendingId === "new" ? (
+              <RefreshCw className="mr-2 h-4 w-4 animate-spin" />
+            ) : (
+              <Fingerprint className="mr-2 h-4 w-4" />
+            )}
+            Add passkey
+          </Button>
+        </div>
+      </div>
+
+      <FormErrorMessage message={error ?? undefined} />
+    </div>
+  );
+}
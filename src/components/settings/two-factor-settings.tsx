@@ -0,0 +1,275 @@
+"use client";
+
+import { useRouter } from "next/navigation";
+import React, { useState } from "react";
+
+import { zodResolver } from "@hookform/resolvers/zod";
+import { Eye, RefreshCw, RotateCw, ShieldCheck, ShieldOff } from "lucide-react";
+import { useForm } from "react-hook-form";
+
+import { FormErrorMessage } from "@/components/auth/form-error-message";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  InputOTP,
+  InputOTPGroup,
+  InputOTPSlot,
+} from "@/components/ui/input-otp";
+import { Label } from "@/components/ui/label";
+import { authClient } from "@/lib/auth-client";
+import {
+  type PasswordConfirmationFormData,
+  type TotpCodeFormData,
+  passwordConfirmationSchema,
+  totpCodeSchema,
+} from "@/lib/validation/two-factor-schema";
+
+import { BackupCodeList } from "./backup-code-list";
+import { QrCode } from "./qr-code";
+
+interface TwoFactorSettingsProps {
+  /** Whether the account already has two-factor authentication */
+  enabled: boolean;
+  /** Server action returning the unused backup codes after a password check */
+  onViewBackupCodes: (
+    data: PasswordConfirmationFormData,
+  ) => Promise<{ codes?: string[]; error?: string }>;
+}
+
+/**
+ * Authenticator enrollment started with the password, awaiting a first code
+ */
+interface PendingEnrollment {
+  totpURI: string;
+  backupCodes: string[];
+}
+
+/**
+ * Enroll in, manage and turn off authenticator-app two-factor authentication
+ */
+export function TwoFactorSettings({
+  enabled,
+  onViewBackupCodes,
+}: TwoFactorSettingsProps) {
+  const router = useRouter();
+  const [enrollment, setEnrollment] = useState<PendingEnrollment | null>(null);
+  const [backupCodes, setBackupCodes] = useState<string[] | null>(null);
+  const [formError, setFormError] = useState<string | null>(null);
+
+  const passwordForm = useForm<PasswordConfirmationFormData>({
+    resolver: zodResolver(passwordConfirmationSchema),
+    defaultValues: { password: "" },
+  });
+  const codeForm = useForm<TotpCodeFormData>({
+    resolver: zodResolver(totpCodeSchema),
+    defaultValues: { code: "" },
+  });
+
+  const isSubmitting =
+    passwordForm.formState.isSubmitting || codeForm.formState.isSubmitting;
+  const code = codeForm.watch("code");
+
+  /**
+   * Run a password-confirmed change, surfacing the failure message
+   */
+  const withPassword = (
+    action: (data: PasswordConfirmationFormData) => Promise<string | void>,
+  ) =>
+    passwordForm.handleSubmit(async (data) => {
+      setFormError(null);
+      const error = await action(data);
+      if (error) {
+        setFormError(error);
+      } else {
+        passwordForm.reset();
+      }
+    });
+
+  /**
+   * Start enrollment: generates the secret and backup codes
+   */
+  const handleEnable = withPassword(async ({ password }) => {
+    const response = await authClient.twoFactor.enable({ password });
+    if (response.error) return response.error.message || "Incorrect password";
+    setEnrollment(response.data);
+  });
+
+  /**
+   * Confirm the authenticator works; only then is two-factor switched on
+   */
+  const handleVerify = codeForm.handleSubmit(async (data) => {
+    setFormError(null);
+    const response = await authClient.twoFactor.verifyTotp(data);
+    if (response.error) {
+      codeForm.setError("code", {
+        type: "manual",
+        message: "That code didn't match. Check your app and try again.",
+      });
+      return;
+    }
+
+    setBackupCodes(enrollment!.backupCodes);
+    setEnrollment(null);
+    codeForm.reset();
+    router.refresh();
+  });
+
+  const handleViewCodes = withPassword(async (data) => {
+    const result = await onViewBackupCodes(data);
+    if (result.error) return result.error;
+    setBackupCodes(result.codes ?? []);
+  });
+
+  /**
+   * Replace every backup code, invalidating the old ones
+   */
+  const handleRegenerate = withPassword(async ({ password }) => {
+    const response = await authClient.twoFactor.generateBackupCodes({
+      password,
+    });
+    if (response.error) return response.error.message || "Incorrect password";
+    setBackupCodes(response.data.backupCodes);
+  });
+
+  const handleDisable = withPassword(async ({ password }) => {
+    const response = await authClient.twoFactor.disable({ password });
+    if (response.error) return response.error.message || "Incorrect password";
+    setBackupCodes(null);
+    router.refresh();
+  });
+
+  // Scan the QR code and confirm with a first code
+  if (enrollment) {
+    const secret = new URL(enrollment.totpURI).searchParams.get("secret");
+
+    return (
+      <form onSubmit={handleVerify} className="space-y-6">
+        <div className="flex flex-col items-center gap-4 sm:flex-row sm:items-start">
+          <QrCode
+            value={enrollment.totpURI}
+            label="QR code for your authenticator app"
+          />
+          <div className="space-y-2 text-sm">
+            <p>
+              Scan this code with an authenticator app such as 1Password, Authy
+              or Google Authenticator.
+            </p>
+            <p className="text-muted-foreground">
+              Can&apos;t scan it? Enter this key instead:
+            </p>
+            <code className="bg-muted block rounded-md p-2 font-mono break-all">
+              {secret}
+            </code>
+          </div>
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="totp">Code from the app</Label>
+          <InputOTP
+            id="totp"
+            maxLength={6}
+            value={code}
+            onChange={(value) => {
+              codeForm.setValue("code", value);
+              codeForm.clearErrors("code");
+            }}
+            disabled={isSubmitting}
+          >
+            <InputOTPGroup>
+              {Array.from({ length: 6 }).map((_, index) => (
+                <InputOTPSlot key={index} index={index} />
+              ))}
+            </InputOTPGroup>
+          </InputOTP>
+          <FormErrorMessage message={codeForm.formState.errors.code?.message} />
+        </div>
+
+        <div className="flex gap-2">
+          <Button type="submit" disabled={isSubmitting || code.length !== 6}>
+            {isSubmitting && (
+              <RefreshCw className="mr-2 h-4 w-4 animate-spin" />
+            )}
+            Verify and turn on
+          </Button>
+          <Button
+            type="button"
+            variant="ghost"
+            onClick={() => setEnrollment(null)}
+            disabled={isSubmitting}
+          >
+            Cancel
+          </Button>
+        </div>
+      </form>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <p className="text-muted-foreground text-sm">
+        {enabled
+          ? "Two-factor authentication is on. Signing in with your password also asks for a code from your authenticator app."
+          : "Protect your account with a code from an authenticator app in addition to your password."}
+      </p>
+
+      {backupCodes && <BackupCodeList codes={backupCodes} />}
+
+      <form
+        onSubmit={enabled ? handleViewCodes : handleEnable}
+        className="space-y-4"
+      >
+        <div className="space-y-2">
+          <Label htmlFor="current-password">Current password</Label>
+          <Input
+            id="current-password"
+            type="password"
+            autoComplete="current-password"
+            disabled={isSubmitting}
+            {...passwordForm.register("password")}
+          />
+          <FormErrorMessage
+            message={passwordForm.formState.errors.password?.message}
+          />
+        </div>
+
+        <FormErrorMessage message={formError ?? undefined} />
+
+        {enabled ? (
+          <div className="flex flex-wrap gap-2">
+            <Button type="submit" variant="outline" disabled={isSubmitting}>
+              <Eye className="mr-2 h-4 w-4" />
+              View backup codes
+            </Button>
+            <Button
+              type="button"
+              variant="outline"
+              onClick={handleRegenerate}
+              disabled={isSubmitting}
+            >
+              <RotateCw className="mr-2 h-4 w-4" />
+              Regenerate backup codes
+            </Button>
+            <Button
+              type="button"
+              variant="destructive"
+              onClick={handleDisable}
+              disabled={isSubmitting}
+            >
+              <ShieldOff className="mr-2 h-4 w-4" />
+              Turn off
+            </Button>
+          </div>
+        ) : (
+          <Button type="submit" disabled={isSubmitting}>
+            {isSubmitting ? (
+              <RefreshCw className="mr-2 h-4 w-4 animate-spin" />
+            ) : (
+              <ShieldCheck className="mr-2 h-4 w-4" />
+            )}
+            Set up authenticator
+          </Button>
+        )}
+      </form>
+    </div>
+  );
+}
@@ -0,0 +1,81 @@
+import type { SQL } from "drizzle-orm";
+import { PgDialect } from "drizzle-orm/pg-core";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+import { db } from "@/database";
+
+import { updatePayment } from "../orders";
+import { insertOutboxEvent } from "../outbox";
+
+vi.mock("@/database", () => ({ db: { transaction: vi.fn() } }));
+vi.mock("../outbox", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("../outbox")>()),
+  insertOutboxEvent: vi.fn(),
+}));
+
+const succeeded = {
+  id: "payment-1",
+  orderId: "order-1",
+  status: "succeeded",
+  amount: 503_800,
+  currency: "USD",
+};
+
+/**
+ * Run transactions against a stub whose UPDATEs match the given rows in turn
+ * Returns the WHERE clause of every UPDATE as SQL text and parameters
+ */
+function stubUpdates(...results: object[][]) {
+  const conditions: { sql: string; params: unknown[] }[] = [];
+  const tx = {
+    update: () => ({
+      set: () => ({
+        where: (condition: SQL) => {
+          conditions.push(new PgDialect().sqlToQuery(condition));
+          return { returning: async () => results.shift() ?? [] };
+        },
+      }),
+    }),
+  };
+  vi.mocked(db.transaction).mockImplementation(
+    async (run) => run(tx as never) as never,
+  );
+  return conditions;
+}
+
+describe("updatePayment", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it("records payment.succeeded once when a completion is delivered twice", async () => {
+    // Postgres matches no row the second time, the payment is no longer pending
+    const conditions = stubUpdates([succeeded], []);
+
+    await expect(
+      updatePayment("payment-1", { status: "succeeded" }),
+    ).resolves.toEqual(succeeded);
+    await expect(
+      updatePayment("payment-1", { status: "succeeded" }),
+    ).resolves.toBeUndefined();
+
+    expect(conditions[0].sql).toContain('"payment"."status" = $2');
+    expect(conditions[0].params).toEqual(["payment-1", "pending"]);
+    expect(insertOutboxEvent).toHaveBeenCalledOnce();
+    expect(insertOutboxEvent).toHaveBeenCalledWith(
+      expect.anything(),
+      "payment.succeeded",
+      "order-1",
+      expect.objectContaining({ paymentId: "payment-1" }),
+    );
+  });
+
+  it("updates other fields whatever the status", async () => {
+    const conditions = stubUpdates([{ ...succeeded, status: "pending" }]);
+
+    await updatePayment("payment-1", { failureMessage: "Card declined" });
+
+    expect(conditions[0].params).toEqual(["payment-1"]);
+    expect(insertOutboxEvent).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,124 @@
+import type { SQL } from "drizzle-orm";
+import { PgDialect } from "drizzle-orm/pg-core";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+import { db } from "@/database";
+
+import { hasPickupCapacity, reschedulePickupOrder } from "../pickup-locations";
+
+vi.mock("@/database", () => ({ db: { transaction: vi.fn() } }));
+
+/**
+ * Transaction stub answering selects in order and recording row locks
+ * and the UPDATE's WHERE clause
+ */
+function stubTransaction(selects: unknown[][], updated: unknown[] = []) {
+  const tx = {
+    locks: [] as string[],
+    updateWhere: undefined as SQL | undefined,
+    select: () => ({
+      from: () => ({
+        where: () => {
+          const rows = Promise.resolve(selects.shift());
+          return Object.assign(rows, {
+            for: (strength: string) => {
+              tx.locks.push(strength);
+              return rows;
+            },
+          });
+        },
+      }),
+    }),
+    update: () => ({
+      set: () => ({
+        where: (condition: SQL) => {
+          tx.updateWhere = condition;
+          return { returning: async () => updated };
+        },
+      }),
+    }),
+  };
+  return tx;
+}
+
+describe("hasPickupCapacity", () => {
+  const slotAt = new Date("2025-04-05T01:00:00Z");
+
+  it("accepts bookings while the appointment has room", async () => {
+    const tx = stubTransaction([[{ slotCapacity: 2 }], [{ booked: 1 }]]);
+
+    await expect(
+      hasPickupCapacity(tx as never, "location-1", slotAt),
+    ).resolves.toBe(true);
+    expect(tx.locks).toEqual(["update"]);
+  });
+
+  it("rejects bookings once the appointment is full", async () => {
+    const tx = stubTransaction([[{ slotCapacity: 2 }], [{ booked: 2 }]]);
+
+    await expect(
+      hasPickupCapacity(tx as never, "location-1", slotAt),
+    ).resolves.toBe(false);
+  });
+});
+
+describe("reschedulePickupOrder", () => {
+  const slotAt = new Date("2025-04-05T01:00:00Z");
+  const statuses = ["paid", "ready_for_pickup"] as const;
+  const current = [{ pickupLocationId: "location-1" }];
+
+  function runIn(tx: ReturnType<typeof stubTransaction>) {
+    vi.mocked(db.transaction).mockImplementation(
+      async (callback) => callback(tx as never) as never,
+    );
+  }
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it("moves the order while holding the location lock", async () => {
+    const tx = stubTransaction(
+      [current, [{ slotCapacity: 2 }], [{ booked: 1 }]],
+      [{ id: "order-1", pickupSlotAt: slotAt }],
+    );
+    runIn(tx);
+
+    await expect(
+      reschedulePickupOrder("order-1", slotAt, [...statuses]),
+    ).resolves.toEqual({ id: "order-1", pickupSlotAt: slotAt });
+    expect(tx.locks).toEqual(["update"]);
+    expect(new PgDialect().sqlToQuery(tx.updateWhere!)).toMatchObject({
+      sql: expect.stringContaining('"order"."status" in'),
+      params: ["order-1", ...statuses],
+    });
+  });
+
+  it("leaves the order alone when the appointment is full", async () => {
+    const tx = stubTransaction([
+      current,
+      [{ slotCapacity: 2 }],
+      [{ booked: 2 }],
+    ]);
+    runIn(tx);
+
+    await expect(
+      reschedulePickupOrder("order-1", slotAt, [...statuses]),
+    ).resolves.toBeNull();
+    expect(tx.updateWhere).toBeUndefined();
+  });
+
+  it("returns null when the order was released while waiting on the lock", async () => {
+    // The status condition matches no row once the order is cancelled
+    const tx = stubTransaction(
+      [current, [{ slotCapacity: 2 }], [{ booked: 0 }]],
+      [],
+    );
+    runIn(tx);
+
+    await expect(
+      reschedulePickupOrder("order-1", slotAt, [...statuses]),
+    ).resolves.toBeNull();
+    expect(tx.updateWhere).toBeDefined();
+  });
+});
@@ -0,0 +1,139 @@
+import type { SQL } from "drizzle-orm";
+import { PgDialect } from "drizzle-orm/pg-core";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+import { db } from "@/database";
+
+import { insertOutboxEvent } from "../outbox";
+import {
+  getRefundedAmount,
+  settlePendingRefund,
+  updateRefund,
+} from "../refunds";
+
+vi.mock("@/database", () => ({
+  db: { select: vi.fn(), transaction: vi.fn() },
+}));
+vi.mock("../outbox", () => ({ insertOutboxEvent: vi.fn() }));
+
+/**
+ * Run transactions against a single stored refund row
+ */
+function stubRefundRow(row: Record<string, unknown>) {
+  const tx = {
+    select: () => ({
+      from: () => ({
+        where: () => ({ for: async () => [{ status: row.status }] }),
+      }),
+    }),
+    update: () => ({
+      set: (values: Record<string, unknown>) => ({
+        where: () => ({
+          returning: async () => [Object.assign(row, values)],
+        }),
+      }),
+    }),
+  };
+  vi.mocked(db.transaction).mockImplementation(
+    async (run) => run(tx as never) as never,
+  );
+}
+
+describe("updateRefund", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it("records one event when the same refund webhook is delivered twice", async () => {
+    stubRefundRow({
+      id: "refund-1",
+      paymentId: "payment-1",
+      status: "pending",
+      amount: 100_000,
+    });
+    const webhook = {
+      providerRefundId: "re_1",
+      status: "succeeded" as const,
+      failureMessage: null,
+    };
+
+    await updateRefund("refund-1", webhook);
+    await updateRefund("refund-1", webhook);
+
+    expect(insertOutboxEvent).toHaveBeenCalledOnce();
+    expect(insertOutboxEvent).toHaveBeenCalledWith(
+      expect.anything(),
+      "payment.refund_updated",
+      "payment-1",
+      {
+        refundId: "refund-1",
+        paymentId: "payment-1",
+        status: "succeeded",
+        amount: 100_000,
+      },
+    );
+  });
+
+  it("still records provider details when the status is unchanged", async () => {
+    const row = { id: "refund-1", paymentId: "payment-1", status: "pending" };
+    stubRefundRow(row);
+
+    await updateRefund("refund-1", {
+      providerRefundId: "re_1",
+      status: "pending",
+    });
+
+    expect(row).toMatchObject({ providerRefundId: "re_1" });
+    expect(insertOutboxEvent).not.toHaveBeenCalled();
+  });
+});
+
+describe("settlePendingRefund", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it("settles a pending refund", async () => {
+    const row = { id: "refund-1", paymentId: "payment-1", status: "pending" };
+    stubRefundRow(row);
+
+    await expect(
+      settlePendingRefund("refund-1", { status: "failed" }),
+    ).resolves.toMatchObject({ status: "failed" });
+    expect(insertOutboxEvent).toHaveBeenCalledOnce();
+  });
+
+  it.each(["succeeded", "failed"])(
+    "leaves a %s refund alone when an older pending event arrives",
+    async (status) => {
+      const row = { id: "refund-1", paymentId: "payment-1", status };
+      stubRefundRow(row);
+
+      await expect(
+        settlePendingRefund("refund-1", {
+          providerRefundId: "re_1",
+          status: "pending",
+        }),
+      ).resolves.toBeNull();
+      expect(row).toEqual({ id: "refund-1", paymentId: "payment-1", status });
+      expect(insertOutboxEvent).not.toHaveBeenCalled();
+    },
+  );
+});
+
+describe("getRefundedAmount", () => {
+  it("only counts refunds the provider confirmed", async () => {
+    let condition: { sql: string; params: unknown[] } | undefined;
+    vi.mocked(db.select).mockReturnValue({
+      from: () => ({
+        where: async (where: SQL) => {
+          condition = new PgDialect().sqlToQuery(where);
+          return [{ refunded: 40_000 }];
+        },
+      }),
+    } as never);
+
+    await expect(getRefundedAmount("payment-1")).resolves.toBe(40_000);
+    expect(condition?.params).toEqual(["payment-1", "succeeded"]);
+  });
+});
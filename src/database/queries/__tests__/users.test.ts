@@ -0,0 +1,82 @@
+import type { SQL } from "drizzle-orm";
+import { PgDialect } from "drizzle-orm/pg-core";
+import { describe, expect, it, vi } from "vitest";
+
+import { db } from "@/database";
+
+import { insertOutboxEvent } from "../outbox";
+import { escapeLikePattern } from "../search";
+import { insertUser, listUsers } from "../users";
+
+vi.mock("@/database", () => ({
+  db: { select: vi.fn(), transaction: vi.fn() },
+}));
+vi.mock("../outbox", () => ({ insertOutboxEvent: vi.fn() }));
+
+/**
+ * Capture the WHERE clause of the next select as SQL text and parameters
+ */
+function captureWhere() {
+  const captured: { sql?: string; params?: unknown[] } = {};
+  const query = {
+    from: () => query,
+    where: (condition?: SQL) => {
+      Object.assign(
+        captured,
+        condition && new PgDialect().sqlToQuery(condition),
+      );
+      return query;
+    },
+    orderBy: () => query,
+    limit: async () => [],
+  };
+  vi.mocked(db.select).mockReturnValue(query as never);
+  return captured;
+}
+
+describe("escapeLikePattern", () => {
+  it("escapes wildcards and the escape character", () => {
+    expect(escapeLikePattern("100%_off\\")).toBe("100\\%\\_off\\\\");
+    expect(escapeLikePattern("ada@example.com")).toBe("ada@example.com");
+  });
+});
+
+describe("listUsers", () => {
+  it("matches the search text literally", async () => {
+    const where = captureWhere();
+
+    await listUsers("a_b%");
+
+    expect(where.params).toEqual(["%a\\_b\\%%", "%a\\_b\\%%"]);
+  });
+
+  it("lists everyone without a search", async () => {
+    const where = captureWhere();
+
+    await listUsers();
+
+    expect(where.sql).toBeUndefined();
+  });
+});
+
+describe("insertUser", () => {
+  it("records user.registered in the transaction creating the user", async () => {
+    const created = { id: "user-1", email: "ada@example.com", name: "Ada" };
+    const tx = {
+      insert: () => ({ values: () => ({ returning: async () => [created] }) }),
+    };
+    vi.mocked(db.transaction).mockImplementation(
+      async (run) => run(tx as never) as never,
+    );
+
+    await expect(
+      insertUser({ id: "user-1", email: "ada@example.com", name: "Ada" }),
+    ).resolves.toEqual(created);
+    expect(insertOutboxEvent).toHaveBeenCalledWith(
+      tx,
+      "user.registered",
+      "user-1",
+      { userId: "user-1", email: "ada@example.com", name: "Ada" },
+    );
+  });
+});
@@ -0,0 +1,15 @@
+import { db } from "@/database";
+import { auditLog } from "@/database/schema";
+
+/**
+ * Record a domain event in the audit log
+ * Recording the same event again is a no-op
+ */
+export async function insertAuditLogEntry(
+  values: typeof auditLog.$inferInsert,
+) {
+  await db
+    .insert(auditLog)
+    .values(values)
+    .onConflictDoNothing({ target: auditLog.eventId });
+}
@@ -0,0 +1,170 @@
+import { and, asc, eq, sql } from "drizzle-orm";
+
+import { db } from "@/database";
+import {
+  MAX_CART_ITEM_QUANTITY,
+  cart,
+  cartItem,
+  productImage,
+} from "@/database/schema";
+
+const cartWithItems = {
+  items: {
+    orderBy: [asc(cartItem.createdAt)],
+    with: {
+      product: {
+        with: {
+          images: {
+            orderBy: [asc(productImage.position)],
+            limit: 1,
+          },
+        },
+      },
+    },
+  },
+};
+
+/**
+ * Fetch a user's cart with items and products
+ */
+export async function getCartByUserId(userId: string) {
+  return db.query.cart.findFirst({
+    where: eq(cart.userId, userId),
+    with: cartWithItems,
+  });
+}
+
+/**
+ * Fetch an anonymous visitor's cart with items and products
+ */
+export async function getCartByAnonymousId(anonymousId: string) {
+  return db.query.cart.findFirst({
+    where: eq(cart.anonymousId, anonymousId),
+    with: cartWithItems,
+  });
+}
+
+export type CartWithItems = NonNullable<
+  Awaited<ReturnType<typeof getCartByUserId>>
+>;
+
+/**
+ * Create an empty cart for a user or anonymous visitor
+ */
+export async function insertCart(owner: {
+  userId?: string;
+  anonymousId?: string;
+}) {
+  const [created] = await db.insert(cart).values(owner).returning();
+  return created;
+}
+
+/**
+ * Quantity after adding to a line, capped at the most a line can hold
+ */
+const addedQuantity = sql`LEAST(${cartItem.quantity} + excluded.quantity, ${MAX_CART_ITEM_QUANTITY})`;
+
+/**
+ * Add to an item's quantity, or set it outright, creating the item if needed
+ * Adding never takes a line past MAX_CART_ITEM_QUANTITY
+ */
+export async function upsertCartItem(
+  cartId: string,
+  productId: string,
+  quantity: number,
+  mode: "add" | "set",
+) {
+  await db
+    .insert(cartItem)
+    .values({ cartId, productId, quantity })
+    .onConflictDoUpdate({
+      target: [cartItem.cartId, cartItem.productId],
+      set: {
+        quantity: mode === "add" ? addedQuantity : sql`excluded.quantity`,
+      },
+    });
+  await touchCart(cartId);
+}
+
+/**
+ * Remove a product from a cart
+ */
+export async function deleteCartItem(cartId: string, productId: string) {
+  await db
+    .delete(cartItem)
+    .where(and(eq(cartItem.cartId, cartId), eq(cartItem.productId, productId)));
+  await touchCart(cartId);
+}
+
+/**
+ * Hand an anonymous cart over to a user who has no cart yet
+ */
+export async function assignCartToUser(cartId: string, userId: string) {
+  await db
+    .update(cart)
+    .set({ userId, anonymousId: null, updatedAt: new Date() })
+    .where(eq(cart.id, cartId));
+}
+
+/**
+ * Move every item of one cart into another, summing quantities up to the
+ * line limit, then delete the emptied cart
+ */
+export async function mergeCarts(sourceCartId: string, targetCartId: string) {
+  await db.transaction(async (tx) => {
+    const items = await tx
+      .select()
+      .from(cartItem)
+      .where(eq(cartItem.cartId, sourceCartId));
+
+    if (items.length) {
+      await tx
+        .insert(cartItem)
+        .values(
+          items.map((item) => ({
+            cartId: targetCartId,
+            productId: item.productId,
+            quantity: item.quantity,
+          })),
+        )
+        .onConflictDoUpdate({
+          target: [cartItem.cartId, cartItem.productId],
+          set: { quantity: addedQuantity },
+        });
+    }
+
+    await tx.delete(cart).where(eq(cart.id, sourceCartId));
+    await tx
+      .update(cart)
+      .set({ updatedAt: new Date() })
+      .where(eq(cart.id, targetCartId));
+  });
+}
+
+/**
+ * Remove every item from a cart, e.g. once its contents are ordered
+ */
+export async function clearCart(cartId: string) {
+  await db.delete(cartItem).where(eq(cartItem.cartId, cartId));
+  await touchCart(cartId);
+}
+
+async function touchCart(cartId: string) {
+  await db
+    .update(cart)
+    .set({ updatedAt: new Date() })
+    .where(eq(cart.id, cartId));
+}
+
+/**
+ * Empty a user's cart once its contents have been paid for
+ */
+export async function clearCartForUser(userId: string) {
+  const userCart = await db.query.cart.findFirst({
+    where: eq(cart.userId, userId),
+  });
+
+  if (userCart) {
+    await clearCart(userCart.id);
+  }
+}
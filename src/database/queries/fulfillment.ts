@@ -0,0 +1,34 @@
+import { sql } from "drizzle-orm";
+
+import { db } from "@/database";
+import { shippingRate, shippingZone } from "@/database/schema";
+
+/**
+ * Find the zone that ships to a country, with its weight bands
+ * lightest first and the unlimited band last
+ */
+export async function getShippingZoneForCountry(country: string) {
+  return db.query.shippingZone.findFirst({
+    where: sql`${country} = any(${shippingZone.countries})`,
+    with: {
+      rates: {
+        orderBy: [sql`${shippingRate.maxWeightOz} asc nulls last`],
+      },
+    },
+  });
+}
+
+export type ShippingZoneWithRates = NonNullable<
+  Awaited<ReturnType<typeof getShippingZoneForCountry>>
+>;
+
+/**
+ * Every country any zone ships to
+ */
+export async function listShippingCountries() {
+  const zones = await db
+    .select({ countries: shippingZone.countries })
+    .from(shippingZone);
+
+  return [...new Set(zones.flatMap((zone) => zone.countries))].sort();
+}
@@ -0,0 +1,13 @@
+export * from "./audit-log";
+export * from "./carts";
+export * from "./fulfillment";
+export * from "./orders";
+export * from "./outbox";
+export * from "./pickup-locations";
+export * from "./price-quotes";
+export * from "./pricing";
+export * from "./products";
+export * from "./refunds";
+export * from "./spot-prices";
+export * from "./users";
+export * from "./webhooks";
@@ -0,0 +1,433 @@
+import {
+  type SQL,
+  and,
+  asc,
+  count,
+  desc,
+  eq,
+  gte,
+  ilike,
+  inArray,
+  lt,
+  or,
+} from "drizzle-orm";
+
+import { db } from "@/database";
+import {
+  type FulfillmentMethod,
+  type MetalType,
+  type NewOrder,
+  type NewOrderLine,
+  type NewOrderStatusHistory,
+  type OrderStatus,
+  type Payment,
+  type ShippingAddress,
+  order,
+  orderLine,
+  orderNote,
+  orderStatusHistory,
+  payment,
+  refund,
+  user,
+} from "@/database/schema";
+
+import { insertOutboxEvent, orderEventPayload } from "./outbox";
+import { hasPickupCapacity } from "./pickup-locations";
+import { escapeLikePattern } from "./search";
+
+/**
+ * Back office order filters, all optional and combined with AND
+ */
+export interface OrderFilters {
+  status?: OrderStatus;
+  // Orders with at least one line in this metal
+  metal?: MetalType;
+  fulfillment?: FulfillmentMethod;
+  // Inclusive UTC calendar days, YYYY-MM-DD
+  from?: string;
+  to?: string;
+  // Matched against the customer's name and email
+  customer?: string;
+}
+
+/**
+ * Translate order filters into WHERE conditions
+ */
+function orderFilterConditions(filters: OrderFilters) {
+  const conditions: SQL[] = [];
+
+  if (filters.status) {
+    conditions.push(eq(order.status, filters.status));
+  }
+  if (filters.fulfillment) {
+    conditions.push(eq(order.fulfillmentMethod, filters.fulfillment));
+  }
+  if (filters.from) {
+    conditions.push(gte(order.createdAt, new Date(`${filters.from}T00:00Z`)));
+  }
+  if (filters.to) {
+    const end = new Date(`${filters.to}T00:00Z`);
+    end.setUTCDate(end.getUTCDate() + 1);
+    conditions.push(lt(order.createdAt, end));
+  }
+  if (filters.metal) {
+    conditions.push(
+      inArray(
+        order.id,
+        db
+          .select({ id: orderLine.orderId })
+          .from(orderLine)
+          .where(eq(orderLine.metal, filters.metal)),
+      ),
+    );
+  }
+  if (filters.customer) {
+    const pattern = `%${escapeLikePattern(filters.customer)}%`;
+    conditions.push(
+      inArray(
+        order.userId,
+        db
+          .select({ id: user.id })
+          .from(user)
+          .where(or(ilike(user.name, pattern), ilike(user.email, pattern))),
+      ),
+    );
+  }
+
+  return conditions;
+}
+
+/**
+ * Create an order with its lines and the history entry for placing it
+ * Returns null when the order's pickup appointment is already full
+ */
+export async function insertOrder(
+  values: typeof order.$inferInsert,
+  lines: Omit<NewOrderLine, "orderId">[],
+  placedBy: Pick<NewOrderStatusHistory, "actorType" | "actorId" | "reason">,
+) {
+  return db.transaction(async (tx) => {
+    if (
+      values.pickupLocationId &&
+      values.pickupSlotAt &&
+      !(await hasPickupCapacity(
+        tx,
+        values.pickupLocationId,
+        values.pickupSlotAt,
+      ))
+    ) {
+      return null;
+    }
+
+    const [created] = await tx.insert(order).values(values).returning();
+
+    await tx
+      .insert(orderLine)
+      .values(lines.map((line) => ({ ...line, orderId: created.id })));
+
+    await tx.insert(orderStatusHistory).values({
+      ...placedBy,
+      orderId: created.id,
+      fromStatus: null,
+      toStatus: created.status,
+    });
+
+    await insertOutboxEvent(
+      tx,
+      "order.created",
+      created.id,
+      orderEventPayload(created),
+    );
+
+    return created;
+  });
+}
+
+/**
+ * Fetch an order with its lines, status history (oldest first) and
+ * payments (newest first)
+ */
+export async function getOrderById(id: string) {
+  return db.query.order.findFirst({
+    where: eq(order.id, id),
+    with: {
+      lines: true,
+      statusHistory: { orderBy: [asc(orderStatusHistory.createdAt)] },
+      payments: { orderBy: [desc(payment.createdAt)] },
+    },
+  });
+}
+
+export type OrderWithDetails = NonNullable<
+  Awaited<ReturnType<typeof getOrderById>>
+>;
+
+/**
+ * Fetch an order with everything the back office detail page shows:
+ * customer, lines, fulfillment, payments with refunds, notes and history
+ */
+export async function getAdminOrderById(id: string) {
+  return db.query.order.findFirst({
+    where: eq(order.id, id),
+    with: {
+      user: { columns: { id: true, name: true, email: true } },
+      lines: true,
+      shippingZone: true,
+      pickupLocation: true,
+      payments: {
+        orderBy: [desc(payment.createdAt)],
+        with: { refunds: { orderBy: [asc(refund.createdAt)] } },
+      },
+      notes: {
+        orderBy: [desc(orderNote.createdAt)],
+        with: { author: { columns: { name: true } } },
+      },
+      statusHistory: {
+        orderBy: [asc(orderStatusHistory.createdAt)],
+        with: { actor: { columns: { name: true } } },
+      },
+    },
+  });
+}
+
+export type AdminOrderDetails = NonNullable<
+  Awaited<ReturnType<typeof getAdminOrderById>>
+>;
+
+/**
+ * Fetch an order with what customer emails show: recipient, lines and
+ * pickup location
+ */
+export async function getOrderForEmail(id: string) {
+  return db.query.order.findFirst({
+    where: eq(order.id, id),
+    with: {
+      user: { columns: { name: true, email: true } },
+      lines: true,
+      pickupLocation: true,
+    },
+  });
+}
+
+export type OrderForEmail = NonNullable<
+  Awaited<ReturnType<typeof getOrderForEmail>>
+>;
+
+/**
+ * Add an internal staff note to an order
+ */
+export async function insertOrderNote(values: typeof orderNote.$inferInsert) {
+  const [created] = await db.insert(orderNote).values(values).returning();
+  return created;
+}
+
+/**
+ * A customer's orders, newest first, with their pickup location
+ */
+export async function listOrdersForUser(userId: string, limit = 20) {
+  return db.query.order.findMany({
+    where: eq(order.userId, userId),
+    with: { pickupLocation: true },
+    orderBy: [desc(order.createdAt)],
+    limit,
+  });
+}
+
+/**
+ * Back office order search, newest first, with customer and lines
+ */
+export async function listAdminOrders(
+  filters: OrderFilters,
+  { page = 1, pageSize = 25 }: { page?: number; pageSize?: number } = {},
+) {
+  const where = and(...orderFilterConditions(filters));
+
+  const [orders, [{ total }]] = await Promise.all([
+    db.query.order.findMany({
+      where,
+      with: {
+        user: { columns: { name: true, email: true } },
+        lines: { columns: { metal: true, quantity: true } },
+      },
+      orderBy: [desc(order.number)],
+      limit: pageSize,
+      offset: (page - 1) * pageSize,
+    }),
+    db.select({ total: count() }).from(order).where(where),
+  ]);
+
+  return { orders, total };
+}
+
+/**
+ * One batch of orders for export, newest first
+ * Pass the last number of the previous batch as `beforeNumber` to continue
+ */
+export async function listOrdersForExport(
+  filters: OrderFilters,
+  { beforeNumber, limit }: { beforeNumber?: number; limit: number },
+) {
+  const conditions = orderFilterConditions(filters);
+  if (beforeNumber !== undefined) {
+    conditions.push(lt(order.number, beforeNumber));
+  }
+
+  return db.query.order.findMany({
+    where: and(...conditions),
+    with: {
+      user: { columns: { name: true, email: true } },
+      lines: {
+        columns: { productName: true, sku: true, metal: true, quantity: true },
+      },
+      pickupLocation: { columns: { name: true } },
+    },
+    orderBy: [desc(order.number)],
+    limit,
+  });
+}
+
+/**
+ * Number of orders in each status
+ */
+export async function countOrdersByStatus() {
+  const rows = await db
+    .select({ status: order.status, total: count() })
+    .from(order)
+    .groupBy(order.status);
+
+  return Object.fromEntries(
+    rows.map((row) => [row.status, row.total]),
+  ) as Partial<Record<OrderStatus, number>>;
+}
+
+/**
+ * Move an order from `from` to `to` and record who did it, optionally
+ * saving fulfillment details such as tracking in the same write
+ * Returns null when the order was no longer in `from`
+ */
+export async function updateOrderStatus(
+  id: string,
+  from: OrderStatus,
+  to: OrderStatus,
+  change: Pick<NewOrderStatusHistory, "actorType" | "actorId" | "reason">,
+  fulfillment: Pick<NewOrder, "trackingCarrier" | "trackingNumber"> = {},
+) {
+  return db.transaction(async (tx) => {
+    const [updated] = await tx
+      .update(order)
+      .set({ ...fulfillment, status: to, updatedAt: new Date() })
+      .where(and(eq(order.id, id), eq(order.status, from)))
+      .returning();
+
+    if (!updated) return null;
+
+    await tx.insert(orderStatusHistory).values({
+      ...change,
+      orderId: id,
+      fromStatus: from,
+      toStatus: to,
+    });
+
+    await insertOutboxEvent(tx, "order.status_changed", id, {
+      ...orderEventPayload(updated),
+      fromStatus: from,
+      actorType: change.actorType,
+      actorId: change.actorId ?? null,
+      reason: change.reason,
+    });
+
+    return updated;
+  });
+}
+
+/**
+ * Change where a delivery order goes while it is still in one of `statuses`
+ * Returns null when the order has moved on, e.g. it just shipped
+ */
+export async function updateOrderShippingAddress(
+  id: string,
+  shippingAddress: ShippingAddress,
+  statuses: OrderStatus[],
+) {
+  const [updated] = await db
+    .update(order)
+    .set({ shippingAddress, updatedAt: new Date() })
+    .where(
+      and(
+        eq(order.id, id),
+        eq(order.fulfillmentMethod, "delivery"),
+        inArray(order.status, statuses),
+      ),
+    )
+    .returning();
+
+  return updated ?? null;
+}
+
+/**
+ * Record a payment attempt
+ */
+export async function insertPayment(values: typeof payment.$inferInsert) {
+  const [created] = await db.insert(payment).values(values).returning();
+  return created;
+}
+
+/**
+ * Find a payment by its Stripe Checkout Session id
+ */
+export async function getPaymentByCheckoutSessionId(checkoutSessionId: string) {
+  return db.query.payment.findFirst({
+    where: eq(payment.checkoutSessionId, checkoutSessionId),
+  });
+}
+
+/**
+ * Most recent payment attempt for an order
+ */
+export async function getLatestPaymentForOrder(orderId: string) {
+  return db.query.payment.findFirst({
+    where: eq(payment.orderId, orderId),
+    orderBy: [desc(payment.createdAt)],
+  });
+}
+
+/**
+ * Update a payment record
+ * Status changes only apply to pending payments, so a redelivered webhook
+ * can't record the matching domain event twice; returns undefined then
+ */
+export async function updatePayment(
+  id: string,
+  values: Partial<typeof payment.$inferInsert>,
+): Promise<Payment | undefined> {
+  return db.transaction(async (tx) => {
+    const [updated] = await tx
+      .update(payment)
+      .set({ ...values, updatedAt: new Date() })
+      .where(
+        values.status
+          ? and(eq(payment.id, id), eq(payment.status, "pending"))
+          : eq(payment.id, id),
+      )
+      .returning();
+
+    if (updated?.status === "succeeded" && values.status === "succeeded") {
+      await insertOutboxEvent(tx, "payment.succeeded", updated.orderId, {
+        paymentId: updated.id,
+        orderId: updated.orderId,
+        amount: updated.amount,
+        currency: updated.currency,
+      });
+    } else if (updated?.status === "failed" && values.status === "failed") {
+      await insertOutboxEvent(tx, "payment.failed", updated.orderId, {
+        paymentId: updated.id,
+        orderId: updated.orderId,
+        amount: updated.amount,
+        currency: updated.currency,
+        failureMessage: updated.failureMessage,
+      });
+    }
+
+    return updated;
+  });
+}
@@ -0,0 +1,109 @@
+import { and, asc, eq, inArray, lte } from "drizzle-orm";
+
+import { db } from "@/database";
+import {
+  type DomainEventPayloads,
+  type DomainEventType,
+  type Order,
+  type OrderEventPayload,
+  type OutboxEvent,
+  outboxEvent,
+} from "@/database/schema";
+
+type Transaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+/**
+ * Record a domain event
+ * Pass the transaction making the change so both commit or neither does
+ */
+export async function insertOutboxEvent<T extends DomainEventType>(
+  executor: typeof db | Transaction,
+  type: T,
+  aggregateId: string,
+  payload: DomainEventPayloads[T],
+) {
+  const [created] = await executor
+    .insert(outboxEvent)
+    .values({ type, aggregateId, payload })
+    .returning();
+
+  return created;
+}
+
+/**
+ * Order fields shared by every order event
+ */
+export function orderEventPayload(row: Order): OrderEventPayload {
+  return {
+    orderId: row.id,
+    number: row.number,
+    userId: row.userId,
+    status: row.status,
+    fulfillmentMethod: row.fulfillmentMethod,
+    currency: row.currency,
+    subtotal: row.subtotal,
+    shipping: row.shipping,
+    total: row.total,
+  };
+}
+
+/**
+ * Claim pending events that are due, oldest first
+ * Claimed rows are pushed `leaseMs` into the future so a concurrent
+ * dispatcher skips them; a crashed dispatcher's claims become due again
+ */
+export async function claimDueOutboxEvents(limit: number, leaseMs: number) {
+  return db.transaction(async (tx) => {
+    const due = await tx
+      .select({ id: outboxEvent.id })
+      .from(outboxEvent)
+      .where(
+        and(
+          eq(outboxEvent.status, "pending"),
+          lte(outboxEvent.nextAttemptAt, new Date()),
+        ),
+      )
+      .orderBy(asc(outboxEvent.createdAt))
+      .limit(limit)
+      .for("update", { skipLocked: true });
+
+    if (!due.length) return [];
+
+    return tx
+      .update(outboxEvent)
+      .set({ nextAttemptAt: new Date(Date.now() + leaseMs) })
+      .where(
+        inArray(
+          outboxEvent.id,
+          due.map((row) => row.id),
+        ),
+      )
+      .returning();
+  });
+}
+
+/**
+ * Update an outbox event's dispatch state
+ */
+export async function updateOutboxEvent(
+  id: string,
+  values: Partial<
+    Pick<
+      OutboxEvent,
+      | "status"
+      | "completedHandlers"
+      | "attempts"
+      | "nextAttemptAt"
+      | "lastError"
+      | "dispatchedAt"
+    >
+  >,
+) {
+  const [updated] = await db
+    .update(outboxEvent)
+    .set(values)
+    .where(eq(outboxEvent.id, id))
+    .returning();
+
+  return updated;
+}
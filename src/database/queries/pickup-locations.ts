@@ -0,0 +1,206 @@
+import {
+  and,
+  asc,
+  count,
+  eq,
+  gte,
+  inArray,
+  isNotNull,
+  lt,
+  ne,
+  notInArray,
+} from "drizzle-orm";
+
+import { db } from "@/database";
+import {
+  type OrderStatus,
+  order,
+  pickupLocation,
+  pickupLocationClosure,
+  pickupLocationHours,
+} from "@/database/schema";
+
+type Transaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+// Orders in these statuses no longer hold their pickup appointment
+const RELEASED_STATUSES: OrderStatus[] = ["cancelled", "refunded"];
+
+const withSchedule = {
+  hours: {
+    orderBy: [
+      asc(pickupLocationHours.weekday),
+      asc(pickupLocationHours.opensAt),
+    ],
+  },
+  closures: { orderBy: [asc(pickupLocationClosure.date)] },
+};
+
+/**
+ * Every pickup location, for the back office
+ */
+export async function listPickupLocations() {
+  return db.query.pickupLocation.findMany({
+    with: withSchedule,
+    orderBy: [asc(pickupLocation.name)],
+  });
+}
+
+/**
+ * Pickup locations open to customers, with opening hours and closures
+ */
+export async function listActivePickupLocations() {
+  return db.query.pickupLocation.findMany({
+    where: eq(pickupLocation.active, true),
+    with: withSchedule,
+    orderBy: [asc(pickupLocation.name)],
+  });
+}
+
+export type PickupLocationWithSchedule = Awaited<
+  ReturnType<typeof listActivePickupLocations>
+>[number];
+
+/**
+ * Fetch a pickup location with its opening hours and closures
+ */
+export async function getPickupLocationById(id: string) {
+  return db.query.pickupLocation.findFirst({
+    where: eq(pickupLocation.id, id),
+    with: withSchedule,
+  });
+}
+
+/**
+ * Create or update a pickup location, replacing its hours and closures
+ */
+export async function savePickupLocation(
+  id: string | undefined,
+  values: Omit<typeof pickupLocation.$inferInsert, "id">,
+  hours: Omit<typeof pickupLocationHours.$inferInsert, "locationId">[],
+  closures: Omit<typeof pickupLocationClosure.$inferInsert, "locationId">[],
+) {
+  return db.transaction(async (tx) => {
+    const [saved] = id
+      ? await tx
+          .update(pickupLocation)
+          .set({ ...values, updatedAt: new Date() })
+          .where(eq(pickupLocation.id, id))
+          .returning()
+      : await tx.insert(pickupLocation).values(values).returning();
+
+    if (!saved) return null;
+
+    await tx
+      .delete(pickupLocationHours)
+      .where(eq(pickupLocationHours.locationId, saved.id));
+    await tx
+      .delete(pickupLocationClosure)
+      .where(eq(pickupLocationClosure.locationId, saved.id));
+
+    if (hours.length) {
+      await tx
+        .insert(pickupLocationHours)
+        .values(hours.map((row) => ({ ...row, locationId: saved.id })));
+    }
+    if (closures.length) {
+      await tx
+        .insert(pickupLocationClosure)
+        .values(closures.map((row) => ({ ...row, locationId: saved.id })));
+    }
+
+    return saved;
+  });
+}
+
+/**
+ * Number of customers booked into each appointment of a location
+ * between `from` and `to`, keyed by slot start time in ms
+ */
+export async function countPickupBookings(
+  locationId: string,
+  from: Date,
+  to: Date,
+) {
+  const rows = await db
+    .select({ slotAt: order.pickupSlotAt, booked: count() })
+    .from(order)
+    .where(
+      and(
+        eq(order.pickupLocationId, locationId),
+        isNotNull(order.pickupSlotAt),
+        gte(order.pickupSlotAt, from),
+        lt(order.pickupSlotAt, to),
+        notInArray(order.status, RELEASED_STATUSES),
+      ),
+    )
+    .groupBy(order.pickupSlotAt);
+
+  return new Map(rows.map((row) => [row.slotAt!.getTime(), row.booked]));
+}
+
+/**
+ * Whether an appointment still has room, holding a lock on the location
+ * until the transaction ends so concurrent checkouts queue behind it
+ */
+export async function hasPickupCapacity(
+  tx: Transaction,
+  locationId: string,
+  slotAt: Date,
+  excludeOrderId?: string,
+) {
+  const [location] = await tx
+    .select({ slotCapacity: pickupLocation.slotCapacity })
+    .from(pickupLocation)
+    .where(eq(pickupLocation.id, locationId))
+    .for("update");
+
+  if (!location) return false;
+
+  const [{ booked }] = await tx
+    .select({ booked: count() })
+    .from(order)
+    .where(
+      and(
+        eq(order.pickupLocationId, locationId),
+        eq(order.pickupSlotAt, slotAt),
+        notInArray(order.status, RELEASED_STATUSES),
+        excludeOrderId ? ne(order.id, excludeOrderId) : undefined,
+      ),
+    );
+
+  return booked < location.slotCapacity;
+}
+
+/**
+ * Move a pickup order still in one of `statuses` to another appointment
+ * if it has room
+ * Returns null when the appointment is full or the order has moved on
+ */
+export async function reschedulePickupOrder(
+  orderId: string,
+  slotAt: Date,
+  statuses: OrderStatus[],
+) {
+  return db.transaction(async (tx) => {
+    const [current] = await tx
+      .select({ pickupLocationId: order.pickupLocationId })
+      .from(order)
+      .where(eq(order.id, orderId));
+
+    if (
+      !current?.pickupLocationId ||
+      !(await hasPickupCapacity(tx, current.pickupLocationId, slotAt, orderId))
+    ) {
+      return null;
+    }
+
+    // The order may have been released or picked up while we waited on the lock
+    const [updated] = await tx
+      .update(order)
+      .set({ pickupSlotAt: slotAt, updatedAt: new Date() })
+      .where(and(eq(order.id, orderId), inArray(order.status, statuses)))
+      .returning();
+
+    return updated ?? null;
+  });
+}
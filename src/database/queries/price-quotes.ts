@@ -0,0 +1,80 @@
+import { and, eq, gt } from "drizzle-orm";
+
+import { db } from "@/database";
+import {
+  type NewPriceQuoteLine,
+  priceQuote,
+  priceQuoteLine,
+} from "@/database/schema";
+
+/**
+ * Store a quote and its lines atomically
+ */
+export async function insertPriceQuote(
+  quote: typeof priceQuote.$inferInsert,
+  lines: Omit<NewPriceQuoteLine, "quoteId">[],
+) {
+  return db.transaction(async (tx) => {
+    const [created] = await tx.insert(priceQuote).values(quote).returning();
+    const createdLines = await tx
+      .insert(priceQuoteLine)
+      .values(lines.map((line) => ({ ...line, quoteId: created.id })))
+      .returning();
+
+    return { ...created, lines: createdLines };
+  });
+}
+
+/**
+ * Fetch a quote with its lines
+ */
+export async function getPriceQuoteById(id: string) {
+  return db.query.priceQuote.findFirst({
+    where: eq(priceQuote.id, id),
+    with: { lines: true },
+  });
+}
+
+/**
+ * Point an active quote at the quote that replaced it
+ */
+export async function supersedePriceQuote(id: string, supersededById: string) {
+  await db
+    .update(priceQuote)
+    .set({ status: "superseded", supersededById })
+    .where(and(eq(priceQuote.id, id), eq(priceQuote.status, "active")));
+}
+
+/**
+ * Mark a quote as charged, holding its prices until `expiresAt`
+ * Only succeeds once, and only while the quote is active and unexpired
+ */
+export async function consumePriceQuote(id: string, expiresAt: Date) {
+  const [consumed] = await db
+    .update(priceQuote)
+    .set({ status: "consumed", consumedAt: new Date(), expiresAt })
+    .where(
+      and(
+        eq(priceQuote.id, id),
+        eq(priceQuote.status, "active"),
+        gt(priceQuote.expiresAt, new Date()),
+      ),
+    )
+    .returning();
+
+  return consumed ?? null;
+}
+
+/**
+ * Return a consumed quote to active, with the lock it had before it was
+ * claimed, when checkout failed before an order was created for it
+ */
+export async function restorePriceQuote(id: string, expiresAt: Date) {
+  const [restored] = await db
+    .update(priceQuote)
+    .set({ status: "active", consumedAt: null, expiresAt })
+    .where(and(eq(priceQuote.id, id), eq(priceQuote.status, "consumed")))
+    .returning();
+
+  return restored ?? null;
+}
@@ -0,0 +1,16 @@
+import { db } from "@/database";
+import { paymentSurcharge, pricingRule, quantityTier } from "@/database/schema";
+
+/**
+ * Load every pricing rule, quantity tier and payment surcharge
+ * The tables are small, so the engine resolves precedence in memory
+ */
+export async function getPricingRules() {
+  const [rules, tiers, surcharges] = await Promise.all([
+    db.select().from(pricingRule),
+    db.select().from(quantityTier),
+    db.select().from(paymentSurcharge),
+  ]);
+
+  return { rules, tiers, surcharges };
+}
@@ -0,0 +1,306 @@
+import {
+  and,
+  asc,
+  count,
+  desc,
+  eq,
+  gte,
+  ilike,
+  inArray,
+  lte,
+  max,
+  min,
+  or,
+} from "drizzle-orm";
+
+import { db } from "@/database";
+import {
+  type MetalType,
+  type NewProduct,
+  type ProductForm,
+  type ProductStatus,
+  metal,
+  product,
+  productImage,
+} from "@/database/schema";
+
+import { escapeLikePattern } from "./search";
+
+/**
+ * Catalog filters, all optional and combined with AND
+ */
+export interface ProductFilters {
+  metals?: MetalType[];
+  forms?: ProductForm[];
+  mints?: string[];
+  minWeightOz?: number;
+  maxWeightOz?: number;
+}
+
+/**
+ * Product row with its images ordered by position
+ */
+export type ProductWithImages = NonNullable<
+  Awaited<ReturnType<typeof getProductBySlug>>
+>;
+
+/**
+ * List published catalog products matching the given filters
+ */
+export async function listProducts(filters: ProductFilters = {}) {
+  const conditions = [eq(product.status, "published")];
+
+  if (filters.metals?.length) {
+    conditions.push(inArray(product.metal, filters.metals));
+  }
+  if (filters.forms?.length) {
+    conditions.push(inArray(product.form, filters.forms));
+  }
+  if (filters.mints?.length) {
+    conditions.push(inArray(product.mint, filters.mints));
+  }
+  if (filters.minWeightOz !== undefined) {
+    conditions.push(gte(product.fineWeightOz, filters.minWeightOz));
+  }
+  if (filters.maxWeightOz !== undefined) {
+    conditions.push(lte(product.fineWeightOz, filters.maxWeightOz));
+  }
+
+  return db.query.product.findMany({
+    where: and(...conditions),
+    with: {
+      images: { orderBy: [asc(productImage.position)] },
+    },
+    orderBy: [asc(product.metal), asc(product.fineWeightOz)],
+  });
+}
+
+/**
+ * Fetch a single published product by its URL slug
+ */
+export async function getProductBySlug(slug: string) {
+  return db.query.product.findFirst({
+    where: and(eq(product.slug, slug), eq(product.status, "published")),
+    with: {
+      images: { orderBy: [asc(productImage.position)] },
+    },
+  });
+}
+
+/**
+ * Fetch a single product by id
+ */
+export async function getProductById(id: string) {
+  return db.query.product.findFirst({
+    where: eq(product.id, id),
+    with: {
+      images: { orderBy: [asc(productImage.position)] },
+    },
+  });
+}
+
+/**
+ * Fetch several products by id in one round trip
+ */
+export async function getProductsByIds(ids: string[]) {
+  if (!ids.length) return [];
+
+  return db.query.product.findMany({
+    where: inArray(product.id, ids),
+    with: {
+      images: { orderBy: [asc(productImage.position)] },
+    },
+  });
+}
+
+/**
+ * List all metals with their spot feed symbols
+ */
+export async function listMetals() {
+  return db.select().from(metal).orderBy(asc(metal.name));
+}
+
+/**
+ * Distinct mints present in the catalog, for filter options
+ */
+export async function listMints() {
+  const rows = await db
+    .selectDistinct({ mint: product.mint })
+    .from(product)
+    .where(eq(product.status, "published"))
+    .orderBy(asc(product.mint));
+
+  return rows.map((row) => row.mint);
+}
+
+/**
+ * Lightest and heaviest fine weight in the catalog, for range sliders
+ */
+export async function getWeightBounds() {
+  const [bounds] = await db
+    .select({
+      min: min(product.fineWeightOz),
+      max: max(product.fineWeightOz),
+    })
+    .from(product)
+    .where(eq(product.status, "published"));
+
+  return {
+    min: Number(bounds?.min ?? 0),
+    max: Number(bounds?.max ?? 0),
+  };
+}
+
+/**
+ * Back office product search over name, SKU and slug, newest first
+ */
+export async function listAdminProducts({
+  search,
+  status,
+  page = 1,
+  pageSize = 25,
+}: {
+  search?: string;
+  status?: ProductStatus;
+  page?: number;
+  pageSize?: number;
+}) {
+  const conditions = [];
+
+  if (search) {
+    const pattern = `%${escapeLikePattern(search)}%`;
+    conditions.push(
+      or(
+        ilike(product.name, pattern),
+        ilike(product.sku, pattern),
+        ilike(product.slug, pattern),
+      ),
+    );
+  }
+  if (status) {
+    conditions.push(eq(product.status, status));
+  }
+
+  const where = conditions.length ? and(...conditions) : undefined;
+
+  const [products, [{ total }]] = await Promise.all([
+    db.query.product.findMany({
+      where,
+      with: {
+        images: { orderBy: [asc(productImage.position)], limit: 1 },
+      },
+      orderBy: [desc(product.createdAt)],
+      limit: pageSize,
+      offset: (page - 1) * pageSize,
+    }),
+    db.select({ total: count() }).from(product).where(where),
+  ]);
+
+  return { products, total };
+}
+
+/**
+ * Create a product
+ */
+export async function insertProduct(values: NewProduct) {
+  const [created] = await db.insert(product).values(values).returning();
+  return created;
+}
+
+/**
+ * Update a product's details
+ */
+export async function updateProduct(id: string, values: Partial<NewProduct>) {
+  const [updated] = await db
+    .update(product)
+    .set({ ...values, updatedAt: new Date() })
+    .where(eq(product.id, id))
+    .returning();
+
+  return updated;
+}
+
+/**
+ * Move several products to the same status
+ */
+export async function updateProductsStatus(
+  ids: string[],
+  status: ProductStatus,
+) {
+  if (!ids.length) return [];
+
+  return db
+    .update(product)
+    .set({ status, updatedAt: new Date() })
+    .where(inArray(product.id, ids))
+    .returning({ id: product.id });
+}
+
+/**
+ * Append images after a product's existing ones
+ */
+export async function insertProductImages(
+  productId: string,
+  images: { url: string; alt?: string | null }[],
+) {
+  if (!images.length) return [];
+
+  const [{ last }] = await db
+    .select({ last: max(productImage.position) })
+    .from(productImage)
+    .where(eq(productImage.productId, productId));
+  const start = (last ?? -1) + 1;
+
+  return db
+    .insert(productImage)
+    .values(
+      images.map((image, index) => ({
+        ...image,
+        productId,
+        position: start + index,
+      })),
+    )
+    .returning();
+}
+
+/**
+ * Remove a product image, returning it so the file can be deleted
+ */
+export async function deleteProductImage(productId: string, imageId: string) {
+  const [deleted] = await db
+    .delete(productImage)
+    .where(
+      and(eq(productImage.id, imageId), eq(productImage.productId, productId)),
+    )
+    .returning();
+
+  return deleted ?? null;
+}
+
+/**
+ * Make an image the product's primary image, keeping the others in order
+ */
+export async function setPrimaryProductImage(
+  productId: string,
+  imageId: string,
+) {
+  await db.transaction(async (tx) => {
+    const images = await tx
+      .select({ id: productImage.id })
+      .from(productImage)
+      .where(eq(productImage.productId, productId))
+      .orderBy(asc(productImage.position));
+
+    const ordered = [
+      ...images.filter((image) => image.id === imageId),
+      ...images.filter((image) => image.id !== imageId),
+    ];
+
+    for (const [position, image] of ordered.entries()) {
+      await tx
+        .update(productImage)
+        .set({ position })
+        .where(eq(productImage.id, image.id));
+    }
+  });
+}
@@ -0,0 +1,158 @@
+import { and, eq, inArray, sum } from "drizzle-orm";
+
+import { db } from "@/database";
+import {
+  type Refund,
+  type RefundStatus,
+  payment,
+  refund,
+} from "@/database/schema";
+
+import { insertOutboxEvent } from "./outbox";
+
+type Transaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+/**
+ * Record a pending refund unless it would exceed what is left to refund
+ * The payment row is locked so concurrent refunds can't both pass the check
+ * Returns null when the amount is more than the refundable balance
+ */
+export async function reserveRefund(
+  paymentId: string,
+  values: Pick<typeof refund.$inferInsert, "amount" | "reason" | "actorId">,
+) {
+  return db.transaction(async (tx) => {
+    const [locked] = await tx
+      .select({ amount: payment.amount })
+      .from(payment)
+      .where(eq(payment.id, paymentId))
+      .for("update");
+
+    if (!locked) return null;
+
+    // Pending refunds hold their amount until the provider settles them
+    const [{ refunded }] = await tx
+      .select({ refunded: sum(refund.amount).mapWith(Number) })
+      .from(refund)
+      .where(
+        and(
+          eq(refund.paymentId, paymentId),
+          inArray(refund.status, ["pending", "succeeded"]),
+        ),
+      );
+
+    if ((refunded ?? 0) + values.amount > locked.amount) return null;
+
+    const [created] = await tx
+      .insert(refund)
+      .values({ ...values, paymentId })
+      .returning();
+
+    return created;
+  });
+}
+
+/**
+ * Amount of a payment the provider has confirmed refunded, in cents
+ */
+export async function getRefundedAmount(paymentId: string) {
+  const [{ refunded }] = await db
+    .select({ refunded: sum(refund.amount).mapWith(Number) })
+    .from(refund)
+    .where(
+      and(eq(refund.paymentId, paymentId), eq(refund.status, "succeeded")),
+    );
+
+  return refunded ?? 0;
+}
+
+/**
+ * Fetch a refund with the payment it was issued against
+ */
+export async function getRefundById(id: string) {
+  return db.query.refund.findFirst({
+    where: eq(refund.id, id),
+    with: { payment: true },
+  });
+}
+
+/**
+ * Find a refund by the provider's refund id
+ */
+export async function getRefundByProviderRefundId(providerRefundId: string) {
+  return db.query.refund.findFirst({
+    where: eq(refund.providerRefundId, providerRefundId),
+    with: { payment: true },
+  });
+}
+
+/**
+ * Lock a refund row and read the status it had before this change
+ */
+async function lockRefundStatus(tx: Transaction, id: string) {
+  const [locked] = await tx
+    .select({ status: refund.status })
+    .from(refund)
+    .where(eq(refund.id, id))
+    .for("update");
+
+  return locked?.status;
+}
+
+/**
+ * Write a locked refund, recording an event when its status changed
+ */
+async function writeRefund(
+  tx: Transaction,
+  id: string,
+  values: Partial<Omit<Refund, "id" | "paymentId" | "createdAt">>,
+  previousStatus: RefundStatus | undefined,
+) {
+  const [updated] = await tx
+    .update(refund)
+    .set({ ...values, updatedAt: new Date() })
+    .where(eq(refund.id, id))
+    .returning();
+
+  if (updated && values.status && values.status !== previousStatus) {
+    await insertOutboxEvent(tx, "payment.refund_updated", updated.paymentId, {
+      refundId: updated.id,
+      paymentId: updated.paymentId,
+      status: updated.status,
+      amount: updated.amount,
+    });
+  }
+
+  return updated;
+}
+
+/**
+ * Update a refund record
+ * Only an actual status change records a domain event, so a redelivered
+ * webhook reporting the same status doesn't announce the refund twice
+ */
+export async function updateRefund(
+  id: string,
+  values: Partial<Omit<Refund, "id" | "paymentId" | "createdAt">>,
+) {
+  return db.transaction(async (tx) =>
+    writeRefund(tx, id, values, await lockRefundStatus(tx, id)),
+  );
+}
+
+/**
+ * Apply the provider's view to a refund still awaiting it
+ * Settled refunds are left alone so a late or out-of-order webhook can't
+ * reopen one, and its reserved amount with it; returns null then
+ */
+export async function settlePendingRefund(
+  id: string,
+  values: Partial<Omit<Refund, "id" | "paymentId" | "createdAt">>,
+) {
+  return db.transaction(async (tx) => {
+    const previousStatus = await lockRefundStatus(tx, id);
+    if (previousStatus !== "pending") return null;
+
+    return writeRefund(tx, id, values, previousStatus);
+  });
+}
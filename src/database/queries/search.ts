@@ -0,0 +1,7 @@
+/**
+ * Match a search term literally inside a LIKE pattern
+ * Postgres escapes with a backslash by default
+ */
+export function escapeLikePattern(term: string) {
+  return term.replace(/[\\%_]/g, "\\$&");
+}
@@ -0,0 +1,74 @@
+import { and, asc, desc, eq, gte, sql } from "drizzle-orm";
+
+import { db } from "@/database";
+import {
+  type MetalType,
+  type NewSpotPrice,
+  spotPrice,
+} from "@/database/schema";
+
+import { insertOutboxEvent } from "./outbox";
+
+/**
+ * Store fetched spot quotes and record a price update event
+ * All rows are expected to share one currency
+ */
+export async function insertSpotPrices(rows: NewSpotPrice[]) {
+  if (!rows.length) return [];
+
+  return db.transaction(async (tx) => {
+    const inserted = await tx.insert(spotPrice).values(rows).returning();
+
+    await insertOutboxEvent(tx, "price.updated", inserted[0].currency, {
+      currency: inserted[0].currency,
+      prices: inserted.map((row) => ({
+        metal: row.metal,
+        bid: row.bid,
+        ask: row.ask,
+        quotedAt: row.quotedAt.toISOString(),
+      })),
+    });
+
+    return inserted;
+  });
+}
+
+/**
+ * Most recent stored quote for each metal in a currency
+ */
+export async function getLatestSpotPrices(currency: string) {
+  return db
+    .selectDistinctOn([spotPrice.metal])
+    .from(spotPrice)
+    .where(eq(spotPrice.currency, currency))
+    .orderBy(spotPrice.metal, desc(spotPrice.fetchedAt));
+}
+
+/**
+ * Average ask price per time bucket for a metal since a given date
+ */
+export async function getSpotPriceSeries(
+  metal: MetalType,
+  currency: string,
+  since: Date,
+  bucket: "hour" | "day",
+) {
+  // Inlined rather than bound so SELECT and GROUP BY share one expression
+  const bucketStart = sql`date_trunc(${sql.raw(`'${bucket}'`)}, ${spotPrice.fetchedAt})`;
+
+  return db
+    .select({
+      timestamp: bucketStart.mapWith(spotPrice.fetchedAt),
+      price: sql`round(avg(${spotPrice.ask}))`.mapWith(Number),
+    })
+    .from(spotPrice)
+    .where(
+      and(
+        eq(spotPrice.metal, metal),
+        eq(spotPrice.currency, currency),
+        gte(spotPrice.fetchedAt, since),
+      ),
+    )
+    .groupBy(bucketStart)
+    .orderBy(asc(bucketStart));
+}
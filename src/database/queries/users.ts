@@ -0,0 +1,125 @@
+import { and, count, desc, eq, gt, ilike, or } from "drizzle-orm";
+
+import { db } from "@/database";
+import { account, passkey, session, user } from "@/database/schema";
+
+import { insertOutboxEvent } from "./outbox";
+import { escapeLikePattern } from "./search";
+
+/**
+ * Users for the back office, newest first, optionally matching a name or
+ * email fragment
+ */
+export async function listUsers(search?: string, limit = 100) {
+  const pattern = search && `%${escapeLikePattern(search)}%`;
+
+  return db
+    .select()
+    .from(user)
+    .where(
+      pattern
+        ? or(ilike(user.name, pattern), ilike(user.email, pattern))
+        : undefined,
+    )
+    .orderBy(desc(user.createdAt))
+    .limit(limit);
+}
+
+/**
+ * Create a user and record `user.registered` in the same transaction
+ */
+export async function insertUser(values: typeof user.$inferInsert) {
+  return db.transaction(async (tx) => {
+    const [created] = await tx.insert(user).values(values).returning();
+
+    await insertOutboxEvent(tx, "user.registered", created.id, {
+      userId: created.id,
+      email: created.email,
+      name: created.name,
+    });
+
+    return created;
+  });
+}
+
+/**
+ * Find a user by email address
+ */
+export async function getUserByEmail(email: string) {
+  return db.query.user.findFirst({
+    where: eq(user.email, email.toLowerCase()),
+  });
+}
+
+/**
+ * Sign-in methods linked to a user, oldest first, without their tokens
+ */
+export async function listAccountsForUser(userId: string) {
+  return db
+    .select({
+      id: account.id,
+      providerId: account.providerId,
+      accountId: account.accountId,
+      createdAt: account.createdAt,
+    })
+    .from(account)
+    .where(eq(account.userId, userId))
+    .orderBy(account.createdAt);
+}
+
+/**
+ * A user's passkeys, newest first, without their key material
+ */
+export async function listPasskeysForUser(userId: string) {
+  return db
+    .select({
+      id: passkey.id,
+      name: passkey.name,
+      deviceType: passkey.deviceType,
+      backedUp: passkey.backedUp,
+      createdAt: passkey.createdAt,
+    })
+    .from(passkey)
+    .where(eq(passkey.userId, userId))
+    .orderBy(desc(passkey.createdAt));
+}
+
+/**
+ * Number of passkeys a user has registered
+ */
+export async function countPasskeysForUser(userId: string) {
+  const [row] = await db
+    .select({ value: count() })
+    .from(passkey)
+    .where(eq(passkey.userId, userId));
+  return row.value;
+}
+
+/**
+ * A user's unexpired sessions, most recently active first, without their
+ * tokens
+ */
+export async function listActiveSessionsForUser(userId: string) {
+  return db
+    .select({
+      id: session.id,
+      userAgent: session.userAgent,
+      ipAddress: session.ipAddress,
+      city: session.city,
+      country: session.country,
+      createdAt: session.createdAt,
+      updatedAt: session.updatedAt,
+    })
+    .from(session)
+    .where(and(eq(session.userId, userId), gt(session.expiresAt, new Date())))
+    .orderBy(desc(session.updatedAt));
+}
+
+/**
+ * One of a user's sessions by id, or undefined if it belongs to someone else
+ */
+export async function getSessionForUser(id: string, userId: string) {
+  return db.query.session.findFirst({
+    where: and(eq(session.id, id), eq(session.userId, userId)),
+  });
+}
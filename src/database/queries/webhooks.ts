@@ -0,0 +1,215 @@
+import {
+  and,
+  arrayContains,
+  asc,
+  count,
+  desc,
+  eq,
+  inArray,
+  lte,
+  sql,
+} from "drizzle-orm";
+
+import { db } from "@/database";
+import {
+  type NewWebhookDelivery,
+  type NewWebhookSubscription,
+  type WebhookDelivery,
+  type WebhookEventType,
+  webhookDelivery,
+  webhookSubscription,
+} from "@/database/schema";
+
+/**
+ * All webhook subscriptions, oldest first, with their failed delivery count
+ */
+export async function listWebhookSubscriptions() {
+  const [subscriptions, failures] = await Promise.all([
+    db.query.webhookSubscription.findMany({
+      orderBy: [asc(webhookSubscription.createdAt)],
+    }),
+    db
+      .select({
+        subscriptionId: webhookDelivery.subscriptionId,
+        total: count(),
+      })
+      .from(webhookDelivery)
+      .where(eq(webhookDelivery.status, "failed"))
+      .groupBy(webhookDelivery.subscriptionId),
+  ]);
+
+  const failedById = new Map(
+    failures.map((row) => [row.subscriptionId, row.total]),
+  );
+
+  return subscriptions.map((subscription) => ({
+    ...subscription,
+    failedDeliveries: failedById.get(subscription.id) ?? 0,
+  }));
+}
+
+/**
+ * Fetch a webhook subscription by id
+ */
+export async function getWebhookSubscriptionById(id: string) {
+  return db.query.webhookSubscription.findFirst({
+    where: eq(webhookSubscription.id, id),
+  });
+}
+
+/**
+ * Active subscriptions listening for an event type
+ */
+export async function listSubscriptionsForEvent(eventType: WebhookEventType) {
+  return db
+    .select({ id: webhookSubscription.id })
+    .from(webhookSubscription)
+    .where(
+      and(
+        eq(webhookSubscription.active, true),
+        arrayContains(webhookSubscription.eventTypes, [eventType]),
+      ),
+    );
+}
+
+/**
+ * Register a webhook endpoint
+ */
+export async function insertWebhookSubscription(
+  values: NewWebhookSubscription,
+) {
+  const [created] = await db
+    .insert(webhookSubscription)
+    .values(values)
+    .returning();
+
+  return created;
+}
+
+/**
+ * Update a webhook subscription
+ */
+export async function updateWebhookSubscription(
+  id: string,
+  values: Partial<NewWebhookSubscription>,
+) {
+  const [updated] = await db
+    .update(webhookSubscription)
+    .set({ ...values, updatedAt: new Date() })
+    .where(eq(webhookSubscription.id, id))
+    .returning();
+
+  return updated;
+}
+
+/**
+ * Remove a webhook subscription and its delivery log
+ */
+export async function deleteWebhookSubscription(id: string) {
+  await db.delete(webhookSubscription).where(eq(webhookSubscription.id, id));
+}
+
+/**
+ * Queue deliveries
+ * An event already queued for a subscription is skipped, so emitting the
+ * same event twice never sends it twice; replays are always queued
+ */
+export async function insertWebhookDeliveries(values: NewWebhookDelivery[]) {
+  if (!values.length) return [];
+
+  return db
+    .insert(webhookDelivery)
+    .values(values)
+    .onConflictDoNothing({
+      target: [webhookDelivery.subscriptionId, webhookDelivery.eventId],
+      where: sql`${webhookDelivery.replayOfId} is null`,
+    })
+    .returning();
+}
+
+/**
+ * A subscription's most recent deliveries, newest first
+ */
+export async function listWebhookDeliveries(
+  subscriptionId: string,
+  limit = 50,
+) {
+  return db.query.webhookDelivery.findMany({
+    where: eq(webhookDelivery.subscriptionId, subscriptionId),
+    orderBy: [desc(webhookDelivery.createdAt)],
+    limit,
+  });
+}
+
+/**
+ * Fetch a delivery by id
+ */
+export async function getWebhookDeliveryById(id: string) {
+  return db.query.webhookDelivery.findFirst({
+    where: eq(webhookDelivery.id, id),
+  });
+}
+
+/**
+ * Claim pending deliveries that are due, with their subscription
+ * Claimed rows are pushed `leaseMs` into the future so a concurrent
+ * worker skips them; a crashed worker's claims become due again
+ */
+export async function claimDueWebhookDeliveries(
+  limit: number,
+  leaseMs: number,
+) {
+  const claimed = await db.transaction(async (tx) => {
+    const due = await tx
+      .select({ id: webhookDelivery.id })
+      .from(webhookDelivery)
+      .where(
+        and(
+          eq(webhookDelivery.status, "pending"),
+          lte(webhookDelivery.nextAttemptAt, new Date()),
+        ),
+      )
+      .orderBy(asc(webhookDelivery.nextAttemptAt))
+      .limit(limit)
+      .for("update", { skipLocked: true });
+
+    if (!due.length) return [];
+
+    return tx
+      .update(webhookDelivery)
+      .set({ nextAttemptAt: new Date(Date.now() + leaseMs) })
+      .where(
+        inArray(
+          webhookDelivery.id,
+          due.map((row) => row.id),
+        ),
+      )
+      .returning({ id: webhookDelivery.id });
+  });
+
+  if (!claimed.length) return [];
+
+  return db.query.webhookDelivery.findMany({
+    where: inArray(
+      webhookDelivery.id,
+      claimed.map((row) => row.id),
+    ),
+    with: { subscription: true },
+  });
+}
+
+/**
+ * Update a delivery record
+ */
+export async function updateWebhookDelivery(
+  id: string,
+  values: Partial<Omit<WebhookDelivery, "id" | "createdAt">>,
+) {
+  const [updated] = await db
+    .update(webhookDelivery)
+    .set({ ...values, updatedAt: new Date() })
+    .where(eq(webhookDelivery.id, id))
+    .returning();
+
+  return updated;
+}
@@ -0,0 +1,8 @@
+import { pgEnum } from "drizzle-orm/pg-core";
+
+export const fulfillmentMethods = pgEnum("fulfillment_method", [
+  "delivery",
+  "pickup",
+]);
+
+export type FulfillmentMethod = (typeof fulfillmentMethods.enumValues)[number];
@@ -1 +1,15 @@
+export * from "./fulfillment-methods";
+export * from "./metals";
+export * from "./order-actor-types";
+export * from "./order-statuses";
+export * from "./outbox-event-statuses";
+export * from "./payment-methods";
+export * from "./payment-statuses";
+export * from "./price-quote-statuses";
+export * from "./pricing-scopes";
+export * from "./product-forms";
+export * from "./product-statuses";
+export * from "./refund-statuses";
 export * from "./roles";
+export * from "./webhook-delivery-statuses";
+export * from "./webhook-event-types";
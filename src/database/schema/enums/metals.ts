@@ -0,0 +1,10 @@
+import { pgEnum } from "drizzle-orm/pg-core";
+
+export const metals = pgEnum("metal", [
+  "gold",
+  "silver",
+  "platinum",
+  "palladium",
+]);
+
+export type MetalType = (typeof metals.enumValues)[number];
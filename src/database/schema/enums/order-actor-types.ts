@@ -0,0 +1,9 @@
+import { pgEnum } from "drizzle-orm/pg-core";
+
+export const orderActorTypes = pgEnum("order_actor_type", [
+  "customer",
+  "staff",
+  "system",
+]);
+
+export type OrderActorType = (typeof orderActorTypes.enumValues)[number];
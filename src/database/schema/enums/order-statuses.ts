@@ -0,0 +1,15 @@
+import { pgEnum } from "drizzle-orm/pg-core";
+
+export const orderStatuses = pgEnum("order_status", [
+  "pending_payment",
+  "paid",
+  "allocated",
+  "shipped",
+  "ready_for_pickup",
+  "delivered",
+  "collected",
+  "cancelled",
+  "refunded",
+]);
+
+export type OrderStatus = (typeof orderStatuses.enumValues)[number];
@@ -0,0 +1,9 @@
+import { pgEnum } from "drizzle-orm/pg-core";
+
+export const outboxEventStatuses = pgEnum("outbox_event_status", [
+  "pending",
+  "dispatched",
+  "failed",
+]);
+
+export type OutboxEventStatus = (typeof outboxEventStatuses.enumValues)[number];
@@ -0,0 +1,8 @@
+import { pgEnum } from "drizzle-orm/pg-core";
+
+export const paymentMethods = pgEnum("payment_method", [
+  "card",
+  "bank_transfer",
+]);
+
+export type PaymentMethod = (typeof paymentMethods.enumValues)[number];
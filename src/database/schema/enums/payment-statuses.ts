@@ -0,0 +1,9 @@
+import { pgEnum } from "drizzle-orm/pg-core";
+
+export const paymentStatuses = pgEnum("payment_status", [
+  "pending",
+  "succeeded",
+  "failed",
+]);
+
+export type PaymentStatus = (typeof paymentStatuses.enumValues)[number];
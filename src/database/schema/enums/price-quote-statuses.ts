@@ -0,0 +1,9 @@
+import { pgEnum } from "drizzle-orm/pg-core";
+
+export const priceQuoteStatuses = pgEnum("price_quote_status", [
+  "active",
+  "superseded",
+  "consumed",
+]);
+
+export type PriceQuoteStatus = (typeof priceQuoteStatuses.enumValues)[number];
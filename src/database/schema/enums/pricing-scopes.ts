@@ -0,0 +1,9 @@
+import { pgEnum } from "drizzle-orm/pg-core";
+
+export const pricingScopes = pgEnum("pricing_scope", [
+  "global",
+  "metal",
+  "product",
+]);
+
+export type PricingScope = (typeof pricingScopes.enumValues)[number];
@@ -0,0 +1,5 @@
+import { pgEnum } from "drizzle-orm/pg-core";
+
+export const productForms = pgEnum("product_form", ["bar", "coin", "round"]);
+
+export type ProductForm = (typeof productForms.enumValues)[number];
@@ -0,0 +1,9 @@
+import { pgEnum } from "drizzle-orm/pg-core";
+
+export const productStatuses = pgEnum("product_status", [
+  "draft",
+  "published",
+  "archived",
+]);
+
+export type ProductStatus = (typeof productStatuses.enumValues)[number];
@@ -0,0 +1,9 @@
+import { pgEnum } from "drizzle-orm/pg-core";
+
+export const refundStatuses = pgEnum("refund_status", [
+  "pending",
+  "succeeded",
+  "failed",
+]);
+
+export type RefundStatus = (typeof refundStatuses.enumValues)[number];
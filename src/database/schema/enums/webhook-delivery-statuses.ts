@@ -0,0 +1,10 @@
+import { pgEnum } from "drizzle-orm/pg-core";
+
+export const webhookDeliveryStatuses = pgEnum("webhook_delivery_status", [
+  "pending",
+  "succeeded",
+  "failed",
+]);
+
+export type WebhookDeliveryStatus =
+  (typeof webhookDeliveryStatuses.enumValues)[number];
@@ -0,0 +1,11 @@
+import { pgEnum } from "drizzle-orm/pg-core";
+
+export const webhookEventTypes = pgEnum("webhook_event_type", [
+  "order.created",
+  "order.paid",
+  "order.shipped",
+  "price.updated",
+  "user.registered",
+]);
+
+export type WebhookEventType = (typeof webhookEventTypes.enumValues)[number];
@@ -0,0 +1,32 @@
+import { index, jsonb, pgTable, text, timestamp } from "drizzle-orm/pg-core";
+
+import type { DomainEventType } from "./outbox-event";
+
+/**
+ * Append-only record of every domain event, written by the outbox
+ */
+export const auditLog = pgTable(
+  "audit_log",
+  {
+    id: text("id")
+      .primaryKey()
+      .$defaultFn(() => crypto.randomUUID()),
+    // Outbox event recorded; unique so a redelivered event is logged once
+    eventId: text("event_id").notNull().unique(),
+    eventType: text("event_type").$type<DomainEventType>().notNull(),
+    // Entity the event is about, e.g. an order id
+    aggregateId: text("aggregate_id").notNull(),
+    payload: jsonb("payload").notNull(),
+    // When the change happened, rather than when it was logged
+    occurredAt: timestamp("occurred_at").notNull(),
+    createdAt: timestamp("created_at")
+      .$defaultFn(() => /* @__PURE__ */ new Date())
+      .notNull(),
+  },
+  (table) => [
+    // An entity's history in order
+    index("audit_log_aggregate_idx").on(table.aggregateId, table.occurredAt),
+  ],
+);
+
+export type AuditLogEntry = typeof auditLog.$inferSelect;
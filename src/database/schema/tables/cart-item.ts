@@ -0,0 +1,40 @@
+import { relations } from "drizzle-orm";
+import { integer, pgTable, text, timestamp, unique } from "drizzle-orm/pg-core";
+
+import { cart } from "./cart";
+import { product } from "./product";
+
+/**
+ * Most units of one product a cart line can hold
+ */
+export const MAX_CART_ITEM_QUANTITY = 999;
+
+export const cartItem = pgTable(
+  "cart_item",
+  {
+    id: text("id")
+      .primaryKey()
+      .$defaultFn(() => crypto.randomUUID()),
+    cartId: text("cart_id")
+      .notNull()
+      .references(() => cart.id, { onDelete: "cascade" }),
+    productId: text("product_id")
+      .notNull()
+      .references(() => product.id, { onDelete: "cascade" }),
+    quantity: integer("quantity").notNull(),
+    createdAt: timestamp("created_at")
+      .$defaultFn(() => /* @__PURE__ */ new Date())
+      .notNull(),
+  },
+  (table) => [unique().on(table.cartId, table.productId)],
+);
+
+export const cartItemRelations = relations(cartItem, ({ one }) => ({
+  cart: one(cart, { fields: [cartItem.cartId], references: [cart.id] }),
+  product: one(product, {
+    fields: [cartItem.productId],
+    references: [product.id],
+  }),
+}));
+
+export type CartItem = typeof cartItem.$inferSelect;
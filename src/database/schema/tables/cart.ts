@@ -0,0 +1,32 @@
+import { relations } from "drizzle-orm";
+import { pgTable, text, timestamp } from "drizzle-orm/pg-core";
+
+import { cartItem } from "./cart-item";
+import { user } from "./user";
+
+/**
+ * Shopping cart owned by a user or, before sign-in, an anonymous visitor
+ * Holds products and quantities only; prices are always computed live
+ */
+export const cart = pgTable("cart", {
+  id: text("id")
+    .primaryKey()
+    .$defaultFn(() => crypto.randomUUID()),
+  userId: text("user_id")
+    .unique()
+    .references(() => user.id, { onDelete: "cascade" }),
+  // Value of the anonymous cart cookie
+  anonymousId: text("anonymous_id").unique(),
+  createdAt: timestamp("created_at")
+    .$defaultFn(() => /* @__PURE__ */ new Date())
+    .notNull(),
+  updatedAt: timestamp("updated_at")
+    .$defaultFn(() => /* @__PURE__ */ new Date())
+    .notNull(),
+});
+
+export const cartRelations = relations(cart, ({ many }) => ({
+  items: many(cartItem),
+}));
+
+export type Cart = typeof cart.$inferSelect;
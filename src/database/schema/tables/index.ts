@@ -1,4 +1,32 @@
 export * from "./account";
+export * from "./audit-log";
+export * from "./cart";
+export * from "./cart-item";
+export * from "./metal";
+export * from "./order";
+export * from "./order-line";
+export * from "./order-note";
+export * from "./order-status-history";
+export * from "./outbox-event";
+export * from "./passkey";
+export * from "./payment";
+export * from "./payment-surcharge";
+export * from "./pickup-location";
+export * from "./pickup-location-closure";
+export * from "./pickup-location-hours";
+export * from "./price-quote";
+export * from "./price-quote-line";
+export * from "./pricing-rule";
+export * from "./product";
+export * from "./product-image";
+export * from "./quantity-tier";
+export * from "./refund";
 export * from "./session";
+export * from "./shipping-rate";
+export * from "./shipping-zone";
+export * from "./spot-price";
+export * from "./two-factor";
 export * from "./user";
 export * from "./verification";
+export * from "./webhook-delivery";
+export * from "./webhook-subscription";
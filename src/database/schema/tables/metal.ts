@@ -0,0 +1,18 @@
+import { pgTable, text, timestamp } from "drizzle-orm/pg-core";
+
+import { metals } from "../enums";
+
+export const metal = pgTable("metal", {
+  id: metals("id").primaryKey(),
+  name: text("name").notNull(),
+  // ISO 4217 commodity code used by spot price feeds (XAU, XAG, XPT, XPD)
+  symbol: text("symbol").notNull().unique(),
+  createdAt: timestamp("created_at")
+    .$defaultFn(() => /* @__PURE__ */ new Date())
+    .notNull(),
+  updatedAt: timestamp("updated_at")
+    .$defaultFn(() => /* @__PURE__ */ new Date())
+    .notNull(),
+});
+
+export type Metal = typeof metal.$inferSelect;
@@ -0,0 +1,50 @@
+import { relations } from "drizzle-orm";
+import { index, integer, pgTable, text } from "drizzle-orm/pg-core";
+
+import { metals } from "../enums";
+import { order } from "./order";
+import { product } from "./product";
+
+/**
+ * Line charged on an order, copied from the quote it was paid at
+ * Amounts in cents
+ */
+export const orderLine = pgTable(
+  "order_line",
+  {
+    id: text("id")
+      .primaryKey()
+      .$defaultFn(() => crypto.randomUUID()),
+    orderId: text("order_id")
+      .notNull()
+      .references(() => order.id, { onDelete: "cascade" }),
+    productId: text("product_id")
+      .notNull()
+      .references(() => product.id),
+    productName: text("product_name").notNull(),
+    sku: text("sku").notNull(),
+    metal: metals("metal").notNull(),
+    quantity: integer("quantity").notNull(),
+    spotPerOz: integer("spot_per_oz").notNull(),
+    unitPrice: integer("unit_price").notNull(),
+    lineTotal: integer("line_total").notNull(),
+  },
+  (table) => [
+    // Loading an order's lines and filtering orders by metal
+    index("order_line_order_metal_idx").on(table.orderId, table.metal),
+  ],
+);
+
+export const orderLineRelations = relations(orderLine, ({ one }) => ({
+  order: one(order, {
+    fields: [orderLine.orderId],
+    references: [order.id],
+  }),
+  product: one(product, {
+    fields: [orderLine.productId],
+    references: [product.id],
+  }),
+}));
+
+export type OrderLine = typeof orderLine.$inferSelect;
+export type NewOrderLine = typeof orderLine.$inferInsert;
@@ -0,0 +1,35 @@
+import { relations } from "drizzle-orm";
+import { index, pgTable, text, timestamp } from "drizzle-orm/pg-core";
+
+import { order } from "./order";
+import { user } from "./user";
+
+/**
+ * Internal staff note on an order, never shown to the customer
+ */
+export const orderNote = pgTable(
+  "order_note",
+  {
+    id: text("id")
+      .primaryKey()
+      .$defaultFn(() => crypto.randomUUID()),
+    orderId: text("order_id")
+      .notNull()
+      .references(() => order.id, { onDelete: "cascade" }),
+    authorId: text("author_id").references(() => user.id, {
+      onDelete: "set null",
+    }),
+    body: text("body").notNull(),
+    createdAt: timestamp("created_at")
+      .$defaultFn(() => /* @__PURE__ */ new Date())
+      .notNull(),
+  },
+  (table) => [index("order_note_order_idx").on(table.orderId)],
+);
+
+export const orderNoteRelations = relations(orderNote, ({ one }) => ({
+  order: one(order, { fields: [orderNote.orderId], references: [order.id] }),
+  author: one(user, { fields: [orderNote.authorId], references: [user.id] }),
+}));
+
+export type OrderNote = typeof orderNote.$inferSelect;
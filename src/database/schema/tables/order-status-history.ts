@@ -0,0 +1,51 @@
+import { relations } from "drizzle-orm";
+import { index, pgTable, text, timestamp } from "drizzle-orm/pg-core";
+
+import { orderActorTypes, orderStatuses } from "../enums";
+import { order } from "./order";
+import { user } from "./user";
+
+/**
+ * Audit trail of every order status change
+ */
+export const orderStatusHistory = pgTable(
+  "order_status_history",
+  {
+    id: text("id")
+      .primaryKey()
+      .$defaultFn(() => crypto.randomUUID()),
+    orderId: text("order_id")
+      .notNull()
+      .references(() => order.id, { onDelete: "cascade" }),
+    // Null for the entry that records the order being placed
+    fromStatus: orderStatuses("from_status"),
+    toStatus: orderStatuses("to_status").notNull(),
+    actorType: orderActorTypes("actor_type").notNull(),
+    // Customer or staff member, null for system transitions
+    actorId: text("actor_id").references(() => user.id, {
+      onDelete: "set null",
+    }),
+    reason: text("reason").notNull(),
+    createdAt: timestamp("created_at")
+      .$defaultFn(() => /* @__PURE__ */ new Date())
+      .notNull(),
+  },
+  (table) => [index("order_status_history_order_idx").on(table.orderId)],
+);
+
+export const orderStatusHistoryRelations = relations(
+  orderStatusHistory,
+  ({ one }) => ({
+    order: one(order, {
+      fields: [orderStatusHistory.orderId],
+      references: [order.id],
+    }),
+    actor: one(user, {
+      fields: [orderStatusHistory.actorId],
+      references: [user.id],
+    }),
+  }),
+);
+
+export type OrderStatusHistory = typeof orderStatusHistory.$inferSelect;
+export type NewOrderStatusHistory = typeof orderStatusHistory.$inferInsert;
@@ -0,0 +1,111 @@
+import { relations } from "drizzle-orm";
+import {
+  index,
+  integer,
+  jsonb,
+  pgTable,
+  serial,
+  text,
+  timestamp,
+} from "drizzle-orm/pg-core";
+
+import { fulfillmentMethods, orderStatuses } from "../enums";
+import { orderLine } from "./order-line";
+import { orderNote } from "./order-note";
+import { orderStatusHistory } from "./order-status-history";
+import { payment } from "./payment";
+import { pickupLocation } from "./pickup-location";
+import { priceQuote } from "./price-quote";
+import { shippingZone } from "./shipping-zone";
+import { user } from "./user";
+
+/**
+ * Insured delivery destination
+ */
+export interface ShippingAddress {
+  name: string;
+  line1: string;
+  line2?: string;
+  city: string;
+  region?: string;
+  postalCode: string;
+  // ISO 3166-1 alpha-2
+  country: string;
+}
+
+export const order = pgTable(
+  "order",
+  {
+    id: text("id")
+      .primaryKey()
+      .$defaultFn(() => crypto.randomUUID()),
+    // Human-friendly reference shown to customers and staff
+    number: serial("number").notNull().unique(),
+    userId: text("user_id")
+      .notNull()
+      .references(() => user.id),
+    // Quote whose locked prices this order charges
+    quoteId: text("quote_id")
+      .notNull()
+      .unique()
+      .references(() => priceQuote.id),
+    status: orderStatuses("status").default("pending_payment").notNull(),
+    fulfillmentMethod: fulfillmentMethods("fulfillment_method")
+      .default("delivery")
+      .notNull(),
+    // Set for delivery orders
+    shippingAddress: jsonb("shipping_address").$type<ShippingAddress>(),
+    shippingZoneId: text("shipping_zone_id").references(() => shippingZone.id),
+    // Set for pickup orders
+    pickupLocationId: text("pickup_location_id").references(
+      () => pickupLocation.id,
+    ),
+    pickupSlotAt: timestamp("pickup_slot_at"),
+    // Set when a delivery order ships
+    trackingCarrier: text("tracking_carrier"),
+    trackingNumber: text("tracking_number"),
+    currency: text("currency").notNull(),
+    // Amounts in cents; total = subtotal + shipping
+    subtotal: integer("subtotal").notNull(),
+    shipping: integer("shipping").default(0).notNull(),
+    total: integer("total").notNull(),
+    createdAt: timestamp("created_at")
+      .$defaultFn(() => /* @__PURE__ */ new Date())
+      .notNull(),
+    updatedAt: timestamp("updated_at")
+      .$defaultFn(() => /* @__PURE__ */ new Date())
+      .notNull(),
+  },
+  (table) => [
+    // Back office date range filters and export
+    index("order_created_at_idx").on(table.createdAt),
+    // Counting bookings per pickup appointment
+    index("order_pickup_slot_idx").on(
+      table.pickupLocationId,
+      table.pickupSlotAt,
+    ),
+  ],
+);
+
+export const orderRelations = relations(order, ({ one, many }) => ({
+  user: one(user, { fields: [order.userId], references: [user.id] }),
+  quote: one(priceQuote, {
+    fields: [order.quoteId],
+    references: [priceQuote.id],
+  }),
+  lines: many(orderLine),
+  statusHistory: many(orderStatusHistory),
+  notes: many(orderNote),
+  shippingZone: one(shippingZone, {
+    fields: [order.shippingZoneId],
+    references: [shippingZone.id],
+  }),
+  pickupLocation: one(pickupLocation, {
+    fields: [order.pickupLocationId],
+    references: [pickupLocation.id],
+  }),
+  payments: many(payment),
+}));
+
+export type Order = typeof order.$inferSelect;
+export type NewOrder = typeof order.$inferInsert;
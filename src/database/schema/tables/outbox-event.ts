@@ -0,0 +1,119 @@
+import {
+  index,
+  integer,
+  jsonb,
+  pgTable,
+  text,
+  timestamp,
+} from "drizzle-orm/pg-core";
+
+import type {
+  FulfillmentMethod,
+  MetalType,
+  OrderActorType,
+  OrderStatus,
+  RefundStatus,
+} from "../enums";
+import { outboxEventStatuses } from "../enums";
+
+/**
+ * Order fields carried by every order event
+ * Amounts in cents
+ */
+export interface OrderEventPayload {
+  orderId: string;
+  number: number;
+  userId: string;
+  status: OrderStatus;
+  fulfillmentMethod: FulfillmentMethod;
+  currency: string;
+  subtotal: number;
+  shipping: number;
+  total: number;
+}
+
+/**
+ * Payload stored with each domain event type
+ */
+export interface DomainEventPayloads {
+  "order.created": OrderEventPayload;
+  "order.status_changed": OrderEventPayload & {
+    fromStatus: OrderStatus;
+    actorType: OrderActorType;
+    actorId: string | null;
+    reason: string;
+  };
+  "payment.succeeded": {
+    paymentId: string;
+    orderId: string;
+    amount: number;
+    currency: string;
+  };
+  "payment.failed": {
+    paymentId: string;
+    orderId: string;
+    amount: number;
+    currency: string;
+    failureMessage: string | null;
+  };
+  "payment.refund_updated": {
+    refundId: string;
+    paymentId: string;
+    status: RefundStatus;
+    amount: number;
+  };
+  "price.updated": {
+    currency: string;
+    // Cents per troy ounce
+    prices: { metal: MetalType; bid: number; ask: number; quotedAt: string }[];
+  };
+  "user.registered": { userId: string; email: string; name: string };
+  "user.new_device_sign_in": {
+    userId: string;
+    email: string;
+    name: string;
+    sessionId: string;
+    userAgent: string | null;
+    ipAddress: string | null;
+    city: string | null;
+    country: string | null;
+  };
+}
+
+export type DomainEventType = keyof DomainEventPayloads;
+
+/**
+ * Transactional outbox: domain events written in the same transaction as
+ * the change they describe, then dispatched to handlers in the background
+ */
+export const outboxEvent = pgTable(
+  "outbox_event",
+  {
+    id: text("id")
+      .primaryKey()
+      .$defaultFn(() => crypto.randomUUID()),
+    type: text("type").$type<DomainEventType>().notNull(),
+    // Entity the event is about, e.g. an order id
+    aggregateId: text("aggregate_id").notNull(),
+    payload: jsonb("payload").notNull(),
+    status: outboxEventStatuses("status").default("pending").notNull(),
+    // Handlers that already processed the event and are skipped on retry
+    completedHandlers: text("completed_handlers").array().default([]).notNull(),
+    attempts: integer("attempts").default(0).notNull(),
+    // Null once dispatched or given up on
+    nextAttemptAt: timestamp("next_attempt_at").$defaultFn(
+      () => /* @__PURE__ */ new Date(),
+    ),
+    lastError: text("last_error"),
+    createdAt: timestamp("created_at")
+      .$defaultFn(() => /* @__PURE__ */ new Date())
+      .notNull(),
+    dispatchedAt: timestamp("dispatched_at"),
+  },
+  (table) => [
+    // Finding events that are due
+    index("outbox_event_due_idx").on(table.status, table.nextAttemptAt),
+  ],
+);
+
+export type OutboxEvent = typeof outboxEvent.$inferSelect;
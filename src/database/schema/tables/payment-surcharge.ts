@@ -0,0 +1,20 @@
+import { numeric, pgTable, timestamp } from "drizzle-orm/pg-core";
+
+import { paymentMethods } from "../enums";
+
+/**
+ * Surcharge applied to the full price when paying with a given method
+ */
+export const paymentSurcharge = pgTable("payment_surcharge", {
+  method: paymentMethods("method").primaryKey(),
+  surchargePercent: numeric("surcharge_percent", {
+    precision: 5,
+    scale: 2,
+    mode: "number",
+  }).notNull(),
+  updatedAt: timestamp("updated_at")
+    .$defaultFn(() => /* @__PURE__ */ new Date())
+    .notNull(),
+});
+
+export type PaymentSurcharge = typeof paymentSurcharge.$inferSelect;
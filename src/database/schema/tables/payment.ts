@@ -0,0 +1,39 @@
+import { relations } from "drizzle-orm";
+import { integer, pgTable, text, timestamp } from "drizzle-orm/pg-core";
+
+import { paymentStatuses } from "../enums";
+import { order } from "./order";
+import { refund } from "./refund";
+
+/**
+ * Payment attempt for an order through Stripe Checkout
+ */
+export const payment = pgTable("payment", {
+  id: text("id")
+    .primaryKey()
+    .$defaultFn(() => crypto.randomUUID()),
+  orderId: text("order_id")
+    .notNull()
+    .references(() => order.id, { onDelete: "cascade" }),
+  provider: text("provider").notNull(),
+  checkoutSessionId: text("checkout_session_id").notNull().unique(),
+  paymentIntentId: text("payment_intent_id").unique(),
+  status: paymentStatuses("status").default("pending").notNull(),
+  // Amount in cents
+  amount: integer("amount").notNull(),
+  currency: text("currency").notNull(),
+  failureMessage: text("failure_message"),
+  createdAt: timestamp("created_at")
+    .$defaultFn(() => /* @__PURE__ */ new Date())
+    .notNull(),
+  updatedAt: timestamp("updated_at")
+    .$defaultFn(() => /* @__PURE__ */ new Date())
+    .notNull(),
+});
+
+export const paymentRelations = relations(payment, ({ one, many }) => ({
+  order: one(order, { fields: [payment.orderId], references: [order.id] }),
+  refunds: many(refund),
+}));
+
+export type Payment = typeof payment.$inferSelect;
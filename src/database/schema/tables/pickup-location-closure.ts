@@ -0,0 +1,35 @@
+import { relations } from "drizzle-orm";
+import { date, pgTable, text, unique } from "drizzle-orm/pg-core";
+
+import { pickupLocation } from "./pickup-location";
+
+/**
+ * Day a location is closed despite its regular hours, e.g. a public holiday
+ */
+export const pickupLocationClosure = pgTable(
+  "pickup_location_closure",
+  {
+    id: text("id")
+      .primaryKey()
+      .$defaultFn(() => crypto.randomUUID()),
+    locationId: text("location_id")
+      .notNull()
+      .references(() => pickupLocation.id, { onDelete: "cascade" }),
+    // Local calendar date, YYYY-MM-DD
+    date: date("date").notNull(),
+    reason: text("reason"),
+  },
+  (table) => [unique().on(table.locationId, table.date)],
+);
+
+export const pickupLocationClosureRelations = relations(
+  pickupLocationClosure,
+  ({ one }) => ({
+    location: one(pickupLocation, {
+      fields: [pickupLocationClosure.locationId],
+      references: [pickupLocation.id],
+    }),
+  }),
+);
+
+export type PickupLocationClosure = typeof pickupLocationClosure.$inferSelect;
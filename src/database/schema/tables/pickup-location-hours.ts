@@ -0,0 +1,33 @@
+import { relations } from "drizzle-orm";
+import { integer, pgTable, text, time } from "drizzle-orm/pg-core";
+
+import { pickupLocation } from "./pickup-location";
+
+/**
+ * Opening interval on a weekday, in the location's time zone
+ * A day may have several intervals, e.g. around a lunch break
+ */
+export const pickupLocationHours = pgTable("pickup_location_hours", {
+  id: text("id")
+    .primaryKey()
+    .$defaultFn(() => crypto.randomUUID()),
+  locationId: text("location_id")
+    .notNull()
+    .references(() => pickupLocation.id, { onDelete: "cascade" }),
+  // 0 = Sunday
+  weekday: integer("weekday").notNull(),
+  opensAt: time("opens_at").notNull(),
+  closesAt: time("closes_at").notNull(),
+});
+
+export const pickupLocationHoursRelations = relations(
+  pickupLocationHours,
+  ({ one }) => ({
+    location: one(pickupLocation, {
+      fields: [pickupLocationHours.locationId],
+      references: [pickupLocation.id],
+    }),
+  }),
+);
+
+export type PickupLocationHours = typeof pickupLocationHours.$inferSelect;
@@ -0,0 +1,49 @@
+import { relations } from "drizzle-orm";
+import {
+  boolean,
+  integer,
+  pgTable,
+  text,
+  timestamp,
+} from "drizzle-orm/pg-core";
+
+import { pickupLocationClosure } from "./pickup-location-closure";
+import { pickupLocationHours } from "./pickup-location-hours";
+
+/**
+ * Vault or store where customers can collect orders
+ */
+export const pickupLocation = pgTable("pickup_location", {
+  id: text("id")
+    .primaryKey()
+    .$defaultFn(() => crypto.randomUUID()),
+  name: text("name").notNull(),
+  line1: text("line1").notNull(),
+  line2: text("line2"),
+  city: text("city").notNull(),
+  region: text("region"),
+  postalCode: text("postal_code").notNull(),
+  country: text("country").notNull(),
+  // IANA time zone slots are offered in
+  timeZone: text("time_zone").notNull(),
+  // Appointment length and how many customers each appointment can take
+  slotMinutes: integer("slot_minutes").default(60).notNull(),
+  slotCapacity: integer("slot_capacity").default(4).notNull(),
+  active: boolean("active").default(true).notNull(),
+  createdAt: timestamp("created_at")
+    .$defaultFn(() => /* @__PURE__ */ new Date())
+    .notNull(),
+  updatedAt: timestamp("updated_at")
+    .$defaultFn(() => /* @__PURE__ */ new Date())
+    .notNull(),
+});
+
+export const pickupLocationRelations = relations(
+  pickupLocation,
+  ({ many }) => ({
+    hours: many(pickupLocationHours),
+    closures: many(pickupLocationClosure),
+  }),
+);
+
+export type PickupLocation = typeof pickupLocation.$inferSelect;
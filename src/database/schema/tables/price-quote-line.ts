@@ -0,0 +1,46 @@
+import { relations } from "drizzle-orm";
+import { integer, pgTable, text } from "drizzle-orm/pg-core";
+
+import { priceQuote } from "./price-quote";
+import { product } from "./product";
+import { spotPrice } from "./spot-price";
+
+/**
+ * Snapshot of one priced line, amounts in cents
+ */
+export const priceQuoteLine = pgTable("price_quote_line", {
+  id: text("id")
+    .primaryKey()
+    .$defaultFn(() => crypto.randomUUID()),
+  quoteId: text("quote_id")
+    .notNull()
+    .references(() => priceQuote.id, { onDelete: "cascade" }),
+  productId: text("product_id")
+    .notNull()
+    .references(() => product.id),
+  productName: text("product_name").notNull(),
+  sku: text("sku").notNull(),
+  quantity: integer("quantity").notNull(),
+  // Stored spot quote the line was priced from
+  spotPriceId: text("spot_price_id").references(() => spotPrice.id),
+  spotPerOz: integer("spot_per_oz").notNull(),
+  meltValue: integer("melt_value").notNull(),
+  premium: integer("premium").notNull(),
+  surcharge: integer("surcharge").notNull(),
+  unitPrice: integer("unit_price").notNull(),
+  lineTotal: integer("line_total").notNull(),
+});
+
+export const priceQuoteLineRelations = relations(priceQuoteLine, ({ one }) => ({
+  quote: one(priceQuote, {
+    fields: [priceQuoteLine.quoteId],
+    references: [priceQuote.id],
+  }),
+  product: one(product, {
+    fields: [priceQuoteLine.productId],
+    references: [product.id],
+  }),
+}));
+
+export type PriceQuoteLine = typeof priceQuoteLine.$inferSelect;
+export type NewPriceQuoteLine = typeof priceQuoteLine.$inferInsert;
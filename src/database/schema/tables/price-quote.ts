@@ -0,0 +1,40 @@
+import { relations } from "drizzle-orm";
+import { integer, pgTable, text, timestamp } from "drizzle-orm/pg-core";
+
+import { paymentMethods, priceQuoteStatuses } from "../enums";
+import { priceQuoteLine } from "./price-quote-line";
+import { user } from "./user";
+
+/**
+ * Locked prices for a checkout, valid until `expiresAt`
+ * Checkout may only charge an active, unexpired quote
+ */
+export const priceQuote = pgTable("price_quote", {
+  id: text("id")
+    .primaryKey()
+    .$defaultFn(() => crypto.randomUUID()),
+  userId: text("user_id")
+    .notNull()
+    .references(() => user.id, { onDelete: "cascade" }),
+  // Auth session the quote was issued to; not a foreign key so the audit
+  // trail survives sign-out
+  sessionId: text("session_id").notNull(),
+  status: priceQuoteStatuses("status").default("active").notNull(),
+  currency: text("currency").notNull(),
+  paymentMethod: paymentMethods("payment_method"),
+  // Sum of line totals, in cents
+  subtotal: integer("subtotal").notNull(),
+  expiresAt: timestamp("expires_at").notNull(),
+  // Quote that replaced this one when it was re-priced
+  supersededById: text("superseded_by_id"),
+  consumedAt: timestamp("consumed_at"),
+  createdAt: timestamp("created_at")
+    .$defaultFn(() => /* @__PURE__ */ new Date())
+    .notNull(),
+});
+
+export const priceQuoteRelations = relations(priceQuote, ({ many }) => ({
+  lines: many(priceQuoteLine),
+}));
+
+export type PriceQuote = typeof priceQuote.$inferSelect;
@@ -0,0 +1,60 @@
+import { sql } from "drizzle-orm";
+import {
+  check,
+  integer,
+  numeric,
+  pgTable,
+  text,
+  timestamp,
+  unique,
+} from "drizzle-orm/pg-core";
+
+import { metals, pricingScopes } from "../enums";
+import { product } from "./product";
+
+/**
+ * Premium over melt value
+ * The most specific rule wins: product, then metal, then global
+ */
+export const pricingRule = pgTable(
+  "pricing_rule",
+  {
+    id: text("id")
+      .primaryKey()
+      .$defaultFn(() => crypto.randomUUID()),
+    scope: pricingScopes("scope").notNull(),
+    metal: metals("metal"),
+    productId: text("product_id").references(() => product.id, {
+      onDelete: "cascade",
+    }),
+    // Percentage of melt value
+    premiumPercent: numeric("premium_percent", {
+      precision: 5,
+      scale: 2,
+      mode: "number",
+    })
+      .default(0)
+      .notNull(),
+    // Fixed amount per unit, in cents
+    premiumFlat: integer("premium_flat").default(0).notNull(),
+    createdAt: timestamp("created_at")
+      .$defaultFn(() => /* @__PURE__ */ new Date())
+      .notNull(),
+    updatedAt: timestamp("updated_at")
+      .$defaultFn(() => /* @__PURE__ */ new Date())
+      .notNull(),
+  },
+  (table) => [
+    unique("pricing_rule_target_unique")
+      .on(table.scope, table.metal, table.productId)
+      .nullsNotDistinct(),
+    check(
+      "pricing_rule_scope_target_check",
+      sql`(${table.scope} = 'global' AND ${table.metal} IS NULL AND ${table.productId} IS NULL)
+        OR (${table.scope} = 'metal' AND ${table.metal} IS NOT NULL AND ${table.productId} IS NULL)
+        OR (${table.scope} = 'product' AND ${table.productId} IS NOT NULL)`,
+    ),
+  ],
+);
+
+export type PricingRule = typeof pricingRule.$inferSelect;
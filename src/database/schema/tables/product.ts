@@ -0,0 +1,49 @@
+import { relations } from "drizzle-orm";
+import { numeric, pgTable, text, timestamp } from "drizzle-orm/pg-core";
+
+import { metals, productForms, productStatuses } from "../enums";
+import { metal } from "./metal";
+import { productImage } from "./product-image";
+
+export const product = pgTable("product", {
+  id: text("id")
+    .primaryKey()
+    .$defaultFn(() => crypto.randomUUID()),
+  slug: text("slug").notNull().unique(),
+  sku: text("sku").notNull().unique(),
+  name: text("name").notNull(),
+  description: text("description"),
+  // Only published products are listed and can be quoted
+  status: productStatuses("status").default("draft").notNull(),
+  metal: metals("metal")
+    .notNull()
+    .references(() => metal.id),
+  form: productForms("form").notNull(),
+  mint: text("mint").notNull(),
+  // Pure metal content in troy ounces, the unit spot prices are quoted in
+  fineWeightOz: numeric("fine_weight_oz", {
+    precision: 12,
+    scale: 6,
+    mode: "number",
+  }).notNull(),
+  // Millesimal fineness expressed as a fraction, e.g. 0.9999
+  purity: numeric("purity", {
+    precision: 5,
+    scale: 4,
+    mode: "number",
+  }).notNull(),
+  createdAt: timestamp("created_at")
+    .$defaultFn(() => /* @__PURE__ */ new Date())
+    .notNull(),
+  updatedAt: timestamp("updated_at")
+    .$defaultFn(() => /* @__PURE__ */ new Date())
+    .notNull(),
+});
+
+export const productRelations = relations(product, ({ one, many }) => ({
+  metal: one(metal, { fields: [product.metal], references: [metal.id] }),
+  images: many(productImage),
+}));
+
+export type Product = typeof product.$inferSelect;
+export type NewProduct = typeof product.$inferInsert;
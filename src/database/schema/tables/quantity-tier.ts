@@ -0,0 +1,36 @@
+import {
+  integer,
+  numeric,
+  pgTable,
+  text,
+  timestamp,
+} from "drizzle-orm/pg-core";
+
+import { metals } from "../enums";
+import { product } from "./product";
+
+/**
+ * Volume discount on the premium once a line reaches `minQuantity` units
+ * Applies to one product, one metal, or everything when both are null
+ */
+export const quantityTier = pgTable("quantity_tier", {
+  id: text("id")
+    .primaryKey()
+    .$defaultFn(() => crypto.randomUUID()),
+  metal: metals("metal"),
+  productId: text("product_id").references(() => product.id, {
+    onDelete: "cascade",
+  }),
+  minQuantity: integer("min_quantity").notNull(),
+  // Percentage points taken off the premium percentage
+  premiumDiscountPercent: numeric("premium_discount_percent", {
+    precision: 5,
+    scale: 2,
+    mode: "number",
+  }).notNull(),
+  createdAt: timestamp("created_at")
+    .$defaultFn(() => /* @__PURE__ */ new Date())
+    .notNull(),
+});
+
+export type QuantityTier = typeof quantityTier.$inferSelect;
@@ -0,0 +1,49 @@
+import { relations } from "drizzle-orm";
+import { index, integer, pgTable, text, timestamp } from "drizzle-orm/pg-core";
+
+import { refundStatuses } from "../enums";
+import { payment } from "./payment";
+import { user } from "./user";
+
+/**
+ * Full or partial refund of a payment, issued by staff
+ */
+export const refund = pgTable(
+  "refund",
+  {
+    id: text("id")
+      .primaryKey()
+      .$defaultFn(() => crypto.randomUUID()),
+    paymentId: text("payment_id")
+      .notNull()
+      .references(() => payment.id, { onDelete: "cascade" }),
+    // Set once the provider has accepted the refund
+    providerRefundId: text("provider_refund_id").unique(),
+    status: refundStatuses("status").default("pending").notNull(),
+    // Amount in cents
+    amount: integer("amount").notNull(),
+    reason: text("reason").notNull(),
+    // Staff member who issued the refund
+    actorId: text("actor_id").references(() => user.id, {
+      onDelete: "set null",
+    }),
+    failureMessage: text("failure_message"),
+    createdAt: timestamp("created_at")
+      .$defaultFn(() => /* @__PURE__ */ new Date())
+      .notNull(),
+    updatedAt: timestamp("updated_at")
+      .$defaultFn(() => /* @__PURE__ */ new Date())
+      .notNull(),
+  },
+  (table) => [index("refund_payment_idx").on(table.paymentId)],
+);
+
+export const refundRelations = relations(refund, ({ one }) => ({
+  payment: one(payment, {
+    fields: [refund.paymentId],
+    references: [payment.id],
+  }),
+  actor: one(user, { fields: [refund.actorId], references: [user.id] }),
+}));
+
+export type Refund = typeof refund.$inferSelect;
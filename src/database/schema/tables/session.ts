@@ -14,4 +14,9 @@ export const session = pgTable("session", {
     .notNull()
     .references(() => user.id, { onDelete: "cascade" }),
   impersonatedBy: text("impersonated_by"),
+  // Last passkey or two-factor check, for step-up on high-risk actions
+  steppedUpAt: timestamp("stepped_up_at"),
+  // Approximate location from the hosting provider's geo headers
+  city: text("city"),
+  country: text("country"),
 });
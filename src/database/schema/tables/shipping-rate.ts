@@ -0,0 +1,33 @@
+import { relations } from "drizzle-orm";
+import { integer, numeric, pgTable, text } from "drizzle-orm/pg-core";
+
+import { shippingZone } from "./shipping-zone";
+
+/**
+ * Weight band within a zone; the lightest band that fits the parcel applies
+ */
+export const shippingRate = pgTable("shipping_rate", {
+  id: text("id")
+    .primaryKey()
+    .$defaultFn(() => crypto.randomUUID()),
+  zoneId: text("zone_id")
+    .notNull()
+    .references(() => shippingZone.id, { onDelete: "cascade" }),
+  // Upper bound of the band in troy ounces, null for no limit
+  maxWeightOz: numeric("max_weight_oz", {
+    precision: 10,
+    scale: 2,
+    mode: "number",
+  }),
+  // Carriage in cents
+  rate: integer("rate").notNull(),
+});
+
+export const shippingRateRelations = relations(shippingRate, ({ one }) => ({
+  zone: one(shippingZone, {
+    fields: [shippingRate.zoneId],
+    references: [shippingZone.id],
+  }),
+}));
+
+export type ShippingRate = typeof shippingRate.$inferSelect;
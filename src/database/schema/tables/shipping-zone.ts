@@ -0,0 +1,37 @@
+import { relations } from "drizzle-orm";
+import { numeric, pgTable, text, timestamp } from "drizzle-orm/pg-core";
+
+import { shippingRate } from "./shipping-rate";
+
+/**
+ * Group of destination countries sharing a shipping rate table
+ */
+export const shippingZone = pgTable("shipping_zone", {
+  id: text("id")
+    .primaryKey()
+    .$defaultFn(() => crypto.randomUUID()),
+  code: text("code").notNull().unique(),
+  name: text("name").notNull(),
+  // ISO 3166-1 alpha-2 codes
+  countries: text("countries").array().notNull(),
+  // Insurance charged as a percentage of order value
+  insurancePercent: numeric("insurance_percent", {
+    precision: 5,
+    scale: 2,
+    mode: "number",
+  })
+    .default(0)
+    .notNull(),
+  createdAt: timestamp("created_at")
+    .$defaultFn(() => /* @__PURE__ */ new Date())
+    .notNull(),
+  updatedAt: timestamp("updated_at")
+    .$defaultFn(() => /* @__PURE__ */ new Date())
+    .notNull(),
+});
+
+export const shippingZoneRelations = relations(shippingZone, ({ many }) => ({
+  rates: many(shippingRate),
+}));
+
+export type ShippingZone = typeof shippingZone.$inferSelect;
@@ -0,0 +1,34 @@
+import { index, integer, pgTable, text, timestamp } from "drizzle-orm/pg-core";
+
+import { metals } from "../enums";
+
+export const spotPrice = pgTable(
+  "spot_price",
+  {
+    id: text("id")
+      .primaryKey()
+      .$defaultFn(() => crypto.randomUUID()),
+    metal: metals("metal").notNull(),
+    currency: text("currency").notNull(),
+    // Minor units (cents) per troy ounce
+    bid: integer("bid").notNull(),
+    ask: integer("ask").notNull(),
+    source: text("source").notNull(),
+    // When the provider observed the quote
+    quotedAt: timestamp("quoted_at").notNull(),
+    // When we fetched and stored it
+    fetchedAt: timestamp("fetched_at")
+      .$defaultFn(() => /* @__PURE__ */ new Date())
+      .notNull(),
+  },
+  (table) => [
+    index("spot_price_metal_currency_fetched_at_idx").on(
+      table.metal,
+      table.currency,
+      table.fetchedAt,
+    ),
+  ],
+);
+
+export type SpotPrice = typeof spotPrice.$inferSelect;
+export type NewSpotPrice = typeof spotPrice.$inferInsert;
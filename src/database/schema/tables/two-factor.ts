@@ -0,0 +1,16 @@
+import { pgTable, text } from "drizzle-orm/pg-core";
+
+import { user } from "./user";
+
+/**
+ * TOTP secret and backup codes of a user enrolled in two-factor
+ * authentication; both are encrypted by Better Auth
+ */
+export const twoFactor = pgTable("two_factor", {
+  id: text("id").primaryKey(),
+  secret: text("secret").notNull(),
+  backupCodes: text("backup_codes").notNull(),
+  userId: text("user_id")
+    .notNull()
+    .references(() => user.id, { onDelete: "cascade" }),
+});
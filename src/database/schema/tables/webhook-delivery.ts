@@ -0,0 +1,80 @@
+import { relations, sql } from "drizzle-orm";
+import {
+  type AnyPgColumn,
+  index,
+  integer,
+  jsonb,
+  pgTable,
+  text,
+  timestamp,
+  uniqueIndex,
+} from "drizzle-orm/pg-core";
+
+import { webhookDeliveryStatuses, webhookEventTypes } from "../enums";
+import { webhookSubscription } from "./webhook-subscription";
+
+/**
+ * One event queued for one subscription, with the outcome of its last attempt
+ */
+export const webhookDelivery = pgTable(
+  "webhook_delivery",
+  {
+    id: text("id")
+      .primaryKey()
+      .$defaultFn(() => crypto.randomUUID()),
+    subscriptionId: text("subscription_id")
+      .notNull()
+      .references(() => webhookSubscription.id, { onDelete: "cascade" }),
+    // Shared by every delivery of the same event, so receivers can dedupe
+    eventId: text("event_id").notNull(),
+    eventType: webhookEventTypes("event_type").notNull(),
+    // Set on copies queued from the delivery log
+    replayOfId: text("replay_of_id").references(
+      (): AnyPgColumn => webhookDelivery.id,
+      { onDelete: "set null" },
+    ),
+    // Exact JSON body that is signed and sent
+    payload: jsonb("payload").$type<Record<string, unknown>>().notNull(),
+    status: webhookDeliveryStatuses("status").default("pending").notNull(),
+    attempts: integer("attempts").default(0).notNull(),
+    // Null once the delivery succeeded or gave up
+    nextAttemptAt: timestamp("next_attempt_at").$defaultFn(
+      () => /* @__PURE__ */ new Date(),
+    ),
+    lastAttemptAt: timestamp("last_attempt_at"),
+    responseStatus: integer("response_status"),
+    // Truncated response body or network error from the last attempt
+    responseBody: text("response_body"),
+    createdAt: timestamp("created_at")
+      .$defaultFn(() => /* @__PURE__ */ new Date())
+      .notNull(),
+    updatedAt: timestamp("updated_at")
+      .$defaultFn(() => /* @__PURE__ */ new Date())
+      .notNull(),
+  },
+  (table) => [
+    // An event is queued once per subscription however often it is emitted
+    uniqueIndex("webhook_delivery_event_idx")
+      .on(table.subscriptionId, table.eventId)
+      .where(sql`${table.replayOfId} is null`),
+    // Finding deliveries that are due
+    index("webhook_delivery_due_idx").on(table.status, table.nextAttemptAt),
+    index("webhook_delivery_subscription_idx").on(
+      table.subscriptionId,
+      table.createdAt,
+    ),
+  ],
+);
+
+export const webhookDeliveryRelations = relations(
+  webhookDelivery,
+  ({ one }) => ({
+    subscription: one(webhookSubscription, {
+      fields: [webhookDelivery.subscriptionId],
+      references: [webhookSubscription.id],
+    }),
+  }),
+);
+
+export type WebhookDelivery = typeof webhookDelivery.$inferSelect;
+export type NewWebhookDelivery = typeof webhookDelivery.$inferInsert;
@@ -0,0 +1,36 @@
+import { relations } from "drizzle-orm";
+import { boolean, pgTable, text, timestamp } from "drizzle-orm/pg-core";
+
+import { webhookEventTypes } from "../enums";
+import { webhookDelivery } from "./webhook-delivery";
+
+/**
+ * Endpoint registered by staff to receive events, e.g. a Make or Zapier hook
+ */
+export const webhookSubscription = pgTable("webhook_subscription", {
+  id: text("id")
+    .primaryKey()
+    .$defaultFn(() => crypto.randomUUID()),
+  url: text("url").notNull(),
+  description: text("description"),
+  eventTypes: webhookEventTypes("event_types").array().notNull(),
+  // HMAC key the receiver uses to verify payloads
+  secret: text("secret").notNull(),
+  active: boolean("active").default(true).notNull(),
+  createdAt: timestamp("created_at")
+    .$defaultFn(() => /* @__PURE__ */ new Date())
+    .notNull(),
+  updatedAt: timestamp("updated_at")
+    .$defaultFn(() => /* @__PURE__ */ new Date())
+    .notNull(),
+});
+
+export const webhookSubscriptionRelations = relations(
+  webhookSubscription,
+  ({ many }) => ({
+    deliveries: many(webhookDelivery),
+  }),
+);
+
+export type WebhookSubscription = typeof webhookSubscription.$inferSelect;
+export type NewWebhookSubscription = typeof webhookSubscription.$inferInsert;
@@ -0,0 +1,25 @@
+/**
+ * Next.js server startup hook
+ * Starts background jobs in the Node.js runtime only
+ */
+export async function register() {
+  if (process.env.NEXT_RUNTIME === "nodejs") {
+    // Reads STEP_UP_ORDER_MINIMUM, so a bad value stops the server booting
+    await import("@/lib/step-up");
+
+    // Refuses PAYMENTS_MODE=fake in production before any checkout starts
+    const { isFakePayments } = await import("@/lib/payments/stripe");
+    isFakePayments();
+
+    const { startSpotPriceScheduler } = await import(
+      "@/lib/spot-prices/scheduler"
+    );
+    startSpotPriceScheduler();
+
+    const { startOutboxScheduler } = await import("@/lib/outbox/scheduler");
+    startOutboxScheduler();
+
+    const { startWebhookScheduler } = await import("@/lib/webhooks/scheduler");
+    startWebhookScheduler();
+  }
+}
@@ -0,0 +1,46 @@
+import { drizzleAdapter } from "better-auth/adapters/drizzle";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+import { insertUser } from "@/database/queries";
+import * as schema from "@/database/schema";
+
+import { withRegistrationEvents } from "../auth-database";
+
+vi.mock("@/database/queries", () => ({ insertUser: vi.fn() }));
+
+describe("withRegistrationEvents", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it("creates Better Auth users through insertUser", async () => {
+    const insert = vi.fn();
+    const database = withRegistrationEvents({
+      insert,
+      _: { fullSchema: schema },
+    } as never);
+    vi.mocked(insertUser).mockImplementation(async (values) => values as never);
+
+    const adapter = drizzleAdapter(database, { provider: "pg" })({});
+    const created = await adapter.create({
+      model: "user",
+      data: { name: "Ada", email: "ada@example.com", emailVerified: false },
+    });
+
+    expect(insertUser).toHaveBeenCalledWith(
+      expect.objectContaining({ name: "Ada", email: "ada@example.com" }),
+    );
+    expect(created).toMatchObject({ email: "ada@example.com" });
+    expect(insert).not.toHaveBeenCalled();
+  });
+
+  it("leaves other inserts to the database", async () => {
+    const insert = vi.fn();
+    const database = withRegistrationEvents({ insert } as never);
+
+    database.insert(schema.session);
+
+    expect(insert).toHaveBeenCalledWith(schema.session);
+    expect(insertUser).not.toHaveBeenCalled();
+  });
+});
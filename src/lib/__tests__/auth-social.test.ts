@@ -0,0 +1,252 @@
+import { memoryAdapter } from "better-auth/adapters/memory";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+const store = vi.hoisted(() => {
+  process.env.GOOGLE_CLIENT_ID = "google-client";
+  process.env.GOOGLE_CLIENT_SECRET = "google-secret";
+  process.env.BETTER_AUTH_SECRET = "test-secret-at-least-32-characters-long";
+  process.env.BETTER_AUTH_URL = "http://localhost:3000";
+  process.env.NEXT_PUBLIC_BASE_URL = "http://localhost:3000";
+
+  return {} as Record<string, Record<string, unknown>[]>;
+});
+
+vi.mock("better-auth/adapters/drizzle", () => ({
+  drizzleAdapter: () => memoryAdapter(store),
+}));
+vi.mock("@/database", () => ({ db: {} }));
+vi.mock("@/database/queries", () => ({
+  getUserByEmail: async (email: string) =>
+    store.user.find((user) => user.email === email),
+  insertOutboxEvent: vi.fn(),
+}));
+vi.mock("@/lib/cart", () => ({ mergeAnonymousCart: vi.fn() }));
+vi.mock("@/lib/mail", () => ({ sendMail: vi.fn() }));
+
+const { auth } = await import("../auth");
+
+const BASE_URL = "http://localhost:3000";
+const GOOGLE_TOKEN_URL = "https://oauth2.googleapis.com/token";
+
+interface GoogleIdentity {
+  sub: string;
+  email: string;
+  email_verified: boolean;
+}
+
+/**
+ * Unsigned ID token; Better Auth reads Google's user info from the token
+ * the token endpoint returns without verifying it again
+ */
+function idToken(identity: GoogleIdentity) {
+  const encode = (value: object) =>
+    Buffer.from(JSON.stringify(value)).toString("base64url");
+
+  return `${encode({ alg: "none", typ: "JWT" })}.${encode({
+    iss: "https://accounts.google.com",
+    aud: "google-client",
+    iat: Math.floor(Date.now() / 1000),
+    exp: Math.floor(Date.now() / 1000) + 3600,
+    name: "Ada Lovelace",
+    ...identity,
+  })}.`;
+}
+
+/**
+ * Stand in for Google's token endpoint, answering for one identity
+ */
+function fakeIssuer(identity: GoogleIdentity) {
+  vi.stubGlobal("fetch", async (input: RequestInfo | URL) => {
+    const url = input instanceof Request ? input.url : String(input);
+    if (!url.startsWith(GOOGLE_TOKEN_URL)) {
+      throw new Error(`Unexpected request to ${url}`);
+    }
+
+    return Response.json({
+      access_token: "google-access-token",
+      token_type: "Bearer",
+      expires_in: 3600,
+      scope: "openid email profile",
+      id_token: idToken(identity),
+    });
+  });
+}
+
+/**
+ * Run the browser side of "Continue with Google": start sign-in, then
+ * return to the callback as Google would
+ */
+async function signInWithGoogle() {
+  const { url } = await auth.api.signInSocial({
+    body: {
+      provider: "google",
+      callbackURL: "/dashboard",
+      errorCallbackURL: "/login",
+    },
+  });
+  const state = new URL(url!).searchParams.get("state")!;
+
+  return auth.handler(
+    new Request(
+      `${BASE_URL}/api/auth/callback/google?code=fake-code&state=${state}`,
+    ),
+  );
+}
+
+/**
+ * Existing email-and-password user
+ */
+function seedPasswordUser(overrides: Record<string, unknown> = {}) {
+  const now = new Date();
+  const user = {
+    id: "user-1",
+    name: "Ada Lovelace",
+    email: "ada@example.com",
+    emailVerified: true,
+    twoFactorEnabled: false,
+    createdAt: now,
+    updatedAt: now,
+    ...overrides,
+  };
+
+  store.user.push(user);
+  store.account.push({
+    id: "account-1",
+    userId: user.id,
+    providerId: "credential",
+    accountId: user.id,
+    password: "hashed",
+    createdAt: now,
+    updatedAt: now,
+  });
+  return user;
+}
+
+/**
+ * Cookie header a browser would send after a response
+ */
+const sessionCookie = (response: Response) =>
+  response.headers
+    .getSetCookie()
+    .map((header) => header.split(";")[0])
+    .join("; ");
+
+const googleAccounts = () =>
+  store.account.filter((account) => account.providerId === "google");
+
+describe("social sign-in", () => {
+  beforeEach(() => {
+    for (const model of [
+      "user",
+      "session",
+      "account",
+      "verification",
+      "twoFactor",
+      "passkey",
+      "rateLimit",
+    ]) {
+      store[model] = [];
+    }
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("links Google to an existing user when Google verified the email", async () => {
+    const user = seedPasswordUser();
+    fakeIssuer({ sub: "google-1", email: user.email, email_verified: true });
+
+    const response = await signInWithGoogle();
+
+    expect(response.status).toBe(302);
+    expect(response.headers.get("location")).toBe("/dashboard");
+    expect(googleAccounts()).toEqual([
+      expect.objectContaining({ userId: user.id, accountId: "google-1" }),
+    ]);
+    expect(store.session).toHaveLength(1);
+  });
+
+  it("won't link an email Google hasn't verified", async () => {
+    seedPasswordUser();
+    fakeIssuer({
+      sub: "google-1",
+      email: "ada@example.com",
+      email_verified: false,
+    });
+
+    const response = await signInWithGoogle();
+
+    expect(response.headers.get("location")).toBe(
+      "/login?error=account_not_linked",
+    );
+    expect(googleAccounts()).toHaveLength(0);
+    expect(store.session).toHaveLength(0);
+  });
+
+  it("won't link to a password account whose email was never verified", async () => {
+    seedPasswordUser({ emailVerified: false });
+    fakeIssuer({
+      sub: "google-1",
+      email: "ada@example.com",
+      email_verified: true,
+    });
+
+    const response = await signInWithGoogle();
+
+    expect(response.headers.get("location")).toBe(
+      "/login?error=unable_to_link_account",
+    );
+    expect(googleAccounts()).toHaveLength(0);
+    expect(store.session).toHaveLength(0);
+  });
+
+  it("sends two-factor accounts back to password sign-in", async () => {
+    const user = seedPasswordUser({ twoFactorEnabled: true });
+    fakeIssuer({ sub: "google-1", email: user.email, email_verified: true });
+
+    const response = await signInWithGoogle();
+
+    expect(response.headers.get("location")).toBe(
+      `${BASE_URL}/login?error=two_factor_required`,
+    );
+    expect(response.headers.get("set-cookie") ?? "").not.toMatch(
+      /session_token=[^;]/,
+    );
+    expect(store.session).toHaveLength(0);
+  });
+
+  it("disconnects Google while a password remains", async () => {
+    const user = seedPasswordUser();
+    fakeIssuer({ sub: "google-1", email: user.email, email_verified: true });
+    const cookie = sessionCookie(await signInWithGoogle());
+
+    await auth.api.unlinkAccount({
+      body: { providerId: "google" },
+      headers: new Headers({ cookie }),
+    });
+
+    expect(googleAccounts()).toHaveLength(0);
+  });
+
+  it("keeps the last sign-in method connected", async () => {
+    fakeIssuer({
+      sub: "google-2",
+      email: "grace@example.com",
+      email_verified: true,
+    });
+    const cookie = sessionCookie(await signInWithGoogle());
+
+    await expect(
+      auth.api.unlinkAccount({
+        body: { providerId: "google" },
+        headers: new Headers({ cookie }),
+      }),
+    ).rejects.toMatchObject({
+      body: expect.objectContaining({
+        code: "YOU_CANT_UNLINK_YOUR_LAST_ACCOUNT",
+      }),
+    });
+    expect(googleAccounts()).toHaveLength(1);
+  });
+});
@@ -0,0 +1,49 @@
+import jsQR from "jsqr";
+import { describe, expect, it } from "vitest";
+
+import { encodeQrCode } from "../qr-code";
+
+/**
+ * Decode modules the way a scanner would: rendered with a quiet zone
+ */
+function decode(modules: boolean[][], scale = 4, quietZone = 4) {
+  const width = (modules.length + quietZone * 2) * scale;
+  const pixels = new Uint8ClampedArray(width * width * 4).fill(255);
+
+  modules.forEach((row, y) =>
+    row.forEach((dark, x) => {
+      if (!dark) return;
+      for (let dy = 0; dy < scale; dy++) {
+        for (let dx = 0; dx < scale; dx++) {
+          const px = (x + quietZone) * scale + dx;
+          const py = (y + quietZone) * scale + dy;
+          pixels.fill(0, (py * width + px) * 4, (py * width + px) * 4 + 3);
+        }
+      }
+    }),
+  );
+
+  return jsQR(pixels, width, width)?.data;
+}
+
+describe("encodeQrCode", () => {
+  it("round-trips an authenticator enrolment URI", () => {
+    const uri =
+      "otpauth://totp/Emetals:ada%40example.com?secret=JBSWY3DPEHPK3PXPJBSWY3DPEHPK3PXP&issuer=Emetals&digits=6&period=30";
+
+    expect(decode(encodeQrCode(uri))).toBe(uri);
+  });
+
+  it("round-trips non-ASCII text", () => {
+    expect(decode(encodeQrCode("Café ✓"))).toBe("Café ✓");
+  });
+
+  it("returns a square symbol sized for its version", () => {
+    const modules = encodeQrCode("hello");
+
+    expect(modules).toHaveLength(21);
+    expect(modules.every((row) => row.length === 21)).toBe(true);
+    // Finder pattern corner
+    expect(modules[0][0]).toBe(true);
+  });
+});
@@ -0,0 +1,45 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+import { insertAuditLogEntry } from "@/database/queries";
+import type { DomainEvent } from "@/lib/outbox/types";
+
+import { auditOutboxHandler } from "..";
+
+vi.mock("@/database/queries", () => ({ insertAuditLogEntry: vi.fn() }));
+
+describe("auditOutboxHandler", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it("receives every kind of domain event", () => {
+    expect(auditOutboxHandler.handles).toEqual(
+      expect.arrayContaining([
+        "order.status_changed",
+        "payment.refund_updated",
+        "user.registered",
+      ]),
+    );
+  });
+
+  it("records the event under its outbox id with the time it happened", async () => {
+    const createdAt = new Date("2025-03-04T12:00:00Z");
+    const event = {
+      id: "event-1",
+      type: "user.registered",
+      aggregateId: "user-1",
+      payload: { userId: "user-1", email: "ada@example.com", name: "Ada" },
+      createdAt,
+    } as DomainEvent;
+
+    await auditOutboxHandler.handle(event, { idempotencyKey: "event-1:audit" });
+
+    expect(insertAuditLogEntry).toHaveBeenCalledWith({
+      eventId: "event-1",
+      eventType: "user.registered",
+      aggregateId: "user-1",
+      payload: event.payload,
+      occurredAt: createdAt,
+    });
+  });
+});
@@ -0,0 +1,32 @@
+import { insertAuditLogEntry } from "@/database/queries";
+import type { DomainEventType } from "@/database/schema";
+import type { OutboxHandler } from "@/lib/outbox/types";
+
+// Every event is audited; a new event type won't compile until it's listed
+const AUDITED_EVENTS: Record<DomainEventType, true> = {
+  "order.created": true,
+  "order.status_changed": true,
+  "payment.succeeded": true,
+  "payment.failed": true,
+  "payment.refund_updated": true,
+  "price.updated": true,
+  "user.registered": true,
+  "user.new_device_sign_in": true,
+};
+
+/**
+ * Outbox handler keeping an append-only log of every domain event
+ */
+export const auditOutboxHandler: OutboxHandler = {
+  name: "audit",
+  handles: Object.keys(AUDITED_EVENTS) as DomainEventType[],
+  async handle(event) {
+    await insertAuditLogEntry({
+      eventId: event.id,
+      eventType: event.type,
+      aggregateId: event.aggregateId,
+      payload: event.payload,
+      occurredAt: event.createdAt,
+    });
+  },
+};
@@ -1,7 +1,17 @@
-import { adminClient, emailOTPClient } from "better-auth/client/plugins";
+import {
+  adminClient,
+  emailOTPClient,
+  passkeyClient,
+  twoFactorClient,
+} from "better-auth/client/plugins";
 import { createAuthClient } from "better-auth/react";
 
 export const authClient = createAuthClient({
-  plugins: [adminClient(), emailOTPClient()],
+  plugins: [
+    adminClient(),
+    emailOTPClient(),
+    twoFactorClient(),
+    passkeyClient(),
+  ],
   baseURL: process.env.NEXT_PUBLIC_BASE_URL!,
 });
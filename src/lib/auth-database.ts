@@ -0,0 +1,31 @@
+import type { db } from "@/database";
+import { insertUser } from "@/database/queries";
+import { user } from "@/database/schema";
+
+type Database = typeof db;
+
+/**
+ * Database handle for Better Auth that creates users through `insertUser`,
+ * so `user.registered` commits with the user row
+ *
+ * Better Auth runs its hooks outside its own writes, and its Drizzle
+ * adapter creates rows with `insert(table).values(row).returning()`
+ */
+export function withRegistrationEvents(database: Database): Database {
+  return new Proxy(database, {
+    get(target, property, receiver) {
+      if (property !== "insert") {
+        return Reflect.get(target, property, receiver);
+      }
+
+      return (table: Parameters<Database["insert"]>[0]) =>
+        table === user
+          ? {
+              values: (values: typeof user.$inferInsert) => ({
+                returning: async () => [await insertUser(values)],
+              }),
+            }
+          : target.insert(table);
+    },
+  });
+}
@@ -1,63 +1,323 @@
 // src/lib/auth.ts
-import { betterAuth } from "better-auth";
+import { type Session, betterAuth } from "better-auth";
 import { drizzleAdapter } from "better-auth/adapters/drizzle";
-import { admin, emailOTP } from "better-auth/plugins";
+import { APIError, createAuthMiddleware } from "better-auth/api";
+import { setSessionCookie } from "better-auth/cookies";
+import { admin, emailOTP, twoFactor } from "better-auth/plugins";
+import { passkey } from "better-auth/plugins/passkey";
 
 import { db } from "@/database";
+import { getUserByEmail, insertOutboxEvent } from "@/database/queries";
+import { withRegistrationEvents } from "@/lib/auth-database";
+import {
+  type DeviceLocation,
+  KNOWN_DEVICE_COOKIE,
+  KNOWN_DEVICE_MAX_AGE,
+  getGeoHeaderSource,
+  locationFromHeaders,
+  parseKnownDevice,
+  rememberUserOnDevice,
+} from "@/lib/devices";
+import { oneTimeCodeEmail } from "@/lib/emails/templates";
+import { sendMail } from "@/lib/mail";
+import { SOCIAL_PROVIDERS } from "@/lib/social-providers";
+
+// One-time codes expire after 10 minutes
+const OTP_EXPIRES_IN = 60 * 10;
+
+// First sign-ins on accounts this new are the owner's, not worth an alert
+const NEW_ACCOUNT_GRACE_MS = 60 * 60 * 1000;
+
+// Two-factor accounts sign in with a password, the only path that asks
+// for the second factor
+const TWO_FACTOR_PASSWORD_ONLY_MESSAGE =
+  "This account uses two-factor authentication. Sign in with your password instead.";
+
+// Successful checks on these endpoints step the session up
+const STEP_UP_PATHS = [
+  "/passkey/verify-authentication",
+  "/two-factor/verify-totp",
+  "/two-factor/verify-backup-code",
+];
+
+// OAuth providers are enabled when their credentials are set
+const socialProviders = {
+  ...(process.env.GOOGLE_CLIENT_ID && process.env.GOOGLE_CLIENT_SECRET
+    ? {
+        google: {
+          clientId: process.env.GOOGLE_CLIENT_ID,
+          clientSecret: process.env.GOOGLE_CLIENT_SECRET,
+        },
+      }
+    : {}),
+  ...(process.env.APPLE_CLIENT_ID && process.env.APPLE_CLIENT_SECRET
+    ? {
+        apple: {
+          clientId: process.env.APPLE_CLIENT_ID,
+          // Signed client secret JWT, which Apple caps at six months
+          clientSecret: process.env.APPLE_CLIENT_SECRET,
+        },
+      }
+    : {}),
+};
+
+/**
+ * Social providers with credentials configured, in display order
+ */
+export const ENABLED_SOCIAL_PROVIDERS = SOCIAL_PROVIDERS.filter(
+  (provider) => provider in socialProviders,
+);
+
+const baseURL = process.env.NEXT_PUBLIC_BASE_URL ?? "http://localhost:3000";
 
 export const auth = betterAuth({
   emailAndPassword: {
     enabled: true,
     requireEmailVerification: true, // Require email verification for new accounts
   },
-  database: drizzleAdapter(db, {
+  socialProviders,
+  account: {
+    accountLinking: {
+      // Sign-ins join an existing user with the same email only when the
+      // provider says it verified that email
+      enabled: true,
+    },
+  },
+  // Users are created with their user.registered event in one transaction
+  database: drizzleAdapter(withRegistrationEvents(db), {
     provider: "pg",
   }),
+  databaseHooks: {
+    session: {
+      create: {
+        before: async (session, ctx) => {
+          // The two-factor plugin only challenges password sign-ins, so a
+          // provider sign-in would skip the second factor; refuse it before
+          // a session exists
+          if (
+            ctx &&
+            (ctx.path.startsWith("/callback/") ||
+              ctx.path === "/sign-in/social")
+          ) {
+            // The adapter's user type leaves out plugin fields
+            const owner = (await ctx.context.internalAdapter.findUserById(
+              session.userId,
+            )) as { twoFactorEnabled?: boolean | null } | null;
+            if (owner?.twoFactorEnabled) {
+              throw ctx.path === "/sign-in/social"
+                ? new APIError("FORBIDDEN", {
+                    message: TWO_FACTOR_PASSWORD_ONLY_MESSAGE,
+                  })
+                : ctx.redirect(`${baseURL}/login?error=two_factor_required`);
+            }
+          }
+
+          const headers = ctx?.headers ?? ctx?.request?.headers;
+          if (!headers) return;
+
+          return {
+            data: {
+              ...session,
+              ...locationFromHeaders(headers, getGeoHeaderSource()),
+            },
+          };
+        },
+        // Email the owner when a browser that hasn't signed into the
+        // account before does, then remember it with a signed cookie
+        after: async (
+          session: Session &
+            Partial<DeviceLocation> & { impersonatedBy?: string | null },
+          ctx,
+        ) => {
+          if (!ctx || session.impersonatedBy) return;
+
+          const known = await ctx.getSignedCookie(
+            KNOWN_DEVICE_COOKIE,
+            ctx.context.secret,
+          );
+          if (parseKnownDevice(known).includes(session.userId)) return;
+
+          await ctx.setSignedCookie(
+            KNOWN_DEVICE_COOKIE,
+            rememberUserOnDevice(known, session.userId),
+            ctx.context.secret,
+            {
+              httpOnly: true,
+              sameSite: "lax",
+              secure: baseURL.startsWith("https://"),
+              path: "/",
+              maxAge: KNOWN_DEVICE_MAX_AGE,
+            },
+          );
+
+          const owner = await ctx.context.internalAdapter.findUserById(
+            session.userId,
+          );
+          if (
+            !owner ||
+            Date.now() - owner.createdAt.getTime() < NEW_ACCOUNT_GRACE_MS
+          ) {
+            return;
+          }
+
+          await insertOutboxEvent(db, "user.new_device_sign_in", owner.id, {
+            userId: owner.id,
+            email: owner.email,
+            name: owner.name,
+            sessionId: session.id,
+            userAgent: session.userAgent ?? null,
+            ipAddress: session.ipAddress ?? null,
+            city: session.city ?? null,
+            country: session.country ?? null,
+          });
+        },
+      },
+    },
+    account: {
+      create: {
+        // Don't attach a social login to a password account whose email
+        // was never verified: whoever registered it may not own the address
+        before: async (account, ctx) => {
+          if (account.providerId === "credential" || !ctx) return;
+
+          const { internalAdapter } = ctx.context;
+          const owner = await internalAdapter.findUserById(account.userId);
+          if (owner?.emailVerified !== false) return;
+
+          const accounts = await internalAdapter.findAccounts(account.userId);
+          if (
+            accounts.some((existing) => existing.providerId === "credential")
+          ) {
+            throw new APIError("FORBIDDEN", {
+              message: "Verify your email before connecting other accounts",
+            });
+          }
+        },
+      },
+    },
+  },
+  hooks: {
+    // Two-factor checks only run on password sign-in, so an emailed code
+    // would skip the second factor; those accounts sign in with a password
+    before: createAuthMiddleware(async (ctx) => {
+      const isCodeSignIn =
+        ctx.path === "/sign-in/email-otp" ||
+        (ctx.path === "/email-otp/send-verification-otp" &&
+          ctx.body?.type === "sign-in");
+      if (!isCodeSignIn || typeof ctx.body?.email !== "string") return;
+
+      const account = await getUserByEmail(ctx.body.email);
+      if (account?.twoFactorEnabled) {
+        throw new APIError("BAD_REQUEST", {
+          message: TWO_FACTOR_PASSWORD_ONLY_MESSAGE,
+        });
+      }
+    }),
+    after: createAuthMiddleware(async (ctx) => {
+      // Social sign-in returns straight to the app, past the login form
+      // that usually carries the anonymous cart over
+      if (ctx.path.startsWith("/callback/") && ctx.context.newSession) {
+        // Imported lazily: the cart reads the session, which imports auth
+        const { mergeAnonymousCart } = await import("@/lib/cart");
+        await mergeAnonymousCart(ctx.context.newSession.user.id);
+        return;
+      }
+
+      if (
+        !STEP_UP_PATHS.includes(ctx.path) ||
+        ctx.context.returned instanceof APIError
+      ) {
+        return;
+      }
+
+      const { internalAdapter } = ctx.context;
+      const steppedUpAt = new Date();
+      const created = ctx.context.newSession;
+      const token = await ctx.getSignedCookie(
+        ctx.context.authCookies.sessionToken.name,
+        ctx.context.secret,
+      );
+      const current = token ? await internalAdapter.findSession(token) : null;
+
+      // A passkey check always opens a new session; when the user was
+      // already signed in, keep their session (and the quotes tied to it)
+      if (
+        created &&
+        current &&
+        current.user.id === created.user.id &&
+        current.session.token !== created.session.token &&
+        current.session.expiresAt > steppedUpAt
+      ) {
+        await internalAdapter.deleteSession(created.session.token);
+        const session = await internalAdapter.updateSession(
+          current.session.token,
+          { steppedUpAt },
+        );
+        await setSessionCookie(ctx, {
+          session: session ?? current.session,
+          user: current.user,
+        });
+        return;
+      }
+
+      const target = created ?? current;
+      if (target) {
+        await internalAdapter.updateSession(target.session.token, {
+          steppedUpAt,
+        });
+      }
+    }),
+  },
   plugins: [
     admin(),
+    twoFactor({
+      issuer: "Emetals",
+    }),
+    passkey({
+      rpName: "Emetals",
+    }),
     emailOTP({
       overrideDefaultEmailVerification: true,
+      // Codes sign in existing accounts; new customers register with a name
+      disableSignUp: true,
       sendVerificationOTP: async ({ email, otp, type }) => {
-        // In production, integrate with your email service (SendGrid, Resend, etc.)
-        // For development, log to console
-        if (process.env.NODE_ENV === "development") {
-          if (type === "sign-in") {
-            // Send the OTP for sign-in
-          } else if (type === "email-verification") {
-            console.log("=====================================");
-            console.log(`📧 Email OTP Verification`);
-            console.log(`Type: ${type}`);
-            console.log(`To: ${email}`);
-            console.log(`Code: ${otp}`);
-            console.log("=====================================");
-          } else {
-            console.log("=====================================");
-            console.log(`📧 Email OTP Reset Password`);
-            console.log(`Type: ${type}`);
-            console.log(`To: ${email}`);
-            console.log(`Code: ${otp}`);
-            console.log("=====================================");
-          }
-        } else {
-          // Production email sending logic
-          // Example with Resend:
-          // await resend.emails.send({
-          //   from: 'noreply@emetals.com',
-          //   to: email,
-          //   subject: type === 'email-verification' ? 'Verify your email' : 'Reset your password',
-          //   html: getEmailTemplate(type, otp)
-          // });
-        }
+        await sendMail({
+          to: email,
+          ...oneTimeCodeEmail({
+            type,
+            code: otp,
+            expiresInMinutes: OTP_EXPIRES_IN / 60,
+          }),
+        });
       },
       // OTP expiration time (in seconds)
       otpLength: 6,
-      expiresIn: 60 * 10, // 10 minutes
+      expiresIn: OTP_EXPIRES_IN,
     }),
   ],
   // Session configuration
   session: {
     expiresIn: 60 * 60 * 24 * 30, // 30 days
     updateAge: 60 * 60 * 24, // Update session if older than 24 hours
+    additionalFields: {
+      // Set by the step-up hook above, never by clients
+      steppedUpAt: {
+        type: "date",
+        required: false,
+        input: false,
+      },
+      // Filled in from geo headers when the session is created
+      city: {
+        type: "string",
+        required: false,
+        input: false,
+      },
+      country: {
+        type: "string",
+        required: false,
+        input: false,
+      },
+    },
   },
   // Security configuration
   rateLimit: {
@@ -66,7 +326,9 @@ export const auth = betterAuth({
     max: 10, // Max 10 requests per minute
   },
   // Trusted origins for CORS
-  trustedOrigins: process.env.NEXT_PUBLIC_BASE_URL
-    ? [process.env.NEXT_PUBLIC_BASE_URL]
-    : ["http://localhost:3000"],
+  trustedOrigins: [
+    baseURL,
+    // Apple posts its sign-in response back from its own origin
+    ...("apple" in socialProviders ? ["https://appleid.apple.com"] : []),
+  ],
 });
@@ -0,0 +1,139 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+import { getProductById, upsertCartItem } from "@/database/queries";
+import { PriceQuoteError, createPriceQuote } from "@/lib/price-quotes";
+import { getServerSession } from "@/lib/session";
+
+import {
+  addToCartAction,
+  checkoutCartAction,
+  updateCartItemAction,
+} from "../actions";
+import { priceCart, resolveCart } from "../index";
+
+vi.mock("next/navigation", () => ({
+  redirect: vi.fn((url: string) => {
+    throw new Error(`NEXT_REDIRECT ${url}`);
+  }),
+}));
+vi.mock("@/database/queries", () => ({
+  deleteCartItem: vi.fn(),
+  getProductById: vi.fn(),
+  upsertCartItem: vi.fn(),
+}));
+vi.mock("@/lib/price-quotes", async (importOriginal) => ({
+  PriceQuoteError: (await importOriginal<typeof import("@/lib/price-quotes")>())
+    .PriceQuoteError,
+  createPriceQuote: vi.fn(),
+}));
+vi.mock("@/lib/session", () => ({ getServerSession: vi.fn() }));
+vi.mock("../index", () => ({
+  mergeAnonymousCart: vi.fn(),
+  priceCart: vi.fn(),
+  resolveCart: vi.fn(),
+}));
+
+const emptyCart = {
+  items: [],
+  itemCount: 0,
+  subtotal: 0,
+  pricedAt: new Date(),
+};
+const cart = {
+  id: "cart-1",
+  items: [{ productId: "eagle", quantity: 2 }],
+};
+
+describe("addToCartAction", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(resolveCart).mockResolvedValue(cart as never);
+    vi.mocked(priceCart).mockResolvedValue(emptyCart);
+  });
+
+  it("refuses products that don't exist", async () => {
+    vi.mocked(getProductById).mockResolvedValue(undefined);
+
+    await expect(addToCartAction("missing", 1)).resolves.toEqual({
+      error: "This product is no longer available",
+    });
+    expect(upsertCartItem).not.toHaveBeenCalled();
+  });
+
+  it("refuses unpublished products", async () => {
+    vi.mocked(getProductById).mockResolvedValue({ status: "draft" } as never);
+
+    await expect(addToCartAction("eagle", 1)).resolves.toHaveProperty("error");
+    expect(upsertCartItem).not.toHaveBeenCalled();
+  });
+
+  it("adds published products", async () => {
+    vi.mocked(getProductById).mockResolvedValue({
+      status: "published",
+    } as never);
+
+    await expect(addToCartAction("eagle", 3)).resolves.toBe(emptyCart);
+    expect(upsertCartItem).toHaveBeenCalledWith("cart-1", "eagle", 3, "add");
+  });
+
+  it("returns a form error for invalid quantities", async () => {
+    await expect(addToCartAction("eagle", 1000)).resolves.toEqual({
+      error: "Quantity is too large",
+    });
+    await expect(addToCartAction("eagle", 1.5)).resolves.toEqual({
+      error: "Quantity must be a whole number",
+    });
+    expect(upsertCartItem).not.toHaveBeenCalled();
+  });
+});
+
+describe("updateCartItemAction", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it("returns a form error for invalid quantities", async () => {
+    await expect(updateCartItemAction("eagle", 0)).resolves.toEqual({
+      error: "Quantity must be at least 1",
+    });
+    expect(upsertCartItem).not.toHaveBeenCalled();
+  });
+});
+
+describe("checkoutCartAction", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(getServerSession).mockResolvedValue({
+      user: { id: "user-1" },
+      session: { id: "session-1" },
+    } as never);
+    vi.mocked(resolveCart).mockResolvedValue(cart as never);
+  });
+
+  it("returns the reason when a line can no longer be sold", async () => {
+    vi.mocked(createPriceQuote).mockRejectedValue(
+      new PriceQuoteError(
+        "1 oz Gold Eagle is no longer available, please remove it to continue",
+        "unavailable",
+      ),
+    );
+
+    await expect(checkoutCartAction()).resolves.toEqual({
+      error:
+        "1 oz Gold Eagle is no longer available, please remove it to continue",
+    });
+  });
+
+  it("quotes with the checkout payment method and redirects", async () => {
+    vi.mocked(createPriceQuote).mockResolvedValue({ id: "quote-1" } as never);
+
+    await expect(checkoutCartAction()).rejects.toThrow(
+      "NEXT_REDIRECT /checkout/quote-1",
+    );
+    expect(createPriceQuote).toHaveBeenCalledWith(
+      { userId: "user-1", sessionId: "session-1" },
+      [{ productId: "eagle", quantity: 2 }],
+      "card",
+    );
+  });
+});
@@ -0,0 +1,135 @@
+"use server";
+
+import { redirect } from "next/navigation";
+
+import {
+  deleteCartItem,
+  getProductById,
+  upsertCartItem,
+} from "@/database/queries";
+import { PriceQuoteError, createPriceQuote } from "@/lib/price-quotes";
+import { CHECKOUT_PAYMENT_METHOD } from "@/lib/pricing";
+import { getServerSession } from "@/lib/session";
+import { cartItemSchema } from "@/lib/validation/cart-schema";
+
+import { mergeAnonymousCart, priceCart, resolveCart } from "./index";
+import type { CartActionResult, PricedCart } from "./types";
+
+/**
+ * Whether a product exists and is on sale
+ */
+async function isPurchasable(productId: string) {
+  const product = await getProductById(productId);
+  return product?.status === "published";
+}
+
+/**
+ * Current cart, priced live
+ */
+export async function getCartAction(): Promise<PricedCart> {
+  return priceCart(await resolveCart());
+}
+
+/**
+ * Add units of a product to the cart
+ */
+export async function addToCartAction(
+  productId: string,
+  quantity: number,
+): Promise<CartActionResult> {
+  const parsed = cartItemSchema.safeParse({ productId, quantity });
+  if (!parsed.success) return { error: parsed.error.issues[0].message };
+
+  const item = parsed.data;
+  if (!(await isPurchasable(item.productId))) {
+    return { error: "This product is no longer available" };
+  }
+
+  const cart = await resolveCart({ create: true });
+
+  await upsertCartItem(cart.id, item.productId, item.quantity, "add");
+  return priceCart(await resolveCart());
+}
+
+/**
+ * Set the quantity of a cart line
+ */
+export async function updateCartItemAction(
+  productId: string,
+  quantity: number,
+): Promise<CartActionResult> {
+  const parsed = cartItemSchema.safeParse({ productId, quantity });
+  if (!parsed.success) return { error: parsed.error.issues[0].message };
+
+  const item = parsed.data;
+  if (!(await isPurchasable(item.productId))) {
+    return {
+      error: "This product is no longer available, please remove it",
+    };
+  }
+
+  const cart = await resolveCart({ create: true });
+
+  await upsertCartItem(cart.id, item.productId, item.quantity, "set");
+  return priceCart(await resolveCart());
+}
+
+/**
+ * Remove a product from the cart
+ */
+export async function removeFromCartAction(
+  productId: string,
+): Promise<PricedCart> {
+  const cart = await resolveCart();
+
+  if (cart) {
+    await deleteCartItem(cart.id, productId);
+  }
+  return priceCart(await resolveCart());
+}
+
+/**
+ * Merge the anonymous cart into the user's cart right after sign-in
+ */
+export async function mergeCartAction(): Promise<PricedCart> {
+  const session = await getServerSession();
+
+  if (session) {
+    await mergeAnonymousCart(session.user.id);
+  }
+  return priceCart(await resolveCart());
+}
+
+/**
+ * Lock the cart's prices in a quote and continue to checkout
+ * Returns an error when a line can no longer be sold
+ */
+export async function checkoutCartAction(): Promise<{ error?: string }> {
+  const session = await getServerSession();
+  if (!session) {
+    redirect("/login?callbackUrl=/cart");
+  }
+
+  const cart = await resolveCart();
+  if (!cart?.items.length) {
+    redirect("/cart");
+  }
+
+  let quoteId: string;
+  try {
+    const quote = await createPriceQuote(
+      { userId: session.user.id, sessionId: session.session.id },
+      cart.items.map((item) => ({
+        productId: item.productId,
+        quantity: item.quantity,
+      })),
+      CHECKOUT_PAYMENT_METHOD,
+    );
+    quoteId = quote.id;
+  } catch (error) {
+    if (error instanceof PriceQuoteError) return { error: error.message };
+    throw error;
+  }
+
+  redirect(`/checkout/${quoteId}`);
+}
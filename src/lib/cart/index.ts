@@ -0,0 +1,139 @@
+import { cookies } from "next/headers";
+
+import {
+  type CartWithItems,
+  assignCartToUser,
+  getCartByAnonymousId,
+  getCartByUserId,
+  insertCart,
+  mergeCarts,
+} from "@/database/queries";
+import {
+  CHECKOUT_PAYMENT_METHOD,
+  computePrice,
+  getPricingContext,
+} from "@/lib/pricing";
+import { getServerSession } from "@/lib/session";
+import { getSpotPrices } from "@/lib/spot-prices";
+
+import type { PricedCart } from "./types";
+
+export * from "./types";
+
+/**
+ * Cookie identifying an anonymous visitor's cart
+ */
+export const CART_COOKIE = "emetals_cart";
+
+const CART_COOKIE_MAX_AGE = 60 * 60 * 24 * 30; // 30 days
+
+/**
+ * Find the cart for the current request: the user's cart when signed in,
+ * otherwise the anonymous cart from the cookie
+ * With `create`, a missing cart is created (only allowed in actions and
+ * route handlers, where cookies can be set)
+ */
+export async function resolveCart(options: {
+  create: true;
+}): Promise<CartWithItems>;
+export async function resolveCart(options?: {
+  create?: false;
+}): Promise<CartWithItems | undefined>;
+export async function resolveCart({ create = false } = {}) {
+  const session = await getServerSession();
+
+  if (session) {
+    const existing = await getCartByUserId(session.user.id);
+    if (existing || !create) return existing;
+
+    await insertCart({ userId: session.user.id });
+    return getCartByUserId(session.user.id);
+  }
+
+  const cookieStore = await cookies();
+  const anonymousId = cookieStore.get(CART_COOKIE)?.value;
+
+  if (anonymousId) {
+    const existing = await getCartByAnonymousId(anonymousId);
+    if (existing || !create) return existing;
+  } else if (!create) {
+    return undefined;
+  }
+
+  const newAnonymousId = anonymousId ?? crypto.randomUUID();
+  await insertCart({ anonymousId: newAnonymousId });
+  cookieStore.set(CART_COOKIE, newAnonymousId, {
+    httpOnly: true,
+    sameSite: "lax",
+    secure: process.env.NODE_ENV === "production",
+    path: "/",
+    maxAge: CART_COOKIE_MAX_AGE,
+  });
+
+  return getCartByAnonymousId(newAnonymousId);
+}
+
+/**
+ * Price every line of a cart from current spot and pricing rules
+ */
+export async function priceCart(
+  cart: CartWithItems | undefined,
+): Promise<PricedCart> {
+  if (!cart?.items.length) {
+    return { items: [], itemCount: 0, subtotal: 0, pricedAt: new Date() };
+  }
+
+  const [{ prices: spotPrices }, pricingContext] = await Promise.all([
+    getSpotPrices(),
+    getPricingContext(CHECKOUT_PAYMENT_METHOD),
+  ]);
+
+  const items = cart.items.map(({ product, quantity }) => {
+    const price = computePrice(
+      product,
+      spotPrices[product.metal],
+      quantity,
+      pricingContext,
+    );
+
+    return {
+      productId: product.id,
+      slug: product.slug,
+      name: product.name,
+      metal: product.metal,
+      imageUrl: product.images[0]?.url ?? null,
+      quantity,
+      unitPrice: price.unitPrice,
+      lineTotal: price.lineTotal,
+    };
+  });
+
+  return {
+    items,
+    itemCount: items.reduce((sum, item) => sum + item.quantity, 0),
+    subtotal: items.reduce((sum, item) => sum + item.lineTotal, 0),
+    pricedAt: new Date(),
+  };
+}
+
+/**
+ * Fold the anonymous cart from the cookie into the signed-in user's cart
+ */
+export async function mergeAnonymousCart(userId: string) {
+  const cookieStore = await cookies();
+  const anonymousId = cookieStore.get(CART_COOKIE)?.value;
+  if (!anonymousId) return;
+
+  const anonymousCart = await getCartByAnonymousId(anonymousId);
+  if (anonymousCart) {
+    const userCart = await getCartByUserId(userId);
+
+    if (userCart) {
+      await mergeCarts(anonymousCart.id, userCart.id);
+    } else {
+      await assignCartToUser(anonymousCart.id, userId);
+    }
+  }
+
+  cookieStore.delete(CART_COOKIE);
+}
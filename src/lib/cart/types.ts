@@ -0,0 +1,31 @@
+import type { MetalType } from "@/database/schema";
+
+/**
+ * Cart line priced at current spot, amounts in cents
+ */
+export interface PricedCartItem {
+  productId: string;
+  slug: string;
+  name: string;
+  metal: MetalType;
+  imageUrl: string | null;
+  quantity: number;
+  unitPrice: number;
+  lineTotal: number;
+}
+
+/**
+ * Cart as sent to the client
+ * Prices are recomputed on every read and never trusted from storage
+ */
+export interface PricedCart {
+  items: PricedCartItem[];
+  itemCount: number;
+  subtotal: number;
+  pricedAt: Date;
+}
+
+/**
+ * Cart mutation outcome: the re-priced cart, or why the change was refused
+ */
+export type CartActionResult = PricedCart | { error: string };
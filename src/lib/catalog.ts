@@ -0,0 +1,53 @@
+import type { MetalType, ProductForm, ProductStatus } from "@/database/schema";
+
+/**
+ * Display metadata for catalog metals and product forms
+ */
+export const METAL_OPTIONS: { value: MetalType; label: string }[] = [
+  { value: "gold", label: "Gold" },
+  { value: "silver", label: "Silver" },
+  { value: "platinum", label: "Platinum" },
+  { value: "palladium", label: "Palladium" },
+];
+
+export const FORM_OPTIONS: { value: ProductForm; label: string }[] = [
+  { value: "bar", label: "Bars" },
+  { value: "coin", label: "Coins" },
+  { value: "round", label: "Rounds" },
+];
+
+/**
+ * Back office product visibility states
+ */
+export const PRODUCT_STATUS_OPTIONS: { value: ProductStatus; label: string }[] =
+  [
+    { value: "draft", label: "Draft" },
+    { value: "published", label: "Published" },
+    { value: "archived", label: "Archived" },
+  ];
+
+/**
+ * Catalog sort options, encoded in the `sort` search param
+ */
+export const SORT_OPTIONS = [
+  { value: "price-asc", label: "Price: low to high" },
+  { value: "price-desc", label: "Price: high to low" },
+  { value: "premium-asc", label: "Premium: low to high" },
+  { value: "premium-desc", label: "Premium: high to low" },
+] as const;
+
+export type CatalogSort = (typeof SORT_OPTIONS)[number]["value"];
+
+/**
+ * Tailwind gradient used for metal swatches and image placeholders
+ */
+export const METAL_GRADIENTS: Record<MetalType, string> = {
+  gold: "from-yellow-400 to-yellow-600",
+  silver: "from-slate-300 to-slate-500",
+  platinum: "from-zinc-300 to-zinc-500",
+  palladium: "from-stone-300 to-stone-500",
+};
+
+export const METAL_LABELS = Object.fromEntries(
+  METAL_OPTIONS.map((option) => [option.value, option.label]),
+) as Record<MetalType, string>;
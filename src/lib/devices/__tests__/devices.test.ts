@@ -0,0 +1,145 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+
+import {
+  describeDevice,
+  formatLocation,
+  getGeoHeaderSource,
+  locationFromHeaders,
+  parseKnownDevice,
+  parseUserAgent,
+  rememberUserOnDevice,
+} from "..";
+
+const USER_AGENTS = {
+  chromeMac:
+    "Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/128.0.0.0 Safari/537.36",
+  edgeWindows:
+    "Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/128.0.0.0 Safari/537.36 Edg/128.0.0.0",
+  safariIphone:
+    "Mozilla/5.0 (iPhone; CPU iPhone OS 17_5 like Mac OS X) AppleWebKit/605.1.15 (KHTML, like Gecko) Version/17.5 Mobile/15E148 Safari/604.1",
+  androidTablet:
+    "Mozilla/5.0 (Linux; Android 14; SM-X710) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/128.0.0.0 Safari/537.36",
+};
+
+describe("parseUserAgent", () => {
+  it.each([
+    [USER_AGENTS.chromeMac, "Chrome on macOS", "desktop"],
+    [USER_AGENTS.edgeWindows, "Edge on Windows", "desktop"],
+    [USER_AGENTS.safariIphone, "Safari on iOS", "mobile"],
+    [USER_AGENTS.androidTablet, "Chrome on Android", "tablet"],
+  ])("recognises %s", (userAgent, label, type) => {
+    const device = parseUserAgent(userAgent);
+
+    expect(describeDevice(device)).toBe(label);
+    expect(device.type).toBe(type);
+  });
+
+  it("describes an unknown agent", () => {
+    expect(describeDevice(parseUserAgent(null))).toBe("Unknown device");
+  });
+});
+
+describe("locationFromHeaders", () => {
+  it("reads Vercel's URL-encoded city", () => {
+    const headers = new Headers({
+      "x-vercel-ip-city": "S%C3%A3o%20Paulo",
+      "x-vercel-ip-country": "BR",
+    });
+
+    expect(locationFromHeaders(headers, "vercel")).toEqual({
+      city: "São Paulo",
+      country: "BR",
+    });
+  });
+
+  it("keeps a malformed city instead of failing sign-in", () => {
+    const headers = new Headers({ "x-vercel-ip-city": "Bad%E0%A4%A" });
+
+    expect(locationFromHeaders(headers, "vercel").city).toBe("Bad%E0%A4%A");
+  });
+
+  it("only reads the trusted proxy's headers", () => {
+    const headers = new Headers({
+      "x-vercel-ip-city": "Austin",
+      "x-vercel-ip-country": "US",
+      "cf-ipcountry": "DE",
+    });
+
+    expect(locationFromHeaders(headers, null)).toEqual({
+      city: null,
+      country: null,
+    });
+    expect(locationFromHeaders(headers, "cloudflare")).toEqual({
+      city: null,
+      country: "DE",
+    });
+  });
+
+  it("ignores Cloudflare's unknown and Tor country codes", () => {
+    for (const code of ["XX", "T1"]) {
+      const headers = new Headers({ "cf-ipcountry": code });
+      expect(locationFromHeaders(headers, "cloudflare").country).toBeNull();
+    }
+  });
+});
+
+describe("getGeoHeaderSource", () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it("trusts nothing unless configured", () => {
+    vi.stubEnv("TRUSTED_GEO_HEADERS", undefined);
+    vi.stubEnv("VERCEL", undefined);
+
+    expect(getGeoHeaderSource()).toBeNull();
+  });
+
+  it("defaults to Vercel's headers on Vercel", () => {
+    vi.stubEnv("TRUSTED_GEO_HEADERS", undefined);
+    vi.stubEnv("VERCEL", "1");
+
+    expect(getGeoHeaderSource()).toBe("vercel");
+  });
+
+  it("rejects an unknown proxy", () => {
+    vi.stubEnv("TRUSTED_GEO_HEADERS", "nginx");
+
+    expect(() => getGeoHeaderSource()).toThrow(/TRUSTED_GEO_HEADERS/);
+  });
+});
+
+describe("formatLocation", () => {
+  it("names the country", () => {
+    expect(formatLocation({ city: "Austin", country: "US" })).toBe(
+      "Austin, United States",
+    );
+    expect(formatLocation({ city: null, country: null })).toBeNull();
+  });
+});
+
+describe("known-device cookie", () => {
+  it("moves the latest user to the front and keeps five", () => {
+    const value = ["u1", "u2", "u3", "u4", "u5"].join(".");
+
+    expect(parseKnownDevice(rememberUserOnDevice(value, "u3"))).toEqual([
+      "u3",
+      "u1",
+      "u2",
+      "u4",
+      "u5",
+    ]);
+    expect(parseKnownDevice(rememberUserOnDevice(value, "u6"))).toEqual([
+      "u6",
+      "u1",
+      "u2",
+      "u3",
+      "u4",
+    ]);
+  });
+
+  it("reads a missing cookie as no users", () => {
+    expect(parseKnownDevice(undefined)).toEqual([]);
+    expect(rememberUserOnDevice(null, "u1")).toBe("u1");
+  });
+});
@@ -0,0 +1,161 @@
+import type {
+  DeviceInfo,
+  DeviceLocation,
+  DeviceType,
+  GeoHeaderSource,
+} from "./types";
+
+export * from "./types";
+
+/**
+ * Signed cookie listing the users who have signed in on this browser
+ */
+export const KNOWN_DEVICE_COOKIE = "emetals.known_device";
+
+/**
+ * How long a browser stays recognised without signing in again
+ */
+export const KNOWN_DEVICE_MAX_AGE = 60 * 60 * 24 * 365; // 1 year
+
+// Shared browsers remember only the most recent accounts
+const MAX_KNOWN_USERS = 5;
+
+// Checked in order: most browsers also claim to be Chrome or Safari
+const BROWSERS: [pattern: RegExp, name: string][] = [
+  [/\bEdg(?:e|A|iOS)?\//, "Edge"],
+  [/\bOPR\/|\bOpera\b/, "Opera"],
+  [/\bSamsungBrowser\//, "Samsung Internet"],
+  [/\bFirefox\/|\bFxiOS\//, "Firefox"],
+  [/\bChrome\/|\bCriOS\//, "Chrome"],
+  [/\bVersion\/[\d.]+.*\bSafari\//, "Safari"],
+];
+
+const OPERATING_SYSTEMS: [pattern: RegExp, name: string][] = [
+  [/\biPad\b/, "iPadOS"],
+  [/\biPhone\b|\biPod\b/, "iOS"],
+  [/\bAndroid\b/, "Android"],
+  [/\bWindows\b/, "Windows"],
+  [/\bCrOS\b/, "ChromeOS"],
+  [/\bMac OS X\b|\bMacintosh\b/, "macOS"],
+  [/\bLinux\b/, "Linux"],
+];
+
+const countryNames = new Intl.DisplayNames(["en"], { type: "region" });
+
+/**
+ * Browser, operating system and form factor from a user agent string
+ */
+export function parseUserAgent(userAgent: string | null): DeviceInfo {
+  const ua = userAgent ?? "";
+  const match = (patterns: [RegExp, string][]) =>
+    patterns.find(([pattern]) => pattern.test(ua))?.[1] ?? null;
+
+  let type: DeviceType = "desktop";
+  if (
+    /\biPad\b|\bTablet\b/.test(ua) ||
+    /\bAndroid\b(?!.*\bMobile\b)/.test(ua)
+  ) {
+    type = "tablet";
+  } else if (/\bMobi|\biPhone\b|\biPod\b/.test(ua)) {
+    type = "mobile";
+  }
+
+  return { browser: match(BROWSERS), os: match(OPERATING_SYSTEMS), type };
+}
+
+/**
+ * Short device label, e.g. "Chrome on macOS"
+ */
+export function describeDevice({ browser, os }: DeviceInfo) {
+  if (browser && os) return `${browser} on ${os}`;
+  return browser ?? os ?? "Unknown device";
+}
+
+/**
+ * Proxy whose geo headers are trusted, from TRUSTED_GEO_HEADERS
+ * Defaults to Vercel when deployed there; anywhere else clients could send
+ * the headers themselves, so they're ignored unless configured
+ */
+export function getGeoHeaderSource(): GeoHeaderSource | null {
+  const value =
+    process.env.TRUSTED_GEO_HEADERS ?? (process.env.VERCEL ? "vercel" : "");
+
+  switch (value) {
+    case "vercel":
+    case "cloudflare":
+      return value;
+    case "":
+    case "none":
+      return null;
+    default:
+      throw new Error(`Unknown TRUSTED_GEO_HEADERS "${value}"`);
+  }
+}
+
+/**
+ * Percent-decode a header, keeping the raw value when it's malformed
+ */
+function decodeHeader(value: string) {
+  try {
+    return decodeURIComponent(value);
+  } catch {
+    return value;
+  }
+}
+
+/**
+ * Approximate location from the trusted proxy's geo headers
+ * Both are null without one, e.g. in local development
+ */
+export function locationFromHeaders(
+  headers: Headers,
+  source: GeoHeaderSource | null,
+): DeviceLocation {
+  if (!source) return { city: null, country: null };
+
+  const city =
+    source === "vercel"
+      ? headers.get("x-vercel-ip-city")
+      : headers.get("cf-ipcity");
+  const country =
+    source === "vercel"
+      ? headers.get("x-vercel-ip-country")
+      : headers.get("cf-ipcountry");
+
+  return {
+    // Vercel URL-encodes city names
+    city: city ? decodeHeader(city) : null,
+    // Cloudflare uses XX for unknown and T1 for Tor
+    country:
+      country && /^[A-Z]{2}$/.test(country) && country !== "XX"
+        ? country
+        : null,
+  };
+}
+
+/**
+ * Readable location, e.g. "Austin, United States"; null when unknown
+ */
+export function formatLocation({ city, country }: DeviceLocation) {
+  const countryName = country ? (countryNames.of(country) ?? country) : null;
+  return [city, countryName].filter(Boolean).join(", ") || null;
+}
+
+/**
+ * User ids stored in the known-device cookie
+ */
+export function parseKnownDevice(value: string | null | false | undefined) {
+  return value ? value.split(".").filter(Boolean) : [];
+}
+
+/**
+ * Known-device cookie value with a user added as the most recent
+ */
+export function rememberUserOnDevice(
+  value: string | null | false | undefined,
+  userId: string,
+) {
+  return [userId, ...parseKnownDevice(value).filter((id) => id !== userId)]
+    .slice(0, MAX_KNOWN_USERS)
+    .join(".");
+}
@@ -0,0 +1,26 @@
+export type DeviceType = "desktop" | "mobile" | "tablet";
+
+/**
+ * Browser and platform read from a user agent string
+ */
+export interface DeviceInfo {
+  /** Null when the browser isn't recognised */
+  browser: string | null;
+  /** Null when the operating system isn't recognised */
+  os: string | null;
+  type: DeviceType;
+}
+
+/**
+ * Proxy in front of the app whose geo headers can be trusted
+ */
+export type GeoHeaderSource = "vercel" | "cloudflare";
+
+/**
+ * Approximate location of a sign-in, from the hosting provider's geo headers
+ */
+export interface DeviceLocation {
+  city: string | null;
+  /** ISO 3166-1 alpha-2 code */
+  country: string | null;
+}
@@ -0,0 +1,120 @@
+import { describe, expect, it } from "vitest";
+
+import { escapeHtml, html } from "../html";
+import { EMAIL_PREVIEWS } from "../previews";
+import {
+  newDeviceSignInEmail,
+  orderReceivedEmail,
+  orderShippedEmail,
+  readyForPickupEmail,
+} from "../templates";
+import type { OrderEmailData } from "../types";
+
+const hostile = `<script>alert("x")</script> & 'Co'`;
+const escaped =
+  "&lt;script&gt;alert(&quot;x&quot;)&lt;/script&gt; &amp; &#39;Co&#39;";
+
+const order: OrderEmailData = {
+  number: 7,
+  customerName: hostile,
+  fulfillmentMethod: "delivery",
+  lines: [
+    {
+      productName: `<img src=x onerror="steal()">`,
+      sku: "BAR-1",
+      metal: "gold",
+      quantity: 1,
+      spotPerOz: 241_250,
+      unitPrice: 251_900,
+      lineTotal: 251_900,
+    },
+  ],
+  subtotal: 251_900,
+  shipping: 2_500,
+  total: 254_400,
+  url: `https://shop.example.com/orders?from="email"`,
+};
+
+describe("html", () => {
+  it("escapes interpolations but not nested markup", () => {
+    const bold = html`<b>${"a < b"}</b>`;
+
+    expect(html`<p>${bold} ${[bold, "&"]}</p>`.value).toBe(
+      "<p><b>a &lt; b</b> <b>a &lt; b</b>&amp;</p>",
+    );
+  });
+});
+
+describe("email templates", () => {
+  it.each(Object.entries(EMAIL_PREVIEWS))(
+    "renders %s as a complete HTML and text email",
+    (_name, preview) => {
+      const email = preview.render();
+
+      expect(email.subject).not.toBe("");
+      expect(email.html).toMatch(/^<!doctype html>/);
+      expect(email.html).toContain(
+        `<title>${escapeHtml(email.subject)}</title>`,
+      );
+      expect(email.html).toContain("</html>");
+      expect(email.text).not.toMatch(/<[a-z]/i);
+    },
+  );
+
+  it("escapes customer and product text in order emails", () => {
+    const email = orderReceivedEmail(order);
+
+    expect(email.html).not.toContain("<script>");
+    expect(email.html).not.toContain("<img");
+    expect(email.html).toContain(escaped);
+    expect(email.html).toContain(
+      "&lt;img src=x onerror=&quot;steal()&quot;&gt;",
+    );
+    expect(email.text).toContain(hostile);
+  });
+
+  it("escapes attribute values such as action links", () => {
+    const email = orderReceivedEmail(order);
+
+    expect(email.html).toContain(
+      'href="https://shop.example.com/orders?from=&quot;email&quot;"',
+    );
+  });
+
+  it("escapes details rows", () => {
+    const shipped = orderShippedEmail({
+      order,
+      trackingCarrier: hostile,
+      trackingNumber: "1Z<999>",
+      address: null,
+    });
+    const pickup = readyForPickupEmail({
+      order: { ...order, fulfillmentMethod: "pickup" },
+      location: {
+        name: hostile,
+        line1: "1 Main St",
+        line2: null,
+        city: "Austin",
+        region: "TX",
+        postalCode: "78701",
+        country: "US",
+        timeZone: "America/Chicago",
+      },
+      slotAt: null,
+    });
+    const signIn = newDeviceSignInEmail({
+      customerName: "Jordan",
+      device: hostile,
+      location: null,
+      ipAddress: null,
+      signedInAt: "now",
+      url: "https://shop.example.com/settings/security",
+    });
+
+    for (const email of [shipped, pickup, signIn]) {
+      expect(email.html).not.toContain("<script>");
+      expect(email.html).toContain(escaped);
+    }
+    expect(shipped.html).toContain("1Z&lt;999&gt;");
+  });
+});
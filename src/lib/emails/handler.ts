@@ -0,0 +1,154 @@
+import {
+  type OrderForEmail,
+  getOrderForEmail,
+  getRefundById,
+  getRefundedAmount,
+} from "@/database/queries";
+import { describeDevice, formatLocation, parseUserAgent } from "@/lib/devices";
+import { formatDateTime } from "@/lib/format";
+import { sendMail } from "@/lib/mail";
+import type { DomainEvent, OutboxHandler } from "@/lib/outbox/types";
+import { absoluteUrl } from "@/lib/payments";
+
+import {
+  newDeviceSignInEmail,
+  orderReceivedEmail,
+  orderRefundedEmail,
+  orderShippedEmail,
+  paymentConfirmedEmail,
+  readyForPickupEmail,
+} from "./templates";
+import type { EmailContent, OrderEmailData } from "./types";
+
+/**
+ * Order fields the templates render
+ */
+function orderEmailData(order: OrderForEmail): OrderEmailData {
+  return {
+    number: order.number,
+    customerName: order.user.name,
+    fulfillmentMethod: order.fulfillmentMethod,
+    lines: order.lines,
+    subtotal: order.subtotal,
+    shipping: order.shipping,
+    total: order.total,
+    url: absoluteUrl("/dashboard"),
+  };
+}
+
+/**
+ * Render the email a domain event calls for, with its recipient
+ * Returns null for events customers aren't told about
+ */
+async function emailForEvent(
+  event: DomainEvent,
+): Promise<{ to: string; content: EmailContent } | null> {
+  switch (event.type) {
+    case "order.created": {
+      const order = await getOrderForEmail(event.payload.orderId);
+      if (!order) return null;
+
+      return {
+        to: order.user.email,
+        content: orderReceivedEmail(orderEmailData(order)),
+      };
+    }
+
+    case "order.status_changed": {
+      const order = await getOrderForEmail(event.payload.orderId);
+      if (!order) return null;
+      const data = orderEmailData(order);
+
+      switch (event.payload.status) {
+        case "paid":
+          return { to: order.user.email, content: paymentConfirmedEmail(data) };
+        case "shipped":
+          if (!order.trackingNumber) return null;
+          return {
+            to: order.user.email,
+            content: orderShippedEmail({
+              order: data,
+              trackingCarrier: order.trackingCarrier,
+              trackingNumber: order.trackingNumber,
+              address: order.shippingAddress,
+            }),
+          };
+        case "ready_for_pickup":
+          if (!order.pickupLocation) return null;
+          return {
+            to: order.user.email,
+            content: readyForPickupEmail({
+              order: data,
+              location: order.pickupLocation,
+              slotAt: order.pickupSlotAt,
+            }),
+          };
+        // Refunds are announced when the money moves, see below
+        default:
+          return null;
+      }
+    }
+
+    case "payment.refund_updated": {
+      if (event.payload.status !== "succeeded") return null;
+
+      const refund = await getRefundById(event.payload.refundId);
+      const order = refund && (await getOrderForEmail(refund.payment.orderId));
+      if (!refund || !order) return null;
+
+      const refunded = await getRefundedAmount(refund.paymentId);
+      return {
+        to: order.user.email,
+        content: orderRefundedEmail({
+          order: orderEmailData(order),
+          amount: refund.amount,
+          fullyRefunded: refunded >= refund.payment.amount,
+        }),
+      };
+    }
+
+    case "user.new_device_sign_in": {
+      const { payload } = event;
+      return {
+        to: payload.email,
+        content: newDeviceSignInEmail({
+          customerName: payload.name,
+          device: describeDevice(parseUserAgent(payload.userAgent)),
+          location: formatLocation(payload),
+          ipAddress: payload.ipAddress,
+          signedInAt: `${formatDateTime(event.createdAt, "UTC")} UTC`,
+          url: absoluteUrl("/settings/security"),
+        }),
+      };
+    }
+
+    default:
+      return null;
+  }
+}
+
+/**
+ * Outbox handler emailing customers as their order moves along, and when
+ * their account is signed into from a new device
+ */
+export const emailOutboxHandler: OutboxHandler = {
+  name: "email",
+  handles: [
+    "order.created",
+    "order.status_changed",
+    "payment.refund_updated",
+    "user.new_device_sign_in",
+  ],
+  async handle(event, { idempotencyKey }) {
+    const email = await emailForEvent(event);
+    if (!email) return;
+
+    await sendMail({
+      to: email.to,
+      subject: email.content.subject,
+      html: email.content.html,
+      text: email.content.text,
+      idempotencyKey,
+    });
+  },
+};
@@ -0,0 +1,52 @@
+/**
+ * Markup that is already escaped and can be inserted as is
+ */
+export class SafeHtml {
+  constructor(readonly value: string) {}
+
+  toString() {
+    return this.value;
+  }
+}
+
+type HtmlValue = SafeHtml | string | number | false | null | undefined;
+
+const ESCAPES: Record<string, string> = {
+  "&": "&amp;",
+  "<": "&lt;",
+  ">": "&gt;",
+  '"': "&quot;",
+  "'": "&#39;",
+};
+
+/**
+ * Escape text for use in HTML content or attribute values
+ */
+export const escapeHtml = (value: string) =>
+  value.replace(/[&<>"']/g, (char) => ESCAPES[char]);
+
+const renderValue = (value: HtmlValue | HtmlValue[]): string => {
+  if (Array.isArray(value)) return value.map(renderValue).join("");
+  if (value instanceof SafeHtml) return value.value;
+  if (value === null || value === undefined || value === false) return "";
+  return escapeHtml(String(value));
+};
+
+/**
+ * Tagged template building HTML with every interpolation escaped
+ * Nested html`` results and arrays of them are inserted unescaped
+ */
+export function html(
+  strings: TemplateStringsArray,
+  ...values: (HtmlValue | HtmlValue[])[]
+): SafeHtml {
+  return new SafeHtml(
+    strings.reduce(
+      (markup, part, index) =>
+        markup +
+        part +
+        (index < values.length ? renderValue(values[index]) : ""),
+      "",
+    ),
+  );
+}
@@ -0,0 +1,4 @@
+export { emailOutboxHandler } from "./handler";
+export { EMAIL_PREVIEWS } from "./previews";
+export * from "./templates";
+export * from "./types";
@@ -0,0 +1,174 @@
+import { type SafeHtml, html } from "./html";
+import type { EmailContent } from "./types";
+
+const GOLD = "#ca8a04";
+const TEXT = "#18181b";
+export const MUTED = "#71717a";
+export const BORDER = "#e4e4e7";
+const FONT =
+  "-apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, Helvetica, Arial, sans-serif";
+
+/**
+ * Section of an email, in both variants
+ */
+export interface EmailBlock {
+  html: SafeHtml;
+  text: string;
+}
+
+interface EmailLayoutOptions {
+  subject: string;
+  /** Preview line inbox lists show next to the subject */
+  preheader: string;
+  heading: string;
+  paragraphs: string[];
+  /** Details shown below the paragraphs, e.g. an order summary */
+  blocks?: EmailBlock[];
+  action?: { label: string; url: string };
+}
+
+/**
+ * Wordmark matching the site header: a gold tile and the Emetals name
+ */
+const logo = html`<table role="presentation" cellpadding="0" cellspacing="0">
+  <tr>
+    <td
+      width="36"
+      height="36"
+      align="center"
+      style="width:36px;height:36px;border-radius:8px;background-color:#eab308;background-image:linear-gradient(135deg,#facc15,${GOLD});color:#ffffff;font:bold 18px ${FONT};"
+    >
+      E
+    </td>
+    <td
+      style="padding-left:10px;font:bold 20px ${FONT};letter-spacing:-0.02em;color:${TEXT};"
+    >
+      Emetals
+    </td>
+  </tr>
+</table>`;
+
+/**
+ * Wrap content in the branded email shell
+ * Table layout and inline styles keep rendering consistent across clients
+ */
+export function renderEmail({
+  subject,
+  preheader,
+  heading,
+  paragraphs,
+  blocks = [],
+  action,
+}: EmailLayoutOptions): EmailContent {
+  const body = html`<!doctype html>
+    <html lang="en">
+      <head>
+        <meta charset="utf-8" />
+        <meta name="viewport" content="width=device-width, initial-scale=1" />
+        <title>${subject}</title>
+      </head>
+      <body style="margin:0;padding:0;background-color:#f4f4f5;">
+        <div style="display:none;max-height:0;overflow:hidden;">
+          ${preheader}
+        </div>
+        <table
+          role="presentation"
+          width="100%"
+          cellpadding="0"
+          cellspacing="0"
+          style="background-color:#f4f4f5;"
+        >
+          <tr>
+            <td align="center" style="padding:32px 16px;">
+              <table
+                role="presentation"
+                width="100%"
+                cellpadding="0"
+                cellspacing="0"
+                style="max-width:600px;background-color:#ffffff;border:1px solid ${BORDER};border-radius:12px;"
+              >
+                <tr>
+                  <td
+                    style="padding:24px 32px;border-bottom:1px solid ${BORDER};"
+                  >
+                    ${logo}
+                  </td>
+                </tr>
+                <tr>
+                  <td style="padding:32px;font:15px/1.6 ${FONT};color:${TEXT};">
+                    <h1 style="margin:0 0 16px;font-size:22px;line-height:1.3;">
+                      ${heading}
+                    </h1>
+                    ${paragraphs.map(
+                      (paragraph) =>
+                        html`<p style="margin:0 0 16px;">${paragraph}</p>`,
+                    )}
+                    ${blocks.map(
+                      (block) =>
+                        html`<div style="margin:24px 0;">${block.html}</div>`,
+                    )}
+                    ${action &&
+                    html`<p style="margin:24px 0 0;">
+                      <a
+                        href="${action.url}"
+                        style="display:inline-block;padding:12px 20px;border-radius:8px;background-color:${TEXT};color:#ffffff;font-weight:600;text-decoration:none;"
+                        >${action.label}</a
+                      >
+                    </p>`}
+                  </td>
+                </tr>
+                <tr>
+                  <td
+                    style="padding:20px 32px;border-top:1px solid ${BORDER};font:12px/1.5 ${FONT};color:${MUTED};"
+                  >
+                    Emetals · Physical precious metals, delivered insured or
+                    ready for pickup. You're receiving this email about your
+                    Emetals account.
+                  </td>
+                </tr>
+              </table>
+            </td>
+          </tr>
+        </table>
+      </body>
+    </html>`;
+
+  const text = [
+    "Emetals",
+    heading,
+    ...paragraphs,
+    ...blocks.map((block) => block.text),
+    ...(action ? [`${action.label}: ${action.url}`] : []),
+    "--\nEmetals · Physical precious metals, delivered insured or ready for pickup.",
+  ].join("\n\n");
+
+  return { subject, html: body.value, text };
+}
+
+/**
+ * Two-column table of labelled values, e.g. pickup details
+ */
+export function detailsBlock(
+  rows: [label: string, value: string][],
+): EmailBlock {
+  return {
+    html: html`<table
+      role="presentation"
+      width="100%"
+      cellpadding="0"
+      cellspacing="0"
+      style="border:1px solid ${BORDER};border-radius:8px;"
+    >
+      ${rows.map(
+        ([label, value]) =>
+          html`<tr>
+            <td style="padding:10px 14px;color:${MUTED};width:35%;">
+              ${label}
+            </td>
+            <td style="padding:10px 14px;font-weight:600;">${value}</td>
+          </tr>`,
+      )}
+    </table>`,
+    text: rows.map(([label, value]) => `${label}: ${value}`).join("\n"),
+  };
+}
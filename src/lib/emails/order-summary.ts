@@ -0,0 +1,93 @@
+import { METAL_LABELS } from "@/lib/catalog";
+import { formatCurrency } from "@/lib/format";
+
+import { html } from "./html";
+import { BORDER, type EmailBlock, MUTED } from "./layout";
+import type { OrderEmailData } from "./types";
+
+interface OrderSummaryOptions {
+  /** Show the spot price each line was locked at */
+  lockedPrices?: boolean;
+}
+
+/**
+ * Line items and totals of an order
+ */
+export function orderSummaryBlock(
+  order: OrderEmailData,
+  { lockedPrices = false }: OrderSummaryOptions = {},
+): EmailBlock {
+  const totals: [string, number][] = [
+    ["Subtotal", order.subtotal],
+    ...(order.fulfillmentMethod === "delivery"
+      ? [["Insured shipping", order.shipping] as [string, number]]
+      : []),
+    ["Total", order.total],
+  ];
+
+  const lockedNote = (line: OrderEmailData["lines"][number]) =>
+    `${formatCurrency(line.unitPrice)} each, ${METAL_LABELS[line.metal].toLowerCase()} spot ${formatCurrency(line.spotPerOz)}/oz`;
+
+  const markup = html`<table
+    role="presentation"
+    width="100%"
+    cellpadding="0"
+    cellspacing="0"
+    style="border-collapse:collapse;"
+  >
+    ${order.lines.map(
+      (line) =>
+        html`<tr>
+          <td style="padding:10px 0;border-bottom:1px solid ${BORDER};">
+            ${line.quantity} × ${line.productName}
+            <div style="font-size:13px;color:${MUTED};">
+              ${lockedPrices
+                ? `Locked at ${lockedNote(line)}`
+                : `SKU ${line.sku} · ${formatCurrency(line.unitPrice)} each`}
+            </div>
+          </td>
+          <td
+            align="right"
+            style="padding:10px 0;border-bottom:1px solid ${BORDER};white-space:nowrap;"
+          >
+            ${formatCurrency(line.lineTotal)}
+          </td>
+        </tr>`,
+    )}
+    ${totals.map(
+      ([label, amount], index) =>
+        html`<tr>
+          <td
+            style="padding:6px 0;${index === totals.length - 1
+              ? "font-weight:600;"
+              : `color:${MUTED};`}"
+          >
+            ${label}
+          </td>
+          <td
+            align="right"
+            style="padding:6px 0;${index === totals.length - 1
+              ? "font-weight:600;"
+              : ""}"
+          >
+            ${formatCurrency(amount)}
+          </td>
+        </tr>`,
+    )}
+  </table>`;
+
+  const text = [
+    `Order #${order.number}`,
+    ...order.lines.map(
+      (line) =>
+        `${line.quantity} × ${line.productName}: ${formatCurrency(line.lineTotal)}\n  ${
+          lockedPrices
+            ? `Locked at ${lockedNote(line)}`
+            : `${formatCurrency(line.unitPrice)} each`
+        }`,
+    ),
+    ...totals.map(([label, amount]) => `${label}: ${formatCurrency(amount)}`),
+  ].join("\n");
+
+  return { html: markup, text };
+}
@@ -0,0 +1,129 @@
+import {
+  newDeviceSignInEmail,
+  oneTimeCodeEmail,
+  orderReceivedEmail,
+  orderRefundedEmail,
+  orderShippedEmail,
+  paymentConfirmedEmail,
+  readyForPickupEmail,
+} from "./templates";
+import type { EmailContent, OrderEmailData } from "./types";
+
+const sampleOrder: OrderEmailData = {
+  number: 1042,
+  customerName: "Jordan Lee",
+  fulfillmentMethod: "delivery",
+  lines: [
+    {
+      productName: "1 oz American Gold Eagle",
+      sku: "AGE-1OZ",
+      metal: "gold",
+      quantity: 2,
+      spotPerOz: 241_250,
+      unitPrice: 251_900,
+      lineTotal: 503_800,
+    },
+    {
+      productName: "10 oz Silver Bar",
+      sku: "SB-10OZ",
+      metal: "silver",
+      quantity: 1,
+      spotPerOz: 3_120,
+      unitPrice: 33_450,
+      lineTotal: 33_450,
+    },
+  ],
+  subtotal: 537_250,
+  shipping: 2_500,
+  total: 539_750,
+  url: "http://localhost:3000/dashboard",
+};
+
+const samplePickupOrder: OrderEmailData = {
+  ...sampleOrder,
+  fulfillmentMethod: "pickup",
+  shipping: 0,
+  total: sampleOrder.subtotal,
+};
+
+/**
+ * Every template rendered with sample data, for reviewing in development
+ */
+export const EMAIL_PREVIEWS: Record<
+  string,
+  { label: string; render: () => EmailContent }
+> = {
+  "order-received": {
+    label: "Order received",
+    render: () => orderReceivedEmail(sampleOrder),
+  },
+  "payment-confirmed": {
+    label: "Payment confirmed",
+    render: () => paymentConfirmedEmail(sampleOrder),
+  },
+  "order-shipped": {
+    label: "Order shipped",
+    render: () =>
+      orderShippedEmail({
+        order: sampleOrder,
+        trackingCarrier: "UPS",
+        trackingNumber: "1Z999AA10123456784",
+        address: {
+          name: "Jordan Lee",
+          line1: "200 Market Street",
+          city: "San Francisco",
+          region: "CA",
+          postalCode: "94105",
+          country: "US",
+        },
+      }),
+  },
+  "ready-for-pickup": {
+    label: "Ready for pickup",
+    render: () =>
+      readyForPickupEmail({
+        order: samplePickupOrder,
+        location: {
+          name: "Emetals Midtown Vault",
+          line1: "30 Rockefeller Plaza",
+          line2: "Suite 4100",
+          city: "New York",
+          region: "NY",
+          postalCode: "10112",
+          country: "US",
+          timeZone: "America/New_York",
+        },
+        slotAt: new Date("2025-03-04T15:00:00Z"),
+      }),
+  },
+  "one-time-code": {
+    label: "Sign-in code",
+    render: () =>
+      oneTimeCodeEmail({
+        type: "sign-in",
+        code: "482913",
+        expiresInMinutes: 10,
+      }),
+  },
+  "order-refunded": {
+    label: "Order refunded",
+    render: () =>
+      orderRefundedEmail({
+        order: sampleOrder,
+        amount: 33_450,
+        fullyRefunded: false,
+      }),
+  },
+  "new-device-sign-in": {
+    label: "New device signed in",
+    render: () =>
+      newDeviceSignInEmail({
+        customerName: "Jordan Lee",
+        device: "Safari on iOS",
+        location: "Austin, United States",
+        ipAddress: "203.0.113.24",
+        signedInAt: "Tue, Mar 4, 9:12 AM UTC",
+        url: "http://localhost:3000/settings/security",
+      }),
+  },
+};
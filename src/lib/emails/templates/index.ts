@@ -0,0 +1,7 @@
+export { newDeviceSignInEmail } from "./new-device-sign-in";
+export { oneTimeCodeEmail } from "./one-time-code";
+export { orderReceivedEmail } from "./order-received";
+export { orderRefundedEmail } from "./order-refunded";
+export { orderShippedEmail } from "./order-shipped";
+export { paymentConfirmedEmail } from "./payment-confirmed";
+export { readyForPickupEmail } from "./ready-for-pickup";
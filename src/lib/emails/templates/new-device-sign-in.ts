@@ -0,0 +1,46 @@
+import { detailsBlock, renderEmail } from "../layout";
+import type { EmailContent } from "../types";
+
+interface NewDeviceSignInEmailProps {
+  customerName: string;
+  /** e.g. "Chrome on macOS" */
+  device: string;
+  /** Approximate location, null when unknown */
+  location: string | null;
+  ipAddress: string | null;
+  /** Formatted sign-in time */
+  signedInAt: string;
+  /** Page listing the account's active sessions */
+  url: string;
+}
+
+/**
+ * Sent when the account is signed into from a browser it hasn't seen before
+ */
+export function newDeviceSignInEmail({
+  customerName,
+  device,
+  location,
+  ipAddress,
+  signedInAt,
+  url,
+}: NewDeviceSignInEmailProps): EmailContent {
+  return renderEmail({
+    subject: "New sign-in to your Emetals account",
+    preheader: `${device}${location ? ` near ${location}` : ""}, ${signedInAt}`,
+    heading: "New device signed in",
+    paragraphs: [
+      `Hi ${customerName}, your account was just signed into from a device we haven't seen before.`,
+      "If this was you, there's nothing to do. If not, sign that device out, then change your password and turn on two-factor authentication.",
+    ],
+    blocks: [
+      detailsBlock([
+        ["Device", device],
+        ["Location", location ?? "Unknown"],
+        ...(ipAddress ? [["IP address", ipAddress] as [string, string]] : []),
+        ["Time", signedInAt],
+      ]),
+    ],
+    action: { label: "Review your sessions", url },
+  });
+}
@@ -0,0 +1,55 @@
+import { html } from "../html";
+import { renderEmail } from "../layout";
+import type { EmailContent } from "../types";
+
+/**
+ * Subject and wording for each kind of one-time code
+ */
+const ONE_TIME_CODE_PURPOSES = {
+  "sign-in": { subject: "Your Emetals sign-in code", purpose: "sign in" },
+  "email-verification": {
+    subject: "Verify your Emetals email",
+    purpose: "verify your email",
+  },
+  "forget-password": {
+    subject: "Reset your Emetals password",
+    purpose: "reset your password",
+  },
+} as const;
+
+interface OneTimeCodeEmailProps {
+  type: keyof typeof ONE_TIME_CODE_PURPOSES;
+  code: string;
+  expiresInMinutes: number;
+}
+
+/**
+ * Sent with a code for signing in, verifying an email or resetting a password
+ */
+export function oneTimeCodeEmail({
+  type,
+  code,
+  expiresInMinutes,
+}: OneTimeCodeEmailProps): EmailContent {
+  const { subject, purpose } = ONE_TIME_CODE_PURPOSES[type];
+
+  return renderEmail({
+    subject,
+    preheader: `Your code is ${code}`,
+    heading: `Your code to ${purpose}`,
+    paragraphs: [
+      `Enter this code to ${purpose}. It expires in ${expiresInMinutes} minutes.`,
+      "If you didn't request it, you can ignore this email.",
+    ],
+    blocks: [
+      {
+        html: html`<p
+          style="margin:0;font-size:32px;font-weight:700;letter-spacing:0.3em;"
+        >
+          ${code}
+        </p>`,
+        text: code,
+      },
+    ],
+  });
+}
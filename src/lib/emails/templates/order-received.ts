@@ -0,0 +1,20 @@
+import { renderEmail } from "../layout";
+import { orderSummaryBlock } from "../order-summary";
+import type { EmailContent, OrderEmailData } from "../types";
+
+/**
+ * Sent when an order is placed, before payment clears
+ */
+export function orderReceivedEmail(order: OrderEmailData): EmailContent {
+  return renderEmail({
+    subject: `We've received order #${order.number}`,
+    preheader: "We'll email you again as soon as your payment is confirmed.",
+    heading: `Thanks for your order, ${order.customerName}`,
+    paragraphs: [
+      `We've received order #${order.number} and are waiting for your payment to clear.`,
+      "We'll email you again as soon as it's confirmed.",
+    ],
+    blocks: [orderSummaryBlock(order)],
+    action: { label: "View your orders", url: order.url },
+  });
+}
@@ -0,0 +1,40 @@
+import { formatCurrency } from "@/lib/format";
+
+import { detailsBlock, renderEmail } from "../layout";
+import type { EmailContent, OrderEmailData } from "../types";
+
+interface OrderRefundedEmailProps {
+  order: OrderEmailData;
+  /** Amount of this refund in cents */
+  amount: number;
+  /** Whether refunds now cover the whole payment */
+  fullyRefunded: boolean;
+}
+
+/**
+ * Sent when a full or partial refund has gone through
+ */
+export function orderRefundedEmail({
+  order,
+  amount,
+  fullyRefunded,
+}: OrderRefundedEmailProps): EmailContent {
+  return renderEmail({
+    subject: `Refund issued for order #${order.number}`,
+    preheader: `${formatCurrency(amount)} is on its way back to you.`,
+    heading: fullyRefunded
+      ? "Your order has been refunded"
+      : "We've issued a refund",
+    paragraphs: [
+      `We've refunded ${formatCurrency(amount)} for order #${order.number} to your original payment method, ${order.customerName}.`,
+      "Depending on your bank, it can take 5–10 business days to appear on your statement.",
+    ],
+    blocks: [
+      detailsBlock([
+        ["Refunded", formatCurrency(amount)],
+        ["Order total", formatCurrency(order.total)],
+      ]),
+    ],
+    action: { label: "View your orders", url: order.url },
+  });
+}
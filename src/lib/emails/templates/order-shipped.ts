@@ -0,0 +1,51 @@
+import type { ShippingAddress } from "@/database/schema";
+import { formatAddress } from "@/lib/format";
+
+import { detailsBlock, renderEmail } from "../layout";
+import { orderSummaryBlock } from "../order-summary";
+import type { EmailContent, OrderEmailData } from "../types";
+
+interface OrderShippedEmailProps {
+  order: OrderEmailData;
+  trackingCarrier: string | null;
+  trackingNumber: string;
+  address: ShippingAddress | null;
+}
+
+/**
+ * Sent when a delivery order leaves the vault
+ */
+export function orderShippedEmail({
+  order,
+  trackingCarrier,
+  trackingNumber,
+  address,
+}: OrderShippedEmailProps): EmailContent {
+  return renderEmail({
+    subject: `Order #${order.number} has shipped`,
+    preheader: `Tracking number ${trackingNumber}`,
+    heading: "Your order is on its way",
+    paragraphs: [
+      `Good news, ${order.customerName}: order #${order.number} has shipped fully insured.`,
+      "A signature will be required on delivery.",
+    ],
+    blocks: [
+      detailsBlock([
+        ...(trackingCarrier
+          ? [["Carrier", trackingCarrier] as [string, string]]
+          : []),
+        ["Tracking number", trackingNumber],
+        ...(address
+          ? [
+              ["Ship to", `${address.name}, ${formatAddress(address)}`] as [
+                string,
+                string,
+              ],
+            ]
+          : []),
+      ]),
+      orderSummaryBlock(order),
+    ],
+    action: { label: "View your orders", url: order.url },
+  });
+}
@@ -0,0 +1,20 @@
+import { renderEmail } from "../layout";
+import { orderSummaryBlock } from "../order-summary";
+import type { EmailContent, OrderEmailData } from "../types";
+
+/**
+ * Sent when payment clears, listing the prices locked at checkout
+ */
+export function paymentConfirmedEmail(order: OrderEmailData): EmailContent {
+  return renderEmail({
+    subject: `Payment confirmed for order #${order.number}`,
+    preheader: "Your prices are locked and we're preparing your metal.",
+    heading: "Your payment is confirmed",
+    paragraphs: [
+      `Thanks, ${order.customerName}. We've received payment for order #${order.number}.`,
+      "Your prices were locked when you checked out, so market moves since then don't change what you pay. We're now preparing your metal.",
+    ],
+    blocks: [orderSummaryBlock(order, { lockedPrices: true })],
+    action: { label: "View your orders", url: order.url },
+  });
+}
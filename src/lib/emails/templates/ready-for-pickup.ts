@@ -0,0 +1,56 @@
+import type { PickupLocation } from "@/database/schema";
+import { formatAddress, formatDateTime } from "@/lib/format";
+
+import { detailsBlock, renderEmail } from "../layout";
+import { orderSummaryBlock } from "../order-summary";
+import type { EmailContent, OrderEmailData } from "../types";
+
+interface ReadyForPickupEmailProps {
+  order: OrderEmailData;
+  location: Pick<
+    PickupLocation,
+    | "name"
+    | "line1"
+    | "line2"
+    | "city"
+    | "region"
+    | "postalCode"
+    | "country"
+    | "timeZone"
+  >;
+  slotAt: Date | null;
+}
+
+/**
+ * Sent when a pickup order is waiting at the location
+ */
+export function readyForPickupEmail({
+  order,
+  location,
+  slotAt,
+}: ReadyForPickupEmailProps): EmailContent {
+  const appointment = slotAt ? formatDateTime(slotAt, location.timeZone) : null;
+
+  return renderEmail({
+    subject: `Order #${order.number} is ready for pickup`,
+    preheader: appointment
+      ? `See you ${appointment} at ${location.name}.`
+      : `Collect it at ${location.name}.`,
+    heading: "Your order is ready for pickup",
+    paragraphs: [
+      `Order #${order.number} is waiting for you at ${location.name}, ${order.customerName}.`,
+      "Please bring a government-issued photo ID matching the name on the order. You can reschedule your appointment from your dashboard.",
+    ],
+    blocks: [
+      detailsBlock([
+        ["Location", location.name],
+        ["Address", formatAddress(location)],
+        ...(appointment
+          ? [["Appointment", appointment] as [string, string]]
+          : []),
+      ]),
+      orderSummaryBlock(order),
+    ],
+    action: { label: "Manage your pickup", url: order.url },
+  });
+}
@@ -0,0 +1,35 @@
+import type { FulfillmentMethod, OrderLine } from "@/database/schema";
+
+/**
+ * Rendered email with the HTML and plain-text variants of the same content
+ */
+export interface EmailContent {
+  subject: string;
+  html: string;
+  text: string;
+}
+
+/**
+ * Order details every order email is rendered from
+ * Amounts in cents
+ */
+export interface OrderEmailData {
+  number: number;
+  customerName: string;
+  fulfillmentMethod: FulfillmentMethod;
+  lines: Pick<
+    OrderLine,
+    | "productName"
+    | "sku"
+    | "metal"
+    | "quantity"
+    | "spotPerOz"
+    | "unitPrice"
+    | "lineTotal"
+  >[];
+  subtotal: number;
+  shipping: number;
+  total: number;
+  /** Where the customer can follow the order */
+  url: string;
+}
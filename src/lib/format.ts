@@ -0,0 +1,74 @@
+const TROY_OUNCE_GRAMS = 31.1034768;
+
+const currencyFormatter = new Intl.NumberFormat("en-US", {
+  style: "currency",
+  currency: "USD",
+});
+
+/**
+ * Format an amount in cents as a currency string, e.g. $2,412.50
+ */
+export function formatCurrency(cents: number) {
+  return currencyFormatter.format(cents / 100);
+}
+
+/**
+ * Format a fine weight for display
+ * Weights that are a whole number of grams or kilos are shown metric
+ */
+export function formatWeight(oz: number) {
+  const grams = oz * TROY_OUNCE_GRAMS;
+  const roundedGrams = Math.round(grams);
+
+  if (Math.abs(grams - roundedGrams) < 0.01 && !Number.isInteger(oz)) {
+    return roundedGrams >= 1000 && roundedGrams % 1000 === 0
+      ? `${roundedGrams / 1000} kg`
+      : `${roundedGrams} g`;
+  }
+
+  return `${Number(oz.toFixed(4))} oz`;
+}
+
+/**
+ * Format a percentage with up to two decimals, e.g. 4.5%
+ */
+export function formatPercent(value: number) {
+  return `${Number(value.toFixed(2))}%`;
+}
+
+/**
+ * Format an instant as a weekday, date and time in a time zone,
+ * e.g. Tue, Mar 4, 10:00 AM
+ */
+export function formatDateTime(date: Date, timeZone?: string) {
+  return date.toLocaleString("en-US", {
+    timeZone,
+    weekday: "short",
+    month: "short",
+    day: "numeric",
+    hour: "numeric",
+    minute: "2-digit",
+  });
+}
+
+/**
+ * Format a postal address on one line
+ */
+export function formatAddress(address: {
+  line1: string;
+  line2?: string | null;
+  city: string;
+  region?: string | null;
+  postalCode: string;
+  country: string;
+}) {
+  return [
+    address.line1,
+    address.line2,
+    address.city,
+    [address.region, address.postalCode].filter(Boolean).join(" "),
+    address.country,
+  ]
+    .filter(Boolean)
+    .join(", ");
+}
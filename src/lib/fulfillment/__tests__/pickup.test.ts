@@ -0,0 +1,137 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+import {
+  getOrderById,
+  getPickupLocationById,
+  reschedulePickupOrder,
+} from "@/database/queries";
+
+import { FulfillmentError, listPickupSlots, reschedulePickup } from "../index";
+import { fromZonedTime } from "../time-zone";
+
+vi.mock("@/database/queries", () => ({
+  getOrderById: vi.fn(),
+  getPickupLocationById: vi.fn(),
+  reschedulePickupOrder: vi.fn(),
+}));
+
+// Open Saturdays 13:00-16:00 in hourly appointments
+const auckland = {
+  id: "location-1",
+  active: true,
+  timeZone: "Pacific/Auckland",
+  slotMinutes: 60,
+  slotCapacity: 2,
+  hours: [{ weekday: 6, opensAt: "13:00:00", closesAt: "16:00:00" }],
+  closures: [],
+} as never;
+
+describe("fromZonedTime", () => {
+  it("uses the offset in force at the wall-clock time across a DST change", () => {
+    // Auckland leaves daylight time at 2025-04-05T14:00Z (03:00 → 02:00)
+    expect(
+      fromZonedTime(
+        { year: 2025, month: 4, day: 5, hour: 14, minute: 0 },
+        "Pacific/Auckland",
+      ),
+    ).toEqual(new Date("2025-04-05T01:00:00Z"));
+    // and enters it at 2025-09-27T14:00Z (02:00 → 03:00)
+    expect(
+      fromZonedTime(
+        { year: 2025, month: 9, day: 27, hour: 14, minute: 0 },
+        "Pacific/Auckland",
+      ),
+    ).toEqual(new Date("2025-09-27T02:00:00Z"));
+  });
+});
+
+describe("listPickupSlots", () => {
+  it("keeps appointments on the local clock when daylight time ends", () => {
+    const slots = listPickupSlots(
+      auckland,
+      new Map(),
+      new Date("2025-04-03T00:00:00Z"),
+    );
+
+    expect(slots.map((slot) => slot.startsAt.toISOString())).toEqual([
+      // Saturday 5 April, NZDT (UTC+13)
+      "2025-04-05T00:00:00.000Z",
+      "2025-04-05T01:00:00.000Z",
+      "2025-04-05T02:00:00.000Z",
+      // Saturday 12 April, NZST (UTC+12)
+      "2025-04-12T01:00:00.000Z",
+      "2025-04-12T02:00:00.000Z",
+      "2025-04-12T03:00:00.000Z",
+    ]);
+  });
+
+  it("keeps appointments on the local clock when daylight time starts", () => {
+    const slots = listPickupSlots(
+      auckland,
+      new Map(),
+      new Date("2025-09-25T00:00:00Z"),
+    );
+
+    expect(slots.map((slot) => slot.startsAt.toISOString())).toEqual([
+      // Saturday 27 September, NZST (UTC+12)
+      "2025-09-27T01:00:00.000Z",
+      "2025-09-27T02:00:00.000Z",
+      "2025-09-27T03:00:00.000Z",
+      // Saturday 4 October, NZDT (UTC+13)
+      "2025-10-04T00:00:00.000Z",
+      "2025-10-04T01:00:00.000Z",
+      "2025-10-04T02:00:00.000Z",
+    ]);
+  });
+
+  it("reports no room left in a booked-up appointment", () => {
+    const full = new Date("2025-04-05T01:00:00Z");
+
+    const slots = listPickupSlots(
+      auckland,
+      new Map([[full.getTime(), 2]]),
+      new Date("2025-04-03T00:00:00Z"),
+    );
+
+    expect(
+      slots.find((slot) => slot.startsAt.getTime() === full.getTime()),
+    ).toEqual({ startsAt: full, remaining: 0 });
+  });
+});
+
+describe("reschedulePickup", () => {
+  const slotAt = new Date("2025-04-05T01:00:00Z");
+
+  beforeEach(() => {
+    vi.useFakeTimers({ now: new Date("2025-04-03T00:00:00Z") });
+    vi.mocked(getOrderById).mockResolvedValue({
+      id: "order-1",
+      userId: "user-1",
+      status: "paid",
+      fulfillmentMethod: "pickup",
+      pickupLocationId: "location-1",
+      pickupSlotAt: new Date("2025-04-12T01:00:00Z"),
+    } as never);
+    vi.mocked(getPickupLocationById).mockResolvedValue(auckland);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.clearAllMocks();
+  });
+
+  it("rejects an appointment that is already full", async () => {
+    // The capacity check under lock finds no room left
+    vi.mocked(reschedulePickupOrder).mockResolvedValue(null);
+
+    const attempt = reschedulePickup("order-1", "user-1", slotAt);
+
+    await expect(attempt).rejects.toBeInstanceOf(FulfillmentError);
+    await expect(attempt).rejects.toMatchObject({ code: "unavailable_slot" });
+    expect(reschedulePickupOrder).toHaveBeenCalledWith(
+      "order-1",
+      slotAt,
+      expect.arrayContaining(["paid", "ready_for_pickup"]),
+    );
+  });
+});
@@ -0,0 +1,121 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+import { getShippingZoneForCountry } from "@/database/queries";
+
+import {
+  FulfillmentError,
+  computeShippingRate,
+  estimateParcelWeightOz,
+  getShippingQuote,
+} from "../index";
+
+vi.mock("@/database/queries", () => ({
+  getShippingZoneForCountry: vi.fn(),
+}));
+
+// Bands up to 10 oz and 50 oz, then no limit
+const domestic = {
+  id: "zone-us",
+  name: "United States",
+  countries: ["US"],
+  insurancePercent: 0.35,
+  rates: [
+    { maxWeightOz: 10, rate: 1_500 },
+    { maxWeightOz: 50, rate: 3_000 },
+    { maxWeightOz: null, rate: 6_000 },
+  ],
+} as never;
+
+// Nothing heavier than 50 oz is sent abroad
+const international = {
+  id: "zone-intl",
+  name: "International",
+  countries: ["NZ"],
+  insurancePercent: 1,
+  rates: [
+    { maxWeightOz: 10, rate: 4_500 },
+    { maxWeightOz: 50, rate: 9_000 },
+  ],
+} as never;
+
+describe("estimateParcelWeightOz", () => {
+  it("weighs the whole coin, not just its fine metal", () => {
+    expect(
+      estimateParcelWeightOz([
+        // 22 karat: a 1 oz gold coin weighs about 1.09 oz
+        { fineWeightOz: 1, purity: 0.9167, quantity: 2 },
+        { fineWeightOz: 10, purity: 0.999, quantity: 1 },
+      ]),
+    ).toBeCloseTo(2 / 0.9167 + 10 / 0.999, 6);
+  });
+});
+
+describe("computeShippingRate", () => {
+  it.each([
+    [0.5, 1_500],
+    // Band limits are inclusive
+    [10, 1_500],
+    [10.01, 3_000],
+    [50, 3_000],
+    [50.01, 6_000],
+    [1_000, 6_000],
+  ])("charges a %s oz parcel %s cents of carriage", (weightOz, carriage) => {
+    expect(computeShippingRate(domestic, weightOz, 0)).toMatchObject({
+      zoneId: "zone-us",
+      weightOz,
+      carriage,
+      total: carriage,
+    });
+  });
+
+  it("returns null when the parcel is heavier than every band", () => {
+    expect(computeShippingRate(international, 50.01, 0)).toBeNull();
+  });
+
+  it("rounds insurance up to the next cent", () => {
+    // 0.35% of $1,234.57 is 432.0995 cents
+    expect(computeShippingRate(domestic, 1, 123_457)).toMatchObject({
+      insurance: 433,
+      total: 1_933,
+    });
+    // Whole cents stay as they are
+    expect(computeShippingRate(domestic, 1, 100_000)).toMatchObject({
+      insurance: 350,
+    });
+  });
+});
+
+describe("getShippingQuote", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it("prices delivery for the destination's zone", async () => {
+    vi.mocked(getShippingZoneForCountry).mockResolvedValue(international);
+
+    await expect(getShippingQuote("NZ", 12, 200_000)).resolves.toEqual({
+      zoneId: "zone-intl",
+      zoneName: "International",
+      weightOz: 12,
+      carriage: 9_000,
+      insurance: 2_000,
+      total: 11_000,
+    });
+  });
+
+  it("refuses parcels too heavy for every band in the zone", async () => {
+    vi.mocked(getShippingZoneForCountry).mockResolvedValue(international);
+
+    await expect(getShippingQuote("NZ", 80, 200_000)).rejects.toMatchObject({
+      code: "unsupported_destination",
+    });
+  });
+
+  it("refuses countries no zone ships to", async () => {
+    vi.mocked(getShippingZoneForCountry).mockResolvedValue(undefined);
+
+    await expect(getShippingQuote("AQ", 1, 200_000)).rejects.toBeInstanceOf(
+      FulfillmentError,
+    );
+  });
+});
@@ -0,0 +1,290 @@
+import {
+  type PickupLocationWithSchedule,
+  countPickupBookings,
+  getOrderById,
+  getPickupLocationById,
+  getShippingZoneForCountry,
+  listActivePickupLocations,
+  reschedulePickupOrder,
+  updateOrderShippingAddress,
+} from "@/database/queries";
+import type { Order, OrderStatus } from "@/database/schema";
+import type {
+  FulfillmentFormData,
+  ShippingAddressFormData,
+} from "@/lib/validation/fulfillment-schema";
+
+import {
+  getPickupBookingWindow,
+  isPickupSlotOffered,
+  listPickupSlots,
+} from "./pickup";
+import { computeShippingRate } from "./shipping";
+import {
+  FulfillmentError,
+  type OrderFulfillment,
+  type PickupOption,
+  type PickupSlot,
+  type ShippingQuote,
+} from "./types";
+
+export {
+  PICKUP_BOOKING_DAYS,
+  PICKUP_LEAD_TIME_MS,
+  isPickupSlotOffered,
+  listPickupSlots,
+} from "./pickup";
+export { computeShippingRate, estimateParcelWeightOz } from "./shipping";
+export { fromZonedTime, toZonedTime } from "./time-zone";
+export * from "./types";
+
+/**
+ * Insured delivery cost to a country for a parcel of the given weight
+ * and value (cents)
+ */
+export async function getShippingQuote(
+  country: string,
+  weightOz: number,
+  orderValue: number,
+): Promise<ShippingQuote> {
+  const zone = await getShippingZoneForCountry(country);
+  const quote = zone && computeShippingRate(zone, weightOz, orderValue);
+
+  if (!quote) {
+    throw new FulfillmentError(
+      "We can't deliver this order to the selected country",
+      "unsupported_destination",
+    );
+  }
+
+  return quote;
+}
+
+// Pickup orders can be rescheduled until they are collected
+const RESCHEDULABLE_STATUSES: OrderStatus[] = [
+  "pending_payment",
+  "paid",
+  "allocated",
+  "ready_for_pickup",
+];
+
+// Delivery addresses can change until the parcel ships
+const READDRESSABLE_STATUSES: OrderStatus[] = [
+  "pending_payment",
+  "paid",
+  "allocated",
+];
+
+/**
+ * Appointments at a location that still have room
+ */
+export async function getAvailablePickupSlots(
+  location: PickupLocationWithSchedule,
+  now = new Date(),
+): Promise<PickupSlot[]> {
+  const window = getPickupBookingWindow(now);
+  const booked = await countPickupBookings(location.id, window.from, window.to);
+
+  return listPickupSlots(location, booked, now).filter(
+    (slot) => slot.remaining > 0,
+  );
+}
+
+/**
+ * Active pickup locations with their bookable slots
+ */
+export async function getPickupOptions(
+  now = new Date(),
+): Promise<PickupOption[]> {
+  const locations = await listActivePickupLocations();
+
+  return Promise.all(
+    locations.map(async (location) => ({
+      location,
+      slots: await getAvailablePickupSlots(location, now),
+    })),
+  );
+}
+
+/**
+ * Whether a customer may still move an order's pickup appointment
+ */
+export function canReschedulePickup(
+  pickupOrder: Pick<Order, "fulfillmentMethod" | "status" | "pickupSlotAt">,
+  now = new Date(),
+) {
+  return (
+    pickupOrder.fulfillmentMethod === "pickup" &&
+    RESCHEDULABLE_STATUSES.includes(pickupOrder.status) &&
+    !!pickupOrder.pickupSlotAt &&
+    pickupOrder.pickupSlotAt > now
+  );
+}
+
+/**
+ * Move a customer's pickup order to another appointment at the same
+ * location, re-checking capacity under lock
+ */
+export async function reschedulePickup(
+  orderId: string,
+  userId: string,
+  slotAt: Date,
+): Promise<Order> {
+  const existing = await getOrderById(orderId);
+
+  if (
+    !existing ||
+    existing.userId !== userId ||
+    !existing.pickupLocationId ||
+    !canReschedulePickup(existing)
+  ) {
+    throw new FulfillmentError(
+      "This pickup can no longer be rescheduled",
+      "not_reschedulable",
+    );
+  }
+
+  const location = await getPickupLocationById(existing.pickupLocationId);
+  if (!location?.active || !isPickupSlotOffered(location, slotAt)) {
+    throw new FulfillmentError(
+      "That pickup time is not available, please choose another",
+      "unavailable_slot",
+    );
+  }
+
+  const updated = await reschedulePickupOrder(
+    orderId,
+    slotAt,
+    RESCHEDULABLE_STATUSES,
+  );
+  if (!updated) {
+    throw new FulfillmentError(
+      "That pickup time was just booked up, please choose another",
+      "unavailable_slot",
+    );
+  }
+
+  return updated;
+}
+
+/**
+ * Whether a customer may still change where an order is delivered
+ */
+export function canChangeShippingAddress(
+  deliveryOrder: Pick<
+    Order,
+    "fulfillmentMethod" | "status" | "shippingAddress"
+  >,
+) {
+  return (
+    deliveryOrder.fulfillmentMethod === "delivery" &&
+    READDRESSABLE_STATUSES.includes(deliveryOrder.status) &&
+    !!deliveryOrder.shippingAddress
+  );
+}
+
+/**
+ * Send a customer's unshipped delivery order to another address in the
+ * country its shipping was priced for
+ */
+export async function changeShippingAddress(
+  orderId: string,
+  userId: string,
+  address: ShippingAddressFormData,
+): Promise<Order> {
+  const existing = await getOrderById(orderId);
+
+  if (
+    !existing ||
+    existing.userId !== userId ||
+    !canChangeShippingAddress(existing)
+  ) {
+    throw new FulfillmentError(
+      "This order's delivery address can no longer be changed",
+      "address_locked",
+    );
+  }
+
+  const updated = await updateOrderShippingAddress(
+    orderId,
+    {
+      name: address.name,
+      line1: address.line1,
+      line2: address.line2 || undefined,
+      city: address.city,
+      region: address.region || undefined,
+      postalCode: address.postalCode,
+      country: existing.shippingAddress!.country,
+    },
+    READDRESSABLE_STATUSES,
+  );
+  if (!updated) {
+    throw new FulfillmentError(
+      "This order has just shipped, so its address can no longer be changed",
+      "address_locked",
+    );
+  }
+
+  return updated;
+}
+
+/**
+ * Validate a checkout fulfillment choice and price it
+ * The parcel is described by its weight and value (cents)
+ */
+export async function resolveFulfillment(
+  choice: FulfillmentFormData,
+  parcel: { weightOz: number; value: number },
+): Promise<OrderFulfillment> {
+  if (choice.method === "delivery") {
+    const country = choice.country!;
+    const shipping = await getShippingQuote(
+      country,
+      parcel.weightOz,
+      parcel.value,
+    );
+
+    return {
+      fulfillmentMethod: "delivery",
+      shippingAddress: {
+        name: choice.name!,
+        line1: choice.line1!,
+        line2: choice.line2 || undefined,
+        city: choice.city!,
+        region: choice.region || undefined,
+        postalCode: choice.postalCode!,
+        country,
+      },
+      shippingZoneId: shipping.zoneId,
+      pickupLocationId: null,
+      pickupSlotAt: null,
+      shipping: shipping.total,
+    };
+  }
+
+  const location = await getPickupLocationById(choice.locationId!);
+  if (!location?.active) {
+    throw new FulfillmentError(
+      "That pickup location is no longer available",
+      "unavailable_location",
+    );
+  }
+
+  // Capacity is checked again under lock when the order is written
+  const slotAt = new Date(choice.slotAt!);
+  if (!isPickupSlotOffered(location, slotAt)) {
+    throw new FulfillmentError(
+      "That pickup time is no longer available, please choose another",
+      "unavailable_slot",
+    );
+  }
+
+  return {
+    fulfillmentMethod: "pickup",
+    shippingAddress: null,
+    shippingZoneId: null,
+    pickupLocationId: location.id,
+    pickupSlotAt: slotAt,
+    shipping: 0,
+  };
+}
@@ -0,0 +1,100 @@
+import type { PickupLocationWithSchedule } from "@/database/queries";
+
+import { fromZonedTime, toZonedTime } from "./time-zone";
+import type { PickupSlot } from "./types";
+
+// How far ahead customers can book, and the notice staff need to allocate
+export const PICKUP_BOOKING_DAYS = 14;
+export const PICKUP_LEAD_TIME_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Minutes past midnight for a time column value, e.g. "09:30:00" → 570
+ */
+function toMinutes(time: string) {
+  const [hours, minutes] = time.split(":").map(Number);
+  return hours * 60 + minutes;
+}
+
+/**
+ * Window pickup slots are offered in, from `now`
+ */
+export function getPickupBookingWindow(now = new Date()) {
+  return {
+    from: new Date(now.getTime() + PICKUP_LEAD_TIME_MS),
+    to: new Date(now.getTime() + (PICKUP_BOOKING_DAYS + 1) * 86_400_000),
+  };
+}
+
+/**
+ * Appointments a location offers over the booking window from its
+ * opening hours, skipping closures, with remaining capacity
+ * `booked` maps slot start times (ms) to customers already booked
+ */
+export function listPickupSlots(
+  location: PickupLocationWithSchedule,
+  booked: Map<number, number> = new Map(),
+  now = new Date(),
+): PickupSlot[] {
+  const today = toZonedTime(now, location.timeZone);
+  const window = getPickupBookingWindow(now);
+  const closed = new Set(location.closures.map((closure) => closure.date));
+  const slots: PickupSlot[] = [];
+
+  for (let offset = 0; offset <= PICKUP_BOOKING_DAYS; offset++) {
+    const date = new Date(
+      Date.UTC(today.year, today.month - 1, today.day + offset),
+    );
+    if (closed.has(date.toISOString().slice(0, 10))) continue;
+
+    const intervals = location.hours.filter(
+      (hours) => hours.weekday === date.getUTCDay(),
+    );
+
+    for (const interval of intervals) {
+      const closesAt = toMinutes(interval.closesAt);
+
+      for (
+        let start = toMinutes(interval.opensAt);
+        start + location.slotMinutes <= closesAt;
+        start += location.slotMinutes
+      ) {
+        const startsAt = fromZonedTime(
+          {
+            year: date.getUTCFullYear(),
+            month: date.getUTCMonth() + 1,
+            day: date.getUTCDate(),
+            hour: Math.floor(start / 60),
+            minute: start % 60,
+          },
+          location.timeZone,
+        );
+
+        if (startsAt < window.from || startsAt >= window.to) continue;
+
+        slots.push({
+          startsAt,
+          remaining: Math.max(
+            0,
+            location.slotCapacity - (booked.get(startsAt.getTime()) ?? 0),
+          ),
+        });
+      }
+    }
+  }
+
+  return slots.sort((a, b) => a.startsAt.getTime() - b.startsAt.getTime());
+}
+
+/**
+ * Whether a location's schedule offers an appointment at `slotAt`
+ * Capacity is enforced separately when the booking is written
+ */
+export function isPickupSlotOffered(
+  location: PickupLocationWithSchedule,
+  slotAt: Date,
+  now = new Date(),
+) {
+  return listPickupSlots(location, new Map(), now).some(
+    (slot) => slot.startsAt.getTime() === slotAt.getTime(),
+  );
+}
@@ -0,0 +1,41 @@
+import type { ShippingZoneWithRates } from "@/database/queries";
+
+import type { ShippingQuote } from "./types";
+
+/**
+ * Estimate gross parcel weight from fine metal content and purity
+ */
+export function estimateParcelWeightOz(
+  items: { fineWeightOz: number; purity: number; quantity: number }[],
+) {
+  return items.reduce(
+    (sum, item) => sum + (item.fineWeightOz / item.purity) * item.quantity,
+    0,
+  );
+}
+
+/**
+ * Carriage from the zone's weight bands plus insurance on order value
+ * Returns null when the parcel is heavier than every band
+ */
+export function computeShippingRate(
+  zone: ShippingZoneWithRates,
+  weightOz: number,
+  orderValue: number,
+): ShippingQuote | null {
+  const band = zone.rates.find(
+    (rate) => rate.maxWeightOz === null || weightOz <= rate.maxWeightOz,
+  );
+  if (!band) return null;
+
+  const insurance = Math.ceil((orderValue * zone.insurancePercent) / 100);
+
+  return {
+    zoneId: zone.id,
+    zoneName: zone.name,
+    weightOz,
+    carriage: band.rate,
+    insurance,
+    total: band.rate + insurance,
+  };
+}
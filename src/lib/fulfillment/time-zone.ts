@@ -0,0 +1,72 @@
+/**
+ * Calendar date and wall-clock time in an IANA time zone
+ */
+export interface ZonedDateTime {
+  year: number;
+  /** 1-12 */
+  month: number;
+  day: number;
+  hour: number;
+  minute: number;
+  /** 0 = Sunday */
+  weekday: number;
+}
+
+/**
+ * Read the wall-clock time of an instant in a time zone
+ */
+export function toZonedTime(date: Date, timeZone: string): ZonedDateTime {
+  const parts = Object.fromEntries(
+    new Intl.DateTimeFormat("en-US", {
+      timeZone,
+      hourCycle: "h23",
+      year: "numeric",
+      month: "numeric",
+      day: "numeric",
+      hour: "numeric",
+      minute: "numeric",
+    })
+      .formatToParts(date)
+      .map((part) => [part.type, part.value]),
+  );
+
+  const year = Number(parts.year);
+  const month = Number(parts.month);
+  const day = Number(parts.day);
+
+  return {
+    year,
+    month,
+    day,
+    hour: Number(parts.hour),
+    minute: Number(parts.minute),
+    weekday: new Date(Date.UTC(year, month - 1, day)).getUTCDay(),
+  };
+}
+
+/**
+ * Milliseconds a time zone's clock is ahead of UTC at an instant
+ */
+function offsetAt(instant: number, timeZone: string) {
+  const shown = toZonedTime(new Date(instant), timeZone);
+  return (
+    Date.UTC(shown.year, shown.month - 1, shown.day, shown.hour, shown.minute) -
+    instant
+  );
+}
+
+/**
+ * Instant at which a time zone's clock shows the given date and time
+ * Day overflow (e.g. day 32) rolls into the next month like Date.UTC
+ */
+export function fromZonedTime(
+  { year, month, day, hour, minute }: Omit<ZonedDateTime, "weekday">,
+  timeZone: string,
+): Date {
+  const wallClock = Date.UTC(year, month - 1, day, hour, minute);
+
+  // The offset at the wall-clock time read as UTC can sit on the other side
+  // of a DST change, so read it again at the instant that first guess gives
+  const guess = wallClock - offsetAt(wallClock, timeZone);
+  return new Date(wallClock - offsetAt(guess, timeZone));
+}
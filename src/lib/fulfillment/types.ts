@@ -0,0 +1,62 @@
+import type { PickupLocationWithSchedule } from "@/database/queries";
+import type { FulfillmentMethod, Order } from "@/database/schema";
+
+/**
+ * Insured delivery cost for a parcel, amounts in cents
+ */
+export interface ShippingQuote {
+  zoneId: string;
+  zoneName: string;
+  /** Estimated gross parcel weight in troy ounces */
+  weightOz: number;
+  carriage: number;
+  insurance: number;
+  total: number;
+}
+
+/**
+ * Bookable pickup appointment
+ */
+export interface PickupSlot {
+  startsAt: Date;
+  /** Customers the appointment can still take */
+  remaining: number;
+}
+
+export interface PickupOption {
+  location: PickupLocationWithSchedule;
+  /** Appointments with room left */
+  slots: PickupSlot[];
+}
+
+/**
+ * Fulfillment columns stored on an order
+ */
+export type OrderFulfillment = Pick<
+  Order,
+  | "shippingAddress"
+  | "shippingZoneId"
+  | "pickupLocationId"
+  | "pickupSlotAt"
+  | "shipping"
+> & { fulfillmentMethod: FulfillmentMethod };
+
+export type FulfillmentErrorCode =
+  | "unsupported_destination"
+  | "unavailable_location"
+  | "unavailable_slot"
+  | "not_reschedulable"
+  | "address_locked";
+
+/**
+ * Raised when the chosen delivery or pickup option cannot be honoured
+ */
+export class FulfillmentError extends Error {
+  constructor(
+    message: string,
+    readonly code: FulfillmentErrorCode,
+  ) {
+    super(message);
+    this.name = "FulfillmentError";
+  }
+}
@@ -0,0 +1,93 @@
+import { describe, expect, it } from "vitest";
+
+import { buildMimeMessage, mailboxAddress, recipients } from "../mime";
+
+/**
+ * Split a raw message into its header block and body
+ */
+function parse(raw: string) {
+  const [head, ...rest] = raw.split("\r\n\r\n");
+  return { headers: head.split("\r\n"), body: rest.join("\r\n\r\n") };
+}
+
+const decode = (base64: string) =>
+  Buffer.from(base64.replace(/\r\n/g, ""), "base64").toString("utf8");
+
+describe("mailboxAddress", () => {
+  it("reads the address out of a display name", () => {
+    expect(mailboxAddress("Emetals <noreply@emetals.com>")).toBe(
+      "noreply@emetals.com",
+    );
+    expect(mailboxAddress(" ada@example.com ")).toBe("ada@example.com");
+  });
+});
+
+describe("recipients", () => {
+  it("accepts one recipient or several", () => {
+    expect(recipients({ to: "a@example.com" })).toEqual(["a@example.com"]);
+    expect(recipients({ to: ["a@example.com", "b@example.com"] })).toEqual([
+      "a@example.com",
+      "b@example.com",
+    ]);
+  });
+});
+
+describe("buildMimeMessage", () => {
+  const mail = {
+    from: "Emetals <noreply@emetals.com>",
+    to: ["ada@example.com", "Grace <grace@example.com>"],
+    subject: "Your order has shipped",
+    text: "Hello Ada",
+  };
+
+  it("builds a plain text message with CRLF line endings", () => {
+    const { messageId, raw } = buildMimeMessage(mail);
+    const { headers, body } = parse(raw);
+
+    expect(messageId).toMatch(/^<[0-9a-f-]{36}@emetals\.com>$/);
+    expect(raw).not.toMatch(/[^\r]\n/);
+    expect(headers).toContain("From: Emetals <noreply@emetals.com>");
+    expect(headers).toContain("To: ada@example.com, Grace <grace@example.com>");
+    expect(headers).toContain(`Message-ID: ${messageId}`);
+    expect(headers).toContain("Content-Type: text/plain; charset=utf-8");
+    expect(decode(body)).toBe("Hello Ada");
+  });
+
+  it("sends text and HTML as multipart/alternative", () => {
+    const { raw } = buildMimeMessage({ ...mail, html: "<p>Hello Ada</p>" });
+    const boundary = raw.match(/boundary="([^"]+)"/)![1];
+    const parts = raw.split(`--${boundary}`);
+
+    expect(parts).toHaveLength(4);
+    expect(parts[1]).toContain("Content-Type: text/plain; charset=utf-8");
+    expect(decode(parse(parts[1].trim()).body)).toBe("Hello Ada");
+    expect(parts[2]).toContain("Content-Type: text/html; charset=utf-8");
+    expect(decode(parse(parts[2].trim()).body)).toBe("<p>Hello Ada</p>");
+    expect(parts[3]).toBe("--\r\n");
+  });
+
+  it("encodes non-ASCII headers as RFC 2047 words", () => {
+    const { raw } = buildMimeMessage({ ...mail, subject: "Café order ✓" });
+
+    expect(raw).toContain(
+      `Subject: =?UTF-8?B?${Buffer.from("Café order ✓").toString("base64")}?=`,
+    );
+  });
+
+  it("can't be given extra headers through a header value", () => {
+    const { headers } = parse(
+      buildMimeMessage({ ...mail, subject: "Hi\r\nBcc: eve@example.com" }).raw,
+    );
+
+    expect(headers.some((line) => line.startsWith("Bcc:"))).toBe(false);
+  });
+
+  it("wraps base64 bodies at 76 characters", () => {
+    const { body } = parse(
+      buildMimeMessage({ ...mail, text: "x".repeat(500) }).raw,
+    );
+
+    expect(body.split("\r\n").every((line) => line.length <= 76)).toBe(true);
+    expect(decode(body)).toBe("x".repeat(500));
+  });
+});
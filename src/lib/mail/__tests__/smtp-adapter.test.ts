@@ -0,0 +1,106 @@
+import net from "node:net";
+import { afterEach, describe, expect, it } from "vitest";
+
+import { createSmtpAdapter, toSmtpData } from "../adapters/smtp-adapter";
+
+const mail = {
+  from: "Emetals <noreply@emetals.com>",
+  to: "ada@example.com",
+  subject: "Hello",
+  text: "Hello Ada",
+};
+
+/**
+ * Minimal plaintext SMTP server that never offers STARTTLS
+ * Records every line the client sends
+ */
+async function startServer() {
+  const received: string[] = [];
+  const server = net.createServer((socket) => {
+    let buffer = "";
+    let inData = false;
+
+    socket.write("220 test ESMTP\r\n");
+    socket.on("data", (chunk) => {
+      buffer += chunk.toString("utf8");
+
+      let index: number;
+      while ((index = buffer.indexOf("\r\n")) >= 0) {
+        const line = buffer.slice(0, index);
+        buffer = buffer.slice(index + 2);
+        received.push(line);
+
+        if (inData) {
+          if (line === ".") {
+            inData = false;
+            socket.write("250 queued\r\n");
+          }
+        } else if (line.startsWith("EHLO")) {
+          socket.write("250-test\r\n250 AUTH PLAIN\r\n");
+        } else if (line === "DATA") {
+          inData = true;
+          socket.write("354 go ahead\r\n");
+        } else if (line === "QUIT") {
+          socket.end("221 bye\r\n");
+        } else {
+          socket.write("250 ok\r\n");
+        }
+      }
+    });
+  });
+
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  return { server, received, port: (server.address() as net.AddressInfo).port };
+}
+
+describe("toSmtpData", () => {
+  it("escapes lines starting with a dot and terminates the data", () => {
+    expect(toSmtpData(".hidden\r\nline\n.\n..two")).toBe(
+      "..hidden\r\nline\r\n..\r\n...two\r\n.\r\n",
+    );
+  });
+
+  it("leaves dots elsewhere in a line alone", () => {
+    expect(toSmtpData("a.b\r\n end.")).toBe("a.b\r\n end.\r\n.\r\n");
+  });
+});
+
+describe("createSmtpAdapter", () => {
+  let server: net.Server | null = null;
+
+  afterEach(async () => {
+    await new Promise((resolve) => server?.close(resolve) ?? resolve(null));
+    server = null;
+  });
+
+  it("delivers to a server without TLS when no credentials are set", async () => {
+    const started = await startServer();
+    server = started.server;
+
+    const sent = await createSmtpAdapter({
+      host: "127.0.0.1",
+      port: started.port,
+    }).send(mail);
+
+    expect(sent.id).toMatch(/@emetals\.com>$/);
+    expect(started.received).toContain("MAIL FROM:<noreply@emetals.com>");
+    expect(started.received).toContain("RCPT TO:<ada@example.com>");
+  });
+
+  it("refuses to send credentials without TLS", async () => {
+    const started = await startServer();
+    server = started.server;
+
+    await expect(
+      createSmtpAdapter({
+        host: "127.0.0.1",
+        port: started.port,
+        user: "mailer",
+        password: "secret",
+      }).send(mail),
+    ).rejects.toThrow(/refusing to authenticate without TLS/);
+    expect(started.received.some((line) => line.startsWith("AUTH"))).toBe(
+      false,
+    );
+  });
+});
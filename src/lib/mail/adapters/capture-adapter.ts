@@ -0,0 +1,54 @@
+import { mkdir, writeFile } from "node:fs/promises";
+import path from "node:path";
+
+import { buildMimeMessage, recipients } from "../mime";
+import { type MailAdapter, MailError } from "../types";
+
+interface CaptureAdapterOptions {
+  /** Directory messages are written to as .eml files */
+  directory?: string;
+}
+
+/**
+ * Adapter keeping mail on disk for local development
+ * Each message is saved as an .eml file any mail client can open, and a
+ * summary with the text body is logged so one-time codes stay visible
+ */
+export function createCaptureAdapter({
+  directory = path.join(process.cwd(), ".mailbox"),
+}: CaptureAdapterOptions = {}): MailAdapter {
+  return {
+    name: "capture",
+    async send(mail) {
+      const { messageId, raw } = buildMimeMessage(mail);
+      const slug = mail.subject
+        .toLowerCase()
+        .replace(/[^a-z0-9]+/g, "-")
+        .replace(/^-|-$/g, "")
+        .slice(0, 60);
+      const filePath = path.join(
+        directory,
+        `${new Date().toISOString().replace(/[:.]/g, "-")}-${slug}.eml`,
+      );
+
+      try {
+        await mkdir(directory, { recursive: true });
+        await writeFile(filePath, raw);
+      } catch (error) {
+        throw new MailError(
+          `Failed to write ${filePath}: ${(error as Error).message}`,
+          "capture",
+        );
+      }
+
+      console.log("=====================================");
+      console.log(`📧 ${mail.subject}`);
+      console.log(`To: ${recipients(mail).join(", ")}`);
+      console.log(mail.text);
+      console.log(`Saved to ${filePath}`);
+      console.log("=====================================");
+
+      return { id: messageId };
+    },
+  };
+}
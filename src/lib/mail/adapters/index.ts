@@ -0,0 +1,3 @@
+export { createCaptureAdapter } from "./capture-adapter";
+export { createResendAdapter } from "./resend-adapter";
+export { createSmtpAdapter } from "./smtp-adapter";
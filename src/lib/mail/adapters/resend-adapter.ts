@@ -0,0 +1,65 @@
+import { recipients } from "../mime";
+import { type MailAdapter, MailError } from "../types";
+
+interface ResendAdapterOptions {
+  apiKey: string;
+  /** API base URL, for Resend-compatible services */
+  baseUrl?: string;
+  /** Request timeout in milliseconds */
+  timeoutMs?: number;
+}
+
+/**
+ * Adapter for the Resend HTTP API and services exposing the same endpoint
+ */
+export function createResendAdapter({
+  apiKey,
+  baseUrl = "https://api.resend.com",
+  timeoutMs = 10_000,
+}: ResendAdapterOptions): MailAdapter {
+  const endpoint = `${baseUrl.replace(/\/$/, "")}/emails`;
+
+  return {
+    name: "resend",
+    async send(mail) {
+      let response: Response;
+      try {
+        response = await fetch(endpoint, {
+          method: "POST",
+          headers: {
+            Authorization: `Bearer ${apiKey}`,
+            "Content-Type": "application/json",
+            ...(mail.idempotencyKey
+              ? { "Idempotency-Key": mail.idempotencyKey }
+              : {}),
+          },
+          body: JSON.stringify({
+            from: mail.from,
+            to: recipients(mail),
+            subject: mail.subject,
+            text: mail.text,
+            html: mail.html,
+            reply_to: mail.replyTo,
+          }),
+          signal: AbortSignal.timeout(timeoutMs),
+        });
+      } catch (error) {
+        throw new MailError(
+          `Resend request failed: ${(error as Error).message}`,
+          "resend",
+        );
+      }
+
+      if (!response.ok) {
+        const detail = await response.text().catch(() => "");
+        throw new MailError(
+          `Resend rejected the message with ${response.status}: ${detail.slice(0, 200)}`,
+          "resend",
+        );
+      }
+
+      const { id } = (await response.json()) as { id: string };
+      return { id };
+    },
+  };
+}
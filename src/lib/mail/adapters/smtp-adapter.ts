@@ -0,0 +1,236 @@
+import net from "node:net";
+import os from "node:os";
+import tls from "node:tls";
+
+import { buildMimeMessage, mailboxAddress, recipients } from "../mime";
+import { type MailAdapter, MailError } from "../types";
+
+interface SmtpAdapterOptions {
+  host: string;
+  port: number;
+  /** Connect over TLS from the start (port 465) instead of upgrading */
+  secure?: boolean;
+  user?: string;
+  password?: string;
+  /** Socket inactivity timeout in milliseconds */
+  timeoutMs?: number;
+}
+
+interface SmtpReply {
+  code: number;
+  message: string;
+}
+
+/**
+ * Message text as DATA content: CRLF line endings, lines starting with a
+ * dot escaped (RFC 5321 4.5.2) and the terminating "." line appended
+ */
+export function toSmtpData(raw: string) {
+  const body = raw.replace(/\r?\n/g, "\r\n").replace(/^\./gm, "..");
+  return `${body}\r\n.\r\n`;
+}
+
+/**
+ * Line-oriented SMTP conversation over a socket that can be upgraded to TLS
+ */
+class SmtpSession {
+  private socket: net.Socket;
+  private buffer = "";
+  private lines: string[] = [];
+  private replies: SmtpReply[] = [];
+  private waiting: {
+    resolve: (reply: SmtpReply) => void;
+    reject: (error: Error) => void;
+  }[] = [];
+  private failure: Error | null = null;
+
+  constructor(
+    socket: net.Socket,
+    private readonly timeoutMs: number,
+  ) {
+    this.socket = socket;
+    this.attach(socket);
+  }
+
+  /**
+   * Listen for replies and failures on a (possibly upgraded) socket
+   */
+  private attach(socket: net.Socket) {
+    socket.setTimeout(this.timeoutMs, () =>
+      socket.destroy(new Error("SMTP server timed out")),
+    );
+    socket.on("data", (chunk: Buffer) => this.receive(chunk.toString("utf8")));
+    socket.on("error", (error) => this.fail(error));
+    socket.on("close", () => this.fail(new Error("SMTP connection closed")));
+  }
+
+  private receive(data: string) {
+    this.buffer += data;
+
+    let index: number;
+    while ((index = this.buffer.indexOf("\r\n")) >= 0) {
+      const line = this.buffer.slice(0, index);
+      this.buffer = this.buffer.slice(index + 2);
+      this.lines.push(line);
+
+      // "250-..." continues a multiline reply, "250 ..." ends it
+      if (line[3] === "-") continue;
+
+      const reply = {
+        code: Number(line.slice(0, 3)),
+        message: this.lines.map((part) => part.slice(4)).join("\n"),
+      };
+      this.lines = [];
+
+      const waiter = this.waiting.shift();
+      if (waiter) waiter.resolve(reply);
+      else this.replies.push(reply);
+    }
+  }
+
+  private fail(error: Error) {
+    this.failure ??= error;
+    for (const waiter of this.waiting.splice(0)) waiter.reject(this.failure);
+  }
+
+  /**
+   * Wait for the next reply and check its code
+   */
+  async read(expected: number[]): Promise<SmtpReply> {
+    const reply =
+      this.replies.shift() ??
+      (await new Promise<SmtpReply>((resolve, reject) => {
+        if (this.failure) reject(this.failure);
+        else this.waiting.push({ resolve, reject });
+      }));
+
+    if (!expected.includes(reply.code)) {
+      throw new Error(`${reply.code} ${reply.message}`);
+    }
+    return reply;
+  }
+
+  /**
+   * Send a command line and wait for its reply
+   */
+  async command(line: string, expected: number[]): Promise<SmtpReply> {
+    this.socket.write(`${line}\r\n`);
+    return this.read(expected);
+  }
+
+  /**
+   * Send message data and the terminating dot line
+   */
+  async data(raw: string): Promise<SmtpReply> {
+    this.socket.write(toSmtpData(raw));
+    return this.read([250]);
+  }
+
+  /**
+   * Switch the connection to TLS after STARTTLS was accepted
+   */
+  async upgrade(host: string) {
+    this.socket.setTimeout(0);
+    this.socket.removeAllListeners("data");
+    this.socket.removeAllListeners("close");
+    this.socket.removeAllListeners("error");
+
+    const secured = tls.connect({ socket: this.socket, servername: host });
+    await new Promise<void>((resolve, reject) => {
+      secured.once("secureConnect", resolve);
+      secured.once("error", reject);
+    });
+
+    this.socket = secured;
+    this.attach(secured);
+  }
+
+  close() {
+    this.socket.end();
+  }
+}
+
+/**
+ * Open a connection, resolving once the socket is ready
+ */
+const connect = (
+  host: string,
+  port: number,
+  secure: boolean,
+): Promise<net.Socket> =>
+  new Promise((resolve, reject) => {
+    const socket = secure
+      ? tls.connect({ host, port, servername: host }, () => resolve(socket))
+      : net.connect({ host, port }, () => resolve(socket));
+    socket.once("error", reject);
+  });
+
+/**
+ * Adapter speaking SMTP to a relay or a local catcher such as Mailpit
+ * Upgrades with STARTTLS when offered; AUTH PLAIN is only sent over TLS
+ */
+export function createSmtpAdapter({
+  host,
+  port,
+  secure = port === 465,
+  user,
+  password,
+  timeoutMs = 30_000,
+}: SmtpAdapterOptions): MailAdapter {
+  return {
+    name: "smtp",
+    async send(mail) {
+      const { messageId, raw } = buildMimeMessage(mail);
+      let session: SmtpSession | null = null;
+
+      try {
+        session = new SmtpSession(await connect(host, port, secure), timeoutMs);
+        await session.read([220]);
+
+        const hello = await session.command(`EHLO ${os.hostname()}`, [250]);
+        const startTls = /^STARTTLS\b/im.test(hello.message);
+        if (!secure && startTls) {
+          await session.command("STARTTLS", [220]);
+          await session.upgrade(host);
+          await session.command(`EHLO ${os.hostname()}`, [250]);
+        }
+
+        if (user && password) {
+          // Credentials never go over a plaintext connection
+          if (!secure && !startTls) {
+            throw new Error(
+              "server does not offer STARTTLS, refusing to authenticate without TLS",
+            );
+          }
+
+          const credentials = Buffer.from(`\0${user}\0${password}`).toString(
+            "base64",
+          );
+          await session.command(`AUTH PLAIN ${credentials}`, [235]);
+        }
+
+        await session.command(`MAIL FROM:<${mailboxAddress(mail.from)}>`, [
+          250,
+        ]);
+        for (const recipient of recipients(mail)) {
+          await session.command(
+            `RCPT TO:<${mailboxAddress(recipient)}>`,
+            [250, 251],
+          );
+        }
+        await session.command("DATA", [354]);
+        await session.data(raw);
+        await session.command("QUIT", [221]).catch(() => undefined);
+
+        return { id: messageId };
+      } catch (error) {
+        throw new MailError(
+          `SMTP delivery via ${host}:${port} failed: ${(error as Error).message}`,
+          "smtp",
+        );
+      } finally {
+        session?.close();
+      }
+    },
+  };
+}
@@ -0,0 +1,77 @@
+import {
+  createCaptureAdapter,
+  createResendAdapter,
+  createSmtpAdapter,
+} from "./adapters";
+import type { MailAdapter, MailMessage } from "./types";
+
+export * from "./types";
+
+const DEFAULT_FROM = "Emetals <noreply@emetals.com>";
+
+let adapter: MailAdapter | null = null;
+
+/**
+ * Resolve the configured mail adapter
+ * Selected with MAIL_DRIVER ("capture", "smtp" or "resend"), defaults to
+ * capture outside production so nothing is sent by accident
+ */
+export function getMailer(): MailAdapter {
+  if (adapter) return adapter;
+
+  const driver =
+    process.env.MAIL_DRIVER ??
+    (process.env.NODE_ENV === "production" ? undefined : "capture");
+
+  switch (driver) {
+    case "smtp": {
+      const { SMTP_HOST, SMTP_PORT, SMTP_SECURE, SMTP_USER, SMTP_PASSWORD } =
+        process.env;
+
+      if (!SMTP_HOST) {
+        throw new Error("SMTP_HOST must be set when MAIL_DRIVER is smtp");
+      }
+      adapter = createSmtpAdapter({
+        host: SMTP_HOST,
+        port: Number(SMTP_PORT ?? 587),
+        secure: SMTP_SECURE ? SMTP_SECURE === "true" : undefined,
+        user: SMTP_USER,
+        password: SMTP_PASSWORD,
+      });
+      break;
+    }
+    case "resend": {
+      if (!process.env.RESEND_API_KEY) {
+        throw new Error(
+          "RESEND_API_KEY must be set when MAIL_DRIVER is resend",
+        );
+      }
+      adapter = createResendAdapter({
+        apiKey: process.env.RESEND_API_KEY,
+        baseUrl: process.env.RESEND_API_URL,
+      });
+      break;
+    }
+    case "capture":
+      adapter = createCaptureAdapter({
+        directory: process.env.MAIL_CAPTURE_DIR,
+      });
+      break;
+    case undefined:
+      throw new Error("MAIL_DRIVER must be set in production");
+    default:
+      throw new Error(`Unknown MAIL_DRIVER "${driver}"`);
+  }
+
+  return adapter;
+}
+
+/**
+ * Send a message from the configured sender address
+ */
+export async function sendMail(message: MailMessage): Promise<{ id: string }> {
+  return getMailer().send({
+    ...message,
+    from: process.env.MAIL_FROM ?? DEFAULT_FROM,
+  });
+}
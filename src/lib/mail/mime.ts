@@ -0,0 +1,86 @@
+import { randomUUID } from "node:crypto";
+
+import type { OutgoingMail } from "./types";
+
+/**
+ * Bare address from a mailbox such as "eMetals <noreply@emetals.com>"
+ */
+export function mailboxAddress(mailbox: string): string {
+  const match = mailbox.match(/<([^>]+)>/);
+  return (match ? match[1] : mailbox).trim();
+}
+
+/**
+ * Recipients of a message as a list
+ */
+export const recipients = (mail: Pick<OutgoingMail, "to">) =>
+  Array.isArray(mail.to) ? mail.to : [mail.to];
+
+/**
+ * Encode a header value as an RFC 2047 word when it isn't plain ASCII
+ */
+const encodeHeader = (value: string) =>
+  /^[\x20-\x7e]*$/.test(value)
+    ? value
+    : `=?UTF-8?B?${Buffer.from(value, "utf8").toString("base64")}?=`;
+
+/**
+ * Base64 body wrapped to the 76 character line limit
+ */
+const encodeBody = (value: string) =>
+  Buffer.from(value, "utf8").toString("base64").replace(/.{76}/g, "$&\r\n");
+
+/**
+ * Headers and base64 body of a single text part
+ */
+const textPart = (contentType: string, body: string) =>
+  [
+    `Content-Type: ${contentType}; charset=utf-8`,
+    "Content-Transfer-Encoding: base64",
+    "",
+    encodeBody(body),
+  ].join("\r\n");
+
+/**
+ * Serialize a message as RFC 5322 text with CRLF line endings
+ * Sends multipart/alternative when an HTML body is present
+ */
+export function buildMimeMessage(mail: OutgoingMail): {
+  messageId: string;
+  raw: string;
+} {
+  const domain = mailboxAddress(mail.from).split("@")[1] ?? "localhost";
+  const messageId = `<${randomUUID()}@${domain}>`;
+
+  const headers = [
+    `From: ${encodeHeader(mail.from)}`,
+    `To: ${recipients(mail).map(encodeHeader).join(", ")}`,
+    ...(mail.replyTo ? [`Reply-To: ${encodeHeader(mail.replyTo)}`] : []),
+    `Subject: ${encodeHeader(mail.subject)}`,
+    `Date: ${new Date().toUTCString()}`,
+    `Message-ID: ${messageId}`,
+    "MIME-Version: 1.0",
+  ];
+
+  if (!mail.html) {
+    return {
+      messageId,
+      raw: [...headers, textPart("text/plain", mail.text)].join("\r\n"),
+    };
+  }
+
+  const boundary = `=_${randomUUID().replace(/-/g, "")}`;
+  const raw = [
+    ...headers,
+    `Content-Type: multipart/alternative; boundary="${boundary}"`,
+    "",
+    `--${boundary}`,
+    textPart("text/plain", mail.text),
+    `--${boundary}`,
+    textPart("text/html", mail.html),
+    `--${boundary}--`,
+    "",
+  ].join("\r\n");
+
+  return { messageId, raw };
+}
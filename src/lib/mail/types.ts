@@ -0,0 +1,43 @@
+/**
+ * Email to send, before the sender address is applied
+ */
+export interface MailMessage {
+  to: string | string[];
+  subject: string;
+  /** Plain text body, always sent so every client can read the message */
+  text: string;
+  html?: string;
+  replyTo?: string;
+  /** Key letting providers that support it drop repeated sends */
+  idempotencyKey?: string;
+}
+
+/**
+ * Message with the sender resolved, as handed to an adapter
+ */
+export interface OutgoingMail extends MailMessage {
+  from: string;
+}
+
+/**
+ * Backend that delivers email
+ */
+export interface MailAdapter {
+  /** Short identifier recorded in logs and errors, e.g. "smtp" */
+  readonly name: string;
+  /** Deliver a message, resolving with the provider's message id */
+  send(mail: OutgoingMail): Promise<{ id: string }>;
+}
+
+/**
+ * Raised when a mail backend rejects or fails to deliver a message
+ */
+export class MailError extends Error {
+  constructor(
+    message: string,
+    readonly adapter: string,
+  ) {
+    super(message);
+    this.name = "MailError";
+  }
+}
@@ -0,0 +1,103 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+import { listOrdersForExport } from "@/database/queries";
+
+import { streamOrdersCsv } from "../export";
+
+vi.mock("@/database/queries", () => ({ listOrdersForExport: vi.fn() }));
+
+function exportOrder(overrides: Record<string, unknown> = {}) {
+  return {
+    number: 1001,
+    createdAt: new Date("2026-03-01T12:00:00Z"),
+    status: "paid",
+    user: { name: "Ada Lovelace", email: "ada@example.com" },
+    fulfillmentMethod: "delivery",
+    pickupLocation: null,
+    shippingAddress: { country: "US" },
+    lines: [
+      {
+        quantity: 2,
+        productName: "1 oz Gold Eagle",
+        sku: "AU-EAGLE-1",
+        metal: "gold",
+      },
+    ],
+    currency: "USD",
+    subtotal: 420_000,
+    shipping: 1_500,
+    total: 421_500,
+    ...overrides,
+  };
+}
+
+async function readCsv(stream: ReadableStream<Uint8Array>) {
+  return (await new Response(stream).text()).split("\r\n").slice(0, -1);
+}
+
+describe("streamOrdersCsv", () => {
+  beforeEach(() => {
+    vi.mocked(listOrdersForExport).mockReset();
+  });
+
+  it("writes a header and one row per order", async () => {
+    vi.mocked(listOrdersForExport).mockResolvedValueOnce([
+      exportOrder(),
+    ] as never);
+
+    const [header, row] = await readCsv(streamOrdersCsv({}));
+
+    expect(header).toBe(
+      "Order,Placed at (UTC),Status,Customer,Email,Fulfillment,Destination,Items,Metals,Currency,Subtotal,Shipping,Total",
+    );
+    expect(row).toBe(
+      "1001,2026-03-01T12:00:00.000Z,Paid,Ada Lovelace,ada@example.com,delivery,US,2 x 1 oz Gold Eagle (AU-EAGLE-1),gold,USD,4200.00,15.00,4215.00",
+    );
+  });
+
+  it("quotes fields containing commas, quotes and newlines", async () => {
+    vi.mocked(listOrdersForExport).mockResolvedValueOnce([
+      exportOrder({
+        user: { name: 'Lovelace, Ada "Countess"', email: "ada@example.com" },
+        pickupLocation: { name: "Main St\nVault" },
+        fulfillmentMethod: "pickup",
+      }),
+    ] as never);
+
+    const text = await new Response(streamOrdersCsv({})).text();
+
+    expect(text).toContain('"Lovelace, Ada ""Countess"""');
+    expect(text).toContain('"Main St\nVault"');
+  });
+
+  it("escapes values spreadsheets would evaluate as formulas", async () => {
+    vi.mocked(listOrdersForExport).mockResolvedValueOnce([
+      exportOrder({
+        user: { name: '=HYPERLINK("http://x")', email: "+1@example.com" },
+      }),
+    ] as never);
+
+    const [, row] = await readCsv(streamOrdersCsv({}));
+
+    expect(row).toContain(`"'=HYPERLINK(""http://x"")"`);
+    expect(row).toContain(",'+1@example.com,");
+  });
+
+  it("pages through orders by number until a short batch", async () => {
+    vi.mocked(listOrdersForExport)
+      .mockResolvedValueOnce(
+        Array.from({ length: 500 }, (_, i) =>
+          exportOrder({ number: 2000 - i }),
+        ) as never,
+      )
+      .mockResolvedValueOnce([exportOrder({ number: 1000 })] as never);
+
+    const rows = await readCsv(streamOrdersCsv({ status: "paid" } as never));
+
+    expect(rows).toHaveLength(502);
+    expect(listOrdersForExport).toHaveBeenLastCalledWith(
+      { status: "paid" },
+      { beforeNumber: 1501, limit: 500 },
+    );
+  });
+});
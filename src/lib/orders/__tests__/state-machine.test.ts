@@ -0,0 +1,122 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+import { getOrderById, updateOrderStatus } from "@/database/queries";
+
+import {
+  OrderTransitionError,
+  assertOrderTransition,
+  canTransitionOrder,
+  getNextOrderStatuses,
+  transitionOrder,
+} from "..";
+
+vi.mock("@/database/queries", () => ({
+  getOrderById: vi.fn(),
+  updateOrderStatus: vi.fn(),
+  listOrdersForExport: vi.fn(),
+}));
+
+describe("order state machine", () => {
+  it("follows the delivery path", () => {
+    expect(getNextOrderStatuses("allocated", "delivery")).toEqual([
+      "shipped",
+      "refunded",
+    ]);
+    expect(canTransitionOrder("shipped", "delivered", "delivery")).toBe(true);
+    expect(
+      canTransitionOrder("allocated", "ready_for_pickup", "delivery"),
+    ).toBe(false);
+  });
+
+  it("follows the pickup path", () => {
+    expect(getNextOrderStatuses("allocated", "pickup")).toEqual([
+      "ready_for_pickup",
+      "refunded",
+    ]);
+    expect(canTransitionOrder("ready_for_pickup", "collected", "pickup")).toBe(
+      true,
+    );
+    expect(canTransitionOrder("allocated", "shipped", "pickup")).toBe(false);
+  });
+
+  it("refunds paid orders instead of cancelling them", () => {
+    expect(canTransitionOrder("pending_payment", "cancelled", "delivery")).toBe(
+      true,
+    );
+    expect(canTransitionOrder("paid", "cancelled", "delivery")).toBe(false);
+    expect(canTransitionOrder("paid", "refunded", "delivery")).toBe(true);
+  });
+
+  it("keeps cancelled and refunded orders final", () => {
+    expect(getNextOrderStatuses("cancelled", "delivery")).toEqual([]);
+    expect(getNextOrderStatuses("refunded", "pickup")).toEqual([]);
+  });
+
+  it("throws an illegal_transition error naming both statuses", () => {
+    expect(() => assertOrderTransition("shipped", "paid", "delivery")).toThrow(
+      expect.objectContaining({
+        code: "illegal_transition",
+        from: "shipped",
+        to: "paid",
+      }),
+    );
+  });
+});
+
+describe("transitionOrder", () => {
+  const order = {
+    id: "order-1",
+    status: "paid",
+    fulfillmentMethod: "delivery",
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(getOrderById).mockResolvedValue(order as never);
+  });
+
+  it("records the actor and reason with the new status", async () => {
+    vi.mocked(updateOrderStatus).mockResolvedValue({
+      ...order,
+      status: "allocated",
+    } as never);
+
+    await transitionOrder(
+      "order-1",
+      "allocated",
+      { type: "staff", userId: "staff-1" },
+      "Stock reserved",
+    );
+
+    expect(updateOrderStatus).toHaveBeenCalledWith(
+      "order-1",
+      "paid",
+      "allocated",
+      { actorType: "staff", actorId: "staff-1", reason: "Stock reserved" },
+      undefined,
+    );
+  });
+
+  it("rejects a missing order", async () => {
+    vi.mocked(getOrderById).mockResolvedValue(undefined as never);
+
+    await expect(
+      transitionOrder("order-1", "allocated", { type: "system" }, "Test"),
+    ).rejects.toMatchObject({ code: "not_found" });
+  });
+
+  it("rejects an illegal transition without writing", async () => {
+    await expect(
+      transitionOrder("order-1", "cancelled", { type: "system" }, "Test"),
+    ).rejects.toBeInstanceOf(OrderTransitionError);
+    expect(updateOrderStatus).not.toHaveBeenCalled();
+  });
+
+  it("reports a conflict when the status changed underneath", async () => {
+    vi.mocked(updateOrderStatus).mockResolvedValue(null as never);
+
+    await expect(
+      transitionOrder("order-1", "allocated", { type: "system" }, "Test"),
+    ).rejects.toMatchObject({ code: "conflict", from: "paid" });
+  });
+});
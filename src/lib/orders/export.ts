@@ -0,0 +1,109 @@
+import { type OrderFilters, listOrdersForExport } from "@/database/queries";
+
+import { ORDER_STATUS_LABELS } from "./state-machine";
+
+// Rows fetched per query; keeps memory flat however many orders match
+const EXPORT_BATCH_SIZE = 500;
+
+const CSV_COLUMNS = [
+  "Order",
+  "Placed at (UTC)",
+  "Status",
+  "Customer",
+  "Email",
+  "Fulfillment",
+  "Destination",
+  "Items",
+  "Metals",
+  "Currency",
+  "Subtotal",
+  "Shipping",
+  "Total",
+];
+
+/**
+ * Quote a CSV field when it contains a delimiter, quote or newline
+ * Leading formula characters are escaped so spreadsheets don't evaluate them
+ */
+function csvField(value: string | number) {
+  let text = String(value);
+
+  if (/^[=+\-@\t\r]/.test(text)) {
+    text = `'${text}`;
+  }
+
+  return /[",\r\n]/.test(text) ? `"${text.replaceAll('"', '""')}"` : text;
+}
+
+function csvRow(values: (string | number)[]) {
+  return `${values.map(csvField).join(",")}\r\n`;
+}
+
+/**
+ * Format cents as a plain decimal amount for spreadsheets
+ */
+function csvAmount(cents: number) {
+  return (cents / 100).toFixed(2);
+}
+
+/**
+ * Stream every order matching the filters as CSV, newest first
+ * Orders are read in keyset-paginated batches as the consumer pulls
+ */
+export function streamOrdersCsv(filters: OrderFilters) {
+  const encoder = new TextEncoder();
+  let beforeNumber: number | undefined;
+  let headerSent = false;
+
+  return new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      if (!headerSent) {
+        headerSent = true;
+        controller.enqueue(encoder.encode(csvRow(CSV_COLUMNS)));
+        return;
+      }
+
+      const orders = await listOrdersForExport(filters, {
+        beforeNumber,
+        limit: EXPORT_BATCH_SIZE,
+      });
+
+      const chunk = orders
+        .map((order) =>
+          csvRow([
+            order.number,
+            order.createdAt.toISOString(),
+            ORDER_STATUS_LABELS[order.status],
+            order.user.name,
+            order.user.email,
+            order.fulfillmentMethod,
+            order.fulfillmentMethod === "pickup"
+              ? (order.pickupLocation?.name ?? "")
+              : (order.shippingAddress?.country ?? ""),
+            order.lines
+              .map(
+                (line) =>
+                  `${line.quantity} x ${line.productName} (${line.sku})`,
+              )
+              .join("; "),
+            [...new Set(order.lines.map((line) => line.metal))].join("; "),
+            order.currency,
+            csvAmount(order.subtotal),
+            csvAmount(order.shipping),
+            csvAmount(order.total),
+          ]),
+        )
+        .join("");
+
+      if (chunk) {
+        controller.enqueue(encoder.encode(chunk));
+      }
+
+      if (orders.length < EXPORT_BATCH_SIZE) {
+        controller.close();
+      } else {
+        beforeNumber = orders.at(-1)!.number;
+      }
+    },
+  });
+}
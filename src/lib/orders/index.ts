@@ -0,0 +1,59 @@
+import { getOrderById, updateOrderStatus } from "@/database/queries";
+import type { NewOrder, Order, OrderStatus } from "@/database/schema";
+
+import { assertOrderTransition } from "./state-machine";
+import { type OrderActor, OrderTransitionError } from "./types";
+
+export { streamOrdersCsv } from "./export";
+export {
+  ORDER_STATUS_LABELS,
+  ORDER_TRANSITIONS,
+  assertOrderTransition,
+  canTransitionOrder,
+  getNextOrderStatuses,
+} from "./state-machine";
+export { type OrderActor, OrderTransitionError } from "./types";
+
+/**
+ * Move an order to a new status, recording actor and reason
+ * Rejects transitions the state machine does not allow
+ */
+export async function transitionOrder(
+  orderId: string,
+  to: OrderStatus,
+  actor: OrderActor,
+  reason: string,
+  fulfillment?: Pick<NewOrder, "trackingCarrier" | "trackingNumber">,
+): Promise<Order> {
+  const current = await getOrderById(orderId);
+
+  if (!current) {
+    throw new OrderTransitionError("Order not found", "not_found");
+  }
+
+  assertOrderTransition(current.status, to, current.fulfillmentMethod);
+
+  const updated = await updateOrderStatus(
+    orderId,
+    current.status,
+    to,
+    {
+      actorType: actor.type,
+      actorId: actor.userId ?? null,
+      reason,
+    },
+    fulfillment,
+  );
+
+  // Someone else moved the order between our read and write
+  if (!updated) {
+    throw new OrderTransitionError(
+      "Order status changed concurrently",
+      "conflict",
+      current.status,
+      to,
+    );
+  }
+
+  return updated;
+}
@@ -0,0 +1,80 @@
+import type { FulfillmentMethod, OrderStatus } from "@/database/schema";
+
+import { OrderTransitionError } from "./types";
+
+/**
+ * Statuses each order status may move to
+ * Paid orders are never cancelled outright; money goes back via a refund
+ */
+export const ORDER_TRANSITIONS = {
+  pending_payment: ["paid", "cancelled"],
+  paid: ["allocated", "refunded"],
+  allocated: ["shipped", "ready_for_pickup", "refunded"],
+  shipped: ["delivered"],
+  ready_for_pickup: ["collected", "refunded"],
+  delivered: ["refunded"],
+  collected: ["refunded"],
+  cancelled: [],
+  refunded: [],
+} as const satisfies Record<OrderStatus, readonly OrderStatus[]>;
+
+/**
+ * Statuses that only belong to the other fulfillment path
+ */
+const EXCLUDED_BY_FULFILLMENT: Record<FulfillmentMethod, OrderStatus[]> = {
+  delivery: ["ready_for_pickup", "collected"],
+  pickup: ["shipped", "delivered"],
+};
+
+export const ORDER_STATUS_LABELS: Record<OrderStatus, string> = {
+  pending_payment: "Awaiting payment",
+  paid: "Paid",
+  allocated: "Allocated",
+  shipped: "Shipped",
+  ready_for_pickup: "Ready for pickup",
+  delivered: "Delivered",
+  collected: "Collected",
+  cancelled: "Cancelled",
+  refunded: "Refunded",
+};
+
+/**
+ * Statuses an order in `from` can move to next on its fulfillment path
+ */
+export function getNextOrderStatuses(
+  from: OrderStatus,
+  fulfillment: FulfillmentMethod,
+): OrderStatus[] {
+  return ORDER_TRANSITIONS[from].filter(
+    (to) => !EXCLUDED_BY_FULFILLMENT[fulfillment].includes(to),
+  );
+}
+
+/**
+ * Whether an order may move from `from` to `to`
+ */
+export function canTransitionOrder(
+  from: OrderStatus,
+  to: OrderStatus,
+  fulfillment: FulfillmentMethod,
+) {
+  return getNextOrderStatuses(from, fulfillment).includes(to);
+}
+
+/**
+ * Throw unless an order may move from `from` to `to`
+ */
+export function assertOrderTransition(
+  from: OrderStatus,
+  to: OrderStatus,
+  fulfillment: FulfillmentMethod,
+) {
+  if (!canTransitionOrder(from, to, fulfillment)) {
+    throw new OrderTransitionError(
+      `A ${fulfillment} order cannot move from ${from} to ${to}`,
+      "illegal_transition",
+      from,
+      to,
+    );
+  }
+}
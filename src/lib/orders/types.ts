@@ -0,0 +1,29 @@
+import type { OrderActorType, OrderStatus } from "@/database/schema";
+
+/**
+ * Who is changing an order's status
+ * Customers and staff are identified by user id, system changes have none
+ */
+export type OrderActor =
+  | { type: Exclude<OrderActorType, "system">; userId: string }
+  | { type: "system"; userId?: undefined };
+
+export type OrderTransitionErrorCode =
+  | "not_found"
+  | "illegal_transition"
+  | "conflict";
+
+/**
+ * Raised when an order cannot move to the requested status
+ */
+export class OrderTransitionError extends Error {
+  constructor(
+    message: string,
+    readonly code: OrderTransitionErrorCode,
+    readonly from?: OrderStatus,
+    readonly to?: OrderStatus,
+  ) {
+    super(message);
+    this.name = "OrderTransitionError";
+  }
+}
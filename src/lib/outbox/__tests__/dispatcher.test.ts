@@ -0,0 +1,160 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+import { claimDueOutboxEvents, updateOutboxEvent } from "@/database/queries";
+import type { OutboxEvent } from "@/database/schema";
+
+import {
+  OUTBOX_MAX_ATTEMPTS,
+  dispatchOutboxEvent,
+  dispatchOutboxEvents,
+} from "../dispatcher";
+import type { OutboxHandler } from "../types";
+
+vi.mock("@/database/queries", () => ({
+  claimDueOutboxEvents: vi.fn(),
+  updateOutboxEvent: vi.fn(),
+}));
+vi.mock("../handlers", () => ({ OUTBOX_HANDLERS: [] }));
+
+const now = new Date("2025-03-04T12:00:00Z");
+
+function outboxEvent(values: Partial<OutboxEvent> = {}) {
+  return {
+    id: "event-1",
+    type: "order.created",
+    aggregateId: "order-1",
+    payload: { orderId: "order-1" },
+    status: "pending",
+    attempts: 0,
+    completedHandlers: [],
+    createdAt: now,
+    ...values,
+  } as unknown as OutboxEvent;
+}
+
+function handler(name: string, handle = vi.fn(async () => {})) {
+  return {
+    name,
+    handles: ["order.created"],
+    handle,
+  } satisfies OutboxHandler;
+}
+
+describe("dispatchOutboxEvent", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.useFakeTimers({ now });
+    vi.spyOn(console, "error").mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  it("runs matching handlers with a stable idempotency key", async () => {
+    const email = handler("email");
+    const other = {
+      ...handler("other"),
+      handles: ["payment.succeeded" as const],
+    };
+
+    await dispatchOutboxEvent(outboxEvent(), [email, other]);
+
+    expect(email.handle).toHaveBeenCalledWith(
+      expect.objectContaining({ id: "event-1" }),
+      { idempotencyKey: "event-1:email" },
+    );
+    expect(other.handle).not.toHaveBeenCalled();
+    expect(updateOutboxEvent).toHaveBeenCalledWith("event-1", {
+      status: "dispatched",
+      completedHandlers: ["email"],
+      nextAttemptAt: null,
+      lastError: null,
+      dispatchedAt: now,
+    });
+  });
+
+  it("skips handlers that completed on an earlier attempt", async () => {
+    const email = handler("email");
+    const webhooks = handler("webhooks");
+
+    await dispatchOutboxEvent(
+      outboxEvent({ attempts: 1, completedHandlers: ["email"] }),
+      [email, webhooks],
+    );
+
+    expect(email.handle).not.toHaveBeenCalled();
+    expect(webhooks.handle).toHaveBeenCalledOnce();
+    expect(updateOutboxEvent).toHaveBeenCalledWith(
+      "event-1",
+      expect.objectContaining({
+        status: "dispatched",
+        completedHandlers: ["email", "webhooks"],
+      }),
+    );
+  });
+
+  it("reschedules a failed event with backoff, keeping completed handlers", async () => {
+    const email = handler("email");
+    const webhooks = handler(
+      "webhooks",
+      vi.fn(async () => {
+        throw new Error("Receiver unavailable");
+      }),
+    );
+
+    await dispatchOutboxEvent(outboxEvent({ attempts: 2 }), [email, webhooks]);
+
+    expect(updateOutboxEvent).toHaveBeenCalledWith("event-1", {
+      status: "pending",
+      completedHandlers: ["email"],
+      attempts: 3,
+      // Third attempt waits four times the 15 second base delay
+      nextAttemptAt: new Date(now.getTime() + 60 * 1000),
+      lastError: "webhooks: Receiver unavailable",
+    });
+  });
+
+  it("marks the event failed once it runs out of attempts", async () => {
+    const webhooks = handler(
+      "webhooks",
+      vi.fn(async () => {
+        throw new Error("Receiver unavailable");
+      }),
+    );
+
+    await dispatchOutboxEvent(
+      outboxEvent({ attempts: OUTBOX_MAX_ATTEMPTS - 1 }),
+      [webhooks],
+    );
+
+    expect(updateOutboxEvent).toHaveBeenCalledWith(
+      "event-1",
+      expect.objectContaining({
+        status: "failed",
+        attempts: OUTBOX_MAX_ATTEMPTS,
+        nextAttemptAt: null,
+      }),
+    );
+  });
+});
+
+describe("dispatchOutboxEvents", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it("dispatches claimed events oldest first", async () => {
+    vi.mocked(claimDueOutboxEvents).mockResolvedValueOnce([
+      outboxEvent({ id: "event-2", createdAt: new Date(now.getTime() + 1) }),
+      outboxEvent({ id: "event-1" }),
+    ]);
+
+    await expect(dispatchOutboxEvents()).resolves.toBe(2);
+    expect(vi.mocked(updateOutboxEvent).mock.calls.map(([id]) => id)).toEqual([
+      "event-1",
+      "event-2",
+    ]);
+  });
+});
@@ -0,0 +1,103 @@
+import { claimDueOutboxEvents, updateOutboxEvent } from "@/database/queries";
+import type { OutboxEvent } from "@/database/schema";
+
+import { OUTBOX_HANDLERS } from "./handlers";
+import type { DomainEvent, OutboxHandler } from "./types";
+
+// Attempts before an event is marked failed; roughly a day of retries
+export const OUTBOX_MAX_ATTEMPTS = 12;
+const RETRY_BASE_DELAY_MS = 15 * 1000;
+const RETRY_MAX_DELAY_MS = 6 * 60 * 60 * 1000;
+
+// Longer than handlers take, so a claim never lapses mid-dispatch
+const CLAIM_LEASE_MS = 5 * 60 * 1000;
+const DISPATCH_BATCH_SIZE = 50;
+
+/**
+ * Run every handler that hasn't yet completed an event
+ * Completed handlers are saved even when others fail, so a retry only
+ * repeats the failures
+ */
+export async function dispatchOutboxEvent(
+  event: OutboxEvent,
+  handlers: OutboxHandler[] = OUTBOX_HANDLERS,
+) {
+  const completed = [...event.completedHandlers];
+  const errors: string[] = [];
+
+  for (const handler of handlers) {
+    if (
+      !handler.handles.includes(event.type) ||
+      completed.includes(handler.name)
+    ) {
+      continue;
+    }
+
+    try {
+      await handler.handle(event as DomainEvent, {
+        idempotencyKey: `${event.id}:${handler.name}`,
+      });
+      completed.push(handler.name);
+    } catch (error) {
+      console.error(`Outbox handler ${handler.name} failed:`, error);
+      errors.push(
+        `${handler.name}: ${error instanceof Error ? error.message : String(error)}`,
+      );
+    }
+  }
+
+  if (!errors.length) {
+    return updateOutboxEvent(event.id, {
+      status: "dispatched",
+      completedHandlers: completed,
+      nextAttemptAt: null,
+      lastError: null,
+      dispatchedAt: new Date(),
+    });
+  }
+
+  const attempts = event.attempts + 1;
+  const exhausted = attempts >= OUTBOX_MAX_ATTEMPTS;
+
+  return updateOutboxEvent(event.id, {
+    status: exhausted ? "failed" : "pending",
+    completedHandlers: completed,
+    attempts,
+    nextAttemptAt: exhausted
+      ? null
+      : new Date(
+          Date.now() +
+            Math.min(
+              RETRY_BASE_DELAY_MS * 2 ** (attempts - 1),
+              RETRY_MAX_DELAY_MS,
+            ),
+        ),
+    lastError: errors.join("\n"),
+  });
+}
+
+/**
+ * Dispatch every due event, oldest first, a batch at a time
+ */
+export async function dispatchOutboxEvents() {
+  let dispatched = 0;
+
+  while (true) {
+    const batch = await claimDueOutboxEvents(
+      DISPATCH_BATCH_SIZE,
+      CLAIM_LEASE_MS,
+    );
+    if (!batch.length) break;
+
+    // Events are handled in the order they happened
+    batch.sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+    for (const event of batch) {
+      await dispatchOutboxEvent(event);
+      dispatched++;
+    }
+
+    if (batch.length < DISPATCH_BATCH_SIZE) break;
+  }
+
+  return dispatched;
+}
@@ -0,0 +1,16 @@
+import { auditOutboxHandler } from "@/lib/audit";
+import { emailOutboxHandler } from "@/lib/emails";
+import { webhookOutboxHandler } from "@/lib/webhooks/events";
+
+import type { OutboxHandler } from "./types";
+
+/**
+ * Every consumer of domain events
+ * A handler's name is persisted on events it completed, so don't rename one
+ * while events are pending
+ */
+export const OUTBOX_HANDLERS: OutboxHandler[] = [
+  auditOutboxHandler,
+  emailOutboxHandler,
+  webhookOutboxHandler,
+];
@@ -0,0 +1,7 @@
+export {
+  OUTBOX_MAX_ATTEMPTS,
+  dispatchOutboxEvent,
+  dispatchOutboxEvents,
+} from "./dispatcher";
+export { OUTBOX_HANDLERS } from "./handlers";
+export * from "./types";
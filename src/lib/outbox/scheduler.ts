@@ -0,0 +1,40 @@
+import { dispatchOutboxEvents } from "./dispatcher";
+
+const globalForScheduler = globalThis as unknown as {
+  outboxScheduler?: NodeJS.Timeout;
+};
+
+/**
+ * Drain the domain event outbox on an interval
+ * Interval is OUTBOX_DISPATCH_INTERVAL_SECONDS (default 5, 0 disables)
+ */
+export function startOutboxScheduler() {
+  const intervalSeconds = Number(
+    process.env.OUTBOX_DISPATCH_INTERVAL_SECONDS ?? 5,
+  );
+
+  // Survive hot reloads without stacking intervals
+  if (globalForScheduler.outboxScheduler || !(intervalSeconds > 0)) {
+    return;
+  }
+
+  let isRunning = false;
+
+  const poll = async () => {
+    if (isRunning) return;
+    isRunning = true;
+    try {
+      await dispatchOutboxEvents();
+    } catch (error) {
+      console.error("Outbox dispatch failed:", error);
+    } finally {
+      isRunning = false;
+    }
+  };
+
+  globalForScheduler.outboxScheduler = setInterval(
+    poll,
+    intervalSeconds * 1000,
+  );
+  void poll();
+}
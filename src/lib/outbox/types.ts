@@ -0,0 +1,32 @@
+import type {
+  DomainEventPayloads,
+  DomainEventType,
+  OutboxEvent,
+} from "@/database/schema";
+
+/**
+ * Domain event as handed to handlers
+ */
+export type DomainEvent<T extends DomainEventType = DomainEventType> = Omit<
+  OutboxEvent,
+  "type" | "payload"
+> &
+  {
+    [K in T]: { type: K; payload: DomainEventPayloads[K] };
+  }[T];
+
+/**
+ * Consumer of domain events, e.g. webhooks or email
+ * Events arrive at least once, so handlers must tolerate repeats; the
+ * idempotency key is stable across retries of the same event and handler
+ */
+export interface OutboxHandler {
+  /** Unique name, recorded on events the handler has completed */
+  name: string;
+  /** Event types the handler receives */
+  handles: DomainEventType[];
+  handle(
+    event: DomainEvent,
+    context: { idempotencyKey: string },
+  ): Promise<void>;
+}
@@ -0,0 +1,129 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+import {
+  getProductsByIds,
+  insertOrder,
+  restorePriceQuote,
+} from "@/database/queries";
+import { resolveFulfillment } from "@/lib/fulfillment";
+import { claimQuoteForCheckout, getPriceQuote } from "@/lib/price-quotes";
+
+import { startCheckout } from "../checkout";
+import { getStripe, isFakePayments } from "../stripe";
+
+vi.mock("@/database/queries", () => ({
+  getProductsByIds: vi.fn(),
+  insertOrder: vi.fn(),
+  insertPayment: vi.fn(),
+  restorePriceQuote: vi.fn(),
+}));
+vi.mock("@/lib/fulfillment", () => ({
+  FulfillmentError: class extends Error {},
+  estimateParcelWeightOz: () => 32,
+  resolveFulfillment: vi.fn(),
+}));
+vi.mock("@/lib/orders", () => ({ transitionOrder: vi.fn() }));
+vi.mock("@/lib/price-quotes", () => ({
+  claimQuoteForCheckout: vi.fn(),
+  getPriceQuote: vi.fn(),
+}));
+vi.mock("../fake", () => ({
+  createFakeCheckoutSession: (order: { id: string }) => ({
+    id: `cs_fake_${order.id}`,
+    url: `/checkout/fake/${order.id}`,
+  }),
+}));
+vi.mock("../stripe", () => ({
+  absoluteUrl: (path: string) => path,
+  getStripe: vi.fn(),
+  isFakePayments: vi.fn(),
+}));
+
+const quote = {
+  id: "quote-1",
+  currency: "USD",
+  subtotal: 995_000,
+  expiresAt: new Date("2025-03-04T12:10:00Z"),
+  lines: [{ productId: "product-1", quantity: 1 }],
+};
+
+const owner = { userId: "user-1", sessionId: "session-1", email: "a@b.co" };
+const delivery = { method: "delivery", country: "US" } as never;
+
+describe("startCheckout", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(isFakePayments).mockReturnValue(true);
+    vi.mocked(getPriceQuote).mockResolvedValue(quote as never);
+    vi.mocked(claimQuoteForCheckout).mockResolvedValue(quote as never);
+    vi.mocked(getProductsByIds).mockResolvedValue([
+      { id: "product-1", metal: "gold" },
+    ] as never);
+    vi.mocked(resolveFulfillment).mockResolvedValue({
+      fulfillmentMethod: "delivery",
+      shipping: 10_000,
+    } as never);
+    vi.mocked(insertOrder).mockResolvedValue({
+      id: "order-1",
+      currency: "USD",
+      shipping: 10_000,
+      total: 1_005_000,
+    } as never);
+  });
+
+  it("authorizes the total including shipping", async () => {
+    const authorize = vi.fn();
+
+    await startCheckout("quote-1", owner, delivery, authorize);
+
+    expect(authorize).toHaveBeenCalledWith(1_005_000);
+    expect(insertOrder).toHaveBeenCalledWith(
+      expect.objectContaining({ subtotal: 995_000, total: 1_005_000 }),
+      expect.anything(),
+      expect.anything(),
+    );
+  });
+
+  it("keeps the quote when authorization fails", async () => {
+    const refused = new Error("Step-up required");
+
+    await expect(
+      startCheckout("quote-1", owner, delivery, async () => {
+        throw refused;
+      }),
+    ).rejects.toBe(refused);
+    expect(claimQuoteForCheckout).not.toHaveBeenCalled();
+    expect(insertOrder).not.toHaveBeenCalled();
+  });
+
+  it("rejects a pickup appointment that filled up and keeps the quote", async () => {
+    // insertOrder found no room left under the location lock
+    vi.mocked(insertOrder).mockResolvedValue(null);
+
+    await expect(
+      startCheckout("quote-1", owner, delivery, vi.fn()),
+    ).rejects.toThrow("just booked up");
+    expect(restorePriceQuote).toHaveBeenCalledWith("quote-1", quote.expiresAt);
+  });
+
+  it("closes the Stripe session when the claimed quote's lock ends", async () => {
+    const claimedUntil = new Date("2025-03-04T12:31:00Z");
+    const create = vi.fn(async () => ({ id: "cs_1", url: "https://stripe" }));
+    vi.mocked(isFakePayments).mockReturnValue(false);
+    vi.mocked(getStripe).mockReturnValue({
+      checkout: { sessions: { create } },
+    } as never);
+    vi.mocked(claimQuoteForCheckout).mockResolvedValue({
+      ...quote,
+      expiresAt: claimedUntil,
+    } as never);
+
+    await startCheckout("quote-1", owner, delivery, vi.fn());
+
+    expect(create).toHaveBeenCalledWith(
+      expect.objectContaining({
+        expires_at: claimedUntil.getTime() / 1000,
+      }),
+    );
+  });
+});
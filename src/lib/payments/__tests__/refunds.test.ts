@@ -0,0 +1,244 @@
+import Stripe from "stripe";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+import {
+  getOrderById,
+  getRefundById,
+  getRefundByProviderRefundId,
+  getRefundedAmount,
+  reserveRefund,
+  settlePendingRefund,
+  updateRefund,
+} from "@/database/queries";
+import { transitionOrder } from "@/lib/orders";
+
+import { reconcileRefund, refundOrder, retryRefund } from "../refunds";
+import { getStripe } from "../stripe";
+
+vi.mock("@/database/queries", () => ({
+  getOrderById: vi.fn(),
+  getRefundById: vi.fn(),
+  getRefundByProviderRefundId: vi.fn(),
+  getRefundedAmount: vi.fn(),
+  insertOrderNote: vi.fn(),
+  reserveRefund: vi.fn(),
+  settlePendingRefund: vi.fn(),
+  updateRefund: vi.fn(),
+}));
+vi.mock("@/lib/orders", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("@/lib/orders")>()),
+  transitionOrder: vi.fn(),
+}));
+vi.mock("../stripe", () => ({
+  getStripe: vi.fn(),
+  isFakePayments: () => false,
+}));
+
+const payment = {
+  id: "payment-1",
+  orderId: "order-1",
+  status: "succeeded",
+  amount: 100_000,
+  paymentIntentId: "pi_1",
+};
+
+const reserved = {
+  id: "refund-1",
+  paymentId: "payment-1",
+  providerRefundId: null,
+  status: "pending",
+  amount: 100_000,
+  reason: "Customer request",
+};
+
+const createRefund = vi.fn();
+
+describe("refunds", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(getStripe).mockReturnValue({
+      refunds: { create: createRefund },
+    } as never);
+    vi.mocked(getOrderById).mockResolvedValue({
+      id: "order-1",
+      status: "paid",
+      fulfillmentMethod: "delivery",
+      payments: [payment],
+    } as never);
+    vi.mocked(reserveRefund).mockResolvedValue(reserved as never);
+    vi.mocked(getRefundedAmount).mockResolvedValue(100_000);
+    vi.mocked(updateRefund).mockImplementation(
+      async (id, values) => ({ ...reserved, ...values }) as never,
+    );
+    vi.mocked(settlePendingRefund).mockImplementation(
+      async (id, values) => ({ ...reserved, ...values }) as never,
+    );
+  });
+
+  it("refunds the order once the payment is refunded in full", async () => {
+    createRefund.mockResolvedValue({ id: "re_1", status: "succeeded" });
+
+    await refundOrder("order-1", 100_000, "staff-1", "Customer request");
+
+    expect(createRefund).toHaveBeenCalledWith(
+      expect.objectContaining({ payment_intent: "pi_1", amount: 100_000 }),
+      { idempotencyKey: "refund_refund-1" },
+    );
+    expect(transitionOrder).toHaveBeenCalledWith(
+      "order-1",
+      "refunded",
+      { type: "staff", userId: "staff-1" },
+      "Customer request",
+    );
+  });
+
+  it("waits for the provider to settle a refund before refunding the order", async () => {
+    createRefund.mockResolvedValue({ id: "re_1", status: "pending" });
+    // Pending refunds don't count towards the refunded amount
+    vi.mocked(getRefundedAmount).mockResolvedValue(0);
+
+    await refundOrder("order-1", 100_000, "staff-1", "Customer request");
+
+    expect(transitionOrder).not.toHaveBeenCalled();
+  });
+
+  it("marks a refund the provider rejected as failed", async () => {
+    createRefund.mockRejectedValue(
+      new Stripe.errors.StripeInvalidRequestError({
+        message: "Charge has already been refunded",
+      } as never),
+    );
+
+    await expect(
+      refundOrder("order-1", 100_000, "staff-1", "Customer request"),
+    ).rejects.toMatchObject({ code: "provider_error" });
+    expect(updateRefund).toHaveBeenCalledWith("refund-1", {
+      status: "failed",
+      failureMessage: "Charge has already been refunded",
+    });
+    expect(transitionOrder).not.toHaveBeenCalled();
+  });
+
+  it("keeps a refund pending when the provider didn't answer", async () => {
+    createRefund.mockRejectedValue(
+      new Stripe.errors.StripeConnectionError({
+        message: "Connection reset",
+      } as never),
+    );
+
+    await expect(
+      refundOrder("order-1", 100_000, "staff-1", "Customer request"),
+    ).rejects.toMatchObject({ code: "provider_unconfirmed" });
+    expect(updateRefund).toHaveBeenCalledWith("refund-1", {
+      failureMessage: "Connection reset",
+    });
+    expect(transitionOrder).not.toHaveBeenCalled();
+  });
+
+  it("retries an unconfirmed refund with the same idempotency key", async () => {
+    vi.mocked(getRefundById).mockResolvedValue({
+      ...reserved,
+      payment,
+    } as never);
+    createRefund.mockResolvedValue({ id: "re_1", status: "succeeded" });
+
+    await retryRefund("order-1", "refund-1", "staff-1");
+
+    expect(reserveRefund).not.toHaveBeenCalled();
+    expect(createRefund).toHaveBeenCalledWith(expect.anything(), {
+      idempotencyKey: "refund_refund-1",
+    });
+    expect(transitionOrder).toHaveBeenCalled();
+  });
+
+  it("won't retry a refund the provider already confirmed", async () => {
+    vi.mocked(getRefundById).mockResolvedValue({
+      ...reserved,
+      providerRefundId: "re_1",
+      payment,
+    } as never);
+
+    await expect(
+      retryRefund("order-1", "refund-1", "staff-1"),
+    ).rejects.toMatchObject({ code: "not_refundable" });
+    expect(createRefund).not.toHaveBeenCalled();
+  });
+
+  it("reconciles an unconfirmed refund from its webhook by refund id", async () => {
+    vi.mocked(getRefundByProviderRefundId).mockResolvedValue(undefined);
+    vi.mocked(getRefundById).mockResolvedValue({
+      ...reserved,
+      payment,
+    } as never);
+
+    await reconcileRefund({
+      id: "re_1",
+      status: "succeeded",
+      failure_reason: null,
+      metadata: { orderId: "order-1", refundId: "refund-1" },
+    } as unknown as Stripe.Refund);
+
+    expect(settlePendingRefund).toHaveBeenCalledWith("refund-1", {
+      providerRefundId: "re_1",
+      status: "succeeded",
+      failureMessage: null,
+    });
+    expect(transitionOrder).toHaveBeenCalledWith(
+      "order-1",
+      "refunded",
+      { type: "system" },
+      "Customer request",
+    );
+  });
+
+  it("only checks the order once a refund webhook reports success", async () => {
+    vi.mocked(getRefundByProviderRefundId).mockResolvedValue({
+      ...reserved,
+      providerRefundId: "re_1",
+      payment,
+    } as never);
+
+    await reconcileRefund({
+      id: "re_1",
+      status: "pending",
+      failure_reason: null,
+      metadata: { orderId: "order-1", refundId: "refund-1" },
+    } as unknown as Stripe.Refund);
+
+    expect(getRefundedAmount).not.toHaveBeenCalled();
+    expect(transitionOrder).not.toHaveBeenCalled();
+  });
+
+  it("ignores refunds issued outside the app", async () => {
+    vi.mocked(getRefundByProviderRefundId).mockResolvedValue(undefined);
+
+    await reconcileRefund({
+      id: "re_2",
+      status: "succeeded",
+      metadata: {},
+    } as unknown as Stripe.Refund);
+
+    expect(settlePendingRefund).not.toHaveBeenCalled();
+  });
+
+  it("ignores a pending event that arrives after the refund failed", async () => {
+    vi.mocked(getRefundByProviderRefundId).mockResolvedValue({
+      ...reserved,
+      providerRefundId: "re_1",
+      status: "failed",
+      payment,
+    } as never);
+    // The refund already settled, so the guarded update matches nothing
+    vi.mocked(settlePendingRefund).mockResolvedValue(null);
+
+    await reconcileRefund({
+      id: "re_1",
+      status: "pending",
+      failure_reason: null,
+      metadata: { orderId: "order-1", refundId: "refund-1" },
+    } as unknown as Stripe.Refund);
+
+    expect(updateRefund).not.toHaveBeenCalled();
+    expect(transitionOrder).not.toHaveBeenCalled();
+  });
+});
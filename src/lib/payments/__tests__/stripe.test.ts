@@ -0,0 +1,33 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+
+import { getWebhookSecret, isFakePayments } from "../stripe";
+
+describe("isFakePayments", () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it("is off unless PAYMENTS_MODE is fake", () => {
+    vi.stubEnv("PAYMENTS_MODE", undefined);
+
+    expect(isFakePayments()).toBe(false);
+  });
+
+  it("signs fake webhooks with the fixture secret in development", () => {
+    vi.stubEnv("PAYMENTS_MODE", "fake");
+    vi.stubEnv("NODE_ENV", "development");
+    vi.stubEnv("STRIPE_WEBHOOK_SECRET", undefined);
+
+    expect(isFakePayments()).toBe(true);
+    expect(getWebhookSecret()).toBe("whsec_fake");
+  });
+
+  it("refuses fake payments in production", () => {
+    vi.stubEnv("PAYMENTS_MODE", "fake");
+    vi.stubEnv("NODE_ENV", "production");
+    vi.stubEnv("STRIPE_WEBHOOK_SECRET", undefined);
+
+    expect(isFakePayments).toThrow("not allowed in production");
+    expect(getWebhookSecret).toThrow("not allowed in production");
+  });
+});
@@ -0,0 +1,233 @@
+import type Stripe from "stripe";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+import {
+  clearCartForUser,
+  getLatestPaymentForOrder,
+  getOrderById,
+  getPaymentByCheckoutSessionId,
+  getPriceQuoteById,
+  updatePayment,
+} from "@/database/queries";
+import { transitionOrder } from "@/lib/orders";
+
+import { refundUnexpectedPayment } from "../refunds";
+import { handleStripeEvent } from "../webhooks";
+
+vi.mock("@/database/queries", () => ({
+  clearCartForUser: vi.fn(),
+  getLatestPaymentForOrder: vi.fn(),
+  getOrderById: vi.fn(),
+  getPaymentByCheckoutSessionId: vi.fn(),
+  getPriceQuoteById: vi.fn(),
+  getRefundByProviderRefundId: vi.fn(),
+  updatePayment: vi.fn(),
+  updateRefund: vi.fn(),
+}));
+vi.mock("@/lib/orders", () => ({ transitionOrder: vi.fn() }));
+vi.mock("../refunds", () => ({
+  reconcileRefund: vi.fn(),
+  refundUnexpectedPayment: vi.fn(),
+}));
+
+const pendingPayment = {
+  id: "payment-1",
+  orderId: "order-1",
+  status: "pending",
+  amount: 503_800,
+  currency: "USD",
+  paymentIntentId: null,
+  failureMessage: null,
+};
+
+const succeededPayment = {
+  ...pendingPayment,
+  status: "succeeded",
+  paymentIntentId: "pi_1",
+};
+
+const quoteExpiresAt = new Date("2025-03-04T12:10:00Z");
+
+function event(
+  type: string,
+  object: Record<string, unknown>,
+  created = new Date("2025-03-04T12:05:00Z"),
+) {
+  return {
+    type,
+    created: Math.floor(created.getTime() / 1000),
+    data: { object },
+  } as unknown as Stripe.Event;
+}
+
+function order(status: string) {
+  return { id: "order-1", userId: "user-1", quoteId: "quote-1", status };
+}
+
+function orderWithStatus(status: string) {
+  vi.mocked(getOrderById).mockResolvedValue(order(status) as never);
+}
+
+describe("handleStripeEvent", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(getLatestPaymentForOrder).mockResolvedValue(
+      pendingPayment as never,
+    );
+    vi.mocked(getPaymentByCheckoutSessionId).mockResolvedValue(
+      pendingPayment as never,
+    );
+    vi.mocked(updatePayment).mockImplementation(
+      async (id, values) => ({ ...pendingPayment, ...values }) as never,
+    );
+    vi.mocked(getPriceQuoteById).mockResolvedValue({
+      id: "quote-1",
+      expiresAt: quoteExpiresAt,
+    } as never);
+  });
+
+  it("keeps the order open after a declined attempt", async () => {
+    orderWithStatus("pending_payment");
+
+    await handleStripeEvent(
+      event("payment_intent.payment_failed", {
+        id: "pi_1",
+        metadata: { orderId: "order-1" },
+        last_payment_error: { message: "Your card was declined." },
+      }),
+    );
+
+    expect(updatePayment).toHaveBeenCalledWith("payment-1", {
+      failureMessage: "Your card was declined.",
+      paymentIntentId: "pi_1",
+    });
+    expect(transitionOrder).not.toHaveBeenCalled();
+  });
+
+  it("cancels the order when the Checkout session expires", async () => {
+    orderWithStatus("pending_payment");
+
+    await handleStripeEvent(
+      event("checkout.session.expired", { metadata: { orderId: "order-1" } }),
+    );
+
+    expect(updatePayment).toHaveBeenCalledWith("payment-1", {
+      status: "failed",
+      failureMessage: "Checkout session expired",
+    });
+    expect(transitionOrder).toHaveBeenCalledWith(
+      "order-1",
+      "cancelled",
+      { type: "system" },
+      "Checkout session expired",
+    );
+  });
+
+  it("marks a pending order paid and clears the cart", async () => {
+    orderWithStatus("pending_payment");
+    vi.mocked(transitionOrder).mockResolvedValue({ userId: "user-1" } as never);
+
+    await handleStripeEvent(
+      event("checkout.session.completed", {
+        id: "cs_1",
+        payment_status: "paid",
+        payment_intent: "pi_1",
+      }),
+    );
+
+    expect(transitionOrder).toHaveBeenCalledWith(
+      "order-1",
+      "paid",
+      { type: "system" },
+      "Stripe checkout.session.completed",
+    );
+    expect(clearCartForUser).toHaveBeenCalledWith("user-1");
+    expect(refundUnexpectedPayment).not.toHaveBeenCalled();
+  });
+
+  it("refunds a payment that lands on a cancelled order", async () => {
+    orderWithStatus("cancelled");
+
+    await handleStripeEvent(
+      event("checkout.session.completed", {
+        id: "cs_1",
+        payment_status: "paid",
+        payment_intent: "pi_1",
+      }),
+    );
+
+    expect(transitionOrder).not.toHaveBeenCalled();
+    expect(refundUnexpectedPayment).toHaveBeenCalledWith(
+      expect.objectContaining({ id: "payment-1", paymentIntentId: "pi_1" }),
+    );
+  });
+
+  it("ignores a redelivered completion for an order already paid", async () => {
+    orderWithStatus("paid");
+    vi.mocked(getPaymentByCheckoutSessionId).mockResolvedValue(
+      succeededPayment as never,
+    );
+    // The payment is no longer pending, so no row changes and no event is queued
+    vi.mocked(updatePayment).mockResolvedValue(undefined);
+
+    await handleStripeEvent(
+      event("checkout.session.completed", {
+        id: "cs_1",
+        payment_status: "paid",
+        payment_intent: "pi_1",
+      }),
+    );
+
+    expect(updatePayment).toHaveBeenCalledOnce();
+    expect(transitionOrder).not.toHaveBeenCalled();
+    expect(clearCartForUser).not.toHaveBeenCalled();
+    expect(refundUnexpectedPayment).not.toHaveBeenCalled();
+  });
+
+  it("still refunds when a completion for a cancelled order is redelivered", async () => {
+    orderWithStatus("cancelled");
+    vi.mocked(getPaymentByCheckoutSessionId).mockResolvedValue(
+      succeededPayment as never,
+    );
+    vi.mocked(updatePayment).mockResolvedValue(undefined);
+
+    await handleStripeEvent(
+      event("checkout.session.completed", {
+        id: "cs_1",
+        payment_status: "paid",
+        payment_intent: "pi_1",
+      }),
+    );
+
+    expect(refundUnexpectedPayment).toHaveBeenCalledWith(succeededPayment);
+  });
+
+  it("cancels and refunds a payment completed after the price lock expired", async () => {
+    // Awaiting payment until the lapsed lock cancels the order
+    vi.mocked(getOrderById)
+      .mockResolvedValueOnce(order("pending_payment") as never)
+      .mockResolvedValueOnce(order("pending_payment") as never)
+      .mockResolvedValue(order("cancelled") as never);
+
+    await handleStripeEvent(
+      event(
+        "checkout.session.completed",
+        { id: "cs_1", payment_status: "paid", payment_intent: "pi_1" },
+        new Date("2025-03-04T12:30:00Z"),
+      ),
+    );
+
+    expect(getPriceQuoteById).toHaveBeenCalledWith("quote-1");
+    expect(transitionOrder).toHaveBeenCalledOnce();
+    expect(transitionOrder).toHaveBeenCalledWith(
+      "order-1",
+      "cancelled",
+      { type: "system" },
+      "Price lock expired before payment",
+    );
+    expect(clearCartForUser).not.toHaveBeenCalled();
+    expect(refundUnexpectedPayment).toHaveBeenCalledWith(
+      expect.objectContaining({ id: "payment-1", paymentIntentId: "pi_1" }),
+    );
+  });
+});
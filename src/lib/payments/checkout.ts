@@ -0,0 +1,157 @@
+import {
+  getProductsByIds,
+  insertOrder,
+  insertPayment,
+  restorePriceQuote,
+} from "@/database/queries";
+import {
+  FulfillmentError,
+  estimateParcelWeightOz,
+  resolveFulfillment,
+} from "@/lib/fulfillment";
+import { transitionOrder } from "@/lib/orders";
+import {
+  type QuoteOwner,
+  claimQuoteForCheckout,
+  getPriceQuote,
+} from "@/lib/price-quotes";
+import { CHECKOUT_PAYMENT_METHOD } from "@/lib/pricing";
+import type { FulfillmentFormData } from "@/lib/validation/fulfillment-schema";
+
+import { createFakeCheckoutSession } from "./fake";
+import { absoluteUrl, getStripe, isFakePayments } from "./stripe";
+
+/**
+ * Turn a locked price quote into an order and a Stripe Checkout Session
+ * Returns the URL to send the customer to
+ * `authorize` sees the order total once shipping is priced and can throw
+ * to stop checkout before the quote is spent
+ */
+export async function startCheckout(
+  quoteId: string,
+  owner: QuoteOwner & { email: string },
+  fulfillmentChoice: FulfillmentFormData,
+  authorize?: (total: number) => Promise<void>,
+): Promise<string> {
+  const reviewed = await getPriceQuote(quoteId, owner);
+  const products = await getProductsByIds(
+    reviewed.lines.map((line) => line.productId),
+  );
+  const productById = new Map(products.map((p) => [p.id, p]));
+
+  // Price delivery before claiming so a bad address doesn't spend the quote
+  const fulfillment = await resolveFulfillment(fulfillmentChoice, {
+    weightOz: estimateParcelWeightOz(
+      reviewed.lines.map((line) => ({
+        ...productById.get(line.productId)!,
+        quantity: line.quantity,
+      })),
+    ),
+    value: reviewed.subtotal,
+  });
+
+  await authorize?.(reviewed.subtotal + fulfillment.shipping);
+
+  const quote = await claimQuoteForCheckout(quoteId, owner);
+
+  const newOrder = await insertOrder(
+    {
+      userId: owner.userId,
+      quoteId: quote.id,
+      ...fulfillment,
+      currency: quote.currency,
+      subtotal: quote.subtotal,
+      total: quote.subtotal + fulfillment.shipping,
+    },
+    quote.lines.map((line) => ({
+      productId: line.productId,
+      productName: line.productName,
+      sku: line.sku,
+      metal: productById.get(line.productId)!.metal,
+      quantity: line.quantity,
+      spotPerOz: line.spotPerOz,
+      unitPrice: line.unitPrice,
+      lineTotal: line.lineTotal,
+    })),
+    {
+      actorType: "customer",
+      actorId: owner.userId,
+      reason: "Checkout started",
+    },
+  );
+
+  // Someone else took the last place in the pickup appointment meanwhile
+  if (!newOrder) {
+    await restorePriceQuote(quote.id, reviewed.expiresAt);
+    throw new FulfillmentError(
+      "That pickup time was just booked up, please choose another",
+      "unavailable_slot",
+    );
+  }
+
+  try {
+    const session = isFakePayments()
+      ? createFakeCheckoutSession(newOrder)
+      : await getStripe().checkout.sessions.create({
+          mode: "payment",
+          // The quote's surcharge was priced for this method only
+          payment_method_types: [CHECKOUT_PAYMENT_METHOD],
+          customer_email: owner.email,
+          client_reference_id: newOrder.id,
+          line_items: [
+            ...quote.lines.map((line) => ({
+              quantity: line.quantity,
+              price_data: {
+                currency: quote.currency.toLowerCase(),
+                unit_amount: line.unitPrice,
+                product_data: {
+                  name: line.productName,
+                  metadata: { sku: line.sku },
+                },
+              },
+            })),
+            ...(newOrder.shipping > 0
+              ? [
+                  {
+                    quantity: 1,
+                    price_data: {
+                      currency: quote.currency.toLowerCase(),
+                      unit_amount: newOrder.shipping,
+                      product_data: { name: "Insured shipping" },
+                    },
+                  },
+                ]
+              : []),
+          ],
+          metadata: { orderId: newOrder.id, quoteId: quote.id },
+          payment_intent_data: { metadata: { orderId: newOrder.id } },
+          success_url: absoluteUrl(`/checkout/success?order=${newOrder.id}`),
+          cancel_url: absoluteUrl("/cart"),
+          // Payment closes when the claimed quote's price lock does
+          expires_at: Math.floor(quote.expiresAt.getTime() / 1000),
+        });
+
+    if (!session.url) {
+      throw new Error("Stripe did not return a Checkout URL");
+    }
+
+    await insertPayment({
+      orderId: newOrder.id,
+      provider: isFakePayments() ? "fake" : "stripe",
+      checkoutSessionId: session.id,
+      amount: newOrder.total,
+      currency: newOrder.currency,
+    });
+
+    return session.url;
+  } catch (error) {
+    // The quote is spent either way; don't leave an unpayable order behind
+    await transitionOrder(
+      newOrder.id,
+      "cancelled",
+      { type: "system" },
+      "Payment provider unavailable",
+    );
+    throw error;
+  }
+}
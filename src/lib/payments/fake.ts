@@ -0,0 +1,75 @@
+import type { Order } from "@/database/schema";
+
+import { absoluteUrl, getStripe, getWebhookSecret } from "./stripe";
+
+/**
+ * Stand-in for a Stripe Checkout Session when PAYMENTS_MODE is fake
+ */
+export function createFakeCheckoutSession(order: Order) {
+  const id = `cs_fake_${crypto.randomUUID().replace(/-/g, "")}`;
+
+  return {
+    id,
+    url: absoluteUrl(`/checkout/simulate/${id}?order=${order.id}`),
+  };
+}
+
+/**
+ * Play the part of Stripe: send a signed webhook for a fake session
+ * The event goes through the real webhook route, signature check included
+ */
+export async function simulateFakeCheckout(
+  checkoutSessionId: string,
+  orderId: string,
+  outcome: "succeeded" | "failed",
+) {
+  const paymentIntentId = `pi_fake_${checkoutSessionId.slice("cs_fake_".length)}`;
+  const metadata = { orderId };
+
+  const event = {
+    id: `evt_fake_${crypto.randomUUID().replace(/-/g, "")}`,
+    object: "event",
+    created: Math.floor(Date.now() / 1000),
+    livemode: false,
+    type:
+      outcome === "succeeded"
+        ? "checkout.session.completed"
+        : "payment_intent.payment_failed",
+    data: {
+      object:
+        outcome === "succeeded"
+          ? {
+              id: checkoutSessionId,
+              object: "checkout.session",
+              payment_intent: paymentIntentId,
+              payment_status: "paid",
+              metadata,
+            }
+          : {
+              id: paymentIntentId,
+              object: "payment_intent",
+              metadata,
+              last_payment_error: { message: "Your card was declined." },
+            },
+    },
+  };
+
+  const payload = JSON.stringify(event);
+  const signature = getStripe().webhooks.generateTestHeaderString({
+    payload,
+    secret: getWebhookSecret(),
+  });
+
+  const response = await fetch(absoluteUrl("/api/webhooks/stripe"), {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      "Stripe-Signature": signature,
+    },
+    body: payload,
+  });
+
+  if (!response.ok) {
+    throw new Error(`Fake webhook delivery failed with ${response.status}`);
+  }
+}
@@ -0,0 +1,11 @@
+export { startCheckout } from "./checkout";
+export { createFakeCheckoutSession, simulateFakeCheckout } from "./fake";
+export { refundOrder, retryRefund } from "./refunds";
+export {
+  absoluteUrl,
+  getStripe,
+  getWebhookSecret,
+  isFakePayments,
+} from "./stripe";
+export { RefundError } from "./types";
+export { handleStripeEvent } from "./webhooks";
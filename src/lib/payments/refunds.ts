@@ -0,0 +1,320 @@
+import Stripe from "stripe";
+
+import {
+  getOrderById,
+  getRefundById,
+  getRefundByProviderRefundId,
+  getRefundedAmount,
+  insertOrderNote,
+  reserveRefund,
+  settlePendingRefund,
+  updateRefund,
+} from "@/database/queries";
+import type { Payment, Refund, RefundStatus } from "@/database/schema";
+import { formatCurrency } from "@/lib/format";
+import {
+  ORDER_STATUS_LABELS,
+  type OrderActor,
+  canTransitionOrder,
+  transitionOrder,
+} from "@/lib/orders";
+
+import { getStripe, isFakePayments } from "./stripe";
+import { RefundError } from "./types";
+
+/**
+ * Map a Stripe refund status onto ours
+ * Stripe's requires_action is still waiting on the provider, so it stays pending
+ */
+export function refundStatusFromStripe(
+  status: Stripe.Refund["status"],
+): RefundStatus {
+  switch (status) {
+    case "succeeded":
+      return "succeeded";
+    case "failed":
+    case "canceled":
+      return "failed";
+    default:
+      return "pending";
+  }
+}
+
+/**
+ * Refund all or part of an order's successful payment
+ * Once the whole payment is refunded the order moves to refunded
+ */
+export async function refundOrder(
+  orderId: string,
+  amount: number,
+  staffUserId: string,
+  reason: string,
+): Promise<Refund> {
+  const current = await getOrderById(orderId);
+  if (!current) {
+    throw new RefundError("Order not found", "not_found");
+  }
+
+  if (
+    !canTransitionOrder(current.status, "refunded", current.fulfillmentMethod)
+  ) {
+    throw new RefundError(
+      `${ORDER_STATUS_LABELS[current.status]} orders can't be refunded`,
+      "not_refundable",
+    );
+  }
+
+  const paid = current.payments.find(
+    (attempt) => attempt.status === "succeeded",
+  );
+  if (!paid?.paymentIntentId) {
+    throw new RefundError(
+      "This order has no captured payment to refund",
+      "not_refundable",
+    );
+  }
+
+  if (!Number.isInteger(amount) || amount <= 0) {
+    throw new RefundError("Refund amount must be positive", "invalid_amount");
+  }
+
+  const reserved = await reserveRefund(paid.id, {
+    amount,
+    reason,
+    actorId: staffUserId,
+  });
+  if (!reserved) {
+    throw new RefundError(
+      "Refund is more than what is left on the payment",
+      "invalid_amount",
+    );
+  }
+
+  const issued = await issueRefund(reserved, paid.paymentIntentId, orderId);
+  await completeRefundedOrder(
+    orderId,
+    paid,
+    { type: "staff", userId: staffUserId },
+    reason,
+  );
+
+  return issued;
+}
+
+/**
+ * Send a refund the provider never confirmed again, under the same
+ * idempotency key, so it is created at most once however often it's retried
+ */
+export async function retryRefund(
+  orderId: string,
+  refundId: string,
+  staffUserId: string,
+): Promise<Refund> {
+  const existing = await getRefundById(refundId);
+  if (!existing || existing.payment.orderId !== orderId) {
+    throw new RefundError("Refund not found", "not_found");
+  }
+
+  if (existing.status !== "pending" || existing.providerRefundId) {
+    throw new RefundError(
+      "Only refunds the provider hasn't confirmed can be retried",
+      "not_refundable",
+    );
+  }
+
+  if (!existing.payment.paymentIntentId) {
+    throw new RefundError(
+      "This order has no captured payment to refund",
+      "not_refundable",
+    );
+  }
+
+  const issued = await issueRefund(
+    existing,
+    existing.payment.paymentIntentId,
+    orderId,
+  );
+  await completeRefundedOrder(
+    orderId,
+    existing.payment,
+    { type: "staff", userId: staffUserId },
+    existing.reason,
+  );
+
+  return issued;
+}
+
+/**
+ * Record the provider's view of a refund from its webhooks
+ * Refunds whose request never got a response are matched by our refund id;
+ * only pending refunds move, to succeeded or failed
+ */
+export async function reconcileRefund(stripeRefund: Stripe.Refund) {
+  const refundId = stripeRefund.metadata?.refundId;
+  const existing =
+    (await getRefundByProviderRefundId(stripeRefund.id)) ??
+    (refundId ? await getRefundById(refundId) : undefined);
+  if (!existing) return;
+
+  // Stale events for a settled refund change nothing, but a redelivered
+  // success still retries moving the order on
+  const updated =
+    (await settlePendingRefund(existing.id, {
+      providerRefundId: stripeRefund.id,
+      status: refundStatusFromStripe(stripeRefund.status),
+      failureMessage: stripeRefund.failure_reason ?? null,
+    })) ?? existing;
+  if (updated.status !== "succeeded") return;
+
+  await completeRefundedOrder(
+    existing.payment.orderId,
+    existing.payment,
+    { type: "system" },
+    updated.reason,
+  );
+}
+
+/**
+ * Move an order to refunded once the provider confirms its payment is
+ * refunded in full; pending refunds wait for their webhook
+ */
+async function completeRefundedOrder(
+  orderId: string,
+  paid: Pick<Payment, "id" | "amount">,
+  actor: OrderActor,
+  reason: string,
+) {
+  if ((await getRefundedAmount(paid.id)) < paid.amount) return;
+
+  const current = await getOrderById(orderId);
+  if (
+    !current ||
+    !canTransitionOrder(current.status, "refunded", current.fulfillmentMethod)
+  ) {
+    return;
+  }
+
+  await transitionOrder(orderId, "refunded", actor, reason);
+}
+
+/**
+ * Whether the provider definitely turned the request down
+ * Timeouts, network and server errors may still have created the refund
+ */
+function isRejectedByProvider(error: unknown) {
+  return (
+    error instanceof Stripe.errors.StripeInvalidRequestError ||
+    error instanceof Stripe.errors.StripeCardError ||
+    error instanceof Stripe.errors.StripeAuthenticationError ||
+    error instanceof Stripe.errors.StripePermissionError
+  );
+}
+
+/**
+ * Send a reserved refund to the provider and record the outcome
+ */
+async function issueRefund(
+  reserved: Refund,
+  paymentIntentId: string,
+  orderId: string,
+): Promise<Refund> {
+  if (isFakePayments()) {
+    return updateRefund(reserved.id, {
+      providerRefundId: `re_fake_${reserved.id.replace(/-/g, "")}`,
+      status: "succeeded",
+    });
+  }
+
+  try {
+    const stripeRefund = await getStripe().refunds.create(
+      {
+        payment_intent: paymentIntentId,
+        amount: reserved.amount,
+        metadata: { orderId, refundId: reserved.id },
+      },
+      // Retrying the same reserved refund never refunds twice
+      { idempotencyKey: `refund_${reserved.id}` },
+    );
+
+    return updateRefund(reserved.id, {
+      providerRefundId: stripeRefund.id,
+      status: refundStatusFromStripe(stripeRefund.status),
+      failureMessage: null,
+    });
+  } catch (error) {
+    const message =
+      error instanceof Error ? error.message : "Refund request failed";
+
+    // Stays pending and keeps its amount reserved until a retry or the
+    // refund webhooks settle it; a new refund could pay out twice
+    if (!isRejectedByProvider(error)) {
+      await updateRefund(reserved.id, { failureMessage: message });
+      throw new RefundError(
+        `The payment provider didn't confirm the refund (${message}). Retry it from the payment history`,
+        "provider_unconfirmed",
+      );
+    }
+
+    await updateRefund(reserved.id, {
+      status: "failed",
+      failureMessage: message,
+    });
+    throw new RefundError(message, "provider_error");
+  }
+}
+
+/**
+ * Give back a payment that arrived for an order no longer awaiting one,
+ * e.g. a retried card that went through after checkout was cancelled
+ * Leaves a note on the order so staff can see what happened
+ * Returns null when the payment was already refunded
+ */
+export async function refundUnexpectedPayment(
+  paid: Pick<
+    Payment,
+    "id" | "orderId" | "amount" | "currency" | "paymentIntentId"
+  >,
+): Promise<Refund | null> {
+  const reason = "Payment arrived after the order stopped awaiting payment";
+  const reserved = await reserveRefund(paid.id, {
+    amount: paid.amount,
+    reason,
+    actorId: null,
+  });
+  if (!reserved) return null;
+
+  const amount = formatCurrency(paid.amount);
+  if (!paid.paymentIntentId) {
+    await updateRefund(reserved.id, {
+      status: "failed",
+      failureMessage: "No payment intent to refund",
+    });
+    await insertOrderNote({
+      orderId: paid.orderId,
+      body: `${reason}. The automatic refund of ${amount} couldn't be issued; refund it from the payment provider.`,
+    });
+    return null;
+  }
+
+  try {
+    const issued = await issueRefund(
+      reserved,
+      paid.paymentIntentId,
+      paid.orderId,
+    );
+    await insertOrderNote({
+      orderId: paid.orderId,
+      body: `${reason}. ${amount} was refunded automatically.`,
+    });
+    return issued;
+  } catch (error) {
+    await insertOrderNote({
+      orderId: paid.orderId,
+      body:
+        error instanceof RefundError && error.code === "provider_unconfirmed"
+          ? `${reason}. The automatic refund of ${amount} wasn't confirmed by the payment provider; retry it if it doesn't settle.`
+          : `${reason}. The automatic refund of ${amount} failed and needs staff attention.`,
+    });
+    throw error;
+  }
+}
@@ -0,0 +1,64 @@
+import Stripe from "stripe";
+
+/**
+ * Whether checkout goes to real Stripe (or stripe-mock) or the in-app fake
+ * Selected with PAYMENTS_MODE ("stripe" or "fake"), defaults to stripe; the
+ * fake is refused in production because its webhook secret is public
+ */
+export function isFakePayments() {
+  if (process.env.PAYMENTS_MODE !== "fake") return false;
+
+  if (process.env.NODE_ENV === "production") {
+    throw new Error("PAYMENTS_MODE=fake is not allowed in production");
+  }
+  return true;
+}
+
+/**
+ * Secret used to sign and verify webhook payloads
+ */
+export function getWebhookSecret() {
+  const secret =
+    process.env.STRIPE_WEBHOOK_SECRET ??
+    (isFakePayments() ? "whsec_fake" : undefined);
+
+  if (!secret) {
+    throw new Error("STRIPE_WEBHOOK_SECRET is not set");
+  }
+  return secret;
+}
+
+let stripe: Stripe | null = null;
+
+/**
+ * Shared Stripe client
+ * STRIPE_API_HOST / STRIPE_API_PORT / STRIPE_API_PROTOCOL point it at
+ * stripe-mock for offline development
+ */
+export function getStripe(): Stripe {
+  if (stripe) return stripe;
+
+  const secretKey =
+    process.env.STRIPE_SECRET_KEY ?? (isFakePayments() ? "sk_test_fake" : "");
+  if (!secretKey) {
+    throw new Error("STRIPE_SECRET_KEY is not set");
+  }
+
+  stripe = new Stripe(secretKey, {
+    host: process.env.STRIPE_API_HOST,
+    port: process.env.STRIPE_API_PORT,
+    protocol: process.env.STRIPE_API_PROTOCOL as "http" | "https" | undefined,
+  });
+
+  return stripe;
+}
+
+/**
+ * Absolute URL for redirects back from Stripe
+ */
+export function absoluteUrl(path: string) {
+  return new URL(
+    path,
+    process.env.NEXT_PUBLIC_BASE_URL ?? "http://localhost:3000",
+  ).toString();
+}
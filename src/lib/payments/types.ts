@@ -0,0 +1,19 @@
+export type RefundErrorCode =
+  | "not_found"
+  | "not_refundable"
+  | "invalid_amount"
+  | "provider_error"
+  | "provider_unconfirmed";
+
+/**
+ * Raised when a refund cannot be issued
+ */
+export class RefundError extends Error {
+  constructor(
+    message: string,
+    readonly code: RefundErrorCode,
+  ) {
+    super(message);
+    this.name = "RefundError";
+  }
+}
@@ -0,0 +1,141 @@
+import type Stripe from "stripe";
+
+import {
+  clearCartForUser,
+  getLatestPaymentForOrder,
+  getOrderById,
+  getPaymentByCheckoutSessionId,
+  getPriceQuoteById,
+  updatePayment,
+} from "@/database/queries";
+import type { OrderStatus } from "@/database/schema";
+import { transitionOrder } from "@/lib/orders";
+
+import { reconcileRefund, refundUnexpectedPayment } from "./refunds";
+
+/**
+ * Apply a verified Stripe event to orders and payments
+ * Safe to receive more than once: transitions only fire from pending states
+ */
+export async function handleStripeEvent(event: Stripe.Event) {
+  switch (event.type) {
+    case "checkout.session.completed": {
+      const session = event.data.object;
+      if (session.payment_status !== "paid") return;
+
+      const existing = await getPaymentByCheckoutSessionId(session.id);
+      if (!existing) return;
+
+      // A redelivery finds the payment already succeeded and changes nothing
+      const paid =
+        (await updatePayment(existing.id, {
+          status: "succeeded",
+          paymentIntentId:
+            typeof session.payment_intent === "string"
+              ? session.payment_intent
+              : (session.payment_intent?.id ?? null),
+        })) ?? (existing.status === "succeeded" ? existing : undefined);
+
+      // Sessions close with the price lock; a payment Stripe completes after
+      // it anyway doesn't get the locked price and is refunded below instead
+      if (await priceLockLapsed(existing.orderId, event.created)) {
+        await transitionFromPending(
+          existing.orderId,
+          "cancelled",
+          "Price lock expired before payment",
+        );
+      }
+
+      const paidOrder = await transitionFromPending(
+        existing.orderId,
+        "paid",
+        `Stripe ${event.type}`,
+      );
+      if (paidOrder) {
+        await clearCartForUser(paidOrder.userId);
+      } else if (
+        paid &&
+        (await getOrderById(paid.orderId))?.status === "cancelled"
+      ) {
+        // The customer was charged for an order that can't be fulfilled
+        await refundUnexpectedPayment(paid);
+      }
+      return;
+    }
+
+    // A declined attempt; Checkout lets the customer try another card, so
+    // the order stays open until the session completes or expires
+    case "payment_intent.payment_failed": {
+      const intent = event.data.object;
+      const orderId = intent.metadata?.orderId;
+      if (!orderId) return;
+
+      const latest = await getLatestPaymentForOrder(orderId);
+      if (latest?.status !== "pending") return;
+
+      await updatePayment(latest.id, {
+        failureMessage: intent.last_payment_error?.message ?? "Payment failed",
+        paymentIntentId: intent.id,
+      });
+      return;
+    }
+
+    case "checkout.session.expired": {
+      const orderId = event.data.object.metadata?.orderId;
+      if (!orderId) return;
+
+      await failOrder(orderId, "Checkout session expired");
+      return;
+    }
+
+    // Refunds Stripe settled later, or created without us seeing the response
+    case "refund.created":
+    case "charge.refund.updated":
+      await reconcileRefund(event.data.object);
+      return;
+  }
+}
+
+/**
+ * Record a failed payment and cancel its order
+ * Customers re-quote from their cart, so prices are never reused stale
+ */
+async function failOrder(orderId: string, reason: string) {
+  const latest = await getLatestPaymentForOrder(orderId);
+
+  if (latest?.status === "pending") {
+    await updatePayment(latest.id, {
+      status: "failed",
+      failureMessage: latest.failureMessage ?? reason,
+    });
+  }
+
+  await transitionFromPending(orderId, "cancelled", reason);
+}
+
+/**
+ * Whether an order awaiting payment was paid after its quote expired
+ * `paidAt` is the event's Unix timestamp in seconds
+ */
+async function priceLockLapsed(orderId: string, paidAt: number) {
+  const current = await getOrderById(orderId);
+  if (current?.status !== "pending_payment") return false;
+
+  const quote = await getPriceQuoteById(current.quoteId);
+  return !!quote && quote.expiresAt.getTime() < paidAt * 1000;
+}
+
+/**
+ * Apply a webhook-driven transition only while the order awaits payment
+ * Redelivered events find the order already moved on and are ignored
+ */
+async function transitionFromPending(
+  orderId: string,
+  to: OrderStatus,
+  reason: string,
+) {
+  const current = await getOrderById(orderId);
+  if (current?.status !== "pending_payment") return null;
+
+  return transitionOrder(orderId, to, { type: "system" }, reason);
+}
@@ -0,0 +1,283 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+import {
+  consumePriceQuote,
+  getPriceQuoteById,
+  getProductsByIds,
+  insertPriceQuote,
+  supersedePriceQuote,
+} from "@/database/queries";
+
+import {
+  CHECKOUT_LOCK_MS,
+  PriceQuoteError,
+  type PriceQuoteWithLines,
+  claimQuoteForCheckout,
+  diffQuotes,
+  repriceQuote,
+} from "..";
+
+vi.mock("@/database/queries", () => ({
+  consumePriceQuote: vi.fn(),
+  getPriceQuoteById: vi.fn(),
+  getProductsByIds: vi.fn(),
+  insertPriceQuote: vi.fn(),
+  supersedePriceQuote: vi.fn(),
+}));
+vi.mock("@/lib/pricing", () => ({
+  computePrice: (_product: unknown, spot: number, quantity: number) => ({
+    spotPerOz: spot,
+    meltValue: spot,
+    premium: 0,
+    surcharge: 0,
+    unitPrice: spot,
+    lineTotal: spot * quantity,
+  }),
+  getPricingContext: vi.fn(),
+}));
+vi.mock("@/lib/spot-prices", () => ({
+  DEFAULT_CURRENCY: "USD",
+  getCurrentSpotPrices: async () => ({
+    prices: { gold: { id: "spot-1", ask: 300_000 } },
+    stale: false,
+  }),
+}));
+
+const now = new Date("2025-03-04T12:00:00Z");
+const owner = { userId: "user-1", sessionId: "session-1" };
+
+function quote(
+  id: string,
+  values: Partial<PriceQuoteWithLines> = {},
+): PriceQuoteWithLines {
+  return {
+    id,
+    ...owner,
+    status: "active",
+    supersededById: null,
+    paymentMethod: "card",
+    currency: "USD",
+    subtotal: 250_000,
+    expiresAt: new Date(now.getTime() + 5 * 60 * 1000),
+    lines: [
+      {
+        productId: "eagle",
+        productName: "Gold Eagle 1 oz",
+        quantity: 1,
+        unitPrice: 250_000,
+      },
+    ],
+    ...values,
+  } as PriceQuoteWithLines;
+}
+
+/**
+ * Serve quotes from `getPriceQuoteById` by id
+ */
+function storeQuotes(...quotes: PriceQuoteWithLines[]) {
+  const byId = new Map(quotes.map((stored) => [stored.id, stored]));
+  vi.mocked(getPriceQuoteById).mockImplementation(
+    async (id) => byId.get(id) as never,
+  );
+}
+
+const expired = { expiresAt: new Date(now.getTime() - 1) };
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  vi.useFakeTimers({ now });
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe("repriceQuote", () => {
+  beforeEach(() => {
+    vi.mocked(getProductsByIds).mockResolvedValue([
+      {
+        id: "eagle",
+        name: "Gold Eagle 1 oz",
+        sku: "EAGLE-1",
+        metal: "gold",
+        status: "published",
+      },
+    ] as never);
+    vi.mocked(insertPriceQuote).mockImplementation(
+      async (values, lines) => ({ id: "quote-new", ...values, lines }) as never,
+    );
+  });
+
+  it("returns a quote still inside its lock unchanged", async () => {
+    storeQuotes(quote("quote-1"));
+
+    await expect(repriceQuote("quote-1", owner)).resolves.toMatchObject({
+      id: "quote-1",
+    });
+    expect(insertPriceQuote).not.toHaveBeenCalled();
+  });
+
+  it("re-prices an expired quote and supersedes it", async () => {
+    storeQuotes(quote("quote-1", expired));
+
+    const next = await repriceQuote("quote-1", owner);
+
+    expect(next).toMatchObject({ id: "quote-new", subtotal: 300_000 });
+    expect(insertPriceQuote).toHaveBeenCalledWith(
+      expect.objectContaining({
+        paymentMethod: "card",
+        expiresAt: new Date(now.getTime() + 10 * 60 * 1000),
+      }),
+      [expect.objectContaining({ productId: "eagle", unitPrice: 300_000 })],
+    );
+    expect(supersedePriceQuote).toHaveBeenCalledWith("quote-1", "quote-new");
+  });
+
+  it("follows a quote superseded twice to the active quote", async () => {
+    storeQuotes(
+      quote("quote-1", { status: "superseded", supersededById: "quote-2" }),
+      quote("quote-2", { status: "superseded", supersededById: "quote-3" }),
+      quote("quote-3"),
+    );
+
+    await expect(repriceQuote("quote-1", owner)).resolves.toMatchObject({
+      id: "quote-3",
+      status: "active",
+    });
+    expect(insertPriceQuote).not.toHaveBeenCalled();
+  });
+
+  it("re-prices the end of the chain once it has expired too", async () => {
+    storeQuotes(
+      quote("quote-1", { status: "superseded", supersededById: "quote-2" }),
+      quote("quote-2", expired),
+    );
+
+    await repriceQuote("quote-1", owner);
+
+    expect(supersedePriceQuote).toHaveBeenCalledWith("quote-2", "quote-new");
+  });
+
+  it("refuses quotes that were already paid", async () => {
+    storeQuotes(quote("quote-1", { status: "consumed" }));
+
+    await expect(repriceQuote("quote-1", owner)).rejects.toMatchObject({
+      code: "forbidden",
+    });
+  });
+
+  it("refuses quotes from another session", async () => {
+    storeQuotes(quote("quote-1", { sessionId: "session-2" }));
+
+    await expect(repriceQuote("quote-1", owner)).rejects.toBeInstanceOf(
+      PriceQuoteError,
+    );
+  });
+});
+
+describe("claimQuoteForCheckout", () => {
+  it("consumes the quote and holds its prices for the checkout session", async () => {
+    storeQuotes(quote("quote-1"));
+    vi.mocked(consumePriceQuote).mockImplementation(
+      async (id, expiresAt) =>
+        ({ ...quote(id), status: "consumed", expiresAt }) as never,
+    );
+
+    await expect(
+      claimQuoteForCheckout("quote-1", owner),
+    ).resolves.toMatchObject({
+      status: "consumed",
+      expiresAt: new Date(now.getTime() + CHECKOUT_LOCK_MS),
+      lines: [expect.objectContaining({ productId: "eagle" })],
+    });
+    expect(consumePriceQuote).toHaveBeenCalledWith(
+      "quote-1",
+      new Date(now.getTime() + CHECKOUT_LOCK_MS),
+    );
+  });
+
+  it("refuses an expired quote", async () => {
+    storeQuotes(quote("quote-1", expired));
+
+    await expect(claimQuoteForCheckout("quote-1", owner)).rejects.toMatchObject(
+      { code: "expired" },
+    );
+    expect(consumePriceQuote).not.toHaveBeenCalled();
+  });
+
+  it("refuses a quote that was already consumed", async () => {
+    storeQuotes(quote("quote-1", { status: "consumed" }));
+
+    await expect(claimQuoteForCheckout("quote-1", owner)).rejects.toMatchObject(
+      { code: "expired" },
+    );
+    expect(consumePriceQuote).not.toHaveBeenCalled();
+  });
+
+  it("lets only one of two concurrent claims through", async () => {
+    storeQuotes(quote("quote-1"));
+    // Postgres only matches the active row for the first UPDATE
+    vi.mocked(consumePriceQuote)
+      .mockResolvedValueOnce({ ...quote("quote-1"), status: "consumed" })
+      .mockResolvedValueOnce(null as never);
+
+    const results = await Promise.allSettled([
+      claimQuoteForCheckout("quote-1", owner),
+      claimQuoteForCheckout("quote-1", owner),
+    ]);
+
+    expect(results.map((result) => result.status)).toEqual([
+      "fulfilled",
+      "rejected",
+    ]);
+  });
+});
+
+describe("diffQuotes", () => {
+  it("reports per-unit and subtotal changes", () => {
+    const previous = quote("quote-1", { subtotal: 500_000 });
+    const next = quote("quote-2", {
+      subtotal: 520_000,
+      lines: [
+        { ...previous.lines[0], quantity: 2, unitPrice: 260_000 },
+      ] as PriceQuoteWithLines["lines"],
+    });
+
+    expect(diffQuotes(previous, next)).toEqual({
+      lines: [
+        {
+          productId: "eagle",
+          productName: "Gold Eagle 1 oz",
+          quantity: 2,
+          previousUnitPrice: 250_000,
+          unitPrice: 260_000,
+          change: 10_000,
+        },
+      ],
+      previousSubtotal: 500_000,
+      subtotal: 520_000,
+      change: 20_000,
+    });
+  });
+
+  it("shows no change for lines the previous quote didn't have", () => {
+    const next = quote("quote-2", {
+      lines: [
+        {
+          productId: "maple",
+          productName: "Silver Maple 1 oz",
+          quantity: 1,
+          unitPrice: 4_000,
+        },
+      ] as PriceQuoteWithLines["lines"],
+    });
+
+    expect(diffQuotes(quote("quote-1"), next).lines).toEqual([
+      expect.objectContaining({
+        productId: "maple",
+        previousUnitPrice: 4_000,
+        change: 0,
+      }),
+    ]);
+  });
+});
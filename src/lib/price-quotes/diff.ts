@@ -0,0 +1,32 @@
+import type { PriceQuoteWithLines, QuoteDiff } from "./types";
+
+/**
+ * Compare an expired quote with the quote that re-priced it
+ */
+export function diffQuotes(
+  previous: PriceQuoteWithLines,
+  next: PriceQuoteWithLines,
+): QuoteDiff {
+  const lines = next.lines.map((line) => {
+    const previousLine = previous.lines.find(
+      (candidate) => candidate.productId === line.productId,
+    );
+    const previousUnitPrice = previousLine?.unitPrice ?? line.unitPrice;
+
+    return {
+      productId: line.productId,
+      productName: line.productName,
+      quantity: line.quantity,
+      previousUnitPrice,
+      unitPrice: line.unitPrice,
+      change: line.unitPrice - previousUnitPrice,
+    };
+  });
+
+  return {
+    lines,
+    previousSubtotal: previous.subtotal,
+    subtotal: next.subtotal,
+    change: next.subtotal - previous.subtotal,
+  };
+}
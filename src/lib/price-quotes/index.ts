@@ -0,0 +1,200 @@
+import {
+  consumePriceQuote,
+  getPriceQuoteById,
+  getProductsByIds,
+  insertPriceQuote,
+  supersedePriceQuote,
+} from "@/database/queries";
+import type { PaymentMethod } from "@/database/schema";
+import { computePrice, getPricingContext } from "@/lib/pricing";
+import { DEFAULT_CURRENCY, getCurrentSpotPrices } from "@/lib/spot-prices";
+
+import {
+  PriceQuoteError,
+  type PriceQuoteWithLines,
+  type QuoteLineRequest,
+  type QuoteOwner,
+} from "./types";
+
+export * from "./diff";
+export * from "./types";
+
+/**
+ * How long a quote locks prices for, PRICE_QUOTE_TTL_SECONDS (default 10 min)
+ */
+export const PRICE_QUOTE_TTL_MS =
+  Number(process.env.PRICE_QUOTE_TTL_SECONDS ?? 600) * 1000;
+
+/**
+ * How long a quote claimed for checkout stays locked: Stripe's 30 minute
+ * minimum Checkout Session lifetime, plus a minute to create the session
+ */
+export const CHECKOUT_LOCK_MS = 31 * 60 * 1000;
+
+/**
+ * Whether a quote's price lock has lapsed
+ */
+export function isQuoteExpired(quote: { expiresAt: Date }, now = new Date()) {
+  return quote.expiresAt.getTime() <= now.getTime();
+}
+
+/**
+ * Price the given lines from current spot and lock them for the owner
+ */
+export async function createPriceQuote(
+  owner: QuoteOwner,
+  lines: QuoteLineRequest[],
+  paymentMethod?: PaymentMethod,
+): Promise<PriceQuoteWithLines> {
+  if (!lines.length) {
+    throw new PriceQuoteError("Nothing to quote", "empty");
+  }
+
+  const [products, { prices: spotPrices, stale }, pricingContext] =
+    await Promise.all([
+      getProductsByIds(lines.map((line) => line.productId)),
+      getCurrentSpotPrices(DEFAULT_CURRENCY),
+      getPricingContext(paymentMethod),
+    ]);
+
+  // A lock is a promise to sell at market, so never issue one off old quotes
+  if (stale) {
+    throw new PriceQuoteError(
+      "Live prices are unavailable right now, please try again in a few minutes",
+      "stale_prices",
+    );
+  }
+
+  const pricedLines = lines.map((line) => {
+    const product = products.find((item) => item.id === line.productId);
+    if (product?.status !== "published") {
+      throw new PriceQuoteError(
+        product
+          ? `${product.name} is no longer available, please remove it to continue`
+          : "A product in your order is no longer available",
+        "unavailable",
+      );
+    }
+
+    const spot = spotPrices[product.metal];
+    const price = computePrice(
+      product,
+      spot.ask,
+      line.quantity,
+      pricingContext,
+    );
+
+    return {
+      productId: product.id,
+      productName: product.name,
+      sku: product.sku,
+      quantity: line.quantity,
+      spotPriceId: spot.id,
+      spotPerOz: price.spotPerOz,
+      meltValue: price.meltValue,
+      premium: price.premium,
+      surcharge: price.surcharge,
+      unitPrice: price.unitPrice,
+      lineTotal: price.lineTotal,
+    };
+  });
+
+  return insertPriceQuote(
+    {
+      userId: owner.userId,
+      sessionId: owner.sessionId,
+      currency: DEFAULT_CURRENCY,
+      paymentMethod,
+      subtotal: pricedLines.reduce((sum, line) => sum + line.lineTotal, 0),
+      expiresAt: new Date(Date.now() + PRICE_QUOTE_TTL_MS),
+    },
+    pricedLines,
+  );
+}
+
+/**
+ * Fetch a quote, enforcing that it belongs to the caller's session
+ */
+export async function getPriceQuote(
+  id: string,
+  owner: QuoteOwner,
+): Promise<PriceQuoteWithLines> {
+  const quote = await getPriceQuoteById(id);
+
+  if (!quote) {
+    throw new PriceQuoteError("Quote not found", "not_found");
+  }
+  if (quote.userId !== owner.userId || quote.sessionId !== owner.sessionId) {
+    throw new PriceQuoteError("Quote belongs to another session", "forbidden");
+  }
+
+  return quote;
+}
+
+/**
+ * Re-price an expired quote at current spot, superseding the original
+ * A superseded quote resolves to the newest quote that replaced it;
+ * quotes still inside their lock window are returned unchanged
+ */
+export async function repriceQuote(
+  id: string,
+  owner: QuoteOwner,
+): Promise<PriceQuoteWithLines> {
+  let previous = await getPriceQuote(id, owner);
+
+  // Follow replacements to the newest quote, which may be expired itself
+  while (previous.status === "superseded" && previous.supersededById) {
+    previous = await getPriceQuote(previous.supersededById, owner);
+  }
+
+  if (previous.status === "consumed") {
+    throw new PriceQuoteError("Quote has already been paid", "forbidden");
+  }
+  if (!isQuoteExpired(previous)) {
+    return previous;
+  }
+
+  const next = await createPriceQuote(
+    owner,
+    previous.lines.map((line) => ({
+      productId: line.productId,
+      quantity: line.quantity,
+    })),
+    previous.paymentMethod ?? undefined,
+  );
+  await supersedePriceQuote(previous.id, next.id);
+
+  return next;
+}
+
+/**
+ * Claim a quote for payment
+ * This is the only way checkout obtains an amount to charge; the lock is
+ * extended to `CHECKOUT_LOCK_MS` so it lasts as long as the payment page
+ */
+export async function claimQuoteForCheckout(
+  id: string,
+  owner: QuoteOwner,
+): Promise<PriceQuoteWithLines> {
+  const quote = await getPriceQuote(id, owner);
+
+  if (quote.status !== "active" || isQuoteExpired(quote)) {
+    throw new PriceQuoteError(
+      "Your price lock has expired, please review the updated prices",
+      "expired",
+    );
+  }
+
+  const consumed = await consumePriceQuote(
+    quote.id,
+    new Date(Date.now() + CHECKOUT_LOCK_MS),
+  );
+  if (!consumed) {
+    throw new PriceQuoteError(
+      "Your price lock has expired, please review the updated prices",
+      "expired",
+    );
+  }
+
+  return { ...consumed, lines: quote.lines };
+}
@@ -0,0 +1,64 @@
+import type { PriceQuote, PriceQuoteLine } from "@/database/schema";
+
+/**
+ * Quote with its priced lines
+ */
+export type PriceQuoteWithLines = PriceQuote & { lines: PriceQuoteLine[] };
+
+/**
+ * Product and quantity to price
+ */
+export interface QuoteLineRequest {
+  productId: string;
+  quantity: number;
+}
+
+/**
+ * Auth session a quote is bound to
+ */
+export interface QuoteOwner {
+  userId: string;
+  sessionId: string;
+}
+
+/**
+ * Per-line price change between a quote and its replacement
+ */
+export interface QuoteLineDiff {
+  productId: string;
+  productName: string;
+  quantity: number;
+  previousUnitPrice: number;
+  unitPrice: number;
+  /** unitPrice - previousUnitPrice, per unit, in cents */
+  change: number;
+}
+
+export interface QuoteDiff {
+  lines: QuoteLineDiff[];
+  previousSubtotal: number;
+  subtotal: number;
+  /** subtotal - previousSubtotal, in cents */
+  change: number;
+}
+
+export type PriceQuoteErrorCode =
+  | "not_found"
+  | "forbidden"
+  | "expired"
+  | "unavailable"
+  | "stale_prices"
+  | "empty";
+
+/**
+ * Raised when a quote cannot be created, read or charged
+ */
+export class PriceQuoteError extends Error {
+  constructor(
+    message: string,
+    readonly code: PriceQuoteErrorCode,
+  ) {
+    super(message);
+    this.name = "PriceQuoteError";
+  }
+}
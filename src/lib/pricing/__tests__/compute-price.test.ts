@@ -0,0 +1,144 @@
+import { describe, expect, it } from "vitest";
+
+import type {
+  PaymentSurcharge,
+  PricingRule,
+  QuantityTier,
+} from "@/database/schema";
+
+import { computePrice } from "../compute-price";
+import type { PricedProduct, PricingRules } from "../types";
+
+const createdAt = new Date("2025-01-01T00:00:00Z");
+
+const goldCoin: PricedProduct = {
+  id: "gold-eagle-1oz",
+  metal: "gold",
+  fineWeightOz: 1,
+};
+
+function rule(overrides: Partial<PricingRule>): PricingRule {
+  return {
+    id: crypto.randomUUID(),
+    scope: "global",
+    metal: null,
+    productId: null,
+    premiumPercent: 0,
+    premiumFlat: 0,
+    createdAt,
+    updatedAt: createdAt,
+    ...overrides,
+  };
+}
+
+function tier(overrides: Partial<QuantityTier>): QuantityTier {
+  return {
+    id: crypto.randomUUID(),
+    metal: null,
+    productId: null,
+    minQuantity: 1,
+    premiumDiscountPercent: 0,
+    createdAt,
+    ...overrides,
+  };
+}
+
+function rules(overrides: Partial<PricingRules> = {}): PricingRules {
+  return { rules: [], tiers: [], surcharges: [], ...overrides };
+}
+
+const cardSurcharge: PaymentSurcharge = {
+  method: "card",
+  surchargePercent: 3,
+  updatedAt: createdAt,
+};
+
+describe("computePrice", () => {
+  it("prices at melt value when no rules apply", () => {
+    const price = computePrice(goldCoin, 200_000, 2, { rules: rules() });
+
+    expect(price).toMatchObject({
+      meltValue: 200_000,
+      premium: 0,
+      surcharge: 0,
+      unitPrice: 200_000,
+      lineTotal: 400_000,
+    });
+  });
+
+  it("uses the most specific premium rule", () => {
+    const price = computePrice(goldCoin, 200_000, 1, {
+      rules: rules({
+        rules: [
+          rule({ premiumPercent: 10 }),
+          rule({ scope: "metal", metal: "gold", premiumPercent: 5 }),
+          rule({
+            scope: "product",
+            productId: goldCoin.id,
+            premiumPercent: 4,
+            premiumFlat: 500,
+          }),
+        ],
+      }),
+    });
+
+    expect(price.premium).toBe(8_000 + 500);
+    expect(price.unitPrice).toBe(208_500);
+  });
+
+  it("takes the highest quantity tier reached off the premium", () => {
+    const context = {
+      rules: rules({
+        rules: [rule({ premiumPercent: 5 })],
+        tiers: [
+          tier({ minQuantity: 10, premiumDiscountPercent: 1 }),
+          tier({ minQuantity: 25, premiumDiscountPercent: 2 }),
+        ],
+      }),
+    };
+
+    expect(computePrice(goldCoin, 200_000, 9, context).premium).toBe(10_000);
+    expect(computePrice(goldCoin, 200_000, 10, context).premium).toBe(8_000);
+    expect(computePrice(goldCoin, 200_000, 30, context)).toMatchObject({
+      tierDiscountPercent: 2,
+      premium: 6_000,
+    });
+  });
+
+  it("adds the payment method surcharge on melt value plus premium", () => {
+    const price = computePrice(goldCoin, 200_000, 2, {
+      rules: rules({
+        rules: [rule({ premiumPercent: 5 })],
+        surcharges: [cardSurcharge],
+      }),
+      paymentMethod: "card",
+    });
+
+    expect(price.surcharge).toBe(6_300);
+    expect(price.unitPrice).toBe(200_000 + 10_000 + 6_300);
+    expect(price.lineTotal).toBe(432_600);
+  });
+
+  it("leaves out surcharges until the payment method is known", () => {
+    const context = {
+      rules: rules({ surcharges: [cardSurcharge] }),
+    };
+
+    expect(computePrice(goldCoin, 200_000, 1, context).surcharge).toBe(0);
+    expect(
+      computePrice(goldCoin, 200_000, 1, {
+        ...context,
+        paymentMethod: "bank_transfer",
+      }).surcharge,
+    ).toBe(0);
+  });
+
+  it("rejects quantities that aren't positive integers", () => {
+    expect(() =>
+      computePrice(goldCoin, 200_000, 0, { rules: rules() }),
+    ).toThrow(RangeError);
+    expect(() =>
+      computePrice(goldCoin, 200_000, 1.5, { rules: rules() }),
+    ).toThrow(RangeError);
+  });
+});
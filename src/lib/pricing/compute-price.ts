@@ -0,0 +1,103 @@
+import type {
+  PriceBreakdown,
+  PricedProduct,
+  PricingContext,
+  PricingRules,
+} from "./types";
+
+/**
+ * Most specific premium rule for a product: product, then metal, then global
+ */
+export function resolvePricingRule(
+  product: PricedProduct,
+  rules: PricingRules["rules"],
+) {
+  return (
+    rules.find(
+      (rule) => rule.scope === "product" && rule.productId === product.id,
+    ) ??
+    rules.find(
+      (rule) => rule.scope === "metal" && rule.metal === product.metal,
+    ) ??
+    rules.find((rule) => rule.scope === "global")
+  );
+}
+
+/**
+ * Quantity tier that applies to a line
+ * Product tiers beat metal tiers beat catalog-wide tiers; within the most
+ * specific level, the highest threshold reached wins
+ */
+export function resolveQuantityTier(
+  product: PricedProduct,
+  quantity: number,
+  tiers: PricingRules["tiers"],
+) {
+  const specificity = (tier: PricingRules["tiers"][number]) =>
+    tier.productId ? 2 : tier.metal ? 1 : 0;
+
+  return tiers
+    .filter(
+      (tier) =>
+        tier.minQuantity <= quantity &&
+        (tier.productId
+          ? tier.productId === product.id
+          : !tier.metal || tier.metal === product.metal),
+    )
+    .sort(
+      (a, b) =>
+        specificity(b) - specificity(a) || b.minQuantity - a.minQuantity,
+    )[0];
+}
+
+/**
+ * Compute the sell price of a product line from spot
+ * Pure: all inputs are passed in, so catalog, cart and checkout agree
+ */
+export function computePrice(
+  product: PricedProduct,
+  spotPerOz: number,
+  quantity: number,
+  context: PricingContext,
+): PriceBreakdown {
+  if (!Number.isInteger(quantity) || quantity < 1) {
+    throw new RangeError(
+      `Quantity must be a positive integer, got ${quantity}`,
+    );
+  }
+
+  const meltValue = Math.round(spotPerOz * product.fineWeightOz);
+
+  const rule = resolvePricingRule(product, context.rules.rules);
+  const tier = resolveQuantityTier(product, quantity, context.rules.tiers);
+  const tierDiscountPercent = tier?.premiumDiscountPercent ?? 0;
+  const percent = Math.max(
+    0,
+    (rule?.premiumPercent ?? 0) - tierDiscountPercent,
+  );
+  const premium =
+    Math.round((meltValue * percent) / 100) + (rule?.premiumFlat ?? 0);
+
+  const surchargePercent = context.paymentMethod
+    ? (context.rules.surcharges.find(
+        (surcharge) => surcharge.method === context.paymentMethod,
+      )?.surchargePercent ?? 0)
+    : 0;
+  const surcharge = Math.round(
+    ((meltValue + premium) * surchargePercent) / 100,
+  );
+
+  const unitPrice = meltValue + premium + surcharge;
+
+  return {
+    spotPerOz,
+    meltValue,
+    premium,
+    premiumPercent: meltValue ? (premium / meltValue) * 100 : 0,
+    tierDiscountPercent,
+    surcharge,
+    unitPrice,
+    quantity,
+    lineTotal: unitPrice * quantity,
+  };
+}
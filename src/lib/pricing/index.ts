@@ -0,0 +1,23 @@
+import { getPricingRules } from "@/database/queries";
+import type { PaymentMethod } from "@/database/schema";
+
+import type { PricingContext } from "./types";
+
+export * from "./compute-price";
+export * from "./types";
+
+/**
+ * How customers pay through Stripe Checkout, and so which surcharge their
+ * price quote carries
+ * Catalog, product and cart prices include it too so they match the quote
+ */
+export const CHECKOUT_PAYMENT_METHOD: PaymentMethod = "card";
+
+/**
+ * Load the current pricing rules into a context for `computePrice`
+ */
+export async function getPricingContext(
+  paymentMethod?: PaymentMethod,
+): Promise<PricingContext> {
+  return { rules: await getPricingRules(), paymentMethod };
+}
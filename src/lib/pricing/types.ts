@@ -0,0 +1,53 @@
+import type {
+  PaymentMethod,
+  PaymentSurcharge,
+  PricingRule,
+  Product,
+  QuantityTier,
+} from "@/database/schema";
+
+/**
+ * Product fields the pricing engine depends on
+ */
+export type PricedProduct = Pick<Product, "id" | "metal" | "fineWeightOz">;
+
+/**
+ * Rule set loaded from the pricing tables
+ */
+export interface PricingRules {
+  rules: PricingRule[];
+  tiers: QuantityTier[];
+  surcharges: PaymentSurcharge[];
+}
+
+/**
+ * Everything besides product, spot and quantity that affects a price
+ */
+export interface PricingContext {
+  rules: PricingRules;
+  /** Surcharge is only applied once a payment method is known */
+  paymentMethod?: PaymentMethod;
+}
+
+/**
+ * Breakdown of a computed price, all amounts in cents
+ */
+export interface PriceBreakdown {
+  /** Spot price per troy ounce */
+  spotPerOz: number;
+  /** Spot × fine weight */
+  meltValue: number;
+  /** Markup charged over melt value, per unit */
+  premium: number;
+  /** Premium expressed as a percentage of melt value */
+  premiumPercent: number;
+  /** Percentage points taken off the premium by a quantity tier */
+  tierDiscountPercent: number;
+  /** Payment method surcharge, per unit */
+  surcharge: number;
+  /** Price the customer pays for one unit */
+  unitPrice: number;
+  quantity: number;
+  /** unitPrice × quantity */
+  lineTotal: number;
+}
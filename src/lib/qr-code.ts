@@ -0,0 +1,14 @@
+import QRCode from "qrcode";
+
+/**
+ * Encode text such as an otpauth:// URI as a QR code at error correction
+ * level M
+ * Returns rows of modules where true is dark, without the quiet zone
+ */
+export function encodeQrCode(text: string): boolean[][] {
+  const { modules } = QRCode.create(text, { errorCorrectionLevel: "M" });
+
+  return Array.from({ length: modules.size }, (_, row) =>
+    Array.from({ length: modules.size }, (_, col) => !!modules.get(row, col)),
+  );
+}
@@ -0,0 +1,59 @@
+import { headers } from "next/headers";
+import { forbidden, redirect } from "next/navigation";
+
+import { auth } from "@/lib/auth";
+
+/**
+ * Resolve the current session in server components, actions and routes
+ */
+export async function getServerSession() {
+  return auth.api.getSession({
+    headers: await headers(),
+  });
+}
+
+/**
+ * Resolve the current session or send the visitor to the login page
+ */
+export async function requireSession(callbackUrl?: string) {
+  const session = await getServerSession();
+
+  if (!session) {
+    redirect(
+      callbackUrl
+        ? `/login?callbackUrl=${encodeURIComponent(callbackUrl)}`
+        : "/login",
+    );
+  }
+
+  return session;
+}
+
+/**
+ * Resolve the current session and require the admin role
+ * Other signed-in users get a 403
+ */
+export async function requireAdmin(callbackUrl?: string) {
+  const session = await requireSession(callbackUrl);
+
+  if (session.user.role !== "admin") {
+    forbidden();
+  }
+
+  return session;
+}
+
+/**
+ * Check a user's current password, for confirming sensitive changes
+ * False when the password is wrong or the account has none
+ */
+export async function verifyPassword(userId: string, password: string) {
+  const context = await auth.$context;
+  const accounts = await context.internalAdapter.findAccounts(userId);
+  const credential = accounts.find(
+    (account) => account.providerId === "credential",
+  );
+
+  if (!credential?.password) return false;
+  return context.password.verify({ hash: credential.password, password });
+}
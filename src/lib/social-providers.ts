@@ -0,0 +1,30 @@
+/**
+ * OAuth identity providers customers can sign in with
+ */
+export const SOCIAL_PROVIDERS = ["google", "apple"] as const;
+
+export type SocialProvider = (typeof SOCIAL_PROVIDERS)[number];
+
+export const SOCIAL_PROVIDER_LABELS: Record<SocialProvider, string> = {
+  google: "Google",
+  apple: "Apple",
+};
+
+/**
+ * Messages for the `error` query Better Auth appends when an OAuth sign-in
+ * or link fails
+ */
+export function describeSocialError(error: string) {
+  switch (error) {
+    case "account_not_linked":
+      return "An account with this email already exists. Sign in to it and connect this provider from Settings.";
+    case "unable_to_link_account":
+      return "This provider couldn't be connected to your account. Sign in with your password and try again from Settings.";
+    case "two_factor_required":
+      return "This account uses two-factor authentication. Sign in with your password and authenticator code instead.";
+    case "account_already_linked_to_different_user":
+      return "That account is already connected to another Emetals user.";
+    default:
+      return "We couldn't complete sign-in with that provider. Please try again.";
+  }
+}
@@ -0,0 +1,111 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+import { getLatestSpotPrices } from "@/database/queries";
+import type { MetalType, SpotPrice } from "@/database/schema";
+
+import {
+  SPOT_PRICE_MAX_AGE_MS,
+  SPOT_PRICE_REFRESH_INTERVAL_MS,
+} from "../constants";
+import { ingestSpotPrices } from "../ingestion";
+
+vi.mock("@/database/queries", () => ({
+  getLatestSpotPrices: vi.fn(),
+  getSpotPriceSeries: vi.fn(),
+}));
+vi.mock("../ingestion", () => ({ ingestSpotPrices: vi.fn() }));
+
+const now = new Date("2025-03-04T12:00:00Z");
+
+function storedPrices(fetchedAt: Date, ask = 250_000): SpotPrice[] {
+  return (["gold", "silver", "platinum", "palladium"] as MetalType[]).map(
+    (metal) => ({ id: `spot-${metal}`, metal, ask, fetchedAt }) as SpotPrice,
+  );
+}
+
+describe("getCurrentSpotPrices", () => {
+  beforeEach(() => {
+    // Refresh attempts are tracked per module instance
+    vi.resetModules();
+    vi.useFakeTimers({ now });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+    vi.clearAllMocks();
+  });
+
+  // Errors must come from the same module instance to pass its instanceof check
+  const load = async () => {
+    const { SpotPriceError, getCurrentSpotPrices } = await import("../index");
+    const outage = new SpotPriceError("Request failed", "http", "gold");
+    return { getCurrentSpotPrices, outage };
+  };
+
+  it("serves fresh stored quotes without calling the provider", async () => {
+    vi.mocked(getLatestSpotPrices).mockResolvedValue(storedPrices(now));
+
+    const { getCurrentSpotPrices } = await load();
+    const current = await getCurrentSpotPrices();
+
+    expect(current.stale).toBe(false);
+    expect(current.prices.gold.ask).toBe(250_000);
+    expect(ingestSpotPrices).not.toHaveBeenCalled();
+  });
+
+  it("replaces stale quotes with a fresh ingestion", async () => {
+    const old = new Date(now.getTime() - SPOT_PRICE_MAX_AGE_MS - 1);
+    vi.mocked(getLatestSpotPrices).mockResolvedValue(storedPrices(old));
+    vi.mocked(ingestSpotPrices).mockResolvedValue(storedPrices(now, 260_000));
+
+    const { getCurrentSpotPrices } = await load();
+    const current = await getCurrentSpotPrices();
+
+    expect(current).toMatchObject({ stale: false });
+    expect(current.prices.gold.ask).toBe(260_000);
+  });
+
+  it("shares one refresh between concurrent readers", async () => {
+    const old = new Date(now.getTime() - SPOT_PRICE_MAX_AGE_MS - 1);
+    vi.mocked(getLatestSpotPrices).mockResolvedValue(storedPrices(old));
+    vi.mocked(ingestSpotPrices).mockResolvedValue(storedPrices(now, 260_000));
+    const { getCurrentSpotPrices } = await load();
+
+    const results = await Promise.all([
+      getCurrentSpotPrices(),
+      getCurrentSpotPrices(),
+    ]);
+
+    expect(results.map((current) => current.stale)).toEqual([false, false]);
+    expect(ingestSpotPrices).toHaveBeenCalledOnce();
+  });
+
+  it("serves stored quotes flagged stale while the provider is down", async () => {
+    const old = new Date(now.getTime() - SPOT_PRICE_MAX_AGE_MS - 1);
+    const { getCurrentSpotPrices, outage } = await load();
+    vi.mocked(getLatestSpotPrices).mockResolvedValue(storedPrices(old));
+    vi.mocked(ingestSpotPrices).mockRejectedValue(outage);
+    vi.spyOn(console, "error").mockImplementation(() => {});
+
+    const current = await getCurrentSpotPrices();
+    await getCurrentSpotPrices();
+
+    expect(current.stale).toBe(true);
+    expect(current.prices.gold.ask).toBe(250_000);
+    expect(ingestSpotPrices).toHaveBeenCalledOnce();
+
+    vi.advanceTimersByTime(SPOT_PRICE_REFRESH_INTERVAL_MS);
+    await getCurrentSpotPrices();
+
+    expect(ingestSpotPrices).toHaveBeenCalledTimes(2);
+  });
+
+  it("fails when the provider is down and nothing usable is stored", async () => {
+    const { getCurrentSpotPrices, outage } = await load();
+    vi.mocked(getLatestSpotPrices).mockResolvedValue([]);
+    vi.mocked(ingestSpotPrices).mockRejectedValue(outage);
+
+    await expect(getCurrentSpotPrices()).rejects.toBe(outage);
+  });
+});
@@ -0,0 +1,162 @@
+import { mkdtemp, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+import { createFixtureProvider, createHttpProvider } from "../providers";
+import { SpotPriceError } from "../types";
+
+describe("getSpotPriceProvider", () => {
+  beforeEach(() => {
+    vi.resetModules();
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  const load = async () => (await import("../provider")).getSpotPriceProvider;
+
+  it("defaults to the fixture outside production", async () => {
+    vi.stubEnv("SPOT_PRICE_PROVIDER", undefined);
+    vi.stubEnv("NODE_ENV", "development");
+
+    expect((await load())().name).toBe("fixture");
+  });
+
+  it("refuses to fall back to the fixture in production", async () => {
+    vi.stubEnv("SPOT_PRICE_PROVIDER", undefined);
+    vi.stubEnv("NODE_ENV", "production");
+
+    expect(await load()).toThrow("SPOT_PRICE_PROVIDER must be set");
+  });
+
+  it("rejects unknown providers", async () => {
+    vi.stubEnv("SPOT_PRICE_PROVIDER", "carrier-pigeon");
+
+    expect(await load()).toThrow(
+      'Unknown SPOT_PRICE_PROVIDER "carrier-pigeon"',
+    );
+  });
+});
+
+describe("createFixtureProvider", () => {
+  let directory: string;
+
+  beforeEach(async () => {
+    directory = await mkdtemp(join(tmpdir(), "spot-fixture-"));
+  });
+
+  afterEach(async () => {
+    await rm(directory, { recursive: true, force: true });
+  });
+
+  it("converts fixture prices to cents", async () => {
+    const timestamp = new Date("2025-03-04T12:00:00Z");
+    const provider = createFixtureProvider({ now: () => timestamp });
+
+    const quote = await provider.getQuote("gold", "USD");
+
+    expect(quote).toMatchObject({ metal: "gold", currency: "USD", timestamp });
+    expect(Number.isInteger(quote.ask)).toBe(true);
+    expect(quote.ask).toBeGreaterThanOrEqual(quote.bid);
+  });
+
+  it("reads the file again after a failed load", async () => {
+    const path = join(directory, "prices.json");
+    const provider = createFixtureProvider({ path });
+
+    await expect(provider.getQuote("silver", "USD")).rejects.toThrow();
+
+    await writeFile(
+      path,
+      JSON.stringify({ USD: { silver: { bid: 31.1, ask: 31.25 } } }),
+    );
+
+    await expect(provider.getQuote("silver", "USD")).resolves.toMatchObject({
+      bid: 3_110,
+      ask: 3_125,
+    });
+  });
+
+  it("raises a SpotPriceError for metals missing from the fixture", async () => {
+    const path = join(directory, "prices.json");
+    await writeFile(path, JSON.stringify({ USD: {} }));
+
+    await expect(
+      createFixtureProvider({ path }).getQuote("platinum", "USD"),
+    ).rejects.toBeInstanceOf(SpotPriceError);
+  });
+});
+
+describe("createHttpProvider", () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("requests the vendor symbol and converts prices to cents", async () => {
+    const fetchMock = vi.fn(async () =>
+      Response.json({ bid: "2411.5", ask: 2412.75, timestamp: 1741089600 }),
+    );
+    vi.stubGlobal("fetch", fetchMock);
+
+    const quote = await createHttpProvider({
+      baseUrl: "https://prices.example.com/",
+      apiKey: "secret",
+    }).getQuote("gold", "USD");
+
+    expect(fetchMock).toHaveBeenCalledWith(
+      "https://prices.example.com/spot/XAU/USD",
+      expect.objectContaining({
+        headers: expect.objectContaining({ Authorization: "Bearer secret" }),
+      }),
+    );
+    expect(quote).toMatchObject({ bid: 241_150, ask: 241_275, source: "http" });
+  });
+
+  it("raises a SpotPriceError when the vendor fails", async () => {
+    vi.stubGlobal(
+      "fetch",
+      vi.fn(async () => new Response("down", { status: 503 })),
+    );
+
+    await expect(
+      createHttpProvider({ baseUrl: "https://prices.example.com" }).getQuote(
+        "gold",
+        "USD",
+      ),
+    ).rejects.toThrow("status 503");
+  });
+
+  it("raises a SpotPriceError when the vendor returns invalid JSON", async () => {
+    vi.stubGlobal(
+      "fetch",
+      vi.fn(async () => new Response("<html>Bad gateway</html>")),
+    );
+
+    await expect(
+      createHttpProvider({ baseUrl: "https://prices.example.com" }).getQuote(
+        "gold",
+        "USD",
+      ),
+    ).rejects.toBeInstanceOf(SpotPriceError);
+  });
+
+  it.each([
+    ["an unparseable timestamp", { bid: 1, ask: 2, timestamp: "n/a" }],
+    ["a numeric string timestamp", { bid: 1, ask: 2, timestamp: "1700000000" }],
+    ["a bid above the ask", { bid: 3, ask: 2, timestamp: 1741089600 }],
+  ])("raises a SpotPriceError for %s", async (_, body) => {
+    vi.stubGlobal(
+      "fetch",
+      vi.fn(async () => Response.json(body)),
+    );
+
+    await expect(
+      createHttpProvider({ baseUrl: "https://prices.example.com" }).getQuote(
+        "gold",
+        "USD",
+      ),
+    ).rejects.toBeInstanceOf(SpotPriceError);
+  });
+});
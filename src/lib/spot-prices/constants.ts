@@ -0,0 +1,15 @@
+/**
+ * Currency all catalog prices are quoted in
+ */
+export const DEFAULT_CURRENCY = "USD";
+
+/**
+ * Stored quotes older than this are refreshed from the provider on read
+ */
+export const SPOT_PRICE_MAX_AGE_MS = 5 * 60 * 1000;
+
+/**
+ * Minimum gap between on-read refresh attempts, so a provider outage costs
+ * one failed request per interval instead of one per page view
+ */
+export const SPOT_PRICE_REFRESH_INTERVAL_MS = 60 * 1000;
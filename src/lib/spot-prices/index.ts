@@ -0,0 +1,130 @@
+import { getLatestSpotPrices, getSpotPriceSeries } from "@/database/queries";
+import { type MetalType, type SpotPrice, metals } from "@/database/schema";
+
+import {
+  DEFAULT_CURRENCY,
+  SPOT_PRICE_MAX_AGE_MS,
+  SPOT_PRICE_REFRESH_INTERVAL_MS,
+} from "./constants";
+import { ingestSpotPrices } from "./ingestion";
+import { type CurrentSpotPrices, SpotPriceError } from "./types";
+
+export * from "./constants";
+export { ingestSpotPrices } from "./ingestion";
+export { getSpotPriceProvider } from "./provider";
+export { getSpotQuotes } from "./quotes";
+export * from "./types";
+
+/**
+ * When each currency last tried an on-read refresh, in epoch milliseconds
+ */
+const lastRefreshAttempt = new Map<string, number>();
+
+/**
+ * Refresh in progress per currency, shared by concurrent readers
+ */
+const pendingRefresh = new Map<string, Promise<SpotPrice[]>>();
+
+function isStale(rows: SpotPrice[]) {
+  return (
+    rows.length < metals.enumValues.length ||
+    rows.some(
+      (row) => Date.now() - row.fetchedAt.getTime() > SPOT_PRICE_MAX_AGE_MS,
+    )
+  );
+}
+
+/**
+ * Ingest fresh quotes at most once per refresh interval, keeping the stored
+ * quotes when the provider fails and they cover every metal
+ */
+async function refreshSpotPrices(
+  currency: string,
+  stored: SpotPrice[],
+): Promise<SpotPrice[]> {
+  const pending = pendingRefresh.get(currency);
+  if (pending) return pending;
+
+  const canServeStored = stored.length === metals.enumValues.length;
+  const lastAttempt = lastRefreshAttempt.get(currency) ?? 0;
+
+  if (
+    canServeStored &&
+    Date.now() - lastAttempt < SPOT_PRICE_REFRESH_INTERVAL_MS
+  ) {
+    return stored;
+  }
+
+  lastRefreshAttempt.set(currency, Date.now());
+  const refresh = ingestSpotPrices(currency)
+    .catch((error) => {
+      if (!canServeStored || !(error instanceof SpotPriceError)) throw error;
+      console.error("Spot price refresh failed, serving stored quotes", error);
+      return stored;
+    })
+    .finally(() => pendingRefresh.delete(currency));
+  pendingRefresh.set(currency, refresh);
+
+  return refresh;
+}
+
+/**
+ * Get the current stored spot quote for every metal
+ * Served from the latest stored quotes so every price shown is on record,
+ * refreshed from the provider when they are stale
+ */
+export async function getCurrentSpotPrices(
+  currency = DEFAULT_CURRENCY,
+): Promise<CurrentSpotPrices> {
+  let latest = await getLatestSpotPrices(currency);
+
+  if (isStale(latest)) {
+    latest = await refreshSpotPrices(currency, latest);
+  }
+
+  return {
+    prices: Object.fromEntries(latest.map((row) => [row.metal, row])) as Record<
+      MetalType,
+      SpotPrice
+    >,
+    stale: isStale(latest),
+  };
+}
+
+/**
+ * Get the current ask price for every metal, in cents per troy ounce
+ */
+export async function getSpotPrices(
+  currency = DEFAULT_CURRENCY,
+): Promise<{ prices: Record<MetalType, number>; stale: boolean }> {
+  const { prices, stale } = await getCurrentSpotPrices(currency);
+  return {
+    prices: Object.fromEntries(
+      Object.values(prices).map((row) => [row.metal, row.ask]),
+    ) as Record<MetalType, number>,
+    stale,
+  };
+}
+
+/**
+ * Point in a spot price series
+ */
+export interface SpotPricePoint {
+  /** Spot price in cents per troy ounce */
+  price: number;
+  /** Start of the period the price was averaged over */
+  timestamp: Date;
+}
+
+/**
+ * Get the recorded spot price series for a metal over the last `days` days
+ * Hourly averages for short ranges, daily averages otherwise
+ */
+export async function getSpotPriceHistory(
+  metal: MetalType,
+  days: number,
+  currency = DEFAULT_CURRENCY,
+): Promise<SpotPricePoint[]> {
+  const since = new Date(Date.now() - days * 24 * 60 * 60 * 1000);
+  return getSpotPriceSeries(metal, currency, since, days <= 2 ? "hour" : "day");
+}
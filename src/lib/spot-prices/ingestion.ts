@@ -0,0 +1,24 @@
+import { insertSpotPrices } from "@/database/queries";
+
+import { getSpotQuotes } from "./quotes";
+
+/**
+ * Fetch a quote for every metal from the configured provider and store it
+ * Every stored row is an auditable record of the spot price we used
+ */
+export async function ingestSpotPrices(currency: string) {
+  const quotes = await getSpotQuotes(currency);
+  const fetchedAt = new Date();
+
+  return insertSpotPrices(
+    quotes.map((quote) => ({
+      metal: quote.metal,
+      currency: quote.currency,
+      bid: quote.bid,
+      ask: quote.ask,
+      source: quote.source,
+      quotedAt: quote.timestamp,
+      fetchedAt,
+    })),
+  );
+}
@@ -0,0 +1,42 @@
+import { createFixtureProvider, createHttpProvider } from "./providers";
+import type { SpotPriceProvider } from "./types";
+
+let provider: SpotPriceProvider | null = null;
+
+/**
+ * Resolve the configured spot price provider
+ * Selected with SPOT_PRICE_PROVIDER ("fixture" or "http"), defaults to
+ * fixture outside production so real orders are never priced from it
+ */
+export function getSpotPriceProvider(): SpotPriceProvider {
+  if (provider) return provider;
+
+  const name =
+    process.env.SPOT_PRICE_PROVIDER ??
+    (process.env.NODE_ENV === "production" ? undefined : "fixture");
+
+  switch (name) {
+    case "http":
+      if (!process.env.SPOT_PRICE_API_URL) {
+        throw new Error(
+          "SPOT_PRICE_API_URL must be set when SPOT_PRICE_PROVIDER is http",
+        );
+      }
+      provider = createHttpProvider({
+        baseUrl: process.env.SPOT_PRICE_API_URL,
+        apiKey: process.env.SPOT_PRICE_API_KEY,
+      });
+      break;
+    case "fixture":
+      provider = createFixtureProvider({
+        path: process.env.SPOT_PRICE_FIXTURE_PATH,
+      });
+      break;
+    case undefined:
+      throw new Error("SPOT_PRICE_PROVIDER must be set in production");
+    default:
+      throw new Error(`Unknown SPOT_PRICE_PROVIDER "${name}"`);
+  }
+
+  return provider;
+}
@@ -0,0 +1,77 @@
+import { readFile } from "node:fs/promises";
+import { z } from "zod";
+
+import type { MetalType } from "@/database/schema";
+
+import defaultFixture from "../fixtures/spot-prices.json";
+import { SpotPriceError, type SpotPriceProvider } from "../types";
+
+const fixtureSchema = z.record(
+  z.string(),
+  z.record(
+    z.string(),
+    z.object({
+      bid: z.number().positive(),
+      ask: z.number().positive(),
+    }),
+  ),
+);
+
+type SpotPriceFixture = z.infer<typeof fixtureSchema>;
+
+interface FixtureProviderOptions {
+  /** JSON file to read quotes from, defaults to the bundled fixture */
+  path?: string;
+  /** Clock used to timestamp quotes */
+  now?: () => Date;
+}
+
+/**
+ * Deterministic provider backed by a JSON fixture
+ * Used for local development and tests, never calls the network
+ */
+export function createFixtureProvider({
+  path,
+  now = () => new Date(),
+}: FixtureProviderOptions = {}): SpotPriceProvider {
+  let fixture: Promise<SpotPriceFixture> | null = null;
+
+  const loadFixture = () => {
+    fixture ??= (
+      path
+        ? readFile(path, "utf8").then((raw) =>
+            fixtureSchema.parse(JSON.parse(raw)),
+          )
+        : Promise.resolve().then(() => fixtureSchema.parse(defaultFixture))
+    ).catch((error) => {
+      // Read again next time rather than failing forever
+      fixture = null;
+      throw error;
+    });
+    return fixture;
+  };
+
+  return {
+    name: "fixture",
+    async getQuote(metal: MetalType, currency: string) {
+      const quote = (await loadFixture())[currency]?.[metal];
+
+      if (!quote) {
+        throw new SpotPriceError(
+          `No fixture quote for ${metal} in ${currency}`,
+          "fixture",
+          metal,
+        );
+      }
+
+      return {
+        metal,
+        currency,
+        bid: Math.round(quote.bid * 100),
+        ask: Math.round(quote.ask * 100),
+        timestamp: now(),
+        source: "fixture",
+      };
+    },
+  };
+}
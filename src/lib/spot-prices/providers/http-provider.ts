@@ -0,0 +1,117 @@
+import { z } from "zod";
+
+import type { MetalType } from "@/database/schema";
+
+import { SpotPriceError, type SpotPriceProvider } from "../types";
+
+/**
+ * ISO 4217 commodity codes used by market data vendors
+ */
+const METAL_SYMBOLS: Record<MetalType, string> = {
+  gold: "XAU",
+  silver: "XAG",
+  platinum: "XPT",
+  palladium: "XPD",
+};
+
+/**
+ * Unix timestamps are accepted in seconds, strings as ISO dates
+ */
+const timestampSchema = z
+  .union([z.number(), z.string()])
+  .transform((value) =>
+    typeof value === "number" ? new Date(value * 1000) : new Date(value),
+  )
+  .refine((date) => !Number.isNaN(date.getTime()), "Invalid timestamp");
+
+const quoteResponseSchema = z
+  .object({
+    bid: z.coerce.number().positive(),
+    ask: z.coerce.number().positive(),
+    timestamp: timestampSchema,
+  })
+  .refine((quote) => quote.bid <= quote.ask, "Bid is above ask");
+
+interface HttpProviderOptions {
+  /** Vendor API base URL */
+  baseUrl: string;
+  /** API key sent as a bearer token */
+  apiKey?: string;
+  /** Request timeout in milliseconds */
+  timeoutMs?: number;
+}
+
+/**
+ * Provider for JSON market data APIs
+ * Expects `GET {baseUrl}/spot/{symbol}/{currency}` to return
+ * `{ bid, ask, timestamp }` with prices per troy ounce in major units
+ */
+export function createHttpProvider({
+  baseUrl,
+  apiKey,
+  timeoutMs = 5000,
+}: HttpProviderOptions): SpotPriceProvider {
+  return {
+    name: "http",
+    async getQuote(metal: MetalType, currency: string) {
+      const url = `${baseUrl.replace(/\/$/, "")}/spot/${METAL_SYMBOLS[metal]}/${currency}`;
+
+      let response: Response;
+      try {
+        response = await fetch(url, {
+          headers: {
+            Accept: "application/json",
+            ...(apiKey && { Authorization: `Bearer ${apiKey}` }),
+          },
+          cache: "no-store",
+          signal: AbortSignal.timeout(timeoutMs),
+        });
+      } catch (error) {
+        throw new SpotPriceError(
+          `Spot price request failed: ${error instanceof Error ? error.message : String(error)}`,
+          "http",
+          metal,
+        );
+      }
+
+      if (!response.ok) {
+        throw new SpotPriceError(
+          `Spot price request failed with status ${response.status}`,
+          "http",
+          metal,
+        );
+      }
+
+      let body: unknown;
+      try {
+        body = await response.json();
+      } catch {
+        throw new SpotPriceError(
+          "Spot price response was not valid JSON",
+          "http",
+          metal,
+        );
+      }
+
+      const parsed = quoteResponseSchema.safeParse(body);
+      if (!parsed.success) {
+        throw new SpotPriceError(
+          "Spot price response was malformed",
+          "http",
+          metal,
+        );
+      }
+
+      const { bid, ask, timestamp } = parsed.data;
+
+      return {
+        metal,
+        currency,
+        bid: Math.round(bid * 100),
+        ask: Math.round(ask * 100),
+        timestamp,
+        source: "http",
+      };
+    },
+  };
+}
@@ -0,0 +1,2 @@
+export { createFixtureProvider } from "./fixture-provider";
+export { createHttpProvider } from "./http-provider";
@@ -0,0 +1,14 @@
+import { metals } from "@/database/schema";
+
+import { getSpotPriceProvider } from "./provider";
+import type { SpotQuote } from "./types";
+
+/**
+ * Fetch a live quote for every metal from the configured provider
+ */
+export async function getSpotQuotes(currency: string): Promise<SpotQuote[]> {
+  const spotProvider = getSpotPriceProvider();
+  return Promise.all(
+    metals.enumValues.map((metal) => spotProvider.getQuote(metal, currency)),
+  );
+}
@@ -0,0 +1,41 @@
+import { DEFAULT_CURRENCY } from "./constants";
+import { ingestSpotPrices } from "./ingestion";
+
+const globalForScheduler = globalThis as unknown as {
+  spotPriceScheduler?: NodeJS.Timeout;
+};
+
+/**
+ * Poll the spot price provider on an interval and store every quote
+ * Interval is SPOT_PRICE_POLL_INTERVAL_SECONDS (default 60, 0 disables)
+ */
+export function startSpotPriceScheduler() {
+  const intervalSeconds = Number(
+    process.env.SPOT_PRICE_POLL_INTERVAL_SECONDS ?? 60,
+  );
+
+  // Survive hot reloads without stacking intervals
+  if (globalForScheduler.spotPriceScheduler || !(intervalSeconds > 0)) {
+    return;
+  }
+
+  let isRunning = false;
+
+  const poll = async () => {
+    if (isRunning) return;
+    isRunning = true;
+    try {
+      await ingestSpotPrices(DEFAULT_CURRENCY);
+    } catch (error) {
+      console.error("Spot price ingestion failed:", error);
+    } finally {
+      isRunning = false;
+    }
+  };
+
+  globalForScheduler.spotPriceScheduler = setInterval(
+    poll,
+    intervalSeconds * 1000,
+  );
+  void poll();
+}
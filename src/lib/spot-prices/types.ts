@@ -0,0 +1,50 @@
+import type { MetalType, SpotPrice } from "@/database/schema";
+
+/**
+ * Spot quote for one metal, amounts in minor units (cents) per troy ounce
+ */
+export interface SpotQuote {
+  metal: MetalType;
+  /** ISO 4217 currency code, e.g. USD */
+  currency: string;
+  /** Price the market buys at */
+  bid: number;
+  /** Price the market sells at, used as the basis for our sell prices */
+  ask: number;
+  /** When the provider observed the quote */
+  timestamp: Date;
+  /** Provider name, recorded for auditing */
+  source: string;
+}
+
+/**
+ * Latest stored spot price for every metal
+ */
+export interface CurrentSpotPrices {
+  prices: Record<MetalType, SpotPrice>;
+  /** Set when the provider could not refresh them and older quotes are served */
+  stale: boolean;
+}
+
+/**
+ * Source of live spot prices
+ * The rest of the app only talks to vendors through this interface
+ */
+export interface SpotPriceProvider {
+  readonly name: string;
+  getQuote(metal: MetalType, currency: string): Promise<SpotQuote>;
+}
+
+/**
+ * Raised when a provider cannot return a usable quote
+ */
+export class SpotPriceError extends Error {
+  constructor(
+    message: string,
+    readonly provider: string,
+    readonly metal: MetalType,
+  ) {
+    super(message);
+    this.name = "SpotPriceError";
+  }
+}
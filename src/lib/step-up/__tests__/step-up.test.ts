@@ -0,0 +1,45 @@
+import { describe, expect, it, vi } from "vitest";
+
+import { STEP_UP_MAX_AGE_MS, isSteppedUp, parseStepUpOrderMinimum } from "..";
+
+vi.mock("@/database/queries", () => ({ countPasskeysForUser: vi.fn() }));
+
+describe("parseStepUpOrderMinimum", () => {
+  it("defaults to $10,000", () => {
+    expect(parseStepUpOrderMinimum()).toBe(1_000_000);
+  });
+
+  it("converts dollars to cents", () => {
+    expect(parseStepUpOrderMinimum("2500.50")).toBe(250_050);
+    expect(parseStepUpOrderMinimum("0")).toBe(0);
+  });
+
+  it.each(["", " ", "10k", "$5000", "-1", "Infinity"])(
+    "rejects %j instead of disabling step-up",
+    (value) => {
+      expect(() => parseStepUpOrderMinimum(value)).toThrow(
+        /STEP_UP_ORDER_MINIMUM must be a dollar amount/,
+      );
+    },
+  );
+});
+
+describe("isSteppedUp", () => {
+  const now = new Date("2026-05-01T12:00:00Z");
+
+  it("accepts a recent check", () => {
+    expect(
+      isSteppedUp({ steppedUpAt: new Date(now.getTime() - 60_000) }, now),
+    ).toBe(true);
+  });
+
+  it("rejects a missing or expired check", () => {
+    expect(isSteppedUp({ steppedUpAt: null }, now)).toBe(false);
+    expect(
+      isSteppedUp(
+        { steppedUpAt: new Date(now.getTime() - STEP_UP_MAX_AGE_MS) },
+        now,
+      ),
+    ).toBe(false);
+  });
+});
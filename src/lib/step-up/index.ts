@@ -0,0 +1,86 @@
+import { countPasskeysForUser } from "@/database/queries";
+
+import { StepUpError, type StepUpMethods } from "./types";
+
+export * from "./types";
+
+/**
+ * How long a passkey or two-factor check covers high-risk actions
+ */
+export const STEP_UP_MAX_AGE_MS = 5 * 60 * 1000;
+
+/**
+ * Dollar amount from STEP_UP_ORDER_MINIMUM in cents
+ * Throws on anything else, since NaN would silently turn step-up off
+ */
+export function parseStepUpOrderMinimum(value = "10000") {
+  const dollars = Number(value);
+
+  if (!value.trim() || !Number.isFinite(dollars) || dollars < 0) {
+    throw new Error(
+      `STEP_UP_ORDER_MINIMUM must be a dollar amount, got "${value}"`,
+    );
+  }
+
+  return Math.round(dollars * 100);
+}
+
+/**
+ * Order total including shipping above which checkout needs a step-up,
+ * in cents (default $10,000)
+ */
+export const STEP_UP_ORDER_MINIMUM = parseStepUpOrderMinimum(
+  process.env.STEP_UP_ORDER_MINIMUM,
+);
+
+/**
+ * Whether the session passed a passkey or two-factor check recently
+ */
+export function isSteppedUp(
+  session: { steppedUpAt?: Date | null },
+  now = new Date(),
+) {
+  return (
+    !!session.steppedUpAt &&
+    now.getTime() - session.steppedUpAt.getTime() < STEP_UP_MAX_AGE_MS
+  );
+}
+
+/**
+ * Step-up methods a user has set up
+ */
+export async function getStepUpMethods(user: {
+  id: string;
+  twoFactorEnabled?: boolean | null;
+}): Promise<StepUpMethods> {
+  return {
+    passkey: (await countPasskeysForUser(user.id)) > 0,
+    totp: user.twoFactorEnabled === true,
+  };
+}
+
+/**
+ * Refuse a high-risk action unless the session stepped up recently
+ * Users without a passkey or two-factor are told to set one up first
+ */
+export async function requireStepUp(
+  session: { steppedUpAt?: Date | null },
+  user: { id: string; twoFactorEnabled?: boolean | null },
+) {
+  if (isSteppedUp(session)) return;
+
+  const methods = await getStepUpMethods(user);
+  if (!methods.passkey && !methods.totp) {
+    throw new StepUpError(
+      "Add a passkey or turn on two-factor authentication in Settings to continue",
+      "no_step_up_method",
+      methods,
+    );
+  }
+
+  throw new StepUpError(
+    "Confirm it's you with your passkey or authenticator app to continue",
+    "step_up_required",
+    methods,
+  );
+}
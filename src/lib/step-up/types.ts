@@ -0,0 +1,23 @@
+/**
+ * Ways a signed-in user can confirm it's really them
+ */
+export interface StepUpMethods {
+  passkey: boolean;
+  totp: boolean;
+}
+
+export type StepUpErrorCode = "step_up_required" | "no_step_up_method";
+
+/**
+ * Raised when a high-risk action needs a recent passkey or two-factor check
+ */
+export class StepUpError extends Error {
+  constructor(
+    message: string,
+    readonly code: StepUpErrorCode,
+    readonly methods: StepUpMethods,
+  ) {
+    super(message);
+    this.name = "StepUpError";
+  }
+}
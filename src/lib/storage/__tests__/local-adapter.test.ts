@@ -0,0 +1,78 @@
+import { mkdtemp, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+
+import { createLocalAdapter } from "../adapters";
+import { StorageError } from "../types";
+
+describe("createLocalAdapter", () => {
+  let directory: string;
+
+  beforeEach(async () => {
+    directory = await mkdtemp(path.join(tmpdir(), "emetals-uploads-"));
+  });
+
+  afterEach(async () => {
+    await rm(directory, { recursive: true, force: true });
+  });
+
+  it("serves stored files from the uploads route", async () => {
+    const storage = createLocalAdapter({ directory });
+    const body = new Uint8Array([1, 2, 3]);
+
+    const stored = await storage.put("products/p1/a.png", body, "image/png");
+
+    expect(stored.url).toBe("/api/uploads/products/p1/a.png");
+    expect(storage.keyFromUrl(stored.url)).toBe("products/p1/a.png");
+    expect(await storage.read!("products/p1/a.png")).toEqual({
+      body,
+      contentType: "image/png",
+    });
+  });
+
+  it("reads missing and deleted files as null", async () => {
+    const storage = createLocalAdapter({ directory });
+    await storage.put("a.jpg", new Uint8Array([1]), "image/jpeg");
+
+    await storage.delete("a.jpg");
+
+    expect(await storage.read!("a.jpg")).toBeNull();
+    expect(await storage.read!("missing.jpg")).toBeNull();
+  });
+
+  it("reads directories and paths through files as null", async () => {
+    const storage = createLocalAdapter({ directory });
+    await storage.put("products/p1/a.png", new Uint8Array([1]), "image/png");
+
+    expect(await storage.read!("products")).toBeNull();
+    expect(await storage.read!("products/p1/a.png/b.png")).toBeNull();
+  });
+
+  it("rejects keys outside the storage directory", async () => {
+    const storage = createLocalAdapter({ directory });
+
+    await expect(storage.read!("../secret.txt")).rejects.toBeInstanceOf(
+      StorageError,
+    );
+    await expect(
+      storage.put("../../escape.png", new Uint8Array([1]), "image/png"),
+    ).rejects.toBeInstanceOf(StorageError);
+  });
+
+  it("uses a configured public URL prefix", async () => {
+    const storage = createLocalAdapter({
+      directory,
+      publicUrl: "https://files.example.com/",
+    });
+
+    const stored = await storage.put(
+      "a.webp",
+      new Uint8Array([1]),
+      "image/webp",
+    );
+
+    expect(stored.url).toBe("https://files.example.com/a.webp");
+    expect(storage.keyFromUrl("/api/uploads/a.webp")).toBeNull();
+  });
+});
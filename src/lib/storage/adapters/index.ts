@@ -0,0 +1,2 @@
+export { createLocalAdapter } from "./local-adapter";
+export { createS3Adapter } from "./s3-adapter";
@@ -0,0 +1,90 @@
+import { mkdir, readFile, rm, writeFile } from "node:fs/promises";
+import path from "node:path";
+
+import { type StorageAdapter, StorageError } from "../types";
+
+interface LocalAdapterOptions {
+  /** Directory files are written to */
+  directory?: string;
+  /** URL prefix the directory is served from */
+  publicUrl?: string;
+}
+
+// Errors meaning nothing is stored under a key: missing, or a directory
+// (or a path through a file) rather than a file
+const NOT_FOUND_CODES = new Set(["ENOENT", "EISDIR", "ENOTDIR"]);
+
+// Served back with the type matching the extension the upload was saved with
+const CONTENT_TYPES: Record<string, string> = {
+  ".jpg": "image/jpeg",
+  ".png": "image/png",
+  ".webp": "image/webp",
+  ".avif": "image/avif",
+};
+
+/**
+ * Adapter writing to the local filesystem
+ * Files are written at runtime, so they're served by the /api/uploads route
+ * rather than from public/, which `next start` only reads at build time
+ */
+export function createLocalAdapter({
+  directory = path.join(process.cwd(), ".uploads"),
+  publicUrl = "/api/uploads",
+}: LocalAdapterOptions = {}): StorageAdapter {
+  const baseUrl = publicUrl.replace(/\/$/, "");
+
+  /**
+   * Resolve a key inside the storage directory, rejecting traversal
+   */
+  const resolvePath = (key: string) => {
+    const resolved = path.resolve(directory, key);
+    if (!resolved.startsWith(path.resolve(directory) + path.sep)) {
+      throw new StorageError(`Invalid storage key "${key}"`, "local");
+    }
+    return resolved;
+  };
+
+  return {
+    name: "local",
+    async put(key, body) {
+      const filePath = resolvePath(key);
+
+      try {
+        await mkdir(path.dirname(filePath), { recursive: true });
+        await writeFile(filePath, body);
+      } catch (error) {
+        throw new StorageError(
+          `Failed to write ${key}: ${error instanceof Error ? error.message : String(error)}`,
+          "local",
+        );
+      }
+
+      return { key, url: `${baseUrl}/${key}` };
+    },
+    async read(key) {
+      let body: Buffer;
+      try {
+        body = await readFile(resolvePath(key));
+      } catch (error) {
+        const { code } = error as NodeJS.ErrnoException;
+        if (code && NOT_FOUND_CODES.has(code)) return null;
+        throw error;
+      }
+
+      return {
+        body: new Uint8Array(body),
+        contentType:
+          CONTENT_TYPES[path.extname(key).toLowerCase()] ??
+          "application/octet-stream",
+      };
+    },
+    async delete(key) {
+      await rm(resolvePath(key), { force: true });
+    },
+    keyFromUrl(url) {
+      return url.startsWith(`${baseUrl}/`)
+        ? url.slice(baseUrl.length + 1)
+        : null;
+    },
+  };
+}
@@ -0,0 +1,179 @@
+import { createHash, createHmac } from "node:crypto";
+
+import { type StorageAdapter, StorageError } from "../types";
+
+interface S3AdapterOptions {
+  /** Service endpoint, e.g. https://s3.us-east-1.amazonaws.com or a MinIO URL */
+  endpoint: string;
+  region: string;
+  bucket: string;
+  accessKeyId: string;
+  secretAccessKey: string;
+  /** URL prefix objects are served from, defaults to {endpoint}/{bucket} */
+  publicUrl?: string;
+  /** Request timeout in milliseconds */
+  timeoutMs?: number;
+}
+
+const sha256Hex = (data: string | Uint8Array) =>
+  createHash("sha256").update(data).digest("hex");
+
+const hmac = (key: string | Buffer, data: string) =>
+  createHmac("sha256", key).update(data).digest();
+
+/**
+ * Percent-encode a key per segment the way SigV4 expects
+ */
+const encodeKey = (key: string) =>
+  key
+    .split("/")
+    .map((segment) =>
+      encodeURIComponent(segment).replace(
+        /[!'()*]/g,
+        (char) => `%${char.charCodeAt(0).toString(16).toUpperCase()}`,
+      ),
+    )
+    .join("/");
+
+/**
+ * AWS Signature V4 `authorization` header for an S3 request
+ * `headers` are the lowercase headers to sign besides host, which is signed
+ * from the URL but left for fetch to send
+ */
+export function signS3Request({
+  method,
+  url,
+  headers,
+  payloadHash,
+  amzDate,
+  region,
+  accessKeyId,
+  secretAccessKey,
+}: {
+  method: string;
+  url: URL;
+  headers: Record<string, string>;
+  payloadHash: string;
+  /** Request time as YYYYMMDD'T'HHMMSS'Z', also sent as x-amz-date */
+  amzDate: string;
+  region: string;
+  accessKeyId: string;
+  secretAccessKey: string;
+}) {
+  const signed: Record<string, string> = { ...headers, host: url.host };
+  const signedHeaders = Object.keys(signed).sort();
+  const dateStamp = amzDate.slice(0, 8);
+
+  const canonicalRequest = [
+    method,
+    url.pathname,
+    "",
+    ...signedHeaders.map((name) => `${name}:${signed[name].trim()}`),
+    "",
+    signedHeaders.join(";"),
+    payloadHash,
+  ].join("\n");
+
+  const scope = `${dateStamp}/${region}/s3/aws4_request`;
+  const stringToSign = [
+    "AWS4-HMAC-SHA256",
+    amzDate,
+    scope,
+    sha256Hex(canonicalRequest),
+  ].join("\n");
+
+  const signingKey = hmac(
+    hmac(hmac(hmac(`AWS4${secretAccessKey}`, dateStamp), region), "s3"),
+    "aws4_request",
+  );
+  const signature = createHmac("sha256", signingKey)
+    .update(stringToSign)
+    .digest("hex");
+
+  return `AWS4-HMAC-SHA256 Credential=${accessKeyId}/${scope}, SignedHeaders=${signedHeaders.join(";")}, Signature=${signature}`;
+}
+
+/**
+ * Adapter for S3 and S3-compatible object stores (MinIO, R2, Spaces)
+ * Signs path-style requests with AWS Signature V4, so no SDK is needed
+ */
+export function createS3Adapter({
+  endpoint,
+  region,
+  bucket,
+  accessKeyId,
+  secretAccessKey,
+  publicUrl,
+  timeoutMs = 10_000,
+}: S3AdapterOptions): StorageAdapter {
+  const baseEndpoint = endpoint.replace(/\/$/, "");
+  const baseUrl = (publicUrl ?? `${baseEndpoint}/${bucket}`).replace(/\/$/, "");
+
+  /**
+   * Send a signed request for an object
+   */
+  const send = async (
+    method: "PUT" | "DELETE",
+    key: string,
+    body?: Uint8Array<ArrayBuffer>,
+    contentType?: string,
+  ) => {
+    const url = new URL(`${baseEndpoint}/${bucket}/${encodeKey(key)}`);
+    const amzDate = new Date().toISOString().replace(/[:-]|\.\d{3}/g, "");
+    const payloadHash = sha256Hex(body ?? "");
+
+    const headers: Record<string, string> = {
+      "x-amz-content-sha256": payloadHash,
+      "x-amz-date": amzDate,
+      ...(contentType && { "content-type": contentType }),
+    };
+    const authorization = signS3Request({
+      method,
+      url,
+      headers,
+      payloadHash,
+      amzDate,
+      region,
+      accessKeyId,
+      secretAccessKey,
+    });
+
+    let response: Response;
+    try {
+      response = await fetch(url, {
+        method,
+        headers: { ...headers, authorization },
+        body,
+        signal: AbortSignal.timeout(timeoutMs),
+      });
+    } catch (error) {
+      throw new StorageError(
+        `S3 ${method} ${key} failed: ${error instanceof Error ? error.message : String(error)}`,
+        "s3",
+      );
+    }
+
+    if (!response.ok && !(method === "DELETE" && response.status === 404)) {
+      throw new StorageError(
+        `S3 ${method} ${key} returned ${response.status}`,
+        "s3",
+      );
+    }
+  };
+
+  return {
+    name: "s3",
+    async put(key, body, contentType) {
+      await send("PUT", key, body, contentType);
+      return { key, url: `${baseUrl}/${encodeKey(key)}` };
+    },
+    async delete(key) {
+      await send("DELETE", key);
+    },
+    keyFromUrl(url) {
+      return url.startsWith(`${baseUrl}/`)
+        ? decodeURIComponent(url.slice(baseUrl.length + 1))
+        : null;
+    },
+  };
+}
@@ -0,0 +1,56 @@
+import { createLocalAdapter, createS3Adapter } from "./adapters";
+import type { StorageAdapter } from "./types";
+
+export * from "./types";
+
+let adapter: StorageAdapter | null = null;
+
+/**
+ * Resolve the configured storage adapter
+ * Selected with STORAGE_DRIVER ("local" or "s3"), defaults to local
+ */
+export function getStorage(): StorageAdapter {
+  if (adapter) return adapter;
+
+  switch (process.env.STORAGE_DRIVER ?? "local") {
+    case "s3": {
+      const {
+        S3_ENDPOINT,
+        S3_REGION,
+        S3_BUCKET,
+        S3_ACCESS_KEY_ID,
+        S3_SECRET_ACCESS_KEY,
+      } = process.env;
+
+      if (
+        !S3_ENDPOINT ||
+        !S3_BUCKET ||
+        !S3_ACCESS_KEY_ID ||
+        !S3_SECRET_ACCESS_KEY
+      ) {
+        throw new Error(
+          "S3_ENDPOINT, S3_BUCKET, S3_ACCESS_KEY_ID and S3_SECRET_ACCESS_KEY must be set when STORAGE_DRIVER is s3",
+        );
+      }
+      adapter = createS3Adapter({
+        endpoint: S3_ENDPOINT,
+        region: S3_REGION ?? "us-east-1",
+        bucket: S3_BUCKET,
+        accessKeyId: S3_ACCESS_KEY_ID,
+        secretAccessKey: S3_SECRET_ACCESS_KEY,
+        publicUrl: process.env.S3_PUBLIC_URL,
+      });
+      break;
+    }
+    case "local":
+      adapter = createLocalAdapter({
+        directory: process.env.STORAGE_LOCAL_DIR,
+        publicUrl: process.env.STORAGE_LOCAL_PUBLIC_URL,
+      });
+      break;
+    default:
+      throw new Error(`Unknown STORAGE_DRIVER "${process.env.STORAGE_DRIVER}"`);
+  }
+
+  return adapter;
+}
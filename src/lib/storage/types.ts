@@ -0,0 +1,49 @@
+/**
+ * Stored file and where browsers can fetch it
+ */
+export interface StoredObject {
+  key: string;
+  url: string;
+}
+
+/**
+ * File contents read back from storage
+ */
+export interface StoredFile {
+  body: Uint8Array<ArrayBuffer>;
+  contentType: string;
+}
+
+/**
+ * Backend that stores uploaded files
+ */
+export interface StorageAdapter {
+  /** Short identifier recorded in logs and errors, e.g. "local" */
+  readonly name: string;
+  put(
+    key: string,
+    body: Uint8Array<ArrayBuffer>,
+    contentType: string,
+  ): Promise<StoredObject>;
+  /**
+   * Read a file back, or null when it doesn't exist
+   * Only for adapters whose files the app serves itself
+   */
+  read?(key: string): Promise<StoredFile | null>;
+  delete(key: string): Promise<void>;
+  /** Key of a URL this adapter produced, or null for foreign URLs */
+  keyFromUrl(url: string): string | null;
+}
+
+/**
+ * Raised when a storage backend fails to read or write a file
+ */
+export class StorageError extends Error {
+  constructor(
+    message: string,
+    readonly adapter: string,
+  ) {
+    super(message);
+    this.name = "StorageError";
+  }
+}
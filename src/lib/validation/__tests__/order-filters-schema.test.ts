@@ -0,0 +1,20 @@
+import { describe, expect, it } from "vitest";
+
+import { orderFiltersSchema } from "../order-filters-schema";
+
+describe("orderFiltersSchema", () => {
+  it("keeps real calendar days", () => {
+    expect(
+      orderFiltersSchema.parse({ from: "2024-02-29", to: "2024-12-31" }),
+    ).toMatchObject({ from: "2024-02-29", to: "2024-12-31" });
+  });
+
+  it.each(["2024-13-45", "2023-02-29", "2024-04-31", "yesterday"])(
+    "drops the impossible date %s",
+    (value) => {
+      expect(
+        orderFiltersSchema.parse({ from: value, to: value }),
+      ).toMatchObject({ from: undefined, to: undefined });
+    },
+  );
+});
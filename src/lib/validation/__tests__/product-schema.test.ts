@@ -0,0 +1,29 @@
+import { describe, expect, it } from "vitest";
+
+import { productStatusChangeSchema } from "../product-schema";
+
+describe("productStatusChangeSchema", () => {
+  it("accepts a selection moving to a product status", () => {
+    expect(
+      productStatusChangeSchema.parse({
+        productIds: ["product-1", "product-2"],
+        status: "archived",
+      }),
+    ).toEqual({ productIds: ["product-1", "product-2"], status: "archived" });
+  });
+
+  it.each([
+    ["an empty selection", { productIds: [], status: "published" }],
+    [
+      "too many products",
+      { productIds: Array.from({ length: 101 }, (_, i) => `p${i}`) },
+    ],
+    ["an unknown status", { productIds: ["product-1"], status: "deleted" }],
+    ["ids that aren't strings", { productIds: [1], status: "draft" }],
+  ])("rejects %s", (_, input) => {
+    expect(
+      productStatusChangeSchema.safeParse({ status: "draft", ...input })
+        .success,
+    ).toBe(false);
+  });
+});
@@ -0,0 +1,20 @@
+import { z } from "zod";
+
+import { MAX_CART_ITEM_QUANTITY } from "@/database/schema";
+
+/**
+ * Cart line validation schema
+ */
+export const cartItemSchema = z.object({
+  productId: z.string().min(1, "Product is required"),
+  quantity: z
+    .number()
+    .int("Quantity must be a whole number")
+    .min(1, "Quantity must be at least 1")
+    .max(MAX_CART_ITEM_QUANTITY, "Quantity is too large"),
+});
+
+/**
+ * Type inference from schemas
+ */
+export type CartItemFormData = z.infer<typeof cartItemSchema>;
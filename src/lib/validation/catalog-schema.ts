@@ -0,0 +1,52 @@
+import { z } from "zod";
+
+import { metals, productForms } from "@/database/schema";
+import { type CatalogSort, SORT_OPTIONS } from "@/lib/catalog";
+
+/**
+ * Comma-separated list param, e.g. `metal=gold,silver`
+ * Unknown values are dropped rather than rejected so stale links still work
+ */
+const listParam = <T extends string>(allowed?: readonly T[]) =>
+  z
+    .string()
+    .optional()
+    .transform((value) =>
+      (value ?? "")
+        .split(",")
+        .map((item) => item.trim())
+        .filter(
+          (item): item is T =>
+            item.length > 0 && (!allowed || allowed.includes(item as T)),
+        ),
+    );
+
+/**
+ * Positive number param, ignored when malformed
+ */
+const weightParam = z.coerce.number().positive().optional().catch(undefined);
+
+/**
+ * Catalog URL search params schema
+ * Keeps filter state in the URL so catalog views are shareable
+ */
+export const catalogSearchParamsSchema = z.object({
+  metal: listParam(metals.enumValues),
+  form: listParam(productForms.enumValues),
+  mint: listParam<string>(),
+  minOz: weightParam,
+  maxOz: weightParam,
+  sort: z
+    .enum(
+      SORT_OPTIONS.map((option) => option.value) as [
+        CatalogSort,
+        ...CatalogSort[],
+      ],
+    )
+    .catch("price-asc"),
+});
+
+/**
+ * Type inference from schemas
+ */
+export type CatalogSearchParams = z.infer<typeof catalogSearchParamsSchema>;
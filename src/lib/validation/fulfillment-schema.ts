@@ -0,0 +1,62 @@
+import { z } from "zod";
+
+/**
+ * Checkout fulfillment validation schema
+ * Address fields are required for delivery, location and slot for pickup
+ */
+export const fulfillmentSchema = z
+  .object({
+    method: z.enum(["delivery", "pickup"]),
+    name: z.string().trim().max(100).optional(),
+    line1: z.string().trim().max(200).optional(),
+    line2: z.string().trim().max(200).optional(),
+    city: z.string().trim().max(100).optional(),
+    region: z.string().trim().max(100).optional(),
+    postalCode: z.string().trim().max(20).optional(),
+    country: z
+      .string()
+      .regex(/^[A-Z]{2}$/, "Please choose a country")
+      .optional(),
+    locationId: z.string().optional(),
+    slotAt: z.iso.datetime().optional(),
+  })
+  .superRefine((data, ctx) => {
+    const required =
+      data.method === "delivery"
+        ? ([
+            ["name", "Full name is required"],
+            ["line1", "Street address is required"],
+            ["city", "City is required"],
+            ["postalCode", "Postal code is required"],
+            ["country", "Please choose a country"],
+          ] as const)
+        : ([
+            ["locationId", "Please choose a pickup location"],
+            ["slotAt", "Please choose a pickup time"],
+          ] as const);
+
+    for (const [field, message] of required) {
+      if (!data[field]) {
+        ctx.addIssue({ code: "custom", path: [field], message });
+      }
+    }
+  });
+
+/**
+ * New delivery address for an order that hasn't shipped
+ * The country stays the one shipping was priced for
+ */
+export const shippingAddressSchema = z.object({
+  name: z.string().trim().min(1, "Full name is required").max(100),
+  line1: z.string().trim().min(1, "Street address is required").max(200),
+  line2: z.string().trim().max(200).optional(),
+  city: z.string().trim().min(1, "City is required").max(100),
+  region: z.string().trim().max(100).optional(),
+  postalCode: z.string().trim().min(1, "Postal code is required").max(20),
+});
+
+/**
+ * Type inference from schemas
+ */
+export type FulfillmentFormData = z.infer<typeof fulfillmentSchema>;
+export type ShippingAddressFormData = z.infer<typeof shippingAddressSchema>;
@@ -0,0 +1,56 @@
+import { z } from "zod";
+
+// A real calendar day: 2024-13-45 or 2024-02-30 don't survive a round trip
+const dateParam = z
+  .string()
+  .regex(/^\d{4}-\d{2}-\d{2}$/)
+  .refine((value) => {
+    const date = new Date(`${value}T00:00Z`);
+    return (
+      !Number.isNaN(date.getTime()) && date.toISOString().startsWith(value)
+    );
+  })
+  .optional()
+  .catch(undefined);
+
+/**
+ * Back office order filters read from search params
+ * Invalid values are dropped rather than rejected so stale links still load
+ */
+export const orderFiltersSchema = z.object({
+  status: z
+    .enum([
+      "pending_payment",
+      "paid",
+      "allocated",
+      "shipped",
+      "ready_for_pickup",
+      "delivered",
+      "collected",
+      "cancelled",
+      "refunded",
+    ])
+    .optional()
+    .catch(undefined),
+  metal: z
+    .enum(["gold", "silver", "platinum", "palladium"])
+    .optional()
+    .catch(undefined),
+  fulfillment: z.enum(["delivery", "pickup"]).optional().catch(undefined),
+  // Inclusive calendar days in UTC
+  from: dateParam,
+  to: dateParam,
+  customer: z
+    .string()
+    .trim()
+    .max(200)
+    .optional()
+    .catch(undefined)
+    .transform((value) => value || undefined),
+  page: z.coerce.number().int().min(1).catch(1),
+});
+
+/**
+ * Type inference from schemas
+ */
+export type OrderFiltersData = z.infer<typeof orderFiltersSchema>;
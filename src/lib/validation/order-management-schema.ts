@@ -0,0 +1,54 @@
+import { z } from "zod";
+
+/**
+ * Manual order status change validation schema
+ */
+export const orderTransitionSchema = z
+  .object({
+    status: z.enum(
+      [
+        "pending_payment",
+        "paid",
+        "allocated",
+        "shipped",
+        "ready_for_pickup",
+        "delivered",
+        "collected",
+        "cancelled",
+        "refunded",
+      ],
+      "Please choose a status",
+    ),
+    reason: z.string().trim().min(1, "Reason is required").max(500),
+    trackingCarrier: z.string().trim().max(100).optional(),
+    trackingNumber: z.string().trim().max(100).optional(),
+  })
+  .refine((data) => data.status !== "shipped" || !!data.trackingNumber, {
+    message: "Tracking number is required to ship",
+    path: ["trackingNumber"],
+  });
+
+/**
+ * Internal order note validation schema
+ */
+export const orderNoteSchema = z.object({
+  body: z.string().trim().min(1, "Note can't be empty").max(2000),
+});
+
+/**
+ * Refund validation schema; the amount is entered in dollars
+ */
+export const refundSchema = z.object({
+  amount: z
+    .number("Amount is required")
+    .positive("Amount must be positive")
+    .multipleOf(0.01, "Use at most two decimal places"),
+  reason: z.string().trim().min(1, "Reason is required").max(500),
+});
+
+/**
+ * Type inference from schemas
+ */
+export type OrderTransitionFormData = z.infer<typeof orderTransitionSchema>;
+export type OrderNoteFormData = z.infer<typeof orderNoteSchema>;
+export type RefundFormData = z.infer<typeof refundSchema>;
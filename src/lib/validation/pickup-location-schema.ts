@@ -0,0 +1,66 @@
+import { z } from "zod";
+
+const timeOfDay = z.string().regex(/^\d{2}:\d{2}$/, "Use HH:MM");
+
+/**
+ * Whether the runtime knows an IANA time zone name
+ */
+function isTimeZone(value: string) {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone: value });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Pickup location validation schema
+ */
+export const pickupLocationSchema = z.object({
+  name: z.string().trim().min(1, "Name is required").max(100),
+  line1: z.string().trim().min(1, "Street address is required").max(200),
+  line2: z.string().trim().max(200).optional(),
+  city: z.string().trim().min(1, "City is required").max(100),
+  region: z.string().trim().max(100).optional(),
+  postalCode: z.string().trim().min(1, "Postal code is required").max(20),
+  country: z.string().regex(/^[A-Z]{2}$/, "Use a two-letter country code"),
+  timeZone: z
+    .string()
+    .trim()
+    .refine(isTimeZone, "Use an IANA time zone, e.g. America/New_York"),
+  slotMinutes: z
+    .number()
+    .int()
+    .min(15, "Appointments must be at least 15 minutes")
+    .max(480, "Appointments can be at most 8 hours"),
+  slotCapacity: z
+    .number()
+    .int()
+    .min(1, "Each appointment must take at least one customer")
+    .max(100, "Capacity is too large"),
+  active: z.boolean(),
+  hours: z.array(
+    z
+      .object({
+        weekday: z.number().int().min(0).max(6),
+        opensAt: timeOfDay,
+        closesAt: timeOfDay,
+      })
+      .refine((hours) => hours.opensAt < hours.closesAt, {
+        message: "Closing time must be after opening time",
+        path: ["closesAt"],
+      }),
+  ),
+  closures: z.array(
+    z.object({
+      date: z.iso.date("Use YYYY-MM-DD"),
+      reason: z.string().trim().max(200).optional(),
+    }),
+  ),
+});
+
+/**
+ * Type inference from schemas
+ */
+export type PickupLocationFormData = z.infer<typeof pickupLocationSchema>;
@@ -0,0 +1,55 @@
+import { z } from "zod";
+
+/**
+ * Product details validation schema
+ */
+export const productSchema = z.object({
+  name: z.string().trim().min(1, "Name is required").max(200),
+  slug: z
+    .string()
+    .trim()
+    .min(1, "Slug is required")
+    .regex(
+      /^[a-z0-9]+(?:-[a-z0-9]+)*$/,
+      "Use lowercase letters, numbers and hyphens",
+    ),
+  sku: z.string().trim().min(1, "SKU is required").max(64),
+  description: z.string().trim().max(5000).optional(),
+  metal: z.enum(["gold", "silver", "platinum", "palladium"]),
+  form: z.enum(["bar", "coin", "round"]),
+  mint: z.string().trim().min(1, "Mint is required").max(100),
+  fineWeightOz: z
+    .number("Fine weight is required")
+    .positive("Fine weight must be positive")
+    .max(1000, "Fine weight is too large"),
+  purity: z
+    .number("Purity is required")
+    .positive("Purity must be positive")
+    .max(1, "Purity is a fraction, e.g. 0.9999"),
+  status: z.enum(["draft", "published", "archived"]),
+});
+
+/**
+ * Uploaded product image validation schema
+ */
+export const productImageFileSchema = z
+  .file()
+  .min(1, "File is empty")
+  .max(5 * 1024 * 1024, "Images must be 5 MB or smaller")
+  .mime(
+    ["image/jpeg", "image/png", "image/webp", "image/avif"],
+    "Use a JPEG, PNG, WebP or AVIF image",
+  );
+
+/**
+ * Bulk status change from the product list, at most a few pages at once
+ */
+export const productStatusChangeSchema = z.object({
+  productIds: z.array(z.string().min(1)).min(1).max(100),
+  status: productSchema.shape.status,
+});
+
+/**
+ * Type inference from schemas
+ */
+export type ProductFormData = z.infer<typeof productSchema>;
@@ -0,0 +1,40 @@
+import { z } from "zod";
+
+/**
+ * Current password, confirming a security change
+ */
+export const passwordConfirmationSchema = z.object({
+  password: z
+    .string()
+    .min(1, "Password is required")
+    .max(128, "Password is too long"),
+});
+
+/**
+ * Six-digit code from an authenticator app
+ */
+export const totpCodeSchema = z.object({
+  code: z
+    .string()
+    .length(6, "Code must be exactly 6 digits")
+    .regex(/^\d+$/, "Code must contain only numbers"),
+});
+
+/**
+ * Second sign-in step: an authenticator or backup code
+ */
+export const twoFactorChallengeSchema = z.object({
+  code: z.string().trim().min(1, "Enter a code"),
+  trustDevice: z.boolean(),
+});
+
+/**
+ * Type inference from schemas
+ */
+export type PasswordConfirmationFormData = z.infer<
+  typeof passwordConfirmationSchema
+>;
+export type TotpCodeFormData = z.infer<typeof totpCodeSchema>;
+export type TwoFactorChallengeFormData = z.infer<
+  typeof twoFactorChallengeSchema
+>;
@@ -0,0 +1,31 @@
+import { z } from "zod";
+
+/**
+ * Webhook endpoint validation schema
+ */
+export const webhookSubscriptionSchema = z.object({
+  url: z.url({
+    protocol: /^https?$/,
+    error: "Enter a full http(s) URL",
+  }),
+  description: z.string().trim().max(200).optional(),
+  eventTypes: z
+    .array(
+      z.enum([
+        "order.created",
+        "order.paid",
+        "order.shipped",
+        "price.updated",
+        "user.registered",
+      ]),
+    )
+    .min(1, "Choose at least one event"),
+  active: z.boolean(),
+});
+
+/**
+ * Type inference from schemas
+ */
+export type WebhookSubscriptionFormData = z.infer<
+  typeof webhookSubscriptionSchema
+>;
@@ -0,0 +1,115 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+import { updateWebhookDelivery } from "@/database/queries";
+import type { WebhookDelivery, WebhookSubscription } from "@/database/schema";
+
+import {
+  WEBHOOK_MAX_ATTEMPTS,
+  attemptWebhookDelivery,
+  getRetryDelayMs,
+} from "../delivery";
+import { verifyWebhookSignature } from "../signing";
+
+vi.mock("@/database/queries", () => ({
+  claimDueWebhookDeliveries: vi.fn(),
+  getWebhookDeliveryById: vi.fn(),
+  insertWebhookDeliveries: vi.fn(),
+  updateWebhookDelivery: vi.fn(),
+}));
+
+const delivery = {
+  id: "delivery-1",
+  eventId: "event-1",
+  eventType: "order.paid",
+  payload: { id: "order-1" },
+  attempts: 0,
+} as unknown as WebhookDelivery;
+
+const subscription = {
+  url: "https://hooks.example.com/emetals",
+  secret: "whsec_test",
+} as WebhookSubscription;
+
+describe("webhook delivery", () => {
+  const fetchMock = vi.fn();
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.stubGlobal("fetch", fetchMock);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  it("retries for about an hour before giving up", () => {
+    vi.spyOn(Math, "random").mockReturnValue(0);
+
+    let total = 0;
+    for (let attempts = 1; attempts < WEBHOOK_MAX_ATTEMPTS; attempts++) {
+      total += getRetryDelayMs(attempts);
+    }
+
+    expect(total).toBe(63.5 * 60 * 1000);
+  });
+
+  it("sends a payload receivers can verify", async () => {
+    fetchMock.mockResolvedValue(new Response("ok"));
+
+    await attemptWebhookDelivery(delivery, subscription);
+
+    const [, init] = fetchMock.mock.calls[0];
+    expect(
+      verifyWebhookSignature(
+        "whsec_test",
+        init.body,
+        init.headers["X-Webhook-Signature"],
+      ),
+    ).toBe(true);
+    expect(updateWebhookDelivery).toHaveBeenCalledWith(
+      "delivery-1",
+      expect.objectContaining({
+        status: "succeeded",
+        responseStatus: 200,
+        responseBody: "ok",
+      }),
+    );
+  });
+
+  it("stops reading a large response once the limit is reached", async () => {
+    let pulls = 0;
+    const endless = new ReadableStream<Uint8Array>({
+      pull(controller) {
+        pulls++;
+        controller.enqueue(new TextEncoder().encode("x".repeat(256)));
+      },
+    });
+    fetchMock.mockResolvedValue(new Response(endless, { status: 500 }));
+
+    await attemptWebhookDelivery(delivery, subscription);
+
+    const [, values] = vi.mocked(updateWebhookDelivery).mock.calls[0];
+    expect(values.responseBody).toHaveLength(1000);
+    expect(values.status).toBe("pending");
+    expect(pulls).toBeLessThan(10);
+  });
+
+  it("marks the delivery failed after the last attempt", async () => {
+    fetchMock.mockRejectedValue(new Error("connect ECONNREFUSED"));
+
+    await attemptWebhookDelivery(
+      { ...delivery, attempts: WEBHOOK_MAX_ATTEMPTS - 1 },
+      subscription,
+    );
+
+    expect(updateWebhookDelivery).toHaveBeenCalledWith(
+      "delivery-1",
+      expect.objectContaining({
+        status: "failed",
+        nextAttemptAt: null,
+        responseBody: "connect ECONNREFUSED",
+      }),
+    );
+  });
+});
@@ -0,0 +1,65 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+
+import {
+  createWebhookSecret,
+  signWebhookPayload,
+  verifyWebhookSignature,
+} from "../signing";
+
+const secret = "whsec_test";
+const body = JSON.stringify({ type: "order.paid", data: { id: "order-1" } });
+
+describe("webhook signing", () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("verifies a payload it signed", () => {
+    expect(
+      verifyWebhookSignature(secret, body, signWebhookPayload(secret, body)),
+    ).toBe(true);
+  });
+
+  it("signs the timestamp with the body", () => {
+    const header = signWebhookPayload(secret, body, 1_700_000_000);
+
+    expect(header).toMatch(/^t=1700000000,v1=[0-9a-f]{64}$/);
+    expect(signWebhookPayload(secret, body, 1_700_000_001)).not.toBe(header);
+  });
+
+  it("rejects a different secret or a modified body", () => {
+    const header = signWebhookPayload(secret, body);
+
+    expect(verifyWebhookSignature("whsec_other", body, header)).toBe(false);
+    expect(verifyWebhookSignature(secret, `${body} `, header)).toBe(false);
+  });
+
+  it("rejects signatures outside the tolerance", () => {
+    vi.useFakeTimers({ now: new Date("2026-01-01T00:00:00Z") });
+    const header = signWebhookPayload(secret, body);
+
+    vi.advanceTimersByTime(301_000);
+
+    expect(verifyWebhookSignature(secret, body, header)).toBe(false);
+    expect(verifyWebhookSignature(secret, body, header, 600)).toBe(true);
+  });
+
+  it("rejects malformed headers", () => {
+    expect(verifyWebhookSignature(secret, body, "")).toBe(false);
+    expect(verifyWebhookSignature(secret, body, "t=abc,v1=00")).toBe(false);
+    expect(
+      verifyWebhookSignature(
+        secret,
+        body,
+        `t=${Math.floor(Date.now() / 1000)}`,
+      ),
+    ).toBe(false);
+  });
+
+  it("creates distinct prefixed secrets", () => {
+    const first = createWebhookSecret();
+
+    expect(first).toMatch(/^whsec_[\w-]{32}$/);
+    expect(createWebhookSecret()).not.toBe(first);
+  });
+});
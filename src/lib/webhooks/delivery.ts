@@ -0,0 +1,163 @@
+import {
+  claimDueWebhookDeliveries,
+  getWebhookDeliveryById,
+  insertWebhookDeliveries,
+  updateWebhookDelivery,
+} from "@/database/queries";
+import type { WebhookDelivery, WebhookSubscription } from "@/database/schema";
+
+import { WEBHOOK_SIGNATURE_HEADER, signWebhookPayload } from "./signing";
+
+// Attempts before a delivery is marked failed; about an hour of retries
+export const WEBHOOK_MAX_ATTEMPTS = 8;
+const RETRY_BASE_DELAY_MS = 30 * 1000;
+const RETRY_MAX_DELAY_MS = 6 * 60 * 60 * 1000;
+
+const REQUEST_TIMEOUT_MS = 10 * 1000;
+// Longer than a request can take, so a claim never lapses mid-attempt
+const CLAIM_LEASE_MS = 5 * 60 * 1000;
+const DELIVERY_BATCH_SIZE = 20;
+const MAX_RESPONSE_BODY_LENGTH = 1000;
+
+/**
+ * Delay before retry number `attempts`: 30s, 1m, 2m, 4m... with 10% jitter
+ * so endpoints recovering from an outage aren't hit all at once
+ */
+export function getRetryDelayMs(attempts: number) {
+  const delay = Math.min(
+    RETRY_BASE_DELAY_MS * 2 ** (attempts - 1),
+    RETRY_MAX_DELAY_MS,
+  );
+  return Math.round(delay * (1 + Math.random() * 0.1));
+}
+
+/**
+ * Read at most `limit` characters of a response body, cancelling the rest
+ * so a huge or endless response can't tie up the sender
+ */
+async function readResponseText(response: Response, limit: number) {
+  if (!response.body) return "";
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let text = "";
+
+  while (text.length < limit) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    text += decoder.decode(value, { stream: true });
+  }
+
+  await reader.cancel().catch(() => {});
+  return text.slice(0, limit);
+}
+
+/**
+ * POST a delivery's payload to its endpoint and record the outcome
+ * Failures are rescheduled with backoff until attempts run out
+ */
+export async function attemptWebhookDelivery(
+  delivery: WebhookDelivery,
+  subscription: WebhookSubscription,
+) {
+  const body = JSON.stringify(delivery.payload);
+  const attempts = delivery.attempts + 1;
+  let responseStatus: number | null = null;
+  let responseBody: string;
+
+  try {
+    const response = await fetch(subscription.url, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        "User-Agent": "eMetals-Webhooks/1.0",
+        "X-Webhook-Id": delivery.eventId,
+        "X-Webhook-Event": delivery.eventType,
+        "X-Webhook-Delivery": delivery.id,
+        [WEBHOOK_SIGNATURE_HEADER]: signWebhookPayload(
+          subscription.secret,
+          body,
+        ),
+      },
+      body,
+      redirect: "manual",
+      signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+    });
+
+    responseStatus = response.status;
+    responseBody = await readResponseText(response, MAX_RESPONSE_BODY_LENGTH);
+  } catch (error) {
+    responseBody = error instanceof Error ? error.message : "Request failed";
+  }
+
+  const succeeded =
+    responseStatus !== null && responseStatus >= 200 && responseStatus < 300;
+  const exhausted = !succeeded && attempts >= WEBHOOK_MAX_ATTEMPTS;
+
+  return updateWebhookDelivery(delivery.id, {
+    status: succeeded ? "succeeded" : exhausted ? "failed" : "pending",
+    attempts,
+    lastAttemptAt: new Date(),
+    nextAttemptAt:
+      succeeded || exhausted
+        ? null
+        : new Date(Date.now() + getRetryDelayMs(attempts)),
+    responseStatus,
+    responseBody,
+  });
+}
+
+/**
+ * Send every delivery that is due, a batch at a time
+ * Inactive subscriptions keep their deliveries queued until re-enabled
+ */
+export async function processDueWebhookDeliveries() {
+  let processed = 0;
+
+  while (true) {
+    const batch = await claimDueWebhookDeliveries(
+      DELIVERY_BATCH_SIZE,
+      CLAIM_LEASE_MS,
+    );
+    if (!batch.length) break;
+
+    await Promise.all(
+      batch.map(async ({ subscription, ...delivery }) => {
+        if (!subscription.active) {
+          await updateWebhookDelivery(delivery.id, {
+            nextAttemptAt: new Date(Date.now() + CLAIM_LEASE_MS),
+          });
+          return;
+        }
+
+        await attemptWebhookDelivery(delivery, subscription);
+        processed++;
+      }),
+    );
+
+    if (batch.length < DELIVERY_BATCH_SIZE) break;
+  }
+
+  return processed;
+}
+
+/**
+ * Queue a fresh copy of a past delivery, keeping the original in the log
+ * The event id is unchanged so receivers can recognise the redelivery
+ */
+export async function replayWebhookDelivery(deliveryId: string) {
+  const original = await getWebhookDeliveryById(deliveryId);
+  if (!original) return null;
+
+  const [replay] = await insertWebhookDeliveries([
+    {
+      subscriptionId: original.subscriptionId,
+      eventId: original.eventId,
+      eventType: original.eventType,
+      payload: original.payload,
+      replayOfId: original.id,
+    },
+  ]);
+
+  return replay;
+}
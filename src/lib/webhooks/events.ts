@@ -0,0 +1,112 @@
+import {
+  insertWebhookDeliveries,
+  listSubscriptionsForEvent,
+} from "@/database/queries";
+import type { OrderEventPayload, WebhookEventType } from "@/database/schema";
+import type { OutboxHandler } from "@/lib/outbox/types";
+
+import type { WebhookEvent, WebhookEventData } from "./types";
+
+/**
+ * Queue an event for every active subscription listening for it
+ * Delivery happens in the background; this only writes the queue.
+ * Queuing the same event id again is a no-op
+ */
+export async function enqueueWebhookEvent<T extends WebhookEventType>(
+  event: WebhookEvent<T>,
+) {
+  const subscriptions = await listSubscriptionsForEvent(event.type);
+
+  return insertWebhookDeliveries(
+    subscriptions.map((subscription) => ({
+      subscriptionId: subscription.id,
+      eventId: event.id,
+      eventType: event.type,
+      payload: { ...event },
+    })),
+  );
+}
+
+/**
+ * Build the webhook event for a domain event, keeping its id
+ */
+function toWebhookEvent<T extends WebhookEventType>(
+  id: string,
+  type: T,
+  createdAt: Date,
+  data: WebhookEventData[T],
+): WebhookEvent<T> {
+  return { id, type, createdAt: createdAt.toISOString(), data };
+}
+
+/**
+ * Order fields sent to subscribers, leaving out internal change details
+ */
+function orderData(payload: OrderEventPayload): OrderEventPayload {
+  return {
+    orderId: payload.orderId,
+    number: payload.number,
+    userId: payload.userId,
+    status: payload.status,
+    fulfillmentMethod: payload.fulfillmentMethod,
+    currency: payload.currency,
+    subtotal: payload.subtotal,
+    shipping: payload.shipping,
+    total: payload.total,
+  };
+}
+
+/**
+ * Outbox handler turning domain events into webhook deliveries
+ */
+export const webhookOutboxHandler: OutboxHandler = {
+  name: "webhooks",
+  handles: [
+    "order.created",
+    "order.status_changed",
+    "price.updated",
+    "user.registered",
+  ],
+  async handle(event, { idempotencyKey }) {
+    switch (event.type) {
+      case "order.created":
+        await enqueueWebhookEvent(
+          toWebhookEvent(
+            idempotencyKey,
+            "order.created",
+            event.createdAt,
+            orderData(event.payload),
+          ),
+        );
+        return;
+
+      // Subscribers only hear about the milestones they can act on
+      case "order.status_changed": {
+        const { status } = event.payload;
+        if (status !== "paid" && status !== "shipped") return;
+
+        await enqueueWebhookEvent(
+          toWebhookEvent(
+            idempotencyKey,
+            status === "paid" ? "order.paid" : "order.shipped",
+            event.createdAt,
+            orderData(event.payload),
+          ),
+        );
+        return;
+      }
+
+      case "price.updated":
+      case "user.registered":
+        await enqueueWebhookEvent(
+          toWebhookEvent(
+            idempotencyKey,
+            event.type,
+            event.createdAt,
+            event.payload,
+          ),
+        );
+        return;
+    }
+  },
+};
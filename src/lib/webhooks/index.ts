@@ -0,0 +1,14 @@
+export {
+  WEBHOOK_MAX_ATTEMPTS,
+  attemptWebhookDelivery,
+  processDueWebhookDeliveries,
+  replayWebhookDelivery,
+} from "./delivery";
+export { enqueueWebhookEvent, webhookOutboxHandler } from "./events";
+export {
+  WEBHOOK_SIGNATURE_HEADER,
+  createWebhookSecret,
+  signWebhookPayload,
+  verifyWebhookSignature,
+} from "./signing";
+export * from "./types";
@@ -0,0 +1,40 @@
+import { processDueWebhookDeliveries } from "./delivery";
+
+const globalForScheduler = globalThis as unknown as {
+  webhookScheduler?: NodeJS.Timeout;
+};
+
+/**
+ * Send queued webhook deliveries on an interval
+ * Interval is WEBHOOK_DELIVERY_INTERVAL_SECONDS (default 10, 0 disables)
+ */
+export function startWebhookScheduler() {
+  const intervalSeconds = Number(
+    process.env.WEBHOOK_DELIVERY_INTERVAL_SECONDS ?? 10,
+  );
+
+  // Survive hot reloads without stacking intervals
+  if (globalForScheduler.webhookScheduler || !(intervalSeconds > 0)) {
+    return;
+  }
+
+  let isRunning = false;
+
+  const poll = async () => {
+    if (isRunning) return;
+    isRunning = true;
+    try {
+      await processDueWebhookDeliveries();
+    } catch (error) {
+      console.error("Webhook delivery failed:", error);
+    } finally {
+      isRunning = false;
+    }
+  };
+
+  globalForScheduler.webhookScheduler = setInterval(
+    poll,
+    intervalSeconds * 1000,
+  );
+  void poll();
+}
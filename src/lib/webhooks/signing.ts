@@ -0,0 +1,60 @@
+import { createHmac, randomBytes, timingSafeEqual } from "node:crypto";
+
+export const WEBHOOK_SIGNATURE_HEADER = "X-Webhook-Signature";
+
+/**
+ * New random signing secret for a subscription
+ */
+export function createWebhookSecret() {
+  return `whsec_${randomBytes(24).toString("base64url")}`;
+}
+
+/**
+ * Signature header for a payload: `t=<unix seconds>,v1=<hex HMAC>`
+ * The HMAC-SHA256 covers `<t>.<body>` so old payloads can't be replayed
+ * with a fresh timestamp
+ */
+export function signWebhookPayload(
+  secret: string,
+  body: string,
+  timestamp = Math.floor(Date.now() / 1000),
+) {
+  const signature = createHmac("sha256", secret)
+    .update(`${timestamp}.${body}`)
+    .digest("hex");
+
+  return `t=${timestamp},v1=${signature}`;
+}
+
+/**
+ * Check a signature header, as a receiver would
+ * Rejects signatures older than `toleranceSeconds`
+ */
+export function verifyWebhookSignature(
+  secret: string,
+  body: string,
+  header: string,
+  toleranceSeconds = 300,
+) {
+  const parts = Object.fromEntries(
+    header.split(",").map((part) => part.split("=", 2) as [string, string]),
+  );
+  const timestamp = Number(parts.t);
+
+  if (
+    !parts.v1 ||
+    !Number.isInteger(timestamp) ||
+    Math.abs(Date.now() / 1000 - timestamp) > toleranceSeconds
+  ) {
+    return false;
+  }
+
+  const expected = Buffer.from(
+    signWebhookPayload(secret, body, timestamp).split("v1=")[1],
+  );
+  const received = Buffer.from(parts.v1);
+
+  return (
+    expected.length === received.length && timingSafeEqual(expected, received)
+  );
+}
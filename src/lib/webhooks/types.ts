@@ -0,0 +1,34 @@
+import type {
+  DomainEventPayloads,
+  OrderEventPayload,
+  WebhookEventType,
+} from "@/database/schema";
+
+export const WEBHOOK_EVENT_LABELS: Record<WebhookEventType, string> = {
+  "order.created": "Order created",
+  "order.paid": "Order paid",
+  "order.shipped": "Order shipped",
+  "price.updated": "Spot prices updated",
+  "user.registered": "User registered",
+};
+
+/**
+ * Data carried by each event type
+ */
+export interface WebhookEventData {
+  "order.created": OrderEventPayload;
+  "order.paid": OrderEventPayload;
+  "order.shipped": OrderEventPayload;
+  "price.updated": DomainEventPayloads["price.updated"];
+  "user.registered": DomainEventPayloads["user.registered"];
+}
+
+/**
+ * JSON body posted to subscribers
+ */
+export interface WebhookEvent<T extends WebhookEventType = WebhookEventType> {
+  id: string;
+  type: T;
+  createdAt: string;
+  data: WebhookEventData[T];
+}
@@ -9,6 +9,8 @@ const publicRoutes = [
   "/login",
   "/forgot-password",
   "/reset-password",
+  "/products",
+  "/cart",
   "/about",
   "/contact",
   "/privacy",
@@ -23,7 +25,13 @@ const authRoutes = [
   "/verify-email",
 ];
 
-const protectedRoutes = ["/dashboard", "/profile", "/settings", "/admin"];
+const protectedRoutes = [
+  "/dashboard",
+  "/profile",
+  "/settings",
+  "/checkout",
+  "/admin",
+];
 
 const adminRoutes = ["/admin"];
 
@@ -71,13 +79,8 @@ export default async function middleware(request: NextRequest) {
     return NextResponse.redirect(loginUrl);
   }
 
-  // For admin routes, we might want additional checks
-  // Note: This only checks for session existence, not user roles
-  // You should validate admin permissions on the server side
-  if (isAuthenticated && isAdminRoute) {
-    // You could add additional checks here if needed
-    // For now, we'll let it pass and handle role validation server-side
-  }
+  // Admin routes only need a session here; the /admin layout and every
+  // admin action check the role server-side and answer non-admins with 403
 
   return NextResponse.next();
 }
@@ -0,0 +1,61 @@
+import { create } from "zustand";
+
+import {
+  addToCartAction,
+  getCartAction,
+  removeFromCartAction,
+  updateCartItemAction,
+} from "@/lib/cart/actions";
+import type { CartActionResult, PricedCart } from "@/lib/cart/types";
+
+interface CartStore {
+  /** Last priced cart returned by the server, null until loaded */
+  cart: PricedCart | null;
+  isLoading: boolean;
+  error: string | null;
+  /** Replace the cart with one priced on the server */
+  setCart: (cart: PricedCart) => void;
+  /** Re-fetch and re-price the cart */
+  refresh: () => Promise<void>;
+  addItem: (productId: string, quantity: number) => Promise<void>;
+  updateQuantity: (productId: string, quantity: number) => Promise<void>;
+  removeItem: (productId: string) => Promise<void>;
+}
+
+/**
+ * Client cart state
+ * Every mutation round-trips through a server action, which returns the
+ * cart re-priced from the pricing engine, so the client never computes prices
+ */
+export const useCartStore = create<CartStore>()((set) => {
+  const run = async (action: () => Promise<CartActionResult>) => {
+    set({ isLoading: true, error: null });
+    try {
+      const result = await action();
+      if ("error" in result) {
+        set({ isLoading: false, error: result.error });
+      } else {
+        set({ cart: result, isLoading: false });
+      }
+    } catch (error) {
+      set({
+        isLoading: false,
+        error:
+          error instanceof Error ? error.message : "Failed to update your cart",
+      });
+    }
+  };
+
+  return {
+    cart: null,
+    isLoading: false,
+    error: null,
+    setCart: (cart) => set({ cart }),
+    refresh: () => run(getCartAction),
+    addItem: (productId, quantity) =>
+      run(() => addToCartAction(productId, quantity)),
+    updateQuantity: (productId, quantity) =>
+      run(() => updateCartItemAction(productId, quantity)),
+    removeItem: (productId) => run(() => removeFromCartAction(productId)),
+  };
+});